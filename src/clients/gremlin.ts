@@ -1,16 +1,37 @@
 import * as gremlinApi from 'gremlin';
+import { Agent } from 'https';
+import { buildTraversal, parseGremlin, ParsedTraversal, validateBindings } from '../utils/gremlin-parser.js';
+import { QueryTimeoutOptions, runWithTimeout } from '../utils/timeout.js';
+import { PasswordSource, refreshAfterAuthFailure } from '../utils/credentials.js';
+import { TlsConfig, tlsConnectOptions } from '../utils/tls.js';
 
 export interface GremlinConfig {
   url: string;
   username: string;
   password: string;
+  /** Where the password is read from again when the server rejects it */
+  passwordSource?: PasswordSource;
   traversalSource: string;
+  /** TLS settings of `wss://` connections */
+  tls?: TlsConfig;
 }
 
 const gremlin = (gremlinApi as any).default || gremlinApi;
 
+/**
+ * Whether a value is an instance of a driver class, which may be missing from
+ * older driver versions
+ */
+function isInstance(value: any, type: any): boolean {
+  return typeof type === 'function' && value instanceof type;
+}
+
 export class GremlinClient {
   private client: any = null;
+  /** Password the current connection was opened with */
+  private clientPassword: string | null = null;
+  /** Pending reconnection after the password changed */
+  private reopening: Promise<void> | null = null;
   private connected: boolean = false;
   private connectionError: string | null = null;
 
@@ -21,87 +42,141 @@ export class GremlinClient {
       console.error('Initializing connection to Gremlin endpoint...');
       console.error(`URL: ${this.config.url}, TraversalSource: ${this.config.traversalSource}`);
       
-      const url = this.config.url;
-      if (!url.startsWith('ws://') && !url.startsWith('wss://')) {
-        console.error('Warning: Gremlin URL should typically start with ws:// or wss:// for WebSocket connections');
-        console.error('Current URL:', url);
+      try {
+        await this.openConnection();
+      } catch (error: any) {
+        if (!await refreshAfterAuthFailure(this.config, error)) {
+          throw error;
+        }
+        await this.openConnection();
       }
       
-      const options: any = {
-        traversalSource: this.config.traversalSource
-      };
-      
-      if (this.config.username && this.config.password) {
-        if (gremlin.driver?.auth?.PlainTextSaslAuthenticator) {
-          options.authenticator = new gremlin.driver.auth.PlainTextSaslAuthenticator(
-            this.config.username,
-            this.config.password
-          );
-          console.error('Using driver.auth.PlainTextSaslAuthenticator for authentication');
-        } else {
-          options.username = this.config.username;
-          options.password = this.config.password;
-          console.error('Using basic username/password for authentication');
-        }
+      this.connected = true;
+      this.connectionError = null;
+      return true;
+    } catch (error: any) {
+      const errorMsg = error.message || 'Unknown error';
+      this.connectionError = errorMsg;
+      console.error('Failed to initialize Gremlin connection:', errorMsg);
+      this.connected = false;
+      return false;
+    }
+  }
+
+  /**
+   * Opens a connection with the current credentials and tests it with a
+   * query, replacing the previous connection
+   *
+   * @throws Error if no connection approach succeeds
+   */
+  private async openConnection(): Promise<void> {
+    const previous = this.client;
+    const password = this.config.password;
+    const url = this.config.url;
+    if (!url.startsWith('ws://') && !url.startsWith('wss://')) {
+      console.error('Warning: Gremlin URL should typically start with ws:// or wss:// for WebSocket connections');
+      console.error('Current URL:', url);
+    }
+    
+    const options: any = {
+      traversalSource: this.config.traversalSource
+    };
+    
+    if (this.config.tls) {
+      // The driver passes no client key or server name to the WebSocket, but an agent carries all TLS options
+      options.agent = new Agent(tlsConnectOptions(this.config.tls));
+    }
+    
+    if (this.config.username && this.config.password) {
+      if (gremlin.driver?.auth?.PlainTextSaslAuthenticator) {
+        options.authenticator = new gremlin.driver.auth.PlainTextSaslAuthenticator(
+          this.config.username,
+          this.config.password
+        );
+        console.error('Using driver.auth.PlainTextSaslAuthenticator for authentication');
       } else {
-        console.error('No Gremlin credentials provided, attempting connection without authentication');
+        options.username = this.config.username;
+        options.password = this.config.password;
+        console.error('Using basic username/password for authentication');
       }
+    } else {
+      console.error('No Gremlin credentials provided, attempting connection without authentication');
+    }
+    
+    // Standard approach with structure.Graph
+    if (gremlin.structure?.Graph) {
+      console.error('Using structure.Graph approach');
       
-      // Standard approach with structure.Graph
-      if (gremlin.structure?.Graph) {
-        console.error('Using structure.Graph approach');
-        
-        const graph = new gremlin.structure.Graph();
-        const connection = new gremlin.driver.DriverRemoteConnection(url, options);
-        const g = graph.traversal().withRemote(connection);
+      const graph = new gremlin.structure.Graph();
+      const connection = new gremlin.driver.DriverRemoteConnection(url, options);
+      const g = graph.traversal().withRemote(connection);
+      
+      console.error('Testing connection with a simple query...');
+      let result;
+      try {
+        result = await g.V().limit(1).count().next();
+      } catch (error) {
+        await connection.close().catch(() => undefined);
+        throw error;
+      }
+      console.error('Connection test successful, result:', result.value);
+      
+      this.client = {
+        connection, graph, g,
+        close: async () => {
+          try { await connection.close(); } 
+          catch (e) { console.error('Error closing Gremlin connection:', e); }
+        }
+      };
+      
+      this.clientPassword = password;
+      await previous?.close();
+      console.error('Successfully initialized Gremlin connection using structure.Graph approach');
+      return;
+    }
+    
+    // Fallback: Try direct client approach if available
+    if (typeof gremlin.Client === 'function') {
+      try {
+        console.error('Falling back to direct Client approach');
+        const client = new gremlin.Client(url, options);
         
-        console.error('Testing connection with a simple query...');
-        const result = await g.V().limit(1).count().next();
-        console.error('Connection test successful, result:', result.value);
+        const testResult = await client.submit('g.V().limit(1).count()');
+        const count = await testResult.all();
+        console.error('Connection test successful with direct client, result:', count);
         
         this.client = {
-          connection, graph, g,
-          close: async () => {
-            try { await connection.close(); } 
-            catch (e) { console.error('Error closing Gremlin connection:', e); }
-          }
+          _client: client,
+          close: async () => { await client.close(); }
         };
         
-        this.connected = true;
-        console.error('Successfully initialized Gremlin connection using structure.Graph approach');
-        return true;
+        this.clientPassword = password;
+        await previous?.close();
+        console.error('Successfully initialized Gremlin client using fallback approach');
+        return;
+      } catch (clientErr) {
+        console.error('Error with direct client approach:', clientErr);
       }
-      
-      // Fallback: Try direct client approach if available
-      if (typeof gremlin.Client === 'function') {
-        try {
-          console.error('Falling back to direct Client approach');
-          const client = new gremlin.Client(url, options);
-          
-          const testResult = await client.submit('g.V().limit(1).count()');
-          const count = await testResult.all();
-          console.error('Connection test successful with direct client, result:', count);
-          
-          this.client = {
-            _client: client,
-            close: async () => { await client.close(); }
-          };
-          
-          this.connected = true;
-          console.error('Successfully initialized Gremlin client using fallback approach');
-          return true;
-        } catch (clientErr) {
-          console.error('Error with direct client approach:', clientErr);
-        }
-      }
-      
-      throw new Error(`Could not establish connection to Gremlin server at ${url}. Please verify the server is running and the URL is correct.`);
-      
+    }
+    
+    throw new Error(`Could not establish connection to Gremlin server at ${url}. Please verify the server is running and the URL is correct.`);
+  }
+
+  /**
+   * Checks that the endpoint still answers. A failure marks the client as
+   * disconnected, so the next `connect()` opens a new connection.
+   * 
+   * @returns Whether the endpoint answered within the timeout
+   */
+  async ping(timeoutMs: number): Promise<boolean> {
+    try {
+      await this.executeQuery('g.V().limit(1).count()', {}, { timeoutMs });
+      this.connectionError = null;
+      return true;
     } catch (error: any) {
-      const errorMsg = error.message || 'Unknown error';
-      this.connectionError = errorMsg;
-      console.error('Failed to initialize Gremlin connection:', errorMsg);
+      this.connectionError = error.message || 'Unknown error';
       this.connected = false;
+      console.error('Gremlin health check failed:', this.connectionError);
       return false;
     }
   }
@@ -114,63 +189,321 @@ export class GremlinClient {
     return this.connectionError;
   }
 
-  async executeQuery(query: string, parameters: Record<string, any> = {}): Promise<any[]> {
+  /**
+   * Runs a Gremlin traversal
+   * 
+   * @param options.timeoutMs Sent as the request's `evaluationTimeout`, so the server stops the traversal
+   * @param options.signal Rejects the pending query when aborted; the server stops it at the evaluation timeout
+   */
+  async executeQuery(
+    query: string,
+    parameters: Record<string, any> = {},
+    options: QueryTimeoutOptions = {}
+  ): Promise<any[]> {
+    const parsed = this.parseQuery(query, parameters);
+    const result = await this.withCredentialRefresh(() => this.runTraversal(parsed, query, parameters, options));
+    return this.convertResults(result);
+  }
+
+  /**
+   * Runs a Gremlin traversal with the `profile()` step appended
+   * 
+   * @returns The traversal metrics, as returned by the driver
+   */
+  async profileQuery(
+    query: string,
+    parameters: Record<string, any> = {},
+    options: QueryTimeoutOptions = {}
+  ): Promise<any> {
+    const parsed = this.parseQuery(query, parameters);
+    const profiled = { ...parsed, steps: [...parsed.steps, { name: 'profile', args: [] }] };
+    const [metrics] = await this.withCredentialRefresh(() => this.runTraversal(profiled, null, parameters, options));
+    return metrics;
+  }
+
+  /**
+   * Runs a request. When the server rejects the credentials and the password
+   * changed at its source, reconnects with the new password and runs the
+   * request once more.
+   */
+  private async withCredentialRefresh<T>(request: () => Promise<T>): Promise<T> {
+    const password = this.config.password;
+    try {
+      return await request();
+    } catch (error: any) {
+      if (!await refreshAfterAuthFailure(this.config, error, password)) {
+        throw error;
+      }
+      await this.reopenConnection();
+      return request();
+    }
+  }
+
+  /**
+   * Reopens the connection unless it already uses the current password.
+   * Concurrent requests share one reconnection.
+   */
+  private reopenConnection(): Promise<void> {
+    if (this.clientPassword === this.config.password) {
+      return Promise.resolve();
+    }
+    if (!this.reopening) {
+      this.reopening = this.openConnection().finally(() => {
+        this.reopening = null;
+      });
+    }
+    return this.reopening;
+  }
+
+  /**
+   * Parses a query, which validates it on every execution path: only
+   * traversals are accepted, and every parameter they reference must be supplied
+   */
+  private parseQuery(query: string, parameters: Record<string, any>): ParsedTraversal {
     if (!this.connected || !this.client) {
       throw new Error('Not connected to Gremlin endpoint');
     }
     
-    let result: any;
+    const parsed = parseGremlin(query, Object.keys(parameters));
+    validateBindings(parsed, parameters);
+    return parsed;
+  }
+
+  /**
+   * Runs a parsed traversal with the available execution method
+   * 
+   * @param script Query text, for the direct client approach; null if the traversal can only be run as bytecode
+   */
+  private async runTraversal(
+    parsed: ParsedTraversal,
+    script: string | null,
+    parameters: Record<string, any>,
+    options: QueryTimeoutOptions
+  ): Promise<any[]> {
+    const { timeoutMs } = options;
+    // Applies the timeout to a traversal source as a per-request option
+    const withTimeout = (g: any) =>
+      timeoutMs && typeof g.with_ === 'function' ? g.with_('evaluationTimeout', timeoutMs) : g;
+    let run: () => Promise<any[]>;
     
     // Standard approach with Graph and traversal
     if (this.client.g) {
       console.error('Executing query via graph.traversal');
-      const g = this.client.g;
-      
-      if (query.trim().startsWith('g.')) {
-        // Security check
-        if (query.includes('System.') || query.includes('java.') || 
-            query.includes('eval(') || query.includes('constructor')) {
-          throw new Error('Potentially unsafe Gremlin query rejected');
-        }
-        
-        const evalTraversal = new Function('g', `return ${query}`);
-        result = await evalTraversal(g).toList();
-      } else {
-        throw new Error('Query does not start with g. - cannot execute as traversal');
-      }
+      run = () => buildTraversal(parsed, withTimeout(this.client.g), gremlin, parameters).toList();
     }
     // Direct client approach
     else if (this.client._client && typeof this.client._client.submit === 'function') {
+      if (script === null) {
+        throw new Error('This query is not supported by the direct Gremlin client connection');
+      }
       console.error('Executing query via client.submit');
       const client = this.client._client;
-      const submission = await client.submit(query, parameters || {});
-      result = await submission.all();
+      run = async () => {
+        const submission = timeoutMs
+          ? await client.submit(script, parameters, { evaluationTimeout: timeoutMs })
+          : await client.submit(script, parameters);
+        return submission.all();
+      };
     }
     // Process traversal approach
     else if (gremlin.process?.traversal) {
       console.error('Executing query via process.traversal');
       const traversalFn = gremlin.process.traversal;
       const g = traversalFn().withRemote(this.client);
-      
-      if (query.trim().startsWith('g.')) {
-        // Security check
-        if (query.includes('System.') || query.includes('java.') || 
-            query.includes('eval(') || query.includes('constructor')) {
-          throw new Error('Potentially unsafe Gremlin query rejected');
-        }
-        
-        const evalTraversal = new Function('g', `return ${query}`);
-        result = await evalTraversal(g).toList();
-      } else {
-        throw new Error('Query does not start with g. - cannot execute as traversal');
-      }
+      run = () => buildTraversal(parsed, withTimeout(g), gremlin, parameters).toList();
     } else {
       throw new Error('No valid Gremlin execution method available');
     }
     
+    // Requests share the connection and the protocol has no cancel message, so
+    // a stopped traversal keeps running on the server until its evaluationTimeout
+    return runWithTimeout(run, options, () => console.error(
+      `Gremlin traversal stopped locally; it runs on the server until ${
+        timeoutMs ? `its ${timeoutMs} ms evaluationTimeout` : "the server's evaluationTimeout"
+      }`
+    ));
+  }
+
+  /**
+   * Converts query results, expanding traversers into one row per bulk
+   */
+  convertResults(results: any[]): any[] {
+    return results.flatMap(item => {
+      if (isInstance(item, gremlin.process?.Traverser)) {
+        return Array(Number(item.bulk) || 1).fill(this.convertValue(item.object));
+      }
+      return [this.convertValue(item)];
+    });
+  }
+
+  /**
+   * Converts a driver value into the result model of `Neo4jClient.convertValue`:
+   * vertices become `{id, labels, properties}`, edges `{id, type, startNodeId, endNodeId, properties}`
+   * and paths `{segments}`; maps become plain objects, longs numbers and sets arrays.
+   * In maps whose values are all lists, as returned by `valueMap()`, single-element lists are unwrapped.
+   */
+  convertValue(value: any): any {
+    if (value === null || value === undefined) {
+      return value;
+    }
+    
+    const structure = gremlin.structure || {};
+    
+    if (isInstance(value, structure.toLong?.(0).constructor)) {
+      return Number(value.value);
+    }
+    
+    if (isInstance(value, structure.Vertex)) {
+      return {
+        id: this.convertValue(value.id),
+        labels: [value.label],
+        properties: this.convertVertexProperties(value.properties)
+      };
+    }
+    
+    if (isInstance(value, structure.Edge)) {
+      return {
+        id: this.convertValue(value.id),
+        type: value.label,
+        startNodeId: this.convertValue(value.outV?.id),
+        endNodeId: this.convertValue(value.inV?.id),
+        properties: this.convertEdgeProperties(value.properties)
+      };
+    }
+    
+    if (isInstance(value, structure.Path)) {
+      return this.convertPath(value.objects);
+    }
+    
+    if (isInstance(value, structure.VertexProperty)) {
+      return { id: this.convertValue(value.id), key: value.key, value: this.convertValue(value.value) };
+    }
+    
+    if (isInstance(value, structure.Property)) {
+      return { key: value.key, value: this.convertValue(value.value) };
+    }
+    
+    if (isInstance(value, gremlin.process?.EnumValue)) {
+      return value.elementName;
+    }
+    
+    if (isInstance(value, gremlin.process?.Traverser)) {
+      return this.convertValue(value.object);
+    }
+    
+    if (value instanceof Map) {
+      const entries = [...value.entries()];
+      const isValueMap = entries.length > 0 && entries.every(([key, inner]) =>
+        Array.isArray(inner) || isInstance(key, gremlin.process?.EnumValue));
+      
+      const result: Record<string, any> = {};
+      for (const [key, inner] of entries) {
+        const unwrapped = isValueMap && Array.isArray(inner) && inner.length === 1 ? inner[0] : inner;
+        result[this.convertKey(key)] = this.convertValue(unwrapped);
+      }
+      return result;
+    }
+    
+    if (value instanceof Set) {
+      return [...value].map(item => this.convertValue(item));
+    }
+    
+    if (Array.isArray(value)) {
+      return value.map(item => this.convertValue(item));
+    }
+    
+    if (typeof value === 'object' && !(value instanceof Date)) {
+      const result: Record<string, any> = {};
+      for (const key in value) {
+        result[key] = this.convertValue(value[key]);
+      }
+      return result;
+    }
+    
+    return value;
+  }
+
+  private convertKey(key: any): string {
+    if (typeof key === 'string') {
+      return key;
+    }
+    const converted = this.convertValue(key);
+    return typeof converted === 'object' ? JSON.stringify(converted) : String(converted);
+  }
+
+  /**
+   * Converts vertex properties, keeping multi-properties as lists
+   */
+  private convertVertexProperties(properties: any): Record<string, any> {
+    if (!Array.isArray(properties)) {
+      return this.convertEdgeProperties(properties);
+    }
+    
+    const values: Record<string, any[]> = {};
+    for (const property of properties) {
+      (values[property.key ?? property.label] ??= []).push(this.convertValue(property.value));
+    }
+    
+    const result: Record<string, any> = {};
+    for (const [key, list] of Object.entries(values)) {
+      result[key] = list.length === 1 ? list[0] : list;
+    }
+    return result;
+  }
+
+  private convertEdgeProperties(properties: any): Record<string, any> {
+    if (!properties) {
+      return {};
+    }
+    
+    const result: Record<string, any> = {};
+    if (Array.isArray(properties)) {
+      for (const property of properties) {
+        result[property.key] = this.convertValue(property.value);
+      }
+    } else {
+      for (const key in properties) {
+        result[key] = this.convertValue(properties[key]);
+      }
+    }
     return result;
   }
 
+  /**
+   * Converts path objects into `{segments}`, pairing consecutive vertices with
+   * the edge between them (`null` when the path skips edges, as in
+   * `out().path()`). Paths holding other values, as in `path().by('name')`,
+   * are returned as a list of those values.
+   */
+  private convertPath(objects: any[]): any {
+    const structure = gremlin.structure || {};
+    const isElement = (object: any) => isInstance(object, structure.Vertex) || isInstance(object, structure.Edge);
+    
+    if (!objects.every(isElement)) {
+      return objects.map(object => this.convertValue(object));
+    }
+    
+    const segments: any[] = [];
+    let start: any = null;
+    let relationship: any = null;
+    
+    for (const object of objects) {
+      if (isInstance(object, structure.Edge)) {
+        relationship = this.convertValue(object);
+        continue;
+      }
+      
+      const node = this.convertValue(object);
+      if (start) {
+        segments.push({ start, relationship, end: node });
+      }
+      start = node;
+      relationship = null;
+    }
+    
+    return { segments };
+  }
+
   async getSchemaData(): Promise<any> {
     if (!this.connected || !this.client) {
       throw new Error('Gremlin client not initialized');
@@ -1,14 +1,97 @@
-import { Driver, Session, auth, driver as createDriver, types, isInt } from 'neo4j-driver';
+import {
+  Driver, Session, auth, driver as createDriver, types, isInt,
+  isDate, isDateTime, isDuration, isLocalDateTime, isLocalTime, isTime
+} from 'neo4j-driver';
+import { QueryTimeoutOptions, runWithTimeout } from '../utils/timeout.js';
+import { cypherName } from '../utils/translate.js';
+import { valueType } from '../utils/sample.js';
+import { PasswordSource, refreshAfterAuthFailure } from '../utils/credentials.js';
+import { TlsConfig } from '../utils/tls.js';
 
 export interface Neo4jConfig {
   url: string;
   username: string;
   password: string;
+  /** Where the password is read from again when the server rejects it */
+  passwordSource?: PasswordSource;
   database: string;
+  /** TLS settings, which turn on encryption for `bolt://` and `neo4j://` URLs */
+  tls?: TlsConfig;
+}
+
+/**
+ * Translates TLS settings into the driver's encryption options. The driver
+ * rejects encryption options for `+s` and `+ssc` URLs, so those are passed
+ * without the suffix and the trust they imply is set explicitly, unless the
+ * settings choose another.
+ */
+function boltTlsOptions(url: string, tls: TlsConfig | undefined): { url: string; config: Record<string, any> } {
+  if (!tls) {
+    return { url, config: {} };
+  }
+  
+  const scheme = url.slice(0, url.indexOf('://'));
+  let trust = 'TRUST_SYSTEM_CA_SIGNED_CERTIFICATES';
+  if (tls.insecure || (scheme.endsWith('+ssc') && !tls.caFile)) {
+    trust = 'TRUST_ALL_CERTIFICATES';
+  } else if (tls.caFile) {
+    trust = 'TRUST_CUSTOM_CA_SIGNED_CERTIFICATES';
+  }
+  
+  return {
+    url: url.replace(/^(bolt|neo4j)\+s(sc)?:/, '$1:'),
+    config: {
+      encrypted: 'ENCRYPTION_ON',
+      trust,
+      ...(tls.caFile ? { trustedCertificates: [tls.caFile] } : {}),
+      ...(tls.certFile && tls.keyFile ? { clientCertificate: { certfile: tls.certFile, keyfile: tls.keyFile } } : {})
+    }
+  };
+}
+
+/** Number of elements sampled per label and relationship type when the schema procedures are unavailable */
+const SCHEMA_SAMPLE_SIZE = 100;
+
+/** Property keys and their types, by label or relationship type */
+type PropertyTypes = Map<string, Map<string, Set<string>>>;
+
+/**
+ * Endpoint labels and properties of labels and relationship types
+ */
+interface StructureDetails {
+  nodeProperties: PropertyTypes;
+  relationshipProperties: PropertyTypes;
+  /** Labels of the start and end nodes, by relationship type */
+  endpoints: Map<string, { from: Set<string>; to: Set<string> }>;
+}
+
+function addPropertyTypes(properties: PropertyTypes, owner: string, name: string, types: string[]): void {
+  const keys = properties.get(owner) ?? new Map<string, Set<string>>();
+  const known = keys.get(name) ?? new Set<string>();
+  types.forEach(type => known.add(type));
+  keys.set(name, known);
+  properties.set(owner, keys);
+}
+
+function addEndpoints(details: StructureDetails, type: string, from: string[], to: string[]): void {
+  const endpoints = details.endpoints.get(type) ?? { from: new Set<string>(), to: new Set<string>() };
+  from.forEach(label => endpoints.from.add(label));
+  to.forEach(label => endpoints.to.add(label));
+  details.endpoints.set(type, endpoints);
+}
+
+function listProperties(properties: PropertyTypes, owner: string): { name: string; types: string[] }[] {
+  return [...(properties.get(owner) ?? new Map<string, Set<string>>())]
+    .map(([name, types]) => ({ name, types: [...types].sort() }))
+    .sort((a, b) => a.name.localeCompare(b.name));
 }
 
 export class Neo4jClient {
   private driver: Driver | null = null;
+  /** Password the current driver was created with */
+  private driverPassword: string | null = null;
+  /** Pending recreation of the driver after the password changed */
+  private reopening: Promise<void> | null = null;
   private database: string = "";
   private connected: boolean = false;
   private connectionError: string | null = null;
@@ -21,14 +104,17 @@ export class Neo4jClient {
     try {
       console.error('Initializing connection to Neo4j endpoint...');
       
-      this.driver = createDriver(
-        this.config.url,
-        auth.basic(this.config.username, this.config.password),
-        { disableLosslessIntegers: true }
-      );
+      try {
+        await this.openDriver();
+      } catch (error: any) {
+        if (!await refreshAfterAuthFailure(this.config, error)) {
+          throw error;
+        }
+        await this.openDriver();
+      }
       
-      await this.verifyConnection();
       this.connected = true;
+      this.connectionError = null;
       console.error('Successfully connected to Neo4j endpoint');
       return true;
     } catch (error: any) {
@@ -39,12 +125,55 @@ export class Neo4jClient {
     }
   }
 
-  async verifyConnection(): Promise<void> {
-    if (!this.driver) {
+  /**
+   * Creates a driver with the current credentials and verifies that it can
+   * connect. Only then does it replace the previous driver, so a failed
+   * attempt leaves the working driver in place.
+   */
+  private async openDriver(): Promise<void> {
+    const password = this.config.password;
+    const { url, config } = boltTlsOptions(this.config.url, this.config.tls);
+    const driver = createDriver(
+      url,
+      auth.basic(this.config.username, password),
+      { disableLosslessIntegers: true, ...config }
+    );
+    
+    try {
+      await this.verifyConnection(driver);
+    } catch (error) {
+      await driver.close();
+      throw error;
+    }
+    
+    const previous = this.driver;
+    this.driver = driver;
+    this.driverPassword = password;
+    await previous?.close();
+  }
+
+  /**
+   * Recreates the driver unless it already uses the current password.
+   * Concurrent requests share one recreation.
+   */
+  private reopenDriver(): Promise<void> {
+    if (this.driverPassword === this.config.password) {
+      return Promise.resolve();
+    }
+    if (!this.reopening) {
+      this.reopening = this.openDriver().finally(() => {
+        this.reopening = null;
+      });
+    }
+    return this.reopening;
+  }
+
+  async verifyConnection(driver: Driver | null = this.driver): Promise<void> {
+    if (!driver) {
       throw new Error('Neo4j driver not initialized');
     }
     
-    const session = this.getSession();
+    const session = this.getSession(false, driver);
     try {
       console.error('Testing Neo4j connection with basic query...');
       await session.run('RETURN 1 as result');
@@ -57,15 +186,48 @@ export class Neo4jClient {
     }
   }
 
-  getSession(): Session {
-    if (!this.driver) {
+  /**
+   * Opens a session on the configured database
+   * 
+   * @param readOnly Open a read-access session, so the server rejects writes
+   * @param driver Driver to open the session on, if not the current one
+   */
+  getSession(readOnly: boolean = false, driver: Driver | null = this.driver): Session {
+    if (!driver) {
       throw new Error('Neo4j driver not initialized');
     }
     
+    const config: Record<string, any> = {};
     if (this.database) {
-      return this.driver.session({ database: this.database } as any);
+      config.database = this.database;
+    }
+    if (readOnly) {
+      config.defaultAccessMode = 'READ';
+    }
+    
+    if (Object.keys(config).length > 0) {
+      return driver.session(config as any);
+    }
+    return driver.session();
+  }
+
+  /**
+   * Checks that the endpoint still answers. A failure marks the client as
+   * disconnected, so the next `connect()` recreates the driver.
+   * 
+   * @returns Whether the endpoint answered within the timeout
+   */
+  async ping(timeoutMs: number): Promise<boolean> {
+    try {
+      await this.executeQuery('RETURN 1 AS result', {}, { readOnly: true, timeoutMs });
+      this.connectionError = null;
+      return true;
+    } catch (error: any) {
+      this.connectionError = error.message;
+      this.connected = false;
+      console.error('Neo4j health check failed:', error.message);
+      return false;
     }
-    return this.driver.session();
   }
 
   isConnected(): boolean {
@@ -76,14 +238,24 @@ export class Neo4jClient {
     return this.connectionError;
   }
 
-  async executeQuery(cypher: string, parameters: Record<string, any> = {}): Promise<any[]> {
+  /**
+   * Runs a Cypher query and converts its records into plain objects
+   * 
+   * @param options.readOnly Run the query in a read-access session
+   * @param options.timeoutMs Transaction timeout, enforced by the server
+   * @param options.signal Cancels the query by closing its session when aborted
+   */
+  async executeQuery(
+    cypher: string,
+    parameters: Record<string, any> = {},
+    options: { readOnly?: boolean } & QueryTimeoutOptions = {}
+  ): Promise<any[]> {
     if (!this.connected || !this.driver) {
       throw new Error('Not connected to Neo4j endpoint');
     }
     
-    const session = this.getSession();
-    try {
-      const result = await session.run(cypher, parameters);
+    return this.withSession(options.readOnly, async session => {
+      const result = await this.run(session, cypher, parameters, options);
       return result.records.map(record => {
         const obj: Record<string, any> = {};
         
@@ -99,9 +271,214 @@ export class Neo4jClient {
         
         return obj;
       });
-    } finally {
-      await session.close();
+    });
+  }
+
+  /**
+   * Plans a Cypher query with `EXPLAIN`, or runs and measures it with `PROFILE`
+   * 
+   * @returns The plan or profile from the result summary
+   */
+  async explainQuery(
+    cypher: string,
+    parameters: Record<string, any> = {},
+    options: { readOnly?: boolean; profile?: boolean } & QueryTimeoutOptions = {}
+  ): Promise<any> {
+    if (!this.connected || !this.driver) {
+      throw new Error('Not connected to Neo4j endpoint');
+    }
+    
+    return this.withSession(options.readOnly, async session => {
+      const prefix = options.profile ? 'PROFILE' : 'EXPLAIN';
+      const result = await this.run(session, `${prefix} ${cypher}`, parameters, options);
+      const plan = options.profile ? result.summary.profile : result.summary.plan;
+      
+      if (!plan) {
+        throw new Error(`The server returned no ${options.profile ? 'profile' : 'plan'} for the query`);
+      }
+      return plan;
+    });
+  }
+
+  /**
+   * Runs work in a session that is closed afterwards. When the server
+   * rejects the credentials and the password changed at its source, the
+   * driver is recreated with the new password and the work runs once more.
+   */
+  private async withSession<T>(readOnly: boolean | undefined, work: (session: Session) => Promise<T>): Promise<T> {
+    const attempt = async () => {
+      const session = this.getSession(readOnly);
+      try {
+        return await work(session);
+      } finally {
+        await session.close();
+      }
+    };
+    
+    const password = this.config.password;
+    try {
+      return await attempt();
+    } catch (error: any) {
+      if (!await refreshAfterAuthFailure(this.config, error, password)) {
+        throw error;
+      }
+      await this.reopenDriver();
+      return attempt();
+    }
+  }
+
+  /**
+   * Introspects the graph over Bolt, in the structure returned by
+   * `GremlinClient.getSchemaData()`: the number of nodes and relationships
+   * per label and relationship type. Relationship types also list the labels
+   * of their start (`from`) and end (`to`) nodes, and both list their
+   * property keys with their types. These details come from the
+   * `db.schema.*` procedures where the server supports them, and otherwise
+   * from a bounded sample of each label and relationship type.
+   *
+   * @param sampleSize Number of elements sampled per label and relationship type
+   */
+  async getSchemaData(sampleSize: number = SCHEMA_SAMPLE_SIZE): Promise<any> {
+    const read = (cypher: string) => this.executeQuery(cypher, {}, { readOnly: true });
+    
+    const [nodeCount] = await read('MATCH (n) RETURN count(n) AS count');
+    const [relationshipCount] = await read('MATCH ()-[r]->() RETURN count(r) AS count');
+    const labelCounts = await read('MATCH (n) UNWIND labels(n) AS label RETURN label, count(*) AS count');
+    const typeCounts = await read('MATCH ()-[r]->() RETURN type(r) AS type, count(*) AS count');
+    
+    let introspection = 'procedures';
+    let details: StructureDetails;
+    try {
+      details = await this.describeWithProcedures(read);
+    } catch (error: any) {
+      console.error('Schema procedures unavailable, sampling the graph instead:', error.message);
+      introspection = 'sampling';
+      details = await this.describeBySampling(
+        read,
+        labelCounts.map(row => row.label),
+        typeCounts.map(row => row.type),
+        sampleSize
+      );
+    }
+    
+    return {
+      summary: "Graph Structure Information",
+      source: "Neo4j Database Queries",
+      introspection,
+      totalNodes: Number(nodeCount?.count ?? 0),
+      totalRelationships: Number(relationshipCount?.count ?? 0),
+      nodeLabels: labelCounts.map(row => ({
+        label: row.label,
+        count: Number(row.count),
+        properties: listProperties(details.nodeProperties, row.label)
+      })),
+      relationshipTypes: typeCounts.map(row => ({
+        type: row.type,
+        count: Number(row.count),
+        from: [...(details.endpoints.get(row.type)?.from ?? [])].sort(),
+        to: [...(details.endpoints.get(row.type)?.to ?? [])].sort(),
+        properties: listProperties(details.relationshipProperties, row.type)
+      })),
+      graphType: "PuppyGraph SQL-to-Graph Bridge"
+    };
+  }
+
+  /**
+   * Reads property types from `db.schema.nodeTypeProperties()` and
+   * `db.schema.relTypeProperties()`, and relationship endpoints from
+   * `db.schema.visualization()`
+   *
+   * @throws The error of the first procedure the server does not support
+   */
+  private async describeWithProcedures(read: (cypher: string) => Promise<any[]>): Promise<StructureDetails> {
+    const details: StructureDetails = { nodeProperties: new Map(), relationshipProperties: new Map(), endpoints: new Map() };
+    
+    const nodeTypes = await read(
+      'CALL db.schema.nodeTypeProperties() YIELD nodeLabels, propertyName, propertyTypes RETURN nodeLabels, propertyName, propertyTypes'
+    );
+    for (const row of nodeTypes) {
+      for (const label of row.nodeLabels ?? []) {
+        if (row.propertyName) {
+          addPropertyTypes(details.nodeProperties, label, row.propertyName, row.propertyTypes ?? []);
+        }
+      }
+    }
+    
+    const relationshipTypes = await read(
+      'CALL db.schema.relTypeProperties() YIELD relType, propertyName, propertyTypes RETURN relType, propertyName, propertyTypes'
+    );
+    for (const row of relationshipTypes) {
+      // Types are reported in pattern form, e.g. :`KNOWS`
+      const type = String(row.relType).replace(/^:`?|`$/g, '').replace(/``/g, '`');
+      if (row.propertyName) {
+        addPropertyTypes(details.relationshipProperties, type, row.propertyName, row.propertyTypes ?? []);
+      }
+    }
+    
+    const [visualization] = await read('CALL db.schema.visualization() YIELD nodes, relationships RETURN nodes, relationships');
+    const nodeLabels = new Map<string, string[]>(
+      (visualization?.nodes ?? []).map((node: any) => [JSON.stringify(node.id), node.labels])
+    );
+    for (const relationship of visualization?.relationships ?? []) {
+      addEndpoints(
+        details,
+        relationship.type,
+        nodeLabels.get(JSON.stringify(relationship.startNodeId)) ?? [],
+        nodeLabels.get(JSON.stringify(relationship.endNodeId)) ?? []
+      );
     }
+    
+    return details;
+  }
+
+  /**
+   * Observes property types and relationship endpoints on up to `sampleSize`
+   * elements of each label and relationship type
+   */
+  private async describeBySampling(
+    read: (cypher: string) => Promise<any[]>,
+    labels: string[],
+    types: string[],
+    sampleSize: number
+  ): Promise<StructureDetails> {
+    const details: StructureDetails = { nodeProperties: new Map(), relationshipProperties: new Map(), endpoints: new Map() };
+    
+    for (const label of labels) {
+      const rows = await read(`MATCH (n:${cypherName(label)}) RETURN n AS node LIMIT ${sampleSize}`);
+      for (const { node } of rows) {
+        for (const [name, value] of Object.entries(node?.properties ?? {})) {
+          addPropertyTypes(details.nodeProperties, label, name, value === null ? [] : [valueType(value)]);
+        }
+      }
+    }
+    
+    for (const type of types) {
+      const rows = await read(
+        `MATCH (a)-[r:${cypherName(type)}]->(b) RETURN labels(a) AS from, r AS relationship, labels(b) AS to LIMIT ${sampleSize}`
+      );
+      for (const row of rows) {
+        addEndpoints(details, type, row.from ?? [], row.to ?? []);
+        for (const [name, value] of Object.entries(row.relationship?.properties ?? {})) {
+          addPropertyTypes(details.relationshipProperties, type, name, value === null ? [] : [valueType(value)]);
+        }
+      }
+    }
+    
+    return details;
+  }
+
+  /**
+   * Runs a query in a session with the transaction timeout, closing the
+   * session when the query is cancelled
+   */
+  private run(session: Session, cypher: string, parameters: Record<string, any>, options: QueryTimeoutOptions) {
+    return runWithTimeout(
+      async () => options.timeoutMs
+        ? session.run(cypher, parameters, { timeout: options.timeoutMs })
+        : session.run(cypher, parameters),
+      options,
+      () => session.close()
+    );
   }
 
   convertValue(value: any): any {
@@ -141,6 +518,16 @@ export class Neo4jClient {
       };
     }
     
+    if (isDateTime(value) && value.timeZoneId) {
+      // ISO 8601 has no zone ids, so zoned date-times are given in UTC
+      return value.toStandardDate().toISOString();
+    }
+    
+    // Temporal values as ISO 8601 strings, e.g. `2024-01-31` or `P1DT2H`
+    if (isDate(value) || isDateTime(value) || isLocalDateTime(value) || isTime(value) || isLocalTime(value) || isDuration(value)) {
+      return value.toString();
+    }
+    
     if (Array.isArray(value)) {
       return value.map(item => this.convertValue(item));
     }
@@ -1,315 +1,652 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { z } from "zod";
-import { puppyGraphService } from "./services/puppygraph.js";
-
-// Create and export the server for testing
-export const server = new McpServer({
-  name: "puppygraph",
-  version: "1.0.0",
-  capabilities: {
-    resources: {},
-    tools: {},
-  },
-});
+import { z, ZodRawShape } from "zod";
+import { PuppyGraphServiceRegistry } from "./services/registry.js";
+import { registerSchemaResources } from "./resources/schema.js";
+import { McpHttpServer, startHttpServer, MCP_PATH, SSE_PATH } from "./transports/http.js";
+import { describeConfig, loadConfig, loadSettings, loadTransportConfig, PuppyGraphConfig } from "./utils/config.js";
+import { Page, PageFit, ResultBuffer } from "./utils/pagination.js";
+import { truncateResult } from "./utils/truncate.js";
+import { formatResult, OUTPUT_FORMATS, OutputFormat } from "./utils/format.js";
+import { translateQuery } from "./utils/translate.js";
+import { NEIGHBOR_DIRECTIONS } from "./utils/neighborhood.js";
+import { ELEMENT_KINDS } from "./utils/sample.js";
+
+/**
+ * Wraps a value as a pretty-printed JSON text tool response
+ */
+function jsonResponse(value: unknown) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(value, null, 2)
+      }
+    ]
+  };
+}
+
+/**
+ * Formats a query result as a tool response, truncated to the output budget
+ *
+ * @param budgetChars Output budget in characters (0 disables truncation)
+ */
+function resultResponse(result: { data: any[]; metadata: object }, budgetChars: number, format: OutputFormat = "json") {
+  const fitted = truncateResult(result, budgetChars, value => formatResult(value, format).join("\n"));
+  return {
+    content: formatResult(fitted, format).map(text => ({ type: "text" as const, text }))
+  };
+}
+
+/**
+ * Formats a tool result as a JSON response, fitted into the output budget
+ * like query results by dropping entries from the end of its `rows` list
+ *
+ * @param budgetChars Output budget in characters (0 disables truncation)
+ * @param finish Adjusts the rest of the result to the entries kept
+ */
+function listResponse<T extends { metadata: object }>(
+  result: T,
+  budgetChars: number,
+  rows: keyof T & string,
+  finish?: (result: T) => T
+) {
+  const toResult = ({ data, metadata }: { data: any[]; metadata: object }): T => {
+    const value = { ...result, [rows]: data, metadata } as T;
+    return finish ? finish(value) : value;
+  };
+  const fitted = truncateResult(
+    { data: result[rows] as any[], metadata: result.metadata },
+    budgetChars,
+    value => JSON.stringify(toResult(value), null, 2)
+  );
+  return jsonResponse(toResult(fitted));
+}
+
+/**
+ * Formats a page of a query result, keeping only the rows that fit into the
+ * output budget so the page's cursor resumes at the first omitted row
+ */
+function pageResponse(
+  metadata: object,
+  budgetChars: number,
+  paginate: (fit: PageFit<any>) => Page<any>,
+  format: OutputFormat = "json"
+) {
+  const pageResult = ({ data, ...page }: Page<any>) => ({
+    data,
+    metadata: { ...metadata, row_count: data.length, ...page }
+  });
+  const serialize = (value: any) => formatResult(value, format).join("\n");
+  const page = paginate(candidate => truncateResult(pageResult(candidate), budgetChars, serialize).data.length);
+  return resultResponse(pageResult(page), budgetChars, format);
+}
+
+/**
+ * State shared by the MCP servers of all client sessions
+ */
+export interface ServerContext {
+  config: PuppyGraphConfig;
+  registry: PuppyGraphServiceRegistry;
+  /** Paginated query results */
+  resultBuffer: ResultBuffer;
+}
+
+/**
+ * Creates an MCP server with all PuppyGraph tools registered.
+ *
+ * The stdio transport uses a single server; the HTTP transport creates one
+ * per client session, all sharing the same PuppyGraph services.
+ */
+export function createServer({ config, registry, resultBuffer }: ServerContext): McpServer {
+  const server = new McpServer({
+    name: "puppygraph",
+    version: "1.0.0",
+  }, {
+    capabilities: {
+      resources: {},
+      tools: {},
+    },
+  });
+
+  registerSchemaResources(server, registry);
+
+  /**
+   * Registers a tool under its name and, for compatibility with certain LLM
+   * platforms, under an `mcp__` prefixed alias
+   */
+  function registerTool<Args extends ZodRawShape>(
+    name: string,
+    description: string,
+    paramsSchema: Args,
+    cb: ToolCallback<Args>
+  ): void {
+    server.tool(name, description, paramsSchema, cb);
+    server.tool(`mcp__${name}`, description, paramsSchema, cb);
+  }
+
+  const instanceArg = z.string().optional().describe(
+    "Name of the PuppyGraph instance to use (see puppygraph_instances). Defaults to the default instance"
+  );
 
-server.tool(
-  "puppygraph_query",
-  "Execute a graph query (Gremlin or Cypher) against PuppyGraph",
-  {
-    query: z.string().describe("The query to execute (Gremlin or Cypher)"),
-    language: z.enum(["gremlin", "cypher"]).describe("The query language to use"),
-    parameters: z.record(z.any()).optional().describe("Optional parameters for the query")
-  },
-  async (args, _extra) => {
-    try {
-      console.error(`Executing ${args.language} query: ${args.query}`);
-      
-      let result;
-      if (args.language === "gremlin") {
-        result = await puppyGraphService.executeGremlin({
+  const vertexReferenceArg = z.object({
+    id: z.union([z.string(), z.number()]).optional().describe("Vertex id, as returned in the id of nodes"),
+    label: z.string().optional().describe("Vertex label, when the vertex is identified by a key property instead of its id"),
+    key: z.string().optional().describe("Property identifying the vertex, used with label and value"),
+    value: z.union([z.string(), z.number(), z.boolean()]).optional().describe("Value of the key property")
+  });
+
+  const formatArg = z.enum(OUTPUT_FORMATS).optional().describe(
+    "Output format: json (default), compact-json, jsonl, csv or markdown. csv and markdown flatten nodes, relationships and paths into columns"
+  );
+
+  registerTool(
+    "puppygraph_query",
+    "Execute a graph query (Gremlin or Cypher) against PuppyGraph",
+    {
+      query: z.string().describe("The query to execute (Gremlin or Cypher)"),
+      language: z.enum(["gremlin", "cypher"]).describe("The query language to use"),
+      parameters: z.record(z.any()).optional().describe("Optional query parameters, referenced as $name in Cypher and as bare names in Gremlin"),
+      page_size: z.number().int().positive().optional().describe(
+        "Return at most this many rows, with a cursor for puppygraph_fetch_more if there are more"
+      ),
+      format: formatArg,
+      timeout_ms: z.number().int().nonnegative().optional().describe(
+        "Maximum execution time in milliseconds (0 for no timeout). Defaults to the server's query timeout"
+      ),
+      instance: instanceArg
+    },
+    async (args, extra) => {
+      try {
+        console.error(`Executing ${args.language} query: ${args.query}`);
+
+        const service = registry.get(args.instance);
+
+        const params = {
           query: args.query,
-          parameters: args.parameters || {}
+          parameters: args.parameters || {},
+          timeoutMs: args.timeout_ms ?? config.queryTimeoutMs,
+          signal: extra.signal
+        };
+
+        let result;
+        if (args.language === "gremlin") {
+          result = await service.executeGremlin(params);
+        } else {
+          result = await service.executeCypher(params);
+        }
+
+        if (args.page_size) {
+          const { data, metadata } = result;
+          const pageSize = args.page_size;
+          return pageResponse(metadata, config.maxOutputChars, fit => resultBuffer.paginate(data, pageSize, fit), args.format);
+        }
+
+        return resultResponse(result, config.maxOutputChars, args.format);
+      } catch (error: any) {
+        console.error(`Error executing ${args.language} query:`, error);
+
+        return jsonResponse({
+          data: [],
+          metadata: {
+            error: error.message || `Error executing ${args.language} query`,
+            error_type: error.name || "Error"
+          }
         });
-      } else {
-        result = await puppyGraphService.executeCypher({
+      }
+    }
+  );
+
+  registerTool(
+    "puppygraph_explain",
+    "Show how PuppyGraph executes a query: the operator tree with estimated and actual rows and timings",
+    {
+      query: z.string().describe("The query to explain (Gremlin or Cypher)"),
+      language: z.enum(["gremlin", "cypher"]).describe("The query language to use"),
+      parameters: z.record(z.any()).optional().describe("Optional query parameters, referenced as $name in Cypher and as bare names in Gremlin"),
+      profile: z.boolean().optional().describe(
+        "Run the query to measure actual rows and timings (Cypher PROFILE) instead of only planning it (Cypher EXPLAIN). Gremlin traversals are always run with profile()"
+      ),
+      timeout_ms: z.number().int().nonnegative().optional().describe(
+        "Maximum execution time in milliseconds (0 for no timeout). Defaults to the server's query timeout"
+      ),
+      instance: instanceArg
+    },
+    async (args, extra) => {
+      try {
+        console.error(`Explaining ${args.language} query: ${args.query}`);
+
+        const plan = await registry.get(args.instance).explain({
           query: args.query,
-          parameters: args.parameters || {}
+          language: args.language,
+          parameters: args.parameters || {},
+          profile: args.profile,
+          timeoutMs: args.timeout_ms ?? config.queryTimeoutMs,
+          signal: extra.signal
         });
-      }
-      
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify(result, null, 2)
-          }
-        ]
-      };
-    } catch (error: any) {
-      console.error(`Error executing ${args.language} query:`, error);
-      
-      const errorResult = {
-        data: [],
-        metadata: {
-          error: error.message || `Error executing ${args.language} query`,
-          error_type: error.name || "Error"
-        }
-      };
-      
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify(errorResult, null, 2)
+
+        return jsonResponse(plan);
+      } catch (error: any) {
+        console.error(`Error explaining ${args.language} query:`, error);
+
+        return jsonResponse({
+          metadata: {
+            error: error.message || `Error explaining ${args.language} query`,
+            error_type: error.name || "Error"
           }
-        ]
-      };
+        });
+      }
     }
-  }
-);
-
-server.tool(
-  "puppygraph_schema",
-  "Get schema and structure information about the PuppyGraph database",
-  {},
-  async (_args, _extra) => {
-    try {
-      console.error("Fetching schema information");
-      
-      const result = await puppyGraphService.getDataSources();
-      
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify(result, null, 2)
-          }
-        ]
-      };
-    } catch (error: any) {
-      console.error("Error fetching schema information:", error);
-      
-      const errorResult = {
-        metadata: {
-          error: error.message || "Error fetching schema information",
-          error_type: error.name || "Error"
+  );
+
+  registerTool(
+    "puppygraph_translate",
+    "Translate a read-only query between Cypher and Gremlin, and optionally run it on whichever endpoint is connected",
+    {
+      query: z.string().describe("The query to translate"),
+      language: z.enum(["gremlin", "cypher"]).describe("The language of the query; it is translated to the other language"),
+      execute: z.boolean().optional().describe(
+        "Run the translation, or the original query if only its own endpoint is connected, and return the result"
+      ),
+      parameters: z.record(z.any()).optional().describe("Optional query parameters, referenced as $name in Cypher and as bare names in Gremlin"),
+      format: formatArg,
+      timeout_ms: z.number().int().nonnegative().optional().describe(
+        "Maximum execution time in milliseconds (0 for no timeout). Defaults to the server's query timeout"
+      ),
+      instance: instanceArg
+    },
+    async (args, extra) => {
+      try {
+        console.error(`Translating ${args.language} query: ${args.query}`);
+
+        if (!args.execute) {
+          return jsonResponse(translateQuery(args.query, args.language));
         }
-      };
-      
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify(errorResult, null, 2)
+
+        const result = await registry.get(args.instance).executeTranslated({
+          query: args.query,
+          language: args.language,
+          parameters: args.parameters || {},
+          timeoutMs: args.timeout_ms ?? config.queryTimeoutMs,
+          signal: extra.signal
+        });
+
+        return resultResponse(result, config.maxOutputChars, args.format);
+      } catch (error: any) {
+        console.error(`Error translating ${args.language} query:`, error);
+
+        return jsonResponse({
+          data: [],
+          metadata: {
+            error: error.message || `Error translating ${args.language} query`,
+            error_type: error.name || "Error"
           }
-        ]
-      };
+        });
+      }
     }
-  }
-);
-
-server.tool(
-  "puppygraph_status",
-  "Get connection status and configuration information for PuppyGraph",
-  {},
-  async (_args, _extra) => {
-    try {
-      console.error("Fetching connection status information");
-      
-      const status = puppyGraphService.getConnectionStatus();
-      
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify({
-              status: status.connected ? "connected" : "disconnected",
-              fallback_mode: status.fallbackMode,
-              error: status.connectionError,
-              puppygraph_url: process.env.PUPPYGRAPH_URL || "bolt://localhost:7687",
-              puppygraph_database: process.env.PUPPYGRAPH_DATABASE || "default"
-            }, null, 2)
-          }
-        ]
-      };
-    } catch (error: any) {
-      console.error("Error fetching connection status:", error);
-      
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify({
-              status: "error",
-              error: error.message || "Error fetching connection status"
-            }, null, 2)
+  );
+
+  registerTool(
+    "puppygraph_neighbors",
+    "Explore the neighborhood of a vertex, returning the deduplicated nodes and edges within a number of hops",
+    {
+      id: z.union([z.string(), z.number()]).optional().describe("Id of the start vertex, as returned in the id of nodes"),
+      label: z.string().optional().describe("Label of the start vertex, when it is identified by a key property instead of its id"),
+      key: z.string().optional().describe("Property identifying the start vertex, used with label and value"),
+      value: z.union([z.string(), z.number(), z.boolean()]).optional().describe("Value of the key property"),
+      direction: z.enum(NEIGHBOR_DIRECTIONS).optional().describe("Direction of the edges to follow: out, in or both (default)"),
+      edge_labels: z.array(z.string()).optional().describe("Edge labels to follow. Defaults to all edges"),
+      depth: z.number().int().min(1).max(5).optional().describe("Number of hops to explore (1-5, default 1)"),
+      limit: z.number().int().min(1).max(1000).optional().describe(
+        "Maximum number of edges followed from each vertex per hop (default 25)"
+      ),
+      max_edges: z.number().int().min(1).max(10000).optional().describe(
+        "Maximum number of edges collected over all hops (default 500)"
+      ),
+      timeout_ms: z.number().int().nonnegative().optional().describe(
+        "Maximum execution time of each hop in milliseconds (0 for no timeout). Defaults to the server's query timeout"
+      ),
+      instance: instanceArg
+    },
+    async (args, extra) => {
+      try {
+        console.error("Exploring vertex neighborhood");
+
+        const result = await registry.get(args.instance).getNeighborhood({
+          start: { id: args.id, label: args.label, key: args.key, value: args.value },
+          direction: args.direction ?? "both",
+          edgeLabels: args.edge_labels,
+          depth: args.depth ?? 1,
+          limit: args.limit ?? 25,
+          maxEdges: args.max_edges ?? 500,
+          timeoutMs: args.timeout_ms ?? config.queryTimeoutMs,
+          signal: extra.signal
+        });
+
+        // Nodes are in the order they were found, so the nodes closest to the start are kept
+        return listResponse(result, config.maxOutputChars, "nodes", fitted => {
+          const kept = new Set(fitted.nodes.map(node => JSON.stringify(node.id)));
+          const edges = fitted.edges.filter(edge =>
+            kept.has(JSON.stringify(edge.startNodeId)) && kept.has(JSON.stringify(edge.endNodeId))
+          );
+          return { ...fitted, edges };
+        });
+      } catch (error: any) {
+        console.error("Error exploring vertex neighborhood:", error);
+
+        return jsonResponse({
+          nodes: [],
+          edges: [],
+          metadata: {
+            error: error.message || "Error exploring vertex neighborhood",
+            error_type: error.name || "Error"
           }
-        ]
-      };
+        });
+      }
     }
-  }
-);
-
-// MCP prefixed versions for compatibility
-server.tool(
-  "mcp__puppygraph_query",
-  "Execute a graph query (Gremlin or Cypher) against PuppyGraph",
-  {
-    query: z.string().describe("The query to execute (Gremlin or Cypher)"),
-    language: z.enum(["gremlin", "cypher"]).describe("The query language to use"),
-    parameters: z.record(z.any()).optional().describe("Optional parameters for the query")
-  },
-  async (args, _extra) => {
-    try {
-      console.error(`Executing ${args.language} query via mcp__ prefix: ${args.query}`);
-      
-      let result;
-      if (args.language === "gremlin") {
-        result = await puppyGraphService.executeGremlin({
-          query: args.query,
-          parameters: args.parameters || {}
+  );
+
+  registerTool(
+    "puppygraph_path",
+    "Find the shortest paths between two vertices, bounded by a maximum number of hops",
+    {
+      source: vertexReferenceArg.describe("The vertex paths start from: its id, or its label, key and value"),
+      target: vertexReferenceArg.describe("The vertex paths end at: its id, or its label, key and value"),
+      max_hops: z.number().int().min(1).max(10).optional().describe("Maximum number of edges in a path (1-10, default 4)"),
+      edge_labels: z.array(z.string()).optional().describe("Edge labels paths may follow. Defaults to all edges"),
+      direction: z.enum(NEIGHBOR_DIRECTIONS).optional().describe("Direction of the edges to follow: out, in or both (default)"),
+      k: z.number().int().min(1).max(20).optional().describe("Number of paths to return (1-20, default 1)"),
+      timeout_ms: z.number().int().nonnegative().optional().describe(
+        "Maximum execution time in milliseconds (0 for no timeout). Defaults to the server's query timeout"
+      ),
+      instance: instanceArg
+    },
+    async (args, extra) => {
+      try {
+        console.error("Finding paths between vertices");
+
+        const result = await registry.get(args.instance).findPaths({
+          source: args.source,
+          target: args.target,
+          maxHops: args.max_hops ?? 4,
+          edgeLabels: args.edge_labels,
+          direction: args.direction ?? "both",
+          k: args.k ?? 1,
+          timeoutMs: args.timeout_ms ?? config.queryTimeoutMs,
+          signal: extra.signal
         });
-      } else {
-        result = await puppyGraphService.executeCypher({
-          query: args.query,
-          parameters: args.parameters || {}
+
+        return listResponse(result, config.maxOutputChars, "paths");
+      } catch (error: any) {
+        console.error("Error finding paths between vertices:", error);
+
+        return jsonResponse({
+          paths: [],
+          metadata: {
+            error: error.message || "Error finding paths between vertices",
+            error_type: error.name || "Error"
+          }
         });
       }
-      
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify(result, null, 2)
-          }
-        ]
-      };
-    } catch (error: any) {
-      console.error(`Error executing ${args.language} query:`, error);
-      
-      const errorResult = {
-        data: [],
-        metadata: {
-          error: error.message || `Error executing ${args.language} query`,
-          error_type: error.name || "Error"
-        }
-      };
-      
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify(errorResult, null, 2)
-          }
-        ]
-      };
     }
-  }
-);
-
-server.tool(
-  "mcp__puppygraph_schema",
-  "Get schema and structure information about the PuppyGraph database",
-  {},
-  async (_args, _extra) => {
-    try {
-      console.error("Fetching schema information via mcp__ prefix");
-      
-      const result = await puppyGraphService.getDataSources();
-      
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify(result, null, 2)
+  );
+
+  registerTool(
+    "puppygraph_sample",
+    "Get sample vertices or edges of a label with all their properties, and the property keys and value types observed",
+    {
+      label: z.string().describe("A vertex or edge label from the schema"),
+      kind: z.enum(ELEMENT_KINDS).optional().describe("Whether the label is a vertex or an edge label. Looked up in the schema by default"),
+      limit: z.number().int().min(1).max(100).optional().describe("Number of elements to sample (1-100, default 10)"),
+      timeout_ms: z.number().int().nonnegative().optional().describe(
+        "Maximum execution time in milliseconds (0 for no timeout). Defaults to the server's query timeout"
+      ),
+      instance: instanceArg
+    },
+    async (args, extra) => {
+      try {
+        console.error(`Sampling elements of label ${args.label}`);
+
+        const result = await registry.get(args.instance).sampleLabel({
+          label: args.label,
+          kind: args.kind,
+          limit: args.limit ?? 10,
+          timeoutMs: args.timeout_ms ?? config.queryTimeoutMs,
+          signal: extra.signal
+        });
+
+        return listResponse(result, config.maxOutputChars, "elements");
+      } catch (error: any) {
+        console.error(`Error sampling elements of label ${args.label}:`, error);
+
+        return jsonResponse({
+          elements: [],
+          metadata: {
+            error: error.message || `Error sampling elements of label ${args.label}`,
+            error_type: error.name || "Error"
           }
-        ]
-      };
-    } catch (error: any) {
-      console.error("Error fetching schema information:", error);
-      
-      const errorResult = {
-        metadata: {
-          error: error.message || "Error fetching schema information",
-          error_type: error.name || "Error"
-        }
-      };
-      
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify(errorResult, null, 2)
+        });
+      }
+    }
+  );
+
+  registerTool(
+    "puppygraph_profile",
+    "Get statistics of the properties of a vertex or edge label: non-null ratio, distinct values, min/max and most frequent values",
+    {
+      label: z.string().describe("A vertex or edge label from the schema"),
+      kind: z.enum(ELEMENT_KINDS).optional().describe("Whether the label is a vertex or an edge label. Looked up in the schema by default"),
+      sample_size: z.number().int().min(1).max(10000).optional().describe(
+        "Number of elements to compute the statistics over (1-10000, default 1000)"
+      ),
+      top_k: z.number().int().min(1).max(50).optional().describe("Number of most frequent values to report per property (default 5)"),
+      refresh: z.boolean().optional().describe("Recompute the statistics instead of using the cached profile"),
+      timeout_ms: z.number().int().nonnegative().optional().describe(
+        "Maximum execution time in milliseconds (0 for no timeout). Defaults to the server's query timeout"
+      ),
+      instance: instanceArg
+    },
+    async (args, extra) => {
+      try {
+        console.error(`Profiling properties of label ${args.label}`);
+
+        const result = await registry.get(args.instance).profileLabel({
+          label: args.label,
+          kind: args.kind,
+          sampleSize: args.sample_size ?? 1000,
+          topK: args.top_k ?? 5,
+          refresh: args.refresh,
+          timeoutMs: args.timeout_ms ?? config.queryTimeoutMs,
+          signal: extra.signal
+        });
+
+        return listResponse(result, config.maxOutputChars, "properties");
+      } catch (error: any) {
+        console.error(`Error profiling properties of label ${args.label}:`, error);
+
+        return jsonResponse({
+          properties: [],
+          metadata: {
+            error: error.message || `Error profiling properties of label ${args.label}`,
+            error_type: error.name || "Error"
           }
-        ]
-      };
+        });
+      }
     }
-  }
-);
-
-server.tool(
-  "mcp__puppygraph_status",
-  "Get connection status and configuration information for PuppyGraph",
-  {},
-  async (_args, _extra) => {
-    try {
-      console.error("Fetching connection status via mcp__ prefix");
-      
-      const status = puppyGraphService.getConnectionStatus();
-      
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify({
-              status: status.connected ? "connected" : "disconnected",
-              fallback_mode: status.fallbackMode,
-              error: status.connectionError,
-              puppygraph_url: process.env.PUPPYGRAPH_URL || "bolt://localhost:7687",
-              puppygraph_database: process.env.PUPPYGRAPH_DATABASE || "default"
-            }, null, 2)
+  );
+
+  registerTool(
+    "puppygraph_fetch_more",
+    "Fetch the next page of a query result paginated with page_size",
+    {
+      cursor: z.string().describe("Cursor returned in the metadata of the previous page"),
+      page_size: z.number().int().positive().optional().describe(
+        "Number of rows to return. Defaults to the page size of the original query"
+      ),
+      format: formatArg
+    },
+    async (args, _extra) => {
+      try {
+        console.error("Fetching next page of query results");
+
+        return pageResponse({}, config.maxOutputChars, fit => resultBuffer.fetch(args.cursor, args.page_size, fit), args.format);
+      } catch (error: any) {
+        console.error("Error fetching next page of query results:", error);
+
+        return jsonResponse({
+          data: [],
+          metadata: {
+            error: error.message || "Error fetching next page of query results",
+            error_type: error.name || "Error"
           }
-        ]
-      };
-    } catch (error: any) {
-      console.error("Error fetching connection status:", error);
-      
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify({
-              status: "error",
-              error: error.message || "Error fetching connection status"
-            }, null, 2)
+        });
+      }
+    }
+  );
+
+  registerTool(
+    "puppygraph_schema",
+    "Get schema and structure information about the PuppyGraph database",
+    {
+      refresh: z.boolean().optional().describe("Reload the schema instead of using the cached copy"),
+      instance: instanceArg
+    },
+    async (args, _extra) => {
+      try {
+        console.error("Fetching schema information");
+
+        const result = await registry.get(args.instance).getCachedDataSources({ refresh: args.refresh });
+
+        return jsonResponse(result);
+      } catch (error: any) {
+        console.error("Error fetching schema information:", error);
+
+        return jsonResponse({
+          metadata: {
+            error: error.message || "Error fetching schema information",
+            error_type: error.name || "Error"
           }
-        ]
-      };
+        });
+      }
     }
-  }
-);
+  );
+
+  registerTool(
+    "puppygraph_status",
+    "Get connection status and configuration information for PuppyGraph",
+    {
+      instance: instanceArg
+    },
+    async (args, _extra) => {
+      try {
+        console.error("Fetching connection status information");
+
+        const service = registry.get(args.instance);
+        const status = service.getConnectionStatus();
+        const endpoints = service.getEndpoints();
+
+        return jsonResponse({
+          instance: service.name,
+          status: status.connected ? "connected" : "disconnected",
+          fallback_mode: status.fallbackMode,
+          error: status.connectionError,
+          backends: status.health,
+          read_only: service.isReadOnly(),
+          puppygraph_url: endpoints.neo4j_url,
+          puppygraph_database: endpoints.neo4j_database,
+          gremlin_url: endpoints.gremlin_url,
+          schema_url: endpoints.schema_url
+        });
+      } catch (error: any) {
+        console.error("Error fetching connection status:", error);
+
+        return jsonResponse({
+          status: "error",
+          error: error.message || "Error fetching connection status"
+        });
+      }
+    }
+  );
+
+  registerTool(
+    "puppygraph_instances",
+    "List the configured PuppyGraph instances and their connection state",
+    {},
+    async (_args, _extra) => {
+      try {
+        console.error("Listing PuppyGraph instances");
+
+        return jsonResponse({
+          default_instance: registry.getDefaultInstanceName(),
+          instances: registry.listInstances()
+        });
+      } catch (error: any) {
+        console.error("Error listing PuppyGraph instances:", error);
+
+        return jsonResponse({
+          status: "error",
+          error: error.message || "Error listing PuppyGraph instances"
+        });
+      }
+    }
+  );
+
+  return server;
+}
 
 async function main() {
   console.error("Starting PuppyGraph MCP Server...");
-  
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  
-  const status = puppyGraphService.getConnectionStatus();
-  
-  console.error("PuppyGraph MCP Server running on stdio");
-  console.error(`Available tools: puppygraph_query, puppygraph_schema, puppygraph_status`);
-  console.error(`PuppyGraph URL: ${process.env.PUPPYGRAPH_URL || "bolt://localhost:7687"}`);
-  console.error(`PuppyGraph Database: ${process.env.PUPPYGRAPH_DATABASE || "default"}`);
-  console.error(`Connection status: ${status.connected ? "Connected" : "Disconnected"}${status.fallbackMode ? " (Using fallback data)" : ""}`);
-  
-  if (status.connectionError) {
-    console.error(`Connection error: ${status.connectionError}`);
+
+  const argv = process.argv.slice(2);
+  const settings = loadSettings(argv);
+  const config = loadConfig(argv, settings);
+  const transportConfig = loadTransportConfig(argv, settings);
+
+  for (const line of describeConfig(config, transportConfig)) {
+    console.error(line);
+  }
+
+  const registry = new PuppyGraphServiceRegistry(config);
+  const context: ServerContext = { config, registry, resultBuffer: new ResultBuffer(config.resultTtlMs) };
+
+  let httpServer: McpHttpServer | undefined;
+
+  // Ensure connections are closed gracefully on application shutdown
+  const shutdown = async () => {
+    await httpServer?.close();
+    await registry.close();
+  };
+
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  if (transportConfig.type === "http") {
+    httpServer = await startHttpServer(() => createServer(context), transportConfig);
+    console.error(`PuppyGraph MCP Server listening on http://${transportConfig.host}:${transportConfig.port}${MCP_PATH} (legacy SSE: ${SSE_PATH})`);
+  } else {
+    const transport = new StdioServerTransport();
+    await createServer(context).connect(transport);
+    console.error("PuppyGraph MCP Server running on stdio");
+  }
+
+  registry.startSchemaPolling();
+  registry.startHealthMonitoring();
+
+  console.error(`Available tools: puppygraph_query, puppygraph_explain, puppygraph_translate, puppygraph_neighbors, puppygraph_path, puppygraph_sample, puppygraph_profile, puppygraph_fetch_more, puppygraph_schema, puppygraph_status, puppygraph_instances`);
+  console.error(`Available resources: puppygraph://schema, puppygraph://schema/vertex/{label}, puppygraph://schema/edge/{label}`);
+
+  for (const instance of registry.listInstances()) {
+    const status = registry.get(instance.name).getConnectionStatus();
+
+    console.error(`[${instance.name}] Connection status: ${status.connected ? "Connected" : "Disconnected"}${status.fallbackMode ? " (Using fallback data)" : ""}`);
+
+    if (status.connectionError) {
+      console.error(`[${instance.name}] Connection error: ${status.connectionError}`);
+    }
   }
 }
 
 main().catch((error) => {
   console.error("Fatal error in main():", error);
   process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,100 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { PuppyGraphServiceRegistry } from '../services/registry.js';
+import { findSchemaElement, getSchemaElements } from '../utils/schema.js';
+
+/** URI of the full schema resource */
+export const SCHEMA_URI = 'puppygraph://schema';
+
+const JSON_MIME_TYPE = 'application/json';
+
+/**
+ * Returns the vertex or edge labels of the default instance's schema, or an
+ * empty list if no schema is available. Graph statistics are never used,
+ * since listing resources must not scan the graph.
+ */
+async function listLabels(registry: PuppyGraphServiceRegistry, kind: 'vertex' | 'edge'): Promise<string[]> {
+  try {
+    const { schema } = await registry.get().getCachedDataSources({ statistics: false });
+    return getSchemaElements(schema, kind)
+      .map(element => element?.label)
+      .filter((label): label is string => typeof label === 'string');
+  } catch (error: any) {
+    console.error(`Error listing ${kind} labels:`, error.message);
+    return [];
+  }
+}
+
+/**
+ * Registers the schema of the default instance as MCP resources:
+ * - `puppygraph://schema`: the full schema
+ * - `puppygraph://schema/vertex/{label}`: the definition of one vertex label
+ * - `puppygraph://schema/edge/{label}`: the definition of one edge label
+ *
+ * The resources are read from the schema cache shared with the
+ * `puppygraph_schema` tool. Only the full schema falls back to graph
+ * statistics while the schema endpoint is unavailable. Clients are sent a resource list change
+ * notification whenever the schema is found to have changed.
+ *
+ * @param server Server to register the resources on
+ * @param registry Registry providing the default instance
+ */
+export function registerSchemaResources(server: McpServer, registry: PuppyGraphServiceRegistry): void {
+  server.resource(
+    'schema',
+    SCHEMA_URI,
+    {
+      description: 'Full PuppyGraph schema: catalogs, vertex labels and edge labels',
+      mimeType: JSON_MIME_TYPE
+    },
+    async (uri) => {
+      const result = await registry.get().getCachedDataSources();
+      return {
+        contents: [{ uri: uri.href, mimeType: JSON_MIME_TYPE, text: JSON.stringify(result, null, 2) }]
+      };
+    }
+  );
+
+  for (const kind of ['vertex', 'edge'] as const) {
+    const template = new ResourceTemplate(`${SCHEMA_URI}/${kind}/{label}`, {
+      list: async () => ({
+        resources: (await listLabels(registry, kind)).map(label => ({
+          uri: `${SCHEMA_URI}/${kind}/${encodeURIComponent(label)}`,
+          name: `${kind} ${label}`,
+          mimeType: JSON_MIME_TYPE
+        }))
+      }),
+      complete: {
+        label: async (value) => (await listLabels(registry, kind)).filter(label => label.startsWith(value))
+      }
+    });
+
+    server.resource(
+      `schema-${kind}`,
+      template,
+      {
+        description: `Schema definition of a single PuppyGraph ${kind} label`,
+        mimeType: JSON_MIME_TYPE
+      },
+      async (uri, variables) => {
+        const label = decodeURIComponent(String(variables.label));
+        const { schema } = await registry.get().getCachedDataSources({ statistics: false });
+        const definition = findSchemaElement(schema, kind, label);
+
+        if (!definition) {
+          throw new Error(`${kind === 'vertex' ? 'Vertex' : 'Edge'} label "${label}" not found in schema`);
+        }
+
+        return {
+          contents: [{
+            uri: uri.href,
+            mimeType: JSON_MIME_TYPE,
+            text: JSON.stringify({ kind, label, definition }, null, 2)
+          }]
+        };
+      }
+    );
+  }
+
+  const unsubscribe = registry.get().onSchemaChange(() => server.sendResourceListChanged());
+  server.server.onclose = unsubscribe;
+}
@@ -1,8 +1,44 @@
 import { Neo4jClient } from '../clients/neo4j.js';
 import { GremlinClient } from '../clients/gremlin.js';
-import { loadConfig } from '../utils/config.js';
-import { fetchSchemaFromEndpoint } from '../utils/schema.js';
-import { QueryResult } from '../utils/types.js';
+import { PuppyGraphInstanceConfig } from '../utils/config.js';
+import { fetchSchemaFromEndpoint, SchemaResult } from '../utils/schema.js';
+import { GraphSchema, parseSchema } from '../utils/schema-model.js';
+import { CachedValue, SchemaCache } from '../utils/schema-cache.js';
+import { QueryParams, QueryResult, TranslatedQueryResult } from '../utils/types.js';
+import { assertReadOnly, QueryLanguage } from '../utils/readonly.js';
+import { normalizeCypherPlan, normalizeGremlinMetrics, QueryPlan } from '../utils/plan.js';
+import { QueryCancelledError, QueryTimeoutError, QueryTimeoutOptions, runWithTimeout } from '../utils/timeout.js';
+import { translateQuery } from '../utils/translate.js';
+import { findSchemaIssues, SchemaMismatchError, SchemaValidationMode } from '../utils/schema-validation.js';
+import {
+  buildHopQuery,
+  buildVertexLookup,
+  describeVertexReference,
+  GraphQuery,
+  Neighborhood,
+  NeighborhoodOptions,
+  SubgraphBuilder,
+  VertexReference
+} from '../utils/neighborhood.js';
+import { buildPathQuery, PathSearchOptions, PathSearchResult, toFoundPath } from '../utils/paths.js';
+import { buildSampleQuery, ElementKind, LabelSample, labelKind, summarizeProperties } from '../utils/sample.js';
+import { LabelProfile, profileProperties } from '../utils/profile.js';
+import { BackendHealth, BackendMonitor, HealthCheckOptions } from '../utils/health.js';
+
+/** How long a health probe may take before the backend counts as failing, in milliseconds */
+const HEALTH_PROBE_TIMEOUT_MS = 10000;
+/** Most property profiles cached per instance; the least recently used are dropped beyond it */
+const MAX_CACHED_PROFILES = 100;
+
+/**
+ * Configuration of a service: the connection settings of its instance, plus
+ * the settings shared by all instances
+ */
+export type PuppyGraphServiceConfig = Omit<PuppyGraphInstanceConfig, 'name'> & {
+  name?: string;
+  schemaCacheTtlMs?: number;
+  schemaValidation?: SchemaValidationMode;
+};
 
 /**
  * Core service that manages connections to graph databases and executes queries
@@ -10,42 +46,83 @@ import { QueryResult } from '../utils/types.js';
  * This service:
  * - Manages connections to Neo4j (Cypher) and Gremlin endpoints
  * - Executes queries and returns standardized results
+ * - Rejects queries that modify the graph when the instance is read-only
  * - Provides schema information about the graph
- * - Monitors connection status
+ * - Monitors the health of each endpoint and reconnects in the background
  */
 export class PuppyGraphService {
+  /** Name of the PuppyGraph instance this service connects to */
+  public readonly name: string;
   /** Neo4j client for Cypher queries */
   private neo4jClient: Neo4jClient;
   /** Gremlin client for Gremlin queries */
   private gremlinClient: GremlinClient;
-  /** Configuration loaded from environment variables */
-  private config = loadConfig();
+  /** Connection configuration of the instance */
+  private config: Omit<PuppyGraphInstanceConfig, 'name'>;
   /** Current connection error message, if any */
   private connectionError: string | null = null;
+  /** Serialized form of the last schema fetched from the schema endpoint */
+  private schemaFingerprint: string | null = null;
+  /** Callbacks notified when the schema changes */
+  private schemaListeners = new Set<() => void>();
+  /** Timer polling the schema endpoint for changes */
+  private schemaPollTimer: NodeJS.Timeout | null = null;
+  /** Cached schema information from the schema endpoint; see `loadSchema` */
+  private dataSourcesCache: SchemaCache<any>;
+  /** Cached graph statistics, served while the schema endpoint never returned a schema */
+  private statisticsCache: SchemaCache<any>;
+  /** Time to live of cached schema information, in milliseconds */
+  private schemaCacheTtlMs?: number;
+  /** Cached property profiles, by label and profiling options, from least to most recently used */
+  private profileCaches = new Map<string, SchemaCache<LabelProfile>>();
+  /** How queries are checked against the schema before they run */
+  private schemaValidation: SchemaValidationMode;
+  /** Health of the Neo4j endpoint */
+  private neo4jHealth: BackendMonitor;
+  /** Health of the Gremlin endpoint */
+  private gremlinHealth: BackendMonitor;
+  /** Settles when the initial connection attempts are done */
+  private initialized: Promise<void>;
+  /** Probe timing while health monitoring is requested */
+  private healthCheckOptions: HealthCheckOptions | null = null;
 
-  constructor() {
-    console.log(`PuppyGraph Neo4j service initialized with URL: ${this.config.neo4j.url}`);
-    console.log(`PuppyGraph Gremlin service initialized with URL: ${this.config.gremlin.url}`);
-    console.log(`Using database: ${this.config.neo4j.database || "default"}`);
+  constructor(config: PuppyGraphServiceConfig) {
+    this.name = config.name || 'default';
+    this.config = config;
+    this.schemaValidation = config.schemaValidation ?? 'warn';
+    this.schemaCacheTtlMs = config.schemaCacheTtlMs;
+    this.dataSourcesCache = new SchemaCache(() => this.loadSchema(true), config.schemaCacheTtlMs);
+    this.statisticsCache = new SchemaCache(() => this.getDatabaseStatistics(), config.schemaCacheTtlMs);
+    
+    console.error(`PuppyGraph instance: ${this.name}`);
+    console.error(`PuppyGraph Neo4j service initialized with URL: ${this.config.neo4j.url}`);
+    console.error(`PuppyGraph Gremlin service initialized with URL: ${this.config.gremlin.url}`);
+    console.error(`Using database: ${this.config.neo4j.database || "default"}`);
     
     this.neo4jClient = new Neo4jClient(this.config.neo4j);
     this.gremlinClient = new GremlinClient(this.config.gremlin);
+    this.neo4jHealth = new BackendMonitor(() => this.probe('cypher'));
+    this.gremlinHealth = new BackendMonitor(() => this.probe('gremlin'));
     
-    this.initialize();
+    this.initialized = this.initialize();
   }
 
   private async initialize(): Promise<void> {
-    try {
-      await this.neo4jClient.connect();
-    } catch (error: any) {
-      console.error('Neo4j connection initialization error:', error.message);
-    }
+    const connect = async (client: Neo4jClient | GremlinClient, health: BackendMonitor, endpoint: string) => {
+      try {
+        if (await client.connect()) {
+          health.recordSuccess();
+        } else {
+          health.recordFailure(client.getConnectionError() || 'Unknown error');
+        }
+      } catch (error: any) {
+        console.error(`${endpoint} connection initialization error:`, error.message);
+        health.recordFailure(error.message);
+      }
+    };
     
-    try {
-      await this.gremlinClient.connect();
-    } catch (error: any) {
-      console.error('Gremlin connection initialization error:', error.message);
-    }
+    await connect(this.neo4jClient, this.neo4jHealth, 'Neo4j');
+    await connect(this.gremlinClient, this.gremlinHealth, 'Gremlin');
     
     this.updateConnectionError();
     
@@ -53,6 +130,41 @@ export class PuppyGraphService {
       console.error('All connection attempts failed');
     }
   }
+
+  /**
+   * Checks the endpoint of a query language, reconnecting its client if it
+   * is not connected
+   * 
+   * @throws Error with the connection error if the endpoint does not answer
+   */
+  private async probe(language: QueryLanguage): Promise<void> {
+    const client = language === 'gremlin' ? this.gremlinClient : this.neo4jClient;
+    const healthy = client.isConnected() ? await client.ping(HEALTH_PROBE_TIMEOUT_MS) : await client.connect();
+    this.updateConnectionError();
+    
+    if (!healthy) {
+      throw new Error(client.getConnectionError() || 'Unknown error');
+    }
+  }
+
+  /**
+   * Reconnects the client of a query language that is not connected. While
+   * health monitoring runs, reconnection is left to it, so tool calls do not
+   * wait for connection attempts.
+   * 
+   * @returns Whether the client is connected
+   */
+  private async reconnect(language: QueryLanguage): Promise<boolean> {
+    const health = language === 'gremlin' ? this.gremlinHealth : this.neo4jHealth;
+    const endpoint = language === 'gremlin' ? 'Gremlin' : 'Neo4j';
+    
+    if (health.isRunning()) {
+      return false;
+    }
+    
+    console.error(`Not connected to ${endpoint} endpoint, attempting to reconnect...`);
+    return health.check();
+  }
   
   private updateConnectionError(): void {
     const neo4jError = this.neo4jClient.getConnectionError();
@@ -69,103 +181,579 @@ export class PuppyGraphService {
     }
   }
 
-  public async executeGremlin(params: { query: string; parameters?: Record<string, any> }): Promise<QueryResult<any>> {
-    console.log(`Executing Gremlin query: ${params.query}`);
-    console.log(`Parameters: ${JSON.stringify(params.parameters || {})}`);
+  /**
+   * Reconnects the client for a query language if it is not connected, unless
+   * health monitoring takes care of reconnection
+   * 
+   * @throws Error if the client is not connected afterwards
+   */
+  private async ensureConnected(language: QueryLanguage): Promise<void> {
+    const client = language === 'gremlin' ? this.gremlinClient : this.neo4jClient;
+    const endpoint = language === 'gremlin' ? 'Gremlin' : 'Neo4j';
     
-    // Try to reconnect if needed
-    if (!this.gremlinClient.isConnected()) {
-      console.log('Not connected to Gremlin endpoint, attempting to reconnect...');
-      const reconnected = await this.gremlinClient.connect();
-      this.updateConnectionError();
-      
-      if (!reconnected) {
-        console.error('Gremlin reconnection failed');
-        throw new Error(`Cannot execute Gremlin query: Not connected to Gremlin endpoint. ${this.connectionError || ''}`);
-      }
+    if (client.isConnected()) {
+      return;
+    }
+    
+    if (!await this.reconnect(language)) {
+      console.error(`${endpoint} reconnection failed`);
+      const queryType = language === 'gremlin' ? 'Gremlin' : 'Cypher';
+      const { next_probe } = (language === 'gremlin' ? this.gremlinHealth : this.neo4jHealth).getHealth();
+      const retry = next_probe ? ` Reconnecting in the background, next attempt at ${next_probe}.` : '';
+      throw new Error(`Cannot execute ${queryType} query: Not connected to ${endpoint} endpoint. ${this.connectionError || ''}${retry}`);
+    }
+  }
+
+  /**
+   * Returns the language of a connected endpoint, preferring Cypher, and
+   * reconnects if neither is connected
+   * 
+   * @throws Error if neither endpoint can be reconnected
+   */
+  private async availableLanguage(): Promise<QueryLanguage> {
+    if (this.neo4jClient.isConnected()) {
+      return 'cypher';
+    }
+    if (this.gremlinClient.isConnected()) {
+      return 'gremlin';
+    }
+    
+    try {
+      await this.ensureConnected('cypher');
+      return 'cypher';
+    } catch {
+      await this.ensureConnected('gremlin');
+      return 'gremlin';
+    }
+  }
+
+  /**
+   * Runs a query built by the server itself, bypassing the read-only check
+   * and schema validation applied to client queries
+   */
+  private runGraphQuery(language: QueryLanguage, graphQuery: GraphQuery, options: QueryTimeoutOptions): Promise<any[]> {
+    return language === 'gremlin'
+      ? this.gremlinClient.executeQuery(graphQuery.query, graphQuery.parameters, options)
+      : this.neo4jClient.executeQuery(graphQuery.query, graphQuery.parameters, { ...options, readOnly: this.isReadOnly() });
+  }
+
+  /**
+   * Returns the typed schema model from the schema cache. Graph statistics
+   * from database queries are never used in its place.
+   * 
+   * @throws Error explaining why no typed schema is available
+   */
+  private async cachedGraphSchema(): Promise<GraphSchema> {
+    const { value } = await this.dataSourcesCache.get();
+    if (value.validation_error !== undefined) {
+      throw new Error(value.validation_error);
+    }
+    return value.schema;
+  }
+
+  /**
+   * Checks the labels and property keys a query references against the
+   * cached schema. Queries are not checked when validation is off or no
+   * typed schema is available; the latter is reported as a warning.
+   * 
+   * @returns Warnings describing unknown names, or why the query was not checked
+   * @throws SchemaMismatchError if the query uses unknown names and validation is blocking
+   */
+  private async validateAgainstSchema(query: string, language: QueryLanguage): Promise<string[]> {
+    if (this.schemaValidation === 'off') {
+      return [];
+    }
+    
+    let schema: GraphSchema;
+    try {
+      schema = await this.cachedGraphSchema();
+    } catch (error: any) {
+      console.error('Schema unavailable, query is not validated:', error.message);
+      return [`Query was not checked against the schema, none is available: ${error.message}`];
+    }
+    if (schema.vertices.length === 0) {
+      return [];
+    }
+    
+    const issues = findSchemaIssues(query, language, schema);
+    if (issues.length > 0 && this.schemaValidation === 'block') {
+      throw new SchemaMismatchError(issues);
+    }
+    return issues.map(issue => issue.message);
+  }
+
+  public async executeGremlin(params: QueryParams): Promise<QueryResult<any>> {
+    console.error(`Executing Gremlin query: ${params.query}`);
+    console.error(`Parameters: ${JSON.stringify(params.parameters || {})}`);
+    
+    if (this.isReadOnly()) {
+      assertReadOnly(params.query, 'gremlin');
     }
     
+    const schemaWarnings = await this.validateAgainstSchema(params.query, 'gremlin');
+    
+    await this.ensureConnected('gremlin');
+    
     const startTime = Date.now();
     
     try {
-      const result = await this.gremlinClient.executeQuery(params.query, params.parameters);
+      const result = await this.gremlinClient.executeQuery(params.query, params.parameters, {
+        timeoutMs: params.timeoutMs,
+        signal: params.signal
+      });
       const executionTime = Date.now() - startTime;
       
-      console.log(`Gremlin query executed successfully, returned ${result.length} items`);
+      console.error(`Gremlin query executed successfully, returned ${result.length} items`);
       
       return {
         data: result,
         metadata: {
           execution_time: executionTime,
-          row_count: result.length
+          row_count: result.length,
+          ...(schemaWarnings.length > 0 ? { schema_warnings: schemaWarnings } : {})
         }
       };
     } catch (error: any) {
       console.error('Error executing Gremlin query:', error);
+      if (error instanceof QueryTimeoutError || error instanceof QueryCancelledError) {
+        throw error;
+      }
       throw new Error(`Error executing Gremlin query: ${error.message}`);
     }
   }
 
-  public async executeCypher(params: { query: string; parameters?: Record<string, any> }): Promise<QueryResult<any>> {
-    console.log(`Executing Cypher query: ${params.query}`);
-    console.log(`Parameters: ${JSON.stringify(params.parameters || {})}`);
+  public async executeCypher(params: QueryParams): Promise<QueryResult<any>> {
+    console.error(`Executing Cypher query: ${params.query}`);
+    console.error(`Parameters: ${JSON.stringify(params.parameters || {})}`);
     
-    // Try to reconnect if needed
-    if (!this.neo4jClient.isConnected()) {
-      console.log('Not connected to Neo4j endpoint, attempting to reconnect...');
-      const reconnected = await this.neo4jClient.connect();
-      this.updateConnectionError();
-      
-      if (!reconnected) {
-        console.error('Neo4j reconnection failed');
-        throw new Error(`Cannot execute Cypher query: Not connected to Neo4j endpoint. ${this.connectionError || ''}`);
-      }
+    if (this.isReadOnly()) {
+      assertReadOnly(params.query, 'cypher');
     }
     
+    const schemaWarnings = await this.validateAgainstSchema(params.query, 'cypher');
+    
+    await this.ensureConnected('cypher');
+    
     const startTime = Date.now();
     
     try {
-      const records = await this.neo4jClient.executeQuery(params.query, params.parameters);
+      const records = await this.neo4jClient.executeQuery(params.query, params.parameters, {
+        readOnly: this.isReadOnly(),
+        timeoutMs: params.timeoutMs,
+        signal: params.signal
+      });
       const executionTime = Date.now() - startTime;
       
-      console.log(`Cypher query executed successfully, returned ${records.length} records`);
+      console.error(`Cypher query executed successfully, returned ${records.length} records`);
       
       return {
         data: records,
         metadata: {
           execution_time: executionTime,
-          row_count: records.length
+          row_count: records.length,
+          ...(schemaWarnings.length > 0 ? { schema_warnings: schemaWarnings } : {})
         }
       };
     } catch (error: any) {
       console.error('Error executing Cypher query:', error);
+      if (error instanceof QueryTimeoutError || error instanceof QueryCancelledError) {
+        throw error;
+      }
       throw new Error(`Error executing Cypher query: ${error.message}`);
     }
   }
 
+  /**
+   * Returns the execution plan of a query. Cypher queries are planned with
+   * `EXPLAIN`, or run and measured with `PROFILE`; Gremlin traversals are
+   * always run and measured with the `profile()` step.
+   * 
+   * @param params.language Language of the query
+   * @param params.profile Run the query to measure actual rows and timings
+   */
+  public async explain(params: QueryParams & { language: QueryLanguage; profile?: boolean }): Promise<QueryPlan> {
+    const profile = params.language === 'gremlin' || params.profile === true;
+    console.error(`${profile ? 'Profiling' : 'Explaining'} ${params.language} query: ${params.query}`);
+    
+    // Profiling runs the query, so it is subject to the read-only policy
+    if (profile && this.isReadOnly()) {
+      assertReadOnly(params.query, params.language);
+    }
+    
+    await this.ensureConnected(params.language);
+    const options = { timeoutMs: params.timeoutMs, signal: params.signal };
+    
+    if (params.language === 'gremlin') {
+      const metrics = await this.gremlinClient.profileQuery(params.query, params.parameters, options);
+      return normalizeGremlinMetrics(metrics);
+    }
+    
+    const plan = await this.neo4jClient.explainQuery(params.query, params.parameters, {
+      ...options,
+      readOnly: this.isReadOnly(),
+      profile
+    });
+    return {
+      language: 'cypher',
+      mode: profile ? 'profile' : 'explain',
+      operators: [normalizeCypherPlan(plan, profile)]
+    };
+  }
+
+  /**
+   * Translates a query to the other language and runs it. The translation
+   * runs on the endpoint of its language when that endpoint is connected;
+   * otherwise the original query runs on its own endpoint.
+   * 
+   * @param params.language Language of the query
+   * @returns The query result, with the translation and the language that ran in `metadata.translation`
+   */
+  public async executeTranslated(params: QueryParams & { language: QueryLanguage }): Promise<TranslatedQueryResult> {
+    const translation = translateQuery(params.query, params.language);
+    const targetConnected = translation.target_language === 'gremlin'
+      ? this.gremlinClient.isConnected()
+      : this.neo4jClient.isConnected();
+    const sourceConnected = params.language === 'gremlin'
+      ? this.gremlinClient.isConnected()
+      : this.neo4jClient.isConnected();
+    
+    const language = targetConnected || !sourceConnected ? translation.target_language : params.language;
+    const query = language === translation.target_language ? translation.query : params.query;
+    console.error(`Executing ${language === params.language ? 'original' : 'translated'} ${language} query`);
+    
+    const execute = language === 'gremlin' ? this.executeGremlin : this.executeCypher;
+    const result = await execute.call(this, { ...params, query });
+    return {
+      data: result.data,
+      metadata: { ...result.metadata, translation: { ...translation, executed_language: language } }
+    };
+  }
+
+  /**
+   * Explores the neighborhood of a vertex breadth first, through whichever
+   * endpoint is connected. Each hop runs one query, subject to the timeout.
+   * 
+   * @param params.start The vertex to start from; a reference by key property may match several
+   * @returns The deduplicated nodes and edges found
+   * @throws Error if the start vertex does not exist
+   */
+  public async getNeighborhood(
+    params: NeighborhoodOptions & QueryTimeoutOptions & { start: VertexReference }
+  ): Promise<Neighborhood> {
+    const language = await this.availableLanguage();
+    const options = { timeoutMs: params.timeoutMs, signal: params.signal };
+    console.error(`Exploring ${params.depth} hop neighborhood of ${describeVertexReference(params.start)} with ${language}`);
+    
+    const startTime = Date.now();
+    const subgraph = new SubgraphBuilder();
+    
+    const starts = await this.runGraphQuery(language, buildVertexLookup(params.start, language, params.limit), options);
+    if (starts.length === 0) {
+      throw new Error(`No ${describeVertexReference(params.start)} found`);
+    }
+    
+    let frontier = starts.map(row => row.node).filter(node => subgraph.addNode(node)).map(node => node.id);
+    const limited: any[] = [];
+    let depth = 0;
+    
+    let maxEdgesReached = false;
+    
+    while (depth < params.depth && frontier.length > 0 && !maxEdgesReached) {
+      const maxRows = params.maxEdges - subgraph.edgeCount();
+      const rows = await this.runGraphQuery(language, buildHopQuery(frontier, language, params, maxRows), options);
+      const hop = subgraph.addHop(rows, params.limit);
+      limited.push(...hop.limited);
+      frontier = hop.frontier;
+      maxEdgesReached = rows.length >= maxRows;
+      depth++;
+    }
+    
+    const { nodes, edges } = subgraph.build();
+    return {
+      nodes,
+      edges,
+      metadata: {
+        language,
+        execution_time: Date.now() - startTime,
+        node_count: nodes.length,
+        edge_count: edges.length,
+        depth,
+        ...(limited.length > 0 ? { limited_node_ids: limited } : {}),
+        ...(maxEdgesReached ? { max_edges_reached: true } : {})
+      }
+    };
+  }
+
+  /**
+   * Finds the shortest paths between two vertices through whichever endpoint
+   * is connected, bounded by the maximum number of hops
+   * 
+   * @returns The paths found, shortest first
+   */
+  public async findPaths(
+    params: PathSearchOptions & QueryTimeoutOptions & { source: VertexReference; target: VertexReference }
+  ): Promise<PathSearchResult> {
+    const language = await this.availableLanguage();
+    const graphQuery = buildPathQuery(params.source, params.target, language, params);
+    console.error(
+      `Finding paths from ${describeVertexReference(params.source)} to ${describeVertexReference(params.target)} with ${language}`
+    );
+    
+    const startTime = Date.now();
+    const rows = await this.runGraphQuery(language, graphQuery, { timeoutMs: params.timeoutMs, signal: params.signal });
+    const paths = rows
+      .map(row => toFoundPath(language === 'cypher' ? row.path : row))
+      .sort((a, b) => a.length - b.length);
+    
+    return {
+      paths,
+      metadata: {
+        language,
+        execution_time: Date.now() - startTime,
+        path_count: paths.length
+      }
+    };
+  }
+
+  /**
+   * Returns sample elements of a label with a summary of their properties,
+   * through whichever endpoint is connected
+   * 
+   * @param params.kind Whether the label is a vertex or an edge label; looked up in the schema when omitted
+   * @param params.limit Number of elements to sample
+   * @throws Error if the kind is omitted and the schema does not define the label
+   */
+  public async sampleLabel(
+    params: { label: string; kind?: ElementKind; limit: number } & QueryTimeoutOptions
+  ): Promise<LabelSample> {
+    let schema: GraphSchema | null = null;
+    let schemaError: string | null = null;
+    try {
+      schema = await this.cachedGraphSchema();
+    } catch (error: any) {
+      console.error('Schema unavailable for sampling:', error.message);
+      schemaError = error.message;
+    }
+    
+    const kind = params.kind ?? (schema ? labelKind(params.label, schema) : undefined);
+    if (!kind) {
+      throw new Error(`Cannot tell whether "${params.label}" is a vertex or an edge label without a schema (${schemaError}); pass its kind`);
+    }
+    
+    const language = await this.availableLanguage();
+    console.error(`Sampling ${params.limit} elements of ${kind} label ${params.label} with ${language}`);
+    
+    const startTime = Date.now();
+    const rows = await this.runGraphQuery(
+      language,
+      buildSampleQuery(params.label, kind, language, params.limit),
+      { timeoutMs: params.timeoutMs, signal: params.signal }
+    );
+    const elements = rows.map(row => row.element);
+    const definition = (kind === 'vertex' ? schema?.vertices : schema?.edges)?.find(element => element.label === params.label);
+    
+    return {
+      label: params.label,
+      kind,
+      elements,
+      properties: summarizeProperties(elements, definition?.properties),
+      metadata: {
+        language,
+        execution_time: Date.now() - startTime,
+        sample_size: elements.length
+      }
+    };
+  }
+
+  /**
+   * Computes property statistics of a label over a sample of its elements.
+   * Profiles are cached like schema information, and dropped when the schema
+   * changes. Requests for the same profile share its load, which is limited
+   * by the timeout of the request that started it. Each request waits no
+   * longer than its own timeout, and cancelling a request only stops it from
+   * waiting; the load goes on for the other requests and is cached.
+   * 
+   * @param params.kind Whether the label is a vertex or an edge label; looked up in the schema when omitted
+   * @param params.sampleSize Number of elements to compute the statistics over
+   * @param params.topK Number of most frequent values to report per property
+   * @param params.refresh Recompute the profile even if it is cached
+   */
+  public async profileLabel(
+    params: { label: string; kind?: ElementKind; sampleSize: number; topK: number; refresh?: boolean } & QueryTimeoutOptions
+  ): Promise<LabelProfile & { cache: Omit<CachedValue<LabelProfile>, 'value'> }> {
+    const key = JSON.stringify([params.label, params.kind ?? null, params.sampleSize, params.topK]);
+    const load = async (timeoutMs?: number): Promise<LabelProfile> => {
+      const sample = await this.sampleLabel({ label: params.label, kind: params.kind, limit: params.sampleSize, timeoutMs });
+      return {
+        label: sample.label,
+        kind: sample.kind,
+        sample_size: sample.metadata.sample_size,
+        properties: profileProperties(sample.elements, sample.properties, params.topK),
+        metadata: { language: sample.metadata.language, execution_time: sample.metadata.execution_time }
+      };
+    };
+
+    const cache = this.profileCaches.get(key) ?? new SchemaCache(() => load(), this.schemaCacheTtlMs);
+    this.profileCaches.delete(key);
+    this.profileCaches.set(key, cache);
+    if (this.profileCaches.size > MAX_CACHED_PROFILES) {
+      this.profileCaches.delete(this.profileCaches.keys().next().value!);
+    }
+
+    const { value, ...cached } = await runWithTimeout(
+      () => cache.get({ refresh: params.refresh, load: () => load(params.timeoutMs) }),
+      { timeoutMs: params.timeoutMs, signal: params.signal }
+    );
+    return { ...value, cache: cached };
+  }
+
+  /**
+   * Fetches the schema from the schema endpoint and notifies schema change
+   * listeners if it differs from the previously fetched one
+   */
+  public async getSchema(): Promise<SchemaResult> {
+    return this.fetchSchema(false);
+  }
+
+  /**
+   * Fetches the schema and handles a change of it
+   *
+   * @param fromCache Whether the schema cache is loading the schema, in which
+   *        case the cached schema information is replaced by the load rather
+   *        than invalidated, which would discard the load
+   */
+  private async fetchSchema(fromCache: boolean): Promise<SchemaResult> {
+    const result = await fetchSchemaFromEndpoint(this.config.schema);
+    
+    const fingerprint = JSON.stringify(result.schema);
+    const changed = this.schemaFingerprint !== null && this.schemaFingerprint !== fingerprint;
+    this.schemaFingerprint = fingerprint;
+    
+    if (changed) {
+      console.error(`Schema of instance ${this.name} changed`);
+      if (!fromCache) {
+        this.dataSourcesCache.invalidate();
+      }
+      this.statisticsCache.invalidate();
+      this.profileCaches.clear();
+      for (const listener of this.schemaListeners) {
+        listener();
+      }
+    }
+    
+    return result;
+  }
+
+  /**
+   * Registers a callback invoked whenever a fetched schema differs from the
+   * previous one
+   *
+   * @returns Function that unregisters the callback
+   */
+  public onSchemaChange(listener: () => void): () => void {
+    this.schemaListeners.add(listener);
+    return () => {
+      this.schemaListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Periodically fetches the schema so changes are detected without a client
+   * asking for it
+   */
+  public startSchemaPolling(intervalMs: number): void {
+    this.stopSchemaPolling();
+    this.schemaPollTimer = setInterval(() => {
+      this.getSchema().catch((error: any) => {
+        console.error('Schema polling failed:', error.message);
+      });
+    }, intervalMs);
+    this.schemaPollTimer.unref();
+  }
+
+  public stopSchemaPolling(): void {
+    if (this.schemaPollTimer) {
+      clearInterval(this.schemaPollTimer);
+      this.schemaPollTimer = null;
+    }
+  }
+
+  /**
+   * Returns schema information from the schema cache, with the age of the
+   * cached result in `cache`. The cache is cleared when a change of the
+   * schema is detected. While the schema endpoint is unavailable the last
+   * schema it returned is served; graph statistics from Neo4j or Gremlin
+   * queries are returned only when it never returned one. The statistics
+   * scan the whole graph, so they are cached the same way.
+   * 
+   * @param options.refresh Reload the schema information even if the cached result is fresh
+   * @param options.statistics Fall back to graph statistics (default); when false, the error of the schema endpoint is thrown instead
+   */
+  public async getCachedDataSources(options: { refresh?: boolean; statistics?: boolean } = {}): Promise<any> {
+    try {
+      const { value, ...cache } = await this.dataSourcesCache.get(options);
+      return { ...value, cache };
+    } catch (schemaError: any) {
+      if (options.statistics === false) {
+        throw schemaError;
+      }
+      console.error('Schema endpoint failed, falling back to database queries:', schemaError.message);
+      const { value, ...cache } = await this.statisticsCache.get(options);
+      return { ...value, cache };
+    }
+  }
+
+  /**
+   * Loads schema information for the `puppygraph_schema` tool: the typed
+   * schema model from the schema endpoint, or graph statistics from Neo4j or
+   * Gremlin queries when the endpoint is unavailable. This bypasses the
+   * schema cache; see `getCachedDataSources`.
+   */
   public async getDataSources(): Promise<any> {
-    console.log("Fetching data sources information");
+    console.error("Fetching data sources information");
     
-    // Try schema endpoint first
     try {
-      return await fetchSchemaFromEndpoint(this.config.schema);
+      return await this.loadSchema(false);
     } catch (schemaError: any) {
-      console.log('Schema endpoint failed, falling back to database queries:', schemaError.message);
+      console.error('Schema endpoint failed, falling back to database queries:', schemaError.message);
     }
     
+    return this.getDatabaseStatistics();
+  }
+
+  /**
+   * Loads the schema from the schema endpoint as the typed schema model.
+   * Errors of the endpoint are thrown, so the schema cache keeps serving the
+   * last schema it returned.
+   *
+   * @param fromCache Whether the schema cache is loading the schema; see `fetchSchema`
+   */
+  private async loadSchema(fromCache: boolean): Promise<any> {
+    const result = await this.fetchSchema(fromCache);
+    try {
+      return { ...result, schema: parseSchema(result.schema) };
+    } catch (validationError: any) {
+      // Still return the raw document, which may be usable despite not matching the model
+      console.error('Schema endpoint returned an unexpected schema:', validationError.message);
+      return { ...result, validation_error: validationError.message };
+    }
+  }
+
+  /**
+   * Describes the graph with Neo4j or Gremlin queries, for when the schema
+   * endpoint is unavailable
+   */
+  private async getDatabaseStatistics(): Promise<any> {
     // Try Neo4j connection
     if (!this.neo4jClient.isConnected()) {
-      console.log('Not connected to Neo4j endpoint, attempting to reconnect...');
-      const reconnected = await this.neo4jClient.connect();
-      this.updateConnectionError();
+      const reconnected = await this.reconnect('cypher');
       
       if (!reconnected) {
-        console.log('Neo4j reconnection failed, trying Gremlin endpoint');
+        console.error('Neo4j reconnection failed, trying Gremlin endpoint');
         
         // Try Gremlin connection
         if (!this.gremlinClient.isConnected()) {
-          const gremlinConnected = await this.gremlinClient.connect();
-          this.updateConnectionError();
+          const gremlinConnected = await this.reconnect('gremlin');
           
           if (!gremlinConnected) {
             console.error('Both Neo4j and Gremlin connections failed');
@@ -184,13 +772,7 @@ export class PuppyGraphService {
     
     // Use Neo4j if available
     try {
-      const schemaData = await this.neo4jClient.executeQuery('MATCH (n) RETURN count(n) as count');
-      // Further processing would happen here for a complete schema
-      return { 
-        summary: "Graph Structure Information via Neo4j",
-        nodeCount: schemaData[0].count,
-        timestamp: new Date().toISOString()
-      };
+      return await this.neo4jClient.getSchemaData();
     } catch (error: any) {
       console.error('Failed to get data sources via Neo4j');
       throw new Error('Failed to fetch database schema: ' + (error.message || 'Unknown error'));
@@ -203,6 +785,7 @@ export class PuppyGraphService {
     gremlinConnected: boolean;
     connectionError: string | null; 
     fallbackMode: boolean; 
+    health: { neo4j: BackendHealth; gremlin: BackendHealth };
   } {
     const neo4jConnected = this.neo4jClient.isConnected();
     const gremlinConnected = this.gremlinClient.isConnected();
@@ -212,27 +795,66 @@ export class PuppyGraphService {
       neo4jConnected,
       gremlinConnected,
       connectionError: this.connectionError,
-      fallbackMode: false
+      fallbackMode: false,
+      health: { neo4j: this.neo4jHealth.getHealth(), gremlin: this.gremlinHealth.getHealth() }
+    };
+  }
+
+  /**
+   * Probes both endpoints periodically, reconnecting them with exponential
+   * backoff when they fail. Probing starts once the initial connection
+   * attempts are done. While monitoring runs, tool calls fail fast instead of
+   * waiting for a reconnection.
+   */
+  public startHealthMonitoring(options: HealthCheckOptions): void {
+    this.healthCheckOptions = options;
+    this.initialized.then(() => {
+      // Not stopped or restarted in the meantime
+      if (this.healthCheckOptions === options) {
+        this.neo4jHealth.start(options);
+        this.gremlinHealth.start(options);
+      }
+    });
+  }
+
+  public stopHealthMonitoring(): void {
+    this.healthCheckOptions = null;
+    this.neo4jHealth.stop();
+    this.gremlinHealth.stop();
+  }
+
+  /**
+   * Whether queries that modify the graph are rejected. Read-only is the
+   * default unless explicitly disabled in the instance configuration.
+   */
+  public isReadOnly(): boolean {
+    return this.config.readOnly !== false;
+  }
+
+  /**
+   * Returns the endpoints this service connects to, without credentials
+   */
+  public getEndpoints(): {
+    neo4j_url: string;
+    neo4j_database: string;
+    gremlin_url: string;
+    schema_url: string;
+  } {
+    return {
+      neo4j_url: this.config.neo4j.url,
+      neo4j_database: this.config.neo4j.database || "default",
+      gremlin_url: this.config.gremlin.url,
+      schema_url: this.config.schema.url
     };
   }
 
   public async close(): Promise<void> {
+    this.stopSchemaPolling();
+    this.stopHealthMonitoring();
     await Promise.all([
       this.neo4jClient.close(),
       this.gremlinClient.close()
     ]);
-    console.log('PuppyGraph connections closed');
+    console.error('PuppyGraph connections closed');
   }
 }
-
-// Create and export a singleton instance
-export const puppyGraphService = new PuppyGraphService();
-
-// Ensure connections are closed gracefully on application shutdown
-process.on('SIGINT', async () => {
-  await puppyGraphService.close();
-});
-
-process.on('SIGTERM', async () => {
-  await puppyGraphService.close();
-});
\ No newline at end of file
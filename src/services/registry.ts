@@ -0,0 +1,123 @@
+import { PuppyGraphService } from './puppygraph.js';
+import { PuppyGraphConfig } from '../utils/config.js';
+import { BackendState, HealthCheckOptions } from '../utils/health.js';
+
+/**
+ * Summary of a configured PuppyGraph instance, as reported to clients
+ */
+export interface InstanceInfo {
+  /** Instance name */
+  name: string;
+  /** Whether tool calls without an `instance` argument use this instance */
+  default: boolean;
+  /** Whether the Neo4j or Gremlin endpoint of the instance is connected */
+  connected: boolean;
+  /** Health of the Neo4j endpoint */
+  neo4j_state: BackendState;
+  /** Health of the Gremlin endpoint */
+  gremlin_state: BackendState;
+  /** Neo4j Bolt URL */
+  neo4j_url: string;
+  /** Neo4j database name */
+  neo4j_database: string;
+  /** Gremlin WebSocket URL */
+  gremlin_url: string;
+  /** Schema API URL */
+  schema_url: string;
+}
+
+/**
+ * Holds one PuppyGraphService, and with it one Neo4j/Gremlin client pair,
+ * per configured PuppyGraph instance
+ */
+export class PuppyGraphServiceRegistry {
+  /** Services keyed by instance name */
+  private services = new Map<string, PuppyGraphService>();
+  /** Name of the instance used when none is requested */
+  private defaultInstance: string;
+  /** Schema change polling interval in milliseconds */
+  private schemaPollIntervalMs: number;
+  /** Timing of health probes, or null if health monitoring is disabled */
+  private healthCheck: HealthCheckOptions | null;
+
+  constructor(config: PuppyGraphConfig) {
+    for (const instance of config.instances) {
+      this.services.set(instance.name, new PuppyGraphService({
+        ...instance,
+        schemaCacheTtlMs: config.schemaCacheTtlMs,
+        schemaValidation: config.schemaValidation
+      }));
+    }
+    this.defaultInstance = config.defaultInstance;
+    this.schemaPollIntervalMs = config.schemaPollIntervalMs;
+    this.healthCheck = config.healthCheckIntervalMs > 0
+      ? {
+          intervalMs: config.healthCheckIntervalMs,
+          initialDelayMs: config.reconnectInitialDelayMs,
+          maxDelayMs: config.reconnectMaxDelayMs
+        }
+      : null;
+  }
+
+  /**
+   * Returns the service for an instance
+   *
+   * @param name Instance name, or undefined for the default instance
+   * @throws Error if no instance with that name is configured
+   */
+  public get(name?: string): PuppyGraphService {
+    const service = this.services.get(name || this.defaultInstance);
+    if (!service) {
+      throw new Error(`Unknown PuppyGraph instance "${name}". Configured instances: ${this.getInstanceNames().join(', ')}`);
+    }
+    return service;
+  }
+
+  public getDefaultInstanceName(): string {
+    return this.defaultInstance;
+  }
+
+  public getInstanceNames(): string[] {
+    return [...this.services.keys()];
+  }
+
+  public listInstances(): InstanceInfo[] {
+    return [...this.services.values()].map(service => {
+      const status = service.getConnectionStatus();
+      return {
+        name: service.name,
+        default: service.name === this.defaultInstance,
+        connected: status.connected,
+        neo4j_state: status.health.neo4j.state,
+        gremlin_state: status.health.gremlin.state,
+        ...service.getEndpoints()
+      };
+    });
+  }
+
+  /**
+   * Starts polling the default instance's schema, which backs the schema
+   * resources, so clients are told when it changes
+   */
+  public startSchemaPolling(): void {
+    if (this.schemaPollIntervalMs > 0) {
+      this.get().startSchemaPolling(this.schemaPollIntervalMs);
+    }
+  }
+
+  /**
+   * Starts probing the endpoints of every instance, so they are reconnected
+   * in the background when they fail
+   */
+  public startHealthMonitoring(): void {
+    if (this.healthCheck) {
+      for (const service of this.services.values()) {
+        service.startHealthMonitoring(this.healthCheck);
+      }
+    }
+  }
+
+  public async close(): Promise<void> {
+    await Promise.all([...this.services.values()].map(service => service.close()));
+  }
+}
@@ -0,0 +1,222 @@
+import { randomUUID } from 'node:crypto';
+import { createServer as createHttpServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { TransportConfig } from '../utils/config.js';
+
+/** Path of the Streamable HTTP endpoint */
+export const MCP_PATH = '/mcp';
+/** Path clients open a legacy SSE stream on */
+export const SSE_PATH = '/sse';
+/** Path legacy SSE clients post their messages to */
+export const SSE_MESSAGES_PATH = '/messages';
+
+/**
+ * Reads and parses a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+
+  const body = Buffer.concat(chunks).toString('utf8');
+  return body ? JSON.parse(body) : undefined;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  }));
+}
+
+/**
+ * Connects a new MCP server to a session transport and closes the server when
+ * the transport closes. Closing the server closes the transport again, so only
+ * the first close runs `onclose`.
+ */
+async function connectSession(createServer: () => McpServer, transport: Transport, onclose: () => void): Promise<void> {
+  const server = createServer();
+  let closed = false;
+
+  // Set before connecting so the server chains its own close handling after it
+  transport.onclose = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    onclose();
+    server.close().catch((error) => console.error('Error closing MCP server:', error));
+  };
+
+  await server.connect(transport);
+}
+
+/**
+ * HTTP server started by `startHttpServer`
+ */
+export interface McpHttpServer {
+  /** The listening Node HTTP server */
+  server: Server;
+  /** Closes every open session, then the HTTP server */
+  close(): Promise<void>;
+}
+
+/**
+ * Starts an HTTP server speaking the MCP Streamable HTTP transport on `/mcp`,
+ * with the legacy HTTP+SSE transport on `/sse` and `/messages` for older clients.
+ *
+ * Every client session gets its own `McpServer` from `createServer`; the
+ * servers share the underlying PuppyGraph connections. A session's server is
+ * closed with its transport. Streamable HTTP sessions without a request for
+ * `config.sessionIdleTimeoutMs` are closed, since clients may abandon them
+ * without terminating them; legacy SSE sessions end with their stream.
+ *
+ * @param createServer Factory returning a fully configured MCP server
+ * @param config Transport configuration with the host and port to listen on
+ * @returns The listening HTTP server, with a `close` that ends the open sessions first
+ */
+export async function startHttpServer(createServer: () => McpServer, config: TransportConfig): Promise<McpHttpServer> {
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+  /** Requests in progress, including open streams, by Streamable HTTP session */
+  const activeRequests = new Map<string, number>();
+  /** Timers closing idle Streamable HTTP sessions */
+  const idleTimers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Counts a request of a Streamable HTTP session until its response closes,
+   * and closes the session once it has had no request in progress for the
+   * idle timeout
+   */
+  function trackActivity(sessionId: string, transport: StreamableHTTPServerTransport, res: ServerResponse): void {
+    clearTimeout(idleTimers.get(sessionId));
+    idleTimers.delete(sessionId);
+    activeRequests.set(sessionId, (activeRequests.get(sessionId) ?? 0) + 1);
+
+    res.on('close', () => {
+      const active = (activeRequests.get(sessionId) ?? 1) - 1;
+      activeRequests.set(sessionId, active);
+      if (active > 0 || config.sessionIdleTimeoutMs === 0 || !streamableTransports.has(sessionId)) {
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        console.error(`Closing idle Streamable HTTP session: ${sessionId}`);
+        transport.close().catch((error) => console.error('Error closing MCP session:', error));
+      }, config.sessionIdleTimeoutMs);
+      timer.unref();
+      idleTimers.set(sessionId, timer);
+    });
+  }
+
+  async function handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const transport = streamableTransports.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+        return;
+      }
+      trackActivity(sessionId, transport, res);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamableTransports.set(id, transport);
+        trackActivity(id, transport, res);
+        console.error(`Streamable HTTP session initialized: ${id}`);
+      }
+    });
+
+    await connectSession(createServer, transport, () => {
+      if (transport.sessionId) {
+        streamableTransports.delete(transport.sessionId);
+        activeRequests.delete(transport.sessionId);
+        clearTimeout(idleTimers.get(transport.sessionId));
+        idleTimers.delete(transport.sessionId);
+        console.error(`Streamable HTTP session closed: ${transport.sessionId}`);
+      }
+    });
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseStream(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sseTransports.set(transport.sessionId, transport);
+    console.error(`SSE session initialized: ${transport.sessionId}`);
+
+    await connectSession(createServer, transport, () => {
+      sseTransports.delete(transport.sessionId);
+      console.error(`SSE session closed: ${transport.sessionId}`);
+    });
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get('sessionId') || '';
+    const transport = sseTransports.get(sessionId);
+    if (!transport) {
+      sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    try {
+      if (url.pathname === MCP_PATH) {
+        await handleStreamableRequest(req, res);
+      } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+        await handleSseStream(res);
+      } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        res.writeHead(404).end();
+      }
+    } catch (error: any) {
+      console.error('Error handling MCP HTTP request:', error);
+      if (!res.headersSent) {
+        const status = error instanceof SyntaxError ? 400 : 500;
+        sendJsonRpcError(res, status, status === 400 ? -32700 : -32603, error.message || 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return {
+    server: httpServer,
+    async close() {
+      // The HTTP server waits for open connections to close, which session streams never do on their own
+      const closed = new Promise<void>((resolve, reject) => httpServer.close((error) => (error ? reject(error) : resolve())));
+      const transports: Transport[] = [...streamableTransports.values(), ...sseTransports.values()];
+      await Promise.all(transports.map((transport) => transport.close().catch((error) => console.error('Error closing MCP session:', error))));
+      httpServer.closeIdleConnections();
+      await closed;
+    }
+  };
+}
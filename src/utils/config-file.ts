@@ -0,0 +1,246 @@
+import { readFileSync } from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { SCHEMA_VALIDATION_MODES } from './schema-validation.js';
+
+/**
+ * Error thrown when a configuration file cannot be read or is invalid
+ */
+export class ConfigFileError extends Error {
+  constructor(public readonly path: string, public readonly issues: string[]) {
+    super(`Invalid configuration file ${path}: ${issues.join('; ')}`);
+    this.name = 'ConfigFileError';
+  }
+}
+
+/**
+ * Accepts URLs with one of the given protocols
+ */
+function url(protocols: string[]) {
+  const expected = protocols.map(protocol => `${protocol}//`).join(', ');
+  return z.string().refine(value => {
+    try {
+      return protocols.includes(new URL(value).protocol);
+    } catch {
+      return false;
+    }
+  }, { message: `Invalid URL: expected ${expected}` });
+}
+
+/**
+ * URLs of the connections, validated the same way in the configuration file
+ * and in environment variables
+ */
+export const CONNECTION_URLS = {
+  neo4j: url(['bolt:', 'bolt+s:', 'bolt+ssc:', 'neo4j:', 'neo4j+s:', 'neo4j+ssc:']),
+  gremlin: url(['ws:', 'wss:']),
+  schema: url(['http:', 'https:'])
+};
+
+const duration = z.number().nonnegative();
+const count = z.number().int().nonnegative();
+
+/** Fields reading a password from a file, a command's output or another environment variable */
+const passwordSources = {
+  password_file: z.string(),
+  password_command: z.string(),
+  password_env: z.string()
+};
+
+const tlsSection = z.object({
+  ca_file: z.string(),
+  cert_file: z.string(),
+  key_file: z.string(),
+  server_name: z.string(),
+  insecure: z.boolean()
+}).partial().strict();
+
+const neo4jSection = z.object({
+  url: CONNECTION_URLS.neo4j,
+  username: z.string(),
+  password: z.string(),
+  ...passwordSources,
+  database: z.string(),
+  tls: tlsSection
+}).partial().strict();
+
+const gremlinSection = z.object({
+  url: CONNECTION_URLS.gremlin,
+  username: z.string(),
+  password: z.string(),
+  ...passwordSources,
+  traversal_source: z.string(),
+  tls: tlsSection
+}).partial().strict();
+
+const schemaSection = z.object({
+  url: CONNECTION_URLS.schema,
+  username: z.string(),
+  password: z.string(),
+  ...passwordSources,
+  tls: tlsSection
+}).partial().strict();
+
+const instanceSection = z.object({
+  neo4j: neo4jSection,
+  gremlin: gremlinSection,
+  schema: schemaSection,
+  read_only: z.boolean()
+}).partial().strict();
+
+const configFile = instanceSection.extend({
+  instances: z.record(
+    z.string().regex(/^[A-Za-z0-9_-]+$/, 'Invalid instance name: use letters, digits, "_" and "-" only'),
+    instanceSection
+  ),
+  default_instance: z.string(),
+  schema_poll_interval_ms: duration,
+  schema_cache_ttl_ms: duration,
+  schema_validation: z.enum(SCHEMA_VALIDATION_MODES),
+  result_ttl_ms: duration,
+  max_output_chars: count,
+  max_output_tokens: count,
+  query_timeout_ms: duration,
+  health_check_interval_ms: duration,
+  reconnect_initial_delay_ms: duration,
+  reconnect_max_delay_ms: duration,
+  transport: z.object({
+    type: z.enum(['stdio', 'http']),
+    host: z.string(),
+    port: z.number().int().min(0).max(65535),
+    session_idle_timeout_ms: duration
+  }).partial().strict()
+}).partial().strict();
+
+export type ConfigFile = z.infer<typeof configFile>;
+
+/** Environment variables set by the fields of an instance section, without the `PUPPYGRAPH_` prefix */
+const INSTANCE_VARIABLES: [string, (section: z.infer<typeof instanceSection>) => unknown][] = [
+  ['URL', section => section.neo4j?.url],
+  ['USERNAME', section => section.neo4j?.username],
+  ['PASSWORD', section => section.neo4j?.password],
+  ['PASSWORD_FILE', section => section.neo4j?.password_file],
+  ['PASSWORD_COMMAND', section => section.neo4j?.password_command],
+  ['PASSWORD_ENV', section => section.neo4j?.password_env],
+  ['DATABASE', section => section.neo4j?.database],
+  ['GREMLIN_URL', section => section.gremlin?.url],
+  ['GREMLIN_USERNAME', section => section.gremlin?.username],
+  ['GREMLIN_PASSWORD', section => section.gremlin?.password],
+  ['GREMLIN_PASSWORD_FILE', section => section.gremlin?.password_file],
+  ['GREMLIN_PASSWORD_COMMAND', section => section.gremlin?.password_command],
+  ['GREMLIN_PASSWORD_ENV', section => section.gremlin?.password_env],
+  ['GREMLIN_TRAVERSAL_SOURCE', section => section.gremlin?.traversal_source],
+  ['SCHEMA_URL', section => section.schema?.url],
+  ['SCHEMA_USERNAME', section => section.schema?.username],
+  ['SCHEMA_PASSWORD', section => section.schema?.password],
+  ['SCHEMA_PASSWORD_FILE', section => section.schema?.password_file],
+  ['SCHEMA_PASSWORD_COMMAND', section => section.schema?.password_command],
+  ['SCHEMA_PASSWORD_ENV', section => section.schema?.password_env],
+  ...(['neo4j', 'gremlin', 'schema'] as const).flatMap(connection => {
+    const prefix = { neo4j: '', gremlin: 'GREMLIN_', schema: 'SCHEMA_' }[connection];
+    const variables: [string, (section: z.infer<typeof instanceSection>) => unknown][] = [
+      [`${prefix}TLS_CA_FILE`, section => section[connection]?.tls?.ca_file],
+      [`${prefix}TLS_CERT_FILE`, section => section[connection]?.tls?.cert_file],
+      [`${prefix}TLS_KEY_FILE`, section => section[connection]?.tls?.key_file],
+      [`${prefix}TLS_SERVER_NAME`, section => section[connection]?.tls?.server_name],
+      [`${prefix}TLS_INSECURE`, section => section[connection]?.tls?.insecure]
+    ];
+    return variables;
+  }),
+  ['READ_ONLY', section => section.read_only]
+];
+
+/** Environment variables set by the global fields */
+const GLOBAL_VARIABLES: [string, (file: ConfigFile) => unknown][] = [
+  ['PUPPYGRAPH_DEFAULT_INSTANCE', file => file.default_instance],
+  ['PUPPYGRAPH_SCHEMA_POLL_INTERVAL_MS', file => file.schema_poll_interval_ms],
+  ['PUPPYGRAPH_SCHEMA_CACHE_TTL_MS', file => file.schema_cache_ttl_ms],
+  ['PUPPYGRAPH_SCHEMA_VALIDATION', file => file.schema_validation],
+  ['PUPPYGRAPH_RESULT_TTL_MS', file => file.result_ttl_ms],
+  ['PUPPYGRAPH_MAX_OUTPUT_CHARS', file => file.max_output_chars],
+  ['PUPPYGRAPH_MAX_OUTPUT_TOKENS', file => file.max_output_tokens],
+  ['PUPPYGRAPH_QUERY_TIMEOUT_MS', file => file.query_timeout_ms],
+  ['PUPPYGRAPH_HEALTH_CHECK_INTERVAL_MS', file => file.health_check_interval_ms],
+  ['PUPPYGRAPH_RECONNECT_INITIAL_DELAY_MS', file => file.reconnect_initial_delay_ms],
+  ['PUPPYGRAPH_RECONNECT_MAX_DELAY_MS', file => file.reconnect_max_delay_ms],
+  ['PUPPYGRAPH_MCP_TRANSPORT', file => file.transport?.type],
+  ['PUPPYGRAPH_MCP_HOST', file => file.transport?.host],
+  ['PUPPYGRAPH_MCP_PORT', file => file.transport?.port],
+  ['PUPPYGRAPH_MCP_SESSION_IDLE_TIMEOUT_MS', file => file.transport?.session_idle_timeout_ms]
+];
+
+/**
+ * Validates a parsed configuration file
+ *
+ * @throws ConfigFileError listing every invalid or unknown field
+ */
+export function parseConfigFile(document: unknown, path: string): ConfigFile {
+  const parsed = configFile.safeParse(document ?? {});
+  if (!parsed.success) {
+    throw new ConfigFileError(path, parsed.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+  }
+  return parsed.data;
+}
+
+/**
+ * Translates a configuration file into the environment variables with the
+ * same meaning, so file settings go through the same parsing and defaults
+ * as environment variables. Top-level connection settings become the shared
+ * variables (`PUPPYGRAPH_URL`), those of `instances` the instance specific
+ * ones (`PUPPYGRAPH_PROD_URL`).
+ */
+export function configFileVariables(file: ConfigFile): Record<string, string> {
+  const variables: Record<string, string> = {};
+  const set = (name: string, value: unknown) => {
+    if (value !== undefined) {
+      variables[name] = String(value);
+    }
+  };
+
+  for (const [name, get] of INSTANCE_VARIABLES) {
+    set(`PUPPYGRAPH_${name}`, get(file));
+  }
+
+  const instances = Object.entries(file.instances ?? {});
+  if (instances.length > 0) {
+    set('PUPPYGRAPH_INSTANCES', instances.map(([name]) => name).join(','));
+  }
+  for (const [instance, section] of instances) {
+    const prefix = instance.toUpperCase().replace(/-/g, '_');
+    for (const [name, get] of INSTANCE_VARIABLES) {
+      set(`PUPPYGRAPH_${prefix}_${name}`, get(section));
+    }
+  }
+
+  for (const [name, get] of GLOBAL_VARIABLES) {
+    set(name, get(file));
+  }
+
+  return variables;
+}
+
+/**
+ * Reads a JSON or YAML configuration file
+ *
+ * @returns The environment variables equivalent to the file's settings
+ * @throws ConfigFileError if the file cannot be read, parsed or validated
+ */
+export function loadConfigFile(path: string): Record<string, string> {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error: any) {
+    throw new ConfigFileError(path, [error.code === 'ENOENT' ? 'file not found' : error.message]);
+  }
+
+  let document: unknown;
+  try {
+    // YAML is a superset of JSON, so one parser reads both
+    document = parseYaml(text);
+  } catch (error: any) {
+    throw new ConfigFileError(path, [error.message]);
+  }
+
+  return configFileVariables(parseConfigFile(document, path));
+}
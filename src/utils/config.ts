@@ -1,21 +1,268 @@
 import { Neo4jConfig } from '../clients/neo4j.js';
 import { GremlinConfig } from '../clients/gremlin.js';
 import { SchemaConfig } from './schema.js';
+import { CHARS_PER_TOKEN } from './truncate.js';
+import { SCHEMA_VALIDATION_MODES, SchemaValidationMode } from './schema-validation.js';
+import { CONNECTION_URLS, loadConfigFile } from './config-file.js';
+import { PasswordSetting, PasswordSource, describePasswordSource, readPassword } from './credentials.js';
+import { TlsConfig, describeTls, validateTlsConfig } from './tls.js';
+
+/** Name of the instance used when `PUPPYGRAPH_INSTANCES` is not set */
+export const DEFAULT_INSTANCE_NAME = "default";
 
 /**
- * Complete configuration for the PuppyGraph MCP server
+ * Connection configuration for one named PuppyGraph instance
  */
-export interface PuppyGraphConfig {
+export interface PuppyGraphInstanceConfig {
+  /** Name used to select the instance in tool calls */
+  name: string;
   /** Neo4j database connection configuration */
   neo4j: Neo4jConfig;
   /** Gremlin server connection configuration */
   gremlin: GremlinConfig;
   /** Schema API endpoint configuration */
   schema: SchemaConfig;
+  /** Reject queries that modify the graph */
+  readOnly: boolean;
+}
+
+/**
+ * Complete configuration for the PuppyGraph MCP server
+ */
+export interface PuppyGraphConfig {
+  /** Neo4j database connection configuration of the default instance */
+  neo4j: Neo4jConfig;
+  /** Gremlin server connection configuration of the default instance */
+  gremlin: GremlinConfig;
+  /** Schema API endpoint configuration of the default instance */
+  schema: SchemaConfig;
+  /** Whether the default instance rejects queries that modify the graph */
+  readOnly: boolean;
+  /** Name of the instance used when a tool call does not name one */
+  defaultInstance: string;
+  /** All configured PuppyGraph instances */
+  instances: PuppyGraphInstanceConfig[];
+  /** How often the schema resources are checked for changes, in milliseconds (0 disables polling) */
+  schemaPollIntervalMs: number;
+  /** How long schema information is served from the cache before it is reloaded, in milliseconds (0 disables caching) */
+  schemaCacheTtlMs: number;
+  /** Whether queries are checked against the schema before they run, and what happens to queries using unknown names */
+  schemaValidation: SchemaValidationMode;
+  /** How long paginated query results are kept after they were last read, in milliseconds */
+  resultTtlMs: number;
+  /** Maximum length of a serialized query result in characters (0 disables truncation) */
+  maxOutputChars: number;
+  /** Default query timeout in milliseconds (0 disables the timeout) */
+  queryTimeoutMs: number;
+  /** Time between health probes of a healthy endpoint, in milliseconds (0 disables health monitoring) */
+  healthCheckIntervalMs: number;
+  /** Delay before the first reconnection attempt after a failed probe, in milliseconds */
+  reconnectInitialDelayMs: number;
+  /** Longest delay between reconnection attempts, in milliseconds */
+  reconnectMaxDelayMs: number;
+  /** Path of the configuration file settings were read from, if any */
+  configFile?: string;
+}
+
+/**
+ * Transport the MCP server is exposed on
+ */
+export interface TransportConfig {
+  /** `stdio` for desktop clients, `http` for a shared network service */
+  type: 'stdio' | 'http';
+  /** Interface the HTTP server binds to */
+  host: string;
+  /** Port the HTTP server listens on */
+  port: number;
+  /** How long a Streamable HTTP session may go without a request before it is closed, in milliseconds (0 disables) */
+  sessionIdleTimeoutMs: number;
+}
+
+/** Settings by environment variable name */
+export type Settings = Record<string, string | undefined>;
+
+/** Connection settings used when neither the configuration file nor the environment sets them */
+const DEFAULTS = {
+  neo4j: { url: "bolt://localhost:7687", username: "neo4j", password: "password", database: "" },
+  gremlin: { url: "ws://localhost:8182/gremlin", username: "puppygraph", password: "puppygraph123", traversalSource: "g" },
+  schema: { url: "http://localhost:8081/schemajson", username: "puppygraph", password: "puppygraph123" }
+};
+
+/**
+ * Returns the path of the configuration file, from the `--config` flag or
+ * `PUPPYGRAPH_CONFIG`
+ */
+export function getConfigFilePath(argv: string[] = process.argv.slice(2)): string | undefined {
+  return getFlag(argv, 'config') || process.env.PUPPYGRAPH_CONFIG || undefined;
+}
+
+/** Matches the variables of a password setting, capturing the name of the password */
+const PASSWORD_VARIABLE = /^(PUPPYGRAPH_\w*PASSWORD)(?:_FILE|_COMMAND|_ENV)?$/;
+
+/**
+ * Combines the settings of the configuration file, if any, with environment
+ * variables, which take precedence. Empty variables do not override the file.
+ * A password set in the environment, directly or by a source, replaces the
+ * whole password setting of the file.
+ *
+ * @param argv Command line arguments, naming the configuration file with `--config`
+ * @throws ConfigFileError if the configuration file cannot be read or is invalid
+ */
+export function loadSettings(argv: string[] = process.argv.slice(2)): Settings {
+  const path = getConfigFilePath(argv);
+  if (!path) {
+    return process.env;
+  }
+
+  const settings: Settings = loadConfigFile(path);
+  const overrides = Object.entries(process.env).filter(([, value]) => value);
+  const passwords = new Set(overrides.map(([name]) => PASSWORD_VARIABLE.exec(name)?.[1]).filter(Boolean));
+  for (const name of Object.keys(settings)) {
+    const password = PASSWORD_VARIABLE.exec(name)?.[1];
+    if (password && passwords.has(password)) {
+      delete settings[name];
+    }
+  }
+  for (const [name, value] of overrides) {
+    settings[name] = value;
+  }
+  return settings;
+}
+
+/**
+ * Loads a password set directly by `name`, or read from the source named by
+ * `<name>_FILE`, `<name>_COMMAND` or `<name>_ENV`
+ *
+ * @returns `undefined` if none of the variables is set
+ * @throws Error if more than one of the variables is set in the same layer (file or environment)
+ * @throws CredentialError if the password cannot be read from its source
+ */
+function loadPassword(settings: Settings, name: string): PasswordSetting | undefined {
+  const sources: [string, PasswordSource | undefined][] = [
+    [`${name}_FILE`, settings[`${name}_FILE`] ? { type: "file", path: settings[`${name}_FILE`]! } : undefined],
+    [`${name}_COMMAND`, settings[`${name}_COMMAND`] ? { type: "command", command: settings[`${name}_COMMAND`]! } : undefined],
+    [`${name}_ENV`, settings[`${name}_ENV`] ? { type: "env", name: settings[`${name}_ENV`]! } : undefined]
+  ];
+  const set = sources.filter(([, source]) => source !== undefined);
+  const names = [...(settings[name] ? [name] : []), ...set.map(([variable]) => variable)];
+  if (names.length > 1) {
+    throw new Error(`Set only one of ${names.join(", ")}`);
+  }
+
+  if (settings[name]) {
+    return { password: settings[name]! };
+  }
+  if (set.length === 1) {
+    const passwordSource = set[0][1]!;
+    return { password: readPassword(passwordSource), passwordSource };
+  }
+  return undefined;
 }
 
 /**
- * Loads configuration from environment variables with fallbacks to defaults
+ * Loads the TLS settings of a connection from `<prefix>TLS_CA_FILE`,
+ * `<prefix>TLS_CERT_FILE`, `<prefix>TLS_KEY_FILE`, `<prefix>TLS_SERVER_NAME`
+ * and `<prefix>TLS_INSECURE`
+ *
+ * @param url URL of the connection, which must use one of `secureProtocols` when TLS is configured
+ * @returns An empty object if none of the variables is set
+ * @throws Error if the settings are inconsistent or the URL does not use TLS
+ */
+function loadTls(
+  env: (key: string) => string | undefined,
+  prefix: string,
+  name: string,
+  url: string,
+  secureProtocols: string[]
+): { tls?: TlsConfig } {
+  const insecure = env(`${prefix}TLS_INSECURE`);
+  if (insecure && insecure !== "true" && insecure !== "false") {
+    throw new Error(`Invalid PUPPYGRAPH_${prefix}TLS_INSECURE "${insecure}": expected "true" or "false"`);
+  }
+
+  const tls: TlsConfig = {
+    ...(env(`${prefix}TLS_CA_FILE`) ? { caFile: env(`${prefix}TLS_CA_FILE`) } : {}),
+    ...(env(`${prefix}TLS_CERT_FILE`) ? { certFile: env(`${prefix}TLS_CERT_FILE`) } : {}),
+    ...(env(`${prefix}TLS_KEY_FILE`) ? { keyFile: env(`${prefix}TLS_KEY_FILE`) } : {}),
+    ...(env(`${prefix}TLS_SERVER_NAME`) ? { serverName: env(`${prefix}TLS_SERVER_NAME`) } : {}),
+    ...(insecure === "true" ? { insecure: true } : {})
+  };
+  if (Object.keys(tls).length === 0) {
+    return {};
+  }
+
+  validateTlsConfig(tls, name);
+  const protocol = url.slice(0, url.indexOf("://") + 1);
+  if (!secureProtocols.includes(protocol)) {
+    throw new Error(`${name} TLS settings need a ${secureProtocols.map(secure => `${secure}//`).join(" or ")} URL, got ${url}`);
+  }
+  return { tls };
+}
+
+/**
+ * Loads the connection configuration of one instance. Instance specific
+ * variables (`PUPPYGRAPH_<NAME>_URL`) take precedence over the shared ones
+ * (`PUPPYGRAPH_URL`), which take precedence over the defaults.
+ */
+function loadInstanceConfig(name: string, envPrefix: string | null, settings: Settings): PuppyGraphInstanceConfig {
+  const env = (key: string): string | undefined =>
+    (envPrefix && settings[`PUPPYGRAPH_${envPrefix}_${key}`]) || settings[`PUPPYGRAPH_${key}`];
+  const password = (key: string, fallback: string): PasswordSetting =>
+    (envPrefix && loadPassword(settings, `PUPPYGRAPH_${envPrefix}_${key}`))
+      || loadPassword(settings, `PUPPYGRAPH_${key}`)
+      || { password: fallback };
+
+  const url = (key: string, connection: keyof typeof CONNECTION_URLS, fallback: string): string => {
+    const value = env(key) || fallback;
+    const parsed = CONNECTION_URLS[connection].safeParse(value);
+    if (!parsed.success) {
+      const variable = envPrefix && settings[`PUPPYGRAPH_${envPrefix}_${key}`] ? `PUPPYGRAPH_${envPrefix}_${key}` : `PUPPYGRAPH_${key}`;
+      throw new Error(`Invalid ${variable} "${value}": ${parsed.error.issues[0].message}`);
+    }
+    return value;
+  };
+
+  const boltUrl = url("URL", "neo4j", DEFAULTS.neo4j.url);
+  const gremlinUrl = url("GREMLIN_URL", "gremlin", DEFAULTS.gremlin.url);
+  const schemaUrl = url("SCHEMA_URL", "schema", DEFAULTS.schema.url);
+
+  const boltTls = loadTls(env, "", "Bolt", boltUrl, ["bolt:", "bolt+s:", "bolt+ssc:", "neo4j:", "neo4j+s:", "neo4j+ssc:"]);
+  if (boltTls.tls?.serverName) {
+    // The driver verifies the certificate against the host name of the URL and offers no override
+    throw new Error("Bolt TLS: the Neo4j driver does not support a server name override; use the name in the certificate in PUPPYGRAPH_URL");
+  }
+
+  return {
+    name,
+    neo4j: {
+      url: boltUrl,
+      username: env("USERNAME") || DEFAULTS.neo4j.username,
+      ...password("PASSWORD", DEFAULTS.neo4j.password),
+      database: env("DATABASE") || DEFAULTS.neo4j.database,
+      ...boltTls
+    },
+    gremlin: {
+      url: gremlinUrl,
+      username: env("GREMLIN_USERNAME") || DEFAULTS.gremlin.username,
+      ...password("GREMLIN_PASSWORD", DEFAULTS.gremlin.password),
+      traversalSource: env("GREMLIN_TRAVERSAL_SOURCE") || DEFAULTS.gremlin.traversalSource,
+      ...loadTls(env, "GREMLIN_", "Gremlin", gremlinUrl, ["wss:"])
+    },
+    schema: {
+      url: schemaUrl,
+      username: env("SCHEMA_USERNAME") || DEFAULTS.schema.username,
+      ...password("SCHEMA_PASSWORD", DEFAULTS.schema.password),
+      ...loadTls(env, "SCHEMA_", "Schema API", schemaUrl, ["https:"])
+    },
+    readOnly: env("READ_ONLY") !== "false"
+  };
+}
+
+/**
+ * Loads configuration from a configuration file and environment variables,
+ * with fallbacks to defaults. The file is named by the `--config` flag or
+ * `PUPPYGRAPH_CONFIG`; environment variables take precedence over it. None
+ * of these settings has a command line flag.
  * 
  * Environment variables:
  * - PUPPYGRAPH_URL: Neo4j Bolt URL
@@ -29,27 +276,217 @@ export interface PuppyGraphConfig {
  * - PUPPYGRAPH_SCHEMA_URL: Schema API URL
  * - PUPPYGRAPH_SCHEMA_USERNAME: Schema API username
  * - PUPPYGRAPH_SCHEMA_PASSWORD: Schema API password
+ * - PUPPYGRAPH_PASSWORD_FILE, PUPPYGRAPH_GREMLIN_PASSWORD_FILE, PUPPYGRAPH_SCHEMA_PASSWORD_FILE:
+ *   Read the password from a file instead, e.g. a Docker or Kubernetes secret
+ * - PUPPYGRAPH_PASSWORD_COMMAND, ...: Read the password from a shell command's output instead
+ * - PUPPYGRAPH_PASSWORD_ENV, ...: Read the password from another environment variable instead
+ * - PUPPYGRAPH_TLS_CA_FILE, PUPPYGRAPH_GREMLIN_TLS_CA_FILE, PUPPYGRAPH_SCHEMA_TLS_CA_FILE:
+ *   PEM file of the certificate authorities trusted for the connection
+ * - PUPPYGRAPH_TLS_CERT_FILE, PUPPYGRAPH_TLS_KEY_FILE, ...: Client certificate and key for mutual TLS
+ * - PUPPYGRAPH_GREMLIN_TLS_SERVER_NAME, PUPPYGRAPH_SCHEMA_TLS_SERVER_NAME: Name the server certificate is verified against,
+ *   instead of the host name of the URL. Bolt has no such setting: the Neo4j driver offers no override.
+ * - PUPPYGRAPH_TLS_INSECURE, ...: Set to `true` to accept any server certificate, for local testing only
+ * - PUPPYGRAPH_READ_ONLY: Set to `false` to allow queries that modify the graph (default: `true`)
+ * - PUPPYGRAPH_INSTANCES: Comma separated instance names (e.g. `dev,staging,prod`)
+ * - PUPPYGRAPH_DEFAULT_INSTANCE: Instance used when a tool call names none (default: the first)
+ * - PUPPYGRAPH_SCHEMA_POLL_INTERVAL_MS: Schema change polling interval (default: 60000, 0 disables)
+ * - PUPPYGRAPH_SCHEMA_CACHE_TTL_MS: How long schema information is cached (default: 300000, 0 disables)
+ * - PUPPYGRAPH_SCHEMA_VALIDATION: Check queries against the schema: `off`, `warn` (default) or `block`
+ * - PUPPYGRAPH_RESULT_TTL_MS: How long paginated query results are kept (default: 300000)
+ * - PUPPYGRAPH_MAX_OUTPUT_CHARS: Output budget for query results in characters (default: 80000, 0 disables)
+ * - PUPPYGRAPH_MAX_OUTPUT_TOKENS: Output budget in approximate tokens, instead of characters
+ * - PUPPYGRAPH_QUERY_TIMEOUT_MS: Default query timeout (default: 30000, 0 disables)
+ * - PUPPYGRAPH_HEALTH_CHECK_INTERVAL_MS: Health probe interval (default: 30000, 0 disables health monitoring)
+ * - PUPPYGRAPH_RECONNECT_INITIAL_DELAY_MS: First reconnection delay after a failed probe (default: 1000)
+ * - PUPPYGRAPH_RECONNECT_MAX_DELAY_MS: Longest delay between reconnection attempts (default: 60000)
+ * - PUPPYGRAPH_CONFIG: Path of a JSON or YAML configuration file
+ *
+ * With `PUPPYGRAPH_INSTANCES` set, every variable above can be given per
+ * instance by inserting the upper-cased instance name, e.g.
+ * `PUPPYGRAPH_PROD_URL` or `PUPPYGRAPH_PROD_GREMLIN_PASSWORD`.
  *
+ * @param argv Command line arguments, without the node executable and script path
+ * @param settings Settings from `loadSettings`, to read the configuration file only once
  * @returns Complete PuppyGraph configuration
+ * @throws ConfigFileError if the configuration file cannot be read or is invalid
  */
-export function loadConfig(): PuppyGraphConfig {
+export function loadConfig(argv: string[] = process.argv.slice(2), settings: Settings = loadSettings(argv)): PuppyGraphConfig {
+  const names = (settings.PUPPYGRAPH_INSTANCES || "")
+    .split(",")
+    .map(name => name.trim())
+    .filter(name => name.length > 0);
+
+  const instances = names.length > 0
+    ? names.map(name => {
+        if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+          throw new Error(`Invalid instance name "${name}": use letters, digits, "_" and "-" only`);
+        }
+        return loadInstanceConfig(name, name.toUpperCase().replace(/-/g, "_"), settings);
+      })
+    : [loadInstanceConfig(DEFAULT_INSTANCE_NAME, null, settings)];
+
+  const duplicate = instances.find((instance, i) => instances.findIndex(other => other.name === instance.name) !== i);
+  if (duplicate) {
+    throw new Error(`Instance "${duplicate.name}" is configured more than once`);
+  }
+
+  const defaultInstance = settings.PUPPYGRAPH_DEFAULT_INSTANCE || instances[0].name;
+  const defaults = instances.find(instance => instance.name === defaultInstance);
+  if (!defaults) {
+    throw new Error(`Default instance "${defaultInstance}" is not one of the configured instances: ${names.join(", ")}`);
+  }
+
+  const schemaPollIntervalMs = getDuration(settings, "PUPPYGRAPH_SCHEMA_POLL_INTERVAL_MS", 60000);
+  const schemaCacheTtlMs = getDuration(settings, "PUPPYGRAPH_SCHEMA_CACHE_TTL_MS", 300000);
+  const schemaValidation = (settings.PUPPYGRAPH_SCHEMA_VALIDATION || "warn") as SchemaValidationMode;
+  if (!SCHEMA_VALIDATION_MODES.includes(schemaValidation)) {
+    throw new Error(`Invalid PUPPYGRAPH_SCHEMA_VALIDATION "${schemaValidation}": expected "off", "warn" or "block"`);
+  }
+  const resultTtlMs = getDuration(settings, "PUPPYGRAPH_RESULT_TTL_MS", 300000);
+  const queryTimeoutMs = getDuration(settings, "PUPPYGRAPH_QUERY_TIMEOUT_MS", 30000);
+  const healthCheckIntervalMs = getDuration(settings, "PUPPYGRAPH_HEALTH_CHECK_INTERVAL_MS", 30000);
+  const reconnectInitialDelayMs = getDuration(settings, "PUPPYGRAPH_RECONNECT_INITIAL_DELAY_MS", 1000);
+  const reconnectMaxDelayMs = getDuration(settings, "PUPPYGRAPH_RECONNECT_MAX_DELAY_MS", 60000);
+  const maxOutputChars = settings.PUPPYGRAPH_MAX_OUTPUT_TOKENS
+    ? getCount(settings, "PUPPYGRAPH_MAX_OUTPUT_TOKENS", 0) * CHARS_PER_TOKEN
+    : getCount(settings, "PUPPYGRAPH_MAX_OUTPUT_CHARS", 80000);
+  const configFile = getConfigFilePath(argv);
+
   return {
-    neo4j: {
-      url: process.env.PUPPYGRAPH_URL || "bolt://localhost:7687",
-      username: process.env.PUPPYGRAPH_USERNAME || "neo4j",
-      password: process.env.PUPPYGRAPH_PASSWORD || "password",
-      database: process.env.PUPPYGRAPH_DATABASE || ""
-    },
-    gremlin: {
-      url: process.env.PUPPYGRAPH_GREMLIN_URL || "ws://localhost:8182/gremlin",
-      username: process.env.PUPPYGRAPH_GREMLIN_USERNAME || "puppygraph",
-      password: process.env.PUPPYGRAPH_GREMLIN_PASSWORD || "puppygraph123",
-      traversalSource: process.env.PUPPYGRAPH_GREMLIN_TRAVERSAL_SOURCE || "g"
-    },
-    schema: {
-      url: process.env.PUPPYGRAPH_SCHEMA_URL || "http://localhost:8081/schemajson",
-      username: process.env.PUPPYGRAPH_SCHEMA_USERNAME || "puppygraph",
-      password: process.env.PUPPYGRAPH_SCHEMA_PASSWORD || "puppygraph123"
+    neo4j: defaults.neo4j,
+    gremlin: defaults.gremlin,
+    schema: defaults.schema,
+    readOnly: defaults.readOnly,
+    defaultInstance,
+    instances,
+    schemaPollIntervalMs,
+    schemaCacheTtlMs,
+    schemaValidation,
+    resultTtlMs,
+    maxOutputChars,
+    queryTimeoutMs,
+    healthCheckIntervalMs,
+    reconnectInitialDelayMs,
+    reconnectMaxDelayMs,
+    ...(configFile ? { configFile } : {})
+  };
+}
+
+/**
+ * Reads a duration in milliseconds from an environment variable
+ */
+function getDuration(settings: Settings, name: string, fallback: number): number {
+  const value = Number(settings[name] || fallback);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid ${name} "${settings[name]}"`);
+  }
+  return value;
+}
+
+/**
+ * Reads a non-negative whole number from an environment variable
+ */
+function getCount(settings: Settings, name: string, fallback: number): number {
+  const value = Number(settings[name] || fallback);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid ${name} "${settings[name]}"`);
+  }
+  return value;
+}
+
+/**
+ * Masks a password for logging, noting where it is read from or when it is
+ * the built-in default
+ */
+function maskPassword({ password, passwordSource }: PasswordSetting, fallback: string): string {
+  if (passwordSource) {
+    return `**** (from ${describePasswordSource(passwordSource)})`;
+  }
+  return password === fallback ? "**** (built-in default)" : "****";
+}
+
+/**
+ * Describes the effective configuration for the startup log, one setting per
+ * line, with passwords masked
+ */
+export function describeConfig(config: PuppyGraphConfig, transport: TransportConfig): string[] {
+  const lines = [`Configuration file: ${config.configFile ?? "none"}`];
+
+  for (const { name, neo4j, gremlin, schema, readOnly } of config.instances) {
+    const tls = (settings: TlsConfig | undefined) => settings ? `, TLS ${describeTls(settings)}` : "";
+    lines.push(
+      `[${name}] Bolt: ${neo4j.url}, database ${neo4j.database || "default"}, ` +
+        `user ${neo4j.username}, password ${maskPassword(neo4j, DEFAULTS.neo4j.password)}${tls(neo4j.tls)}`,
+      `[${name}] Gremlin: ${gremlin.url}, traversal source ${gremlin.traversalSource}, ` +
+        `user ${gremlin.username}, password ${maskPassword(gremlin, DEFAULTS.gremlin.password)}${tls(gremlin.tls)}`,
+      `[${name}] Schema API: ${schema.url}, user ${schema.username}, ` +
+        `password ${maskPassword(schema, DEFAULTS.schema.password)}${tls(schema.tls)}`,
+      `[${name}] Read-only: ${readOnly ? "yes" : "no"}`
+    );
+  }
+
+  lines.push(
+    `Default instance: ${config.defaultInstance}`,
+    `Transport: ${transport.type === "http"
+      ? `http on ${transport.host}:${transport.port}, session idle timeout ${transport.sessionIdleTimeoutMs} ms`
+      : "stdio"}`,
+    `Query timeout: ${config.queryTimeoutMs} ms`,
+    `Schema polling interval: ${config.schemaPollIntervalMs} ms, cache TTL: ${config.schemaCacheTtlMs} ms, validation: ${config.schemaValidation}`,
+    `Result TTL: ${config.resultTtlMs} ms, output budget: ${config.maxOutputChars} characters`,
+    `Health checks: ${config.healthCheckIntervalMs > 0
+      ? `every ${config.healthCheckIntervalMs} ms, reconnection backoff ${config.reconnectInitialDelayMs} ms to ${config.reconnectMaxDelayMs} ms`
+      : "off"}`
+  );
+  return lines;
+}
+
+/**
+ * Returns the value of a `--name value` or `--name=value` command line flag
+ */
+function getFlag(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === `--${name}`) {
+      return argv[i + 1];
     }
+    if (arg.startsWith(`--${name}=`)) {
+      return arg.slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Loads the transport configuration from command line flags, environment
+ * variables and the configuration file. Flags take precedence over
+ * environment variables, which take precedence over the file.
+ *
+ * Flags / environment variables:
+ * - --transport / PUPPYGRAPH_MCP_TRANSPORT: `stdio` (default) or `http`
+ * - --host / PUPPYGRAPH_MCP_HOST: HTTP bind address (default: 127.0.0.1)
+ * - --port / PUPPYGRAPH_MCP_PORT: HTTP port (default: 3000)
+ * - PUPPYGRAPH_MCP_SESSION_IDLE_TIMEOUT_MS: Idle time after which a Streamable HTTP session is closed (default: 1800000, 0 disables)
+ *
+ * @param argv Command line arguments, without the node executable and script path
+ * @param settings Settings from `loadSettings`, to read the configuration file only once
+ * @returns Transport configuration
+ */
+export function loadTransportConfig(argv: string[] = process.argv.slice(2), settings: Settings = loadSettings(argv)): TransportConfig {
+  const type = getFlag(argv, 'transport') || settings.PUPPYGRAPH_MCP_TRANSPORT || 'stdio';
+  if (type !== 'stdio' && type !== 'http') {
+    throw new Error(`Invalid transport "${type}": expected "stdio" or "http"`);
+  }
+
+  const portValue = getFlag(argv, 'port') || settings.PUPPYGRAPH_MCP_PORT || '3000';
+  const port = Number(portValue);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${portValue}"`);
+  }
+
+  return {
+    type,
+    host: getFlag(argv, 'host') || settings.PUPPYGRAPH_MCP_HOST || '127.0.0.1',
+    port,
+    sessionIdleTimeoutMs: getDuration(settings, 'PUPPYGRAPH_MCP_SESSION_IDLE_TIMEOUT_MS', 1800000)
   };
-}
\ No newline at end of file
+}
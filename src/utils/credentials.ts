@@ -0,0 +1,179 @@
+import { execSync, exec } from 'child_process';
+import { readFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+
+/** How long a password command may run, in milliseconds */
+const COMMAND_TIMEOUT_MS = 10000;
+
+/**
+ * Where a password is read from, instead of being configured directly
+ *
+ * - `file`: the contents of a file, e.g. a Docker or Kubernetes secret
+ * - `command`: the standard output of a shell command
+ * - `env`: an environment variable
+ */
+export type PasswordSource =
+  | { type: 'file'; path: string }
+  | { type: 'command'; command: string }
+  | { type: 'env'; name: string };
+
+/**
+ * Error thrown when a password cannot be read from its source
+ */
+export class CredentialError extends Error {
+  constructor(source: PasswordSource, reason: string) {
+    super(`Cannot read password from ${describePasswordSource(source)}: ${reason}`);
+    this.name = 'CredentialError';
+  }
+}
+
+/**
+ * Describes a password source without revealing the password
+ */
+export function describePasswordSource(source: PasswordSource): string {
+  switch (source.type) {
+    case 'file':
+      return `file ${source.path}`;
+    case 'command':
+      return `command "${source.command}"`;
+    case 'env':
+      return `environment variable ${source.name}`;
+  }
+}
+
+/** Secrets files and command output usually end with a line break that is not part of the password */
+function trimLineBreak(value: string): string {
+  return value.replace(/\r?\n$/, '');
+}
+
+function envPassword(source: { type: 'env'; name: string }): string {
+  const value = process.env[source.name];
+  if (value === undefined) {
+    throw new CredentialError(source, 'variable is not set');
+  }
+  return value;
+}
+
+/**
+ * Reads a password from its source, blocking until it is read. Used while
+ * loading the configuration.
+ *
+ * @throws CredentialError if the file cannot be read, the command fails or the variable is not set
+ */
+export function readPassword(source: PasswordSource): string {
+  try {
+    switch (source.type) {
+      case 'file':
+        return trimLineBreak(readFileSync(source.path, 'utf8'));
+      case 'command':
+        return trimLineBreak(execSync(source.command, {
+          encoding: 'utf8',
+          timeout: COMMAND_TIMEOUT_MS,
+          stdio: ['ignore', 'pipe', 'pipe']
+        }));
+      case 'env':
+        return envPassword(source);
+    }
+  } catch (error: any) {
+    throw error instanceof CredentialError ? error : new CredentialError(source, error.message);
+  }
+}
+
+/**
+ * Reads a password from its source again, e.g. after it was rotated
+ *
+ * @throws CredentialError if the file cannot be read, the command fails or the variable is not set
+ */
+export async function refreshPassword(source: PasswordSource): Promise<string> {
+  switch (source.type) {
+    case 'file':
+      try {
+        return trimLineBreak(await readFile(source.path, 'utf8'));
+      } catch (error: any) {
+        throw new CredentialError(source, error.message);
+      }
+    case 'command':
+      return new Promise((resolve, reject) => {
+        exec(source.command, { encoding: 'utf8', timeout: COMMAND_TIMEOUT_MS }, (error, stdout) => {
+          if (error) {
+            reject(new CredentialError(source, error.message));
+          } else {
+            resolve(trimLineBreak(stdout));
+          }
+        });
+      });
+    case 'env':
+      return envPassword(source);
+  }
+}
+
+/** Message of the Gremlin driver when the WebSocket handshake fails, which carries the HTTP status */
+const HANDSHAKE_STATUS = /^Unexpected server response code (\d{3})\b/;
+
+/**
+ * Whether an error means the server rejected the credentials: a Neo4j
+ * `Unauthorized` error, a Gremlin 401 or 407 response, or an HTTP 401 status,
+ * including that of a rejected WebSocket handshake. Only status codes are
+ * checked, as error messages may quote queries or ids containing "401".
+ */
+export function isAuthenticationError(error: any): boolean {
+  if (!error) {
+    return false;
+  }
+  if (error.code === 'Neo.ClientError.Security.Unauthorized' || [401, 407].includes(error.statusCode) || error.status === 401) {
+    return true;
+  }
+  const handshake = HANDSHAKE_STATUS.exec(String(error.message ?? ''));
+  return handshake !== null && ['401', '407'].includes(handshake[1]);
+}
+
+/**
+ * Holds a password and the source it is read from, if any
+ */
+export interface PasswordSetting {
+  password: string;
+  passwordSource?: PasswordSource;
+}
+
+/** Refreshes in progress, so concurrent authentication failures read a password source once */
+const refreshes = new WeakMap<PasswordSetting, Promise<boolean>>();
+
+/**
+ * Reads a password from its source again after an authentication failure.
+ * Updates `setting.password` when the password changed. Concurrent failures
+ * share one read of the source.
+ *
+ * @param attemptedPassword Password the failed request was sent with; if
+ *        another request already refreshed it since, no read is needed
+ * @returns Whether the password changed, so retrying with it can succeed
+ */
+export async function refreshAfterAuthFailure(
+  setting: PasswordSetting,
+  error: any,
+  attemptedPassword: string = setting.password
+): Promise<boolean> {
+  if (!setting.passwordSource || !isAuthenticationError(error)) {
+    return false;
+  }
+  if (setting.password !== attemptedPassword) {
+    return true;
+  }
+
+  let refresh = refreshes.get(setting);
+  if (!refresh) {
+    refresh = readChangedPassword(setting, setting.passwordSource).finally(() => refreshes.delete(setting));
+    refreshes.set(setting, refresh);
+  }
+  return refresh;
+}
+
+async function readChangedPassword(setting: PasswordSetting, source: PasswordSource): Promise<boolean> {
+  const password = await refreshPassword(source);
+  if (password === setting.password) {
+    return false;
+  }
+
+  console.error(`Password from ${describePasswordSource(source)} changed, retrying with the new password`);
+  setting.password = password;
+  return true;
+}
@@ -0,0 +1,606 @@
+/**
+ * Parser for the read-only subset of Cypher that can be translated to Gremlin.
+ *
+ * A query is a single `MATCH` of one path pattern, an optional `WHERE`, and a
+ * `RETURN` with optional `DISTINCT`, `ORDER BY`, `SKIP` and `LIMIT`:
+ *
+ *   MATCH (p:Person {name: $name})-[:KNOWS*1..2]->(f:Person)
+ *   WHERE f.age > 30 AND NOT f.name STARTS WITH 'A'
+ *   RETURN DISTINCT f.name AS name ORDER BY name LIMIT 10
+ *
+ * Other clauses (`WITH`, `UNWIND`, `OPTIONAL MATCH`, writes) are rejected.
+ */
+
+/**
+ * A Cypher expression
+ */
+export type CypherExpression =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'parameter'; name: string }
+  | { type: 'list'; items: CypherExpression[] }
+  | { type: 'variable'; name: string }
+  | { type: 'property'; variable: string; key: string }
+  | { type: 'function'; name: string; args: CypherExpression[]; distinct: boolean }
+  | { type: 'star' }
+  | { type: 'comparison'; operator: CypherComparisonOperator; left: CypherExpression; right: CypherExpression }
+  | { type: 'null_check'; negated: boolean; operand: CypherExpression }
+  | { type: 'label_check'; variable: string; labels: string[] }
+  | { type: 'and' | 'or'; operands: CypherExpression[] }
+  | { type: 'not'; operand: CypherExpression };
+
+export type CypherComparisonOperator =
+  '=' | '<>' | '<' | '<=' | '>' | '>=' | 'IN' | 'STARTS WITH' | 'ENDS WITH' | 'CONTAINS' | '=~';
+
+/**
+ * A node of a path pattern, e.g. `(p:Person {name: 'Ann'})`
+ */
+export interface CypherNodePattern {
+  variable?: string;
+  labels: string[];
+  properties: Array<[string, CypherExpression]>;
+}
+
+/**
+ * A relationship of a path pattern, e.g. `-[r:KNOWS*1..3]->`
+ */
+export interface CypherRelationshipPattern {
+  variable?: string;
+  /** Relationship types, any of which matches */
+  types: string[];
+  /** `out` for `-->`, `in` for `<--`, `both` for `--` */
+  direction: 'out' | 'in' | 'both';
+  properties: Array<[string, CypherExpression]>;
+  /** Number of hops of a variable length relationship; `max` is undefined for unbounded lengths */
+  length?: { min: number; max?: number };
+}
+
+/**
+ * A path pattern; `relationships[i]` connects `nodes[i]` and `nodes[i + 1]`
+ */
+export interface CypherPathPattern {
+  nodes: CypherNodePattern[];
+  relationships: CypherRelationshipPattern[];
+}
+
+/**
+ * An item of the `RETURN` clause
+ */
+export interface CypherReturnItem {
+  expression: CypherExpression;
+  /** Name given with `AS` */
+  alias?: string;
+  /** The expression as written, which Cypher uses as the column name without an alias */
+  text: string;
+}
+
+/**
+ * A parsed query
+ */
+export interface ParsedCypher {
+  pattern: CypherPathPattern;
+  where?: CypherExpression;
+  distinct: boolean;
+  returns: CypherReturnItem[];
+  orderBy: Array<{ expression: CypherExpression; descending: boolean }>;
+  skip?: CypherExpression;
+  limit?: CypherExpression;
+}
+
+/**
+ * Error thrown for queries outside the supported subset of Cypher
+ */
+export class CypherParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`Cypher syntax error at position ${position}: ${message}`);
+    this.name = 'CypherParseError';
+  }
+}
+
+type TokenType = 'identifier' | 'string' | 'number' | 'parameter' | 'punctuation' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+  /** Whether the identifier was quoted with backticks, so it is never a keyword */
+  quoted?: boolean;
+}
+
+/** Operators and punctuation, longest first */
+const PUNCTUATION = ['<>', '<=', '>=', '=~', '..', '(', ')', '[', ']', '{', '}', ',', ':', '.', '|', '*', '-', '<', '>', '=', ';'];
+
+/** Clauses and keywords that are recognized but not supported */
+const UNSUPPORTED_CLAUSES = new Set([
+  'WITH', 'UNWIND', 'OPTIONAL', 'CREATE', 'MERGE', 'SET', 'DELETE', 'DETACH', 'REMOVE', 'CALL', 'UNION', 'FOREACH', 'LOAD'
+]);
+
+const ESCAPES: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '\\': '\\', '\'': '\'', '"': '"'
+};
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '/' && query[i + 1] === '/') {
+      while (i < query.length && query[i] !== '\n') i++;
+    } else if (char === '/' && query[i + 1] === '*') {
+      const end = query.indexOf('*/', i + 2);
+      if (end === -1) throw new CypherParseError('unterminated comment', i);
+      i = end + 2;
+    } else if (char === '\'' || char === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < query.length && query[i] !== char) {
+        if (query[i] === '\\') {
+          const next = query[i + 1];
+          if (next === undefined || !(next in ESCAPES)) {
+            throw new CypherParseError(`invalid escape sequence \\${next ?? ''}`, i);
+          }
+          value += ESCAPES[next];
+          i += 2;
+        } else {
+          value += query[i];
+          i++;
+        }
+      }
+      if (i >= query.length) throw new CypherParseError('unterminated string', start);
+      tokens.push({ type: 'string', value, position: start });
+      i++;
+    } else if (char === '`') {
+      const end = query.indexOf('`', i + 1);
+      if (end === -1) throw new CypherParseError('unterminated name', i);
+      tokens.push({ type: 'identifier', value: query.slice(i + 1, end), position: i, quoted: true });
+      i = end + 1;
+    } else if (/[0-9]/.test(char)) {
+      const match = /^(?:\d+\.\d+|\d+)(?:[eE][+-]?\d+)?/.exec(query.slice(i));
+      tokens.push({ type: 'number', value: match![0], position: i });
+      i += match![0].length;
+    } else if (char === '$') {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(query.slice(i + 1));
+      if (!match) throw new CypherParseError(`expected a parameter name after '$'`, i);
+      tokens.push({ type: 'parameter', value: match[0], position: i });
+      i += match[0].length + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(query.slice(i));
+      tokens.push({ type: 'identifier', value: match![0], position: i });
+      i += match![0].length;
+    } else {
+      const punctuation = PUNCTUATION.find(p => query.startsWith(p, i));
+      if (!punctuation) throw new CypherParseError(`unexpected character '${char}'`, i);
+      tokens.push({ type: 'punctuation', value: punctuation, position: i });
+      i += punctuation.length;
+    }
+  }
+
+  tokens.push({ type: 'end', value: '', position: query.length });
+  return tokens;
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'end': return 'end of query';
+    case 'string': return `string '${token.value}'`;
+    case 'parameter': return `'$${token.value}'`;
+    default: return `'${token.value}'`;
+  }
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private query: string, private tokens: Token[]) {}
+
+  private peek(offset: number = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index = Math.min(this.index + 1, this.tokens.length - 1);
+    return token;
+  }
+
+  private isPunctuation(value: string, offset: number = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'punctuation' && token.value === value;
+  }
+
+  private isKeyword(keyword: string, offset: number = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'identifier' && !token.quoted && token.value.toUpperCase() === keyword;
+  }
+
+  private expectPunctuation(value: string): Token {
+    const token = this.next();
+    if (token.type !== 'punctuation' || token.value !== value) {
+      throw new CypherParseError(`expected '${value}' but found ${describe(token)}`, token.position);
+    }
+    return token;
+  }
+
+  private expectKeyword(keyword: string): void {
+    const token = this.next();
+    if (token.type !== 'identifier' || token.quoted || token.value.toUpperCase() !== keyword) {
+      throw new CypherParseError(`expected ${keyword} but found ${describe(token)}`, token.position);
+    }
+  }
+
+  private expectName(): string {
+    const token = this.next();
+    if (token.type !== 'identifier') {
+      throw new CypherParseError(`expected a name but found ${describe(token)}`, token.position);
+    }
+    return token.value;
+  }
+
+  private rejectUnsupportedClause(): void {
+    const token = this.peek();
+    if (token.type === 'identifier' && !token.quoted && UNSUPPORTED_CLAUSES.has(token.value.toUpperCase())) {
+      throw new CypherParseError(`${token.value.toUpperCase()} is not supported; only MATCH ... RETURN queries are`, token.position);
+    }
+  }
+
+  parseQuery(): ParsedCypher {
+    this.rejectUnsupportedClause();
+    this.expectKeyword('MATCH');
+    const pattern = this.parsePattern();
+
+    if (this.isPunctuation(',')) {
+      throw new CypherParseError('only a single path pattern is supported', this.peek().position);
+    }
+
+    let where: CypherExpression | undefined;
+    if (this.isKeyword('WHERE')) {
+      this.next();
+      where = this.parseExpression();
+    }
+
+    this.rejectUnsupportedClause();
+    if (this.isKeyword('MATCH')) {
+      throw new CypherParseError('only a single MATCH clause is supported', this.peek().position);
+    }
+    this.expectKeyword('RETURN');
+
+    let distinct = false;
+    if (this.isKeyword('DISTINCT')) {
+      this.next();
+      distinct = true;
+    }
+
+    const returns = [this.parseReturnItem()];
+    while (this.isPunctuation(',')) {
+      this.next();
+      returns.push(this.parseReturnItem());
+    }
+
+    const orderBy: ParsedCypher['orderBy'] = [];
+    if (this.isKeyword('ORDER')) {
+      this.next();
+      this.expectKeyword('BY');
+      do {
+        if (orderBy.length > 0) this.next();
+        const expression = this.parseExpression();
+        let descending = false;
+        if (this.isKeyword('DESC') || this.isKeyword('DESCENDING')) {
+          this.next();
+          descending = true;
+        } else if (this.isKeyword('ASC') || this.isKeyword('ASCENDING')) {
+          this.next();
+        }
+        orderBy.push({ expression, descending });
+      } while (this.isPunctuation(','));
+    }
+
+    let skip: CypherExpression | undefined;
+    if (this.isKeyword('SKIP')) {
+      this.next();
+      skip = this.parseCount();
+    }
+
+    let limit: CypherExpression | undefined;
+    if (this.isKeyword('LIMIT')) {
+      this.next();
+      limit = this.parseCount();
+    }
+
+    if (this.isPunctuation(';')) this.next();
+    const end = this.peek();
+    if (end.type !== 'end') {
+      this.rejectUnsupportedClause();
+      throw new CypherParseError(`unexpected ${describe(end)}`, end.position);
+    }
+
+    return { pattern, where, distinct, returns, orderBy, skip, limit };
+  }
+
+  private parseCount(): CypherExpression {
+    const token = this.next();
+    if (token.type === 'number' && /^\d+$/.test(token.value)) {
+      return { type: 'literal', value: Number(token.value) };
+    }
+    if (token.type === 'parameter') {
+      return { type: 'parameter', name: token.value };
+    }
+    throw new CypherParseError(`expected a number but found ${describe(token)}`, token.position);
+  }
+
+  private parseReturnItem(): CypherReturnItem {
+    const start = this.peek().position;
+    const expression = this.parseExpression();
+    const text = this.query.slice(start, this.peek().position).trim();
+
+    if (this.isKeyword('AS')) {
+      this.next();
+      return { expression, alias: this.expectName(), text };
+    }
+    return { expression, text };
+  }
+
+  private parsePattern(): CypherPathPattern {
+    const nodes = [this.parseNodePattern()];
+    const relationships: CypherRelationshipPattern[] = [];
+
+    while (this.isPunctuation('-') || (this.isPunctuation('<') && this.isPunctuation('-', 1))) {
+      relationships.push(this.parseRelationshipPattern());
+      nodes.push(this.parseNodePattern());
+    }
+
+    return { nodes, relationships };
+  }
+
+  private parseNodePattern(): CypherNodePattern {
+    this.expectPunctuation('(');
+    const variable = this.peek().type === 'identifier' ? this.expectName() : undefined;
+    const labels: string[] = [];
+    while (this.isPunctuation(':')) {
+      this.next();
+      labels.push(this.expectName());
+    }
+    const properties = this.isPunctuation('{') ? this.parsePropertyMap() : [];
+    this.expectPunctuation(')');
+    return { variable, labels, properties };
+  }
+
+  private parseRelationshipPattern(): CypherRelationshipPattern {
+    const incoming = this.isPunctuation('<');
+    if (incoming) this.next();
+    this.expectPunctuation('-');
+
+    const relationship: CypherRelationshipPattern = { types: [], direction: 'both', properties: [] };
+
+    if (this.isPunctuation('[')) {
+      this.next();
+      if (this.peek().type === 'identifier') {
+        relationship.variable = this.expectName();
+      }
+      if (this.isPunctuation(':')) {
+        this.next();
+        relationship.types.push(this.expectName());
+        while (this.isPunctuation('|')) {
+          this.next();
+          if (this.isPunctuation(':')) this.next();
+          relationship.types.push(this.expectName());
+        }
+      }
+      if (this.isPunctuation('*')) {
+        this.next();
+        relationship.length = this.parseLength();
+      }
+      if (this.isPunctuation('{')) {
+        relationship.properties = this.parsePropertyMap();
+      }
+      this.expectPunctuation(']');
+    }
+
+    this.expectPunctuation('-');
+    const outgoing = this.isPunctuation('>');
+    if (outgoing) this.next();
+
+    if (incoming && outgoing) {
+      throw new CypherParseError('a relationship cannot point both ways', this.peek().position);
+    }
+    relationship.direction = outgoing ? 'out' : incoming ? 'in' : 'both';
+    return relationship;
+  }
+
+  /**
+   * Parses the length of a variable length relationship after `*`: `*`, `*3`, `*1..3`, `*..3` or `*2..`
+   */
+  private parseLength(): { min: number; max?: number } {
+    const readNumber = (): number | undefined => {
+      const token = this.peek();
+      if (token.type === 'number' && /^\d+$/.test(token.value)) {
+        this.next();
+        return Number(token.value);
+      }
+      return undefined;
+    };
+
+    const first = readNumber();
+    if (!this.isPunctuation('..')) {
+      return first === undefined ? { min: 1 } : { min: first, max: first };
+    }
+    this.next();
+    const second = readNumber();
+    return second === undefined ? { min: first ?? 1 } : { min: first ?? 1, max: second };
+  }
+
+  private parsePropertyMap(): Array<[string, CypherExpression]> {
+    this.expectPunctuation('{');
+    const properties: Array<[string, CypherExpression]> = [];
+
+    if (!this.isPunctuation('}')) {
+      do {
+        if (properties.length > 0) this.next();
+        const key = this.expectName();
+        this.expectPunctuation(':');
+        properties.push([key, this.parseExpression()]);
+      } while (this.isPunctuation(','));
+    }
+
+    this.expectPunctuation('}');
+    return properties;
+  }
+
+  private parseExpression(): CypherExpression {
+    return this.parseBoolean('OR', () => this.parseBoolean('AND', () => this.parseNot()));
+  }
+
+  private parseBoolean(keyword: 'AND' | 'OR', operand: () => CypherExpression): CypherExpression {
+    const operands = [operand()];
+    while (this.isKeyword(keyword)) {
+      this.next();
+      operands.push(operand());
+    }
+    return operands.length === 1 ? operands[0] : { type: keyword === 'AND' ? 'and' : 'or', operands };
+  }
+
+  private parseNot(): CypherExpression {
+    if (this.isKeyword('NOT')) {
+      this.next();
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): CypherExpression {
+    const left = this.parseOperand();
+
+    if (this.isKeyword('IS')) {
+      this.next();
+      const negated = this.isKeyword('NOT');
+      if (negated) this.next();
+      this.expectKeyword('NULL');
+      return { type: 'null_check', negated, operand: left };
+    }
+
+    let operator: CypherComparisonOperator | null = null;
+    const token = this.peek();
+    if (token.type === 'punctuation' && ['=', '<>', '<', '<=', '>', '>=', '=~'].includes(token.value)) {
+      this.next();
+      operator = token.value as CypherComparisonOperator;
+    } else if (this.isKeyword('IN') || this.isKeyword('CONTAINS')) {
+      operator = this.next().value.toUpperCase() as CypherComparisonOperator;
+    } else if ((this.isKeyword('STARTS') || this.isKeyword('ENDS')) && this.isKeyword('WITH', 1)) {
+      operator = `${this.next().value.toUpperCase()} WITH` as CypherComparisonOperator;
+      this.next();
+    }
+
+    if (!operator) {
+      return left;
+    }
+    return { type: 'comparison', operator, left, right: this.parseOperand() };
+  }
+
+  private parseOperand(): CypherExpression {
+    const token = this.peek();
+
+    if (token.type === 'string') {
+      this.next();
+      return { type: 'literal', value: token.value };
+    }
+    if (token.type === 'number') {
+      this.next();
+      return { type: 'literal', value: Number(token.value) };
+    }
+    if (this.isPunctuation('-') && this.peek(1).type === 'number') {
+      this.next();
+      return { type: 'literal', value: -Number(this.next().value) };
+    }
+    if (token.type === 'parameter') {
+      this.next();
+      return { type: 'parameter', name: token.value };
+    }
+    if (this.isPunctuation('*')) {
+      this.next();
+      return { type: 'star' };
+    }
+    if (this.isPunctuation('[')) {
+      this.next();
+      const items: CypherExpression[] = [];
+      if (!this.isPunctuation(']')) {
+        do {
+          if (items.length > 0) this.next();
+          items.push(this.parseOperand());
+        } while (this.isPunctuation(','));
+      }
+      this.expectPunctuation(']');
+      return { type: 'list', items };
+    }
+    if (this.isPunctuation('(')) {
+      this.next();
+      const inner = this.parseExpression();
+      this.expectPunctuation(')');
+      return inner;
+    }
+    if (token.type === 'identifier') {
+      return this.parseNamedOperand();
+    }
+
+    throw new CypherParseError(`unexpected ${describe(token)}`, token.position);
+  }
+
+  private parseNamedOperand(): CypherExpression {
+    const token = this.next();
+    const upper = token.quoted ? '' : token.value.toUpperCase();
+
+    if (upper === 'TRUE' || upper === 'FALSE') {
+      return { type: 'literal', value: upper === 'TRUE' };
+    }
+    if (upper === 'NULL') {
+      return { type: 'literal', value: null };
+    }
+
+    if (this.isPunctuation('(')) {
+      this.next();
+      let distinct = false;
+      if (this.isKeyword('DISTINCT')) {
+        this.next();
+        distinct = true;
+      }
+      const args: CypherExpression[] = [];
+      if (!this.isPunctuation(')')) {
+        do {
+          if (args.length > 0) this.next();
+          args.push(this.parseExpression());
+        } while (this.isPunctuation(','));
+      }
+      this.expectPunctuation(')');
+      return { type: 'function', name: token.value.toLowerCase(), args, distinct };
+    }
+
+    if (this.isPunctuation('.')) {
+      this.next();
+      return { type: 'property', variable: token.value, key: this.expectName() };
+    }
+
+    if (this.isPunctuation(':')) {
+      const labels: string[] = [];
+      while (this.isPunctuation(':')) {
+        this.next();
+        labels.push(this.expectName());
+      }
+      return { type: 'label_check', variable: token.value, labels };
+    }
+
+    return { type: 'variable', name: token.value };
+  }
+}
+
+/**
+ * Parses a Cypher query in the subset supported for translation
+ *
+ * @param query Query such as `MATCH (p:Person) WHERE p.age > 30 RETURN p.name`
+ * @returns The parsed query
+ * @throws CypherParseError if the query is not valid or uses unsupported clauses
+ */
+export function parseCypher(query: string): ParsedCypher {
+  return new Parser(query, tokenize(query)).parseQuery();
+}
@@ -0,0 +1,183 @@
+/**
+ * Output formats for query results
+ *
+ * - `json`: the whole result, pretty-printed
+ * - `compact-json`: the whole result on one line
+ * - `jsonl`: one row per line
+ * - `csv`: one row per line with a header of column names
+ * - `markdown`: a Markdown table
+ *
+ * The row based formats are followed by the result metadata as a separate
+ * JSON block. CSV and Markdown flatten every row into columns with
+ * `flattenRow`.
+ */
+export const OUTPUT_FORMATS = ['json', 'compact-json', 'jsonl', 'csv', 'markdown'] as const;
+
+/**
+ * Output format for query results
+ */
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/** Column holding rows that are not objects, such as the values of `g.V().values('name')` */
+const VALUE_COLUMN = 'value';
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isNode(value: any): boolean {
+  return isPlainObject(value) && 'id' in value && Array.isArray(value.labels) && isPlainObject(value.properties);
+}
+
+function isRelationship(value: any): boolean {
+  return isPlainObject(value) && 'id' in value && typeof value.type === 'string'
+    && 'startNodeId' in value && 'endNodeId' in value && isPlainObject(value.properties);
+}
+
+function isPath(value: any): boolean {
+  return isPlainObject(value) && Array.isArray(value.segments) && Object.keys(value).length === 1;
+}
+
+/**
+ * Renders a path in Cypher notation using node ids, e.g. `(1)-[:KNOWS]->(2)`.
+ * Segments without a relationship, from Gremlin paths that skip edges, render as `(1)--(2)`.
+ */
+function pathToString(path: { segments: any[] }): string {
+  if (path.segments.length === 0) {
+    return '';
+  }
+
+  return path.segments.reduce(
+    (text: string, segment: any) => {
+      const { relationship, end } = segment;
+      if (!relationship) {
+        return `${text}--(${end.id})`;
+      }
+      const forward = relationship.startNodeId === segment.start.id;
+      const arrow = forward ? `-[:${relationship.type}]->` : `<-[:${relationship.type}]-`;
+      return `${text}${arrow}(${end.id})`;
+    },
+    `(${path.segments[0].start.id})`
+  );
+}
+
+/**
+ * Flattens one value into columns named after its path
+ */
+function flattenValue(value: any, column: string, columns: Record<string, any>): void {
+  if (value instanceof Map) {
+    flattenValue(Object.fromEntries(value), column, columns);
+  } else if (isNode(value)) {
+    columns[`${column}.id`] = value.id;
+    columns[`${column}.labels`] = value.labels.map((label: string) => `:${label}`).join('');
+    flattenValue(value.properties, column, columns);
+  } else if (isRelationship(value)) {
+    columns[`${column}.id`] = value.id;
+    columns[`${column}.type`] = value.type;
+    columns[`${column}.start`] = value.startNodeId;
+    columns[`${column}.end`] = value.endNodeId;
+    flattenValue(value.properties, column, columns);
+  } else if (isPath(value)) {
+    columns[column] = pathToString(value);
+  } else if (isPlainObject(value)) {
+    for (const [key, inner] of Object.entries(value)) {
+      flattenValue(inner, column ? `${column}.${key}` : key, columns);
+    }
+  } else if (Array.isArray(value)) {
+    columns[column] = JSON.stringify(value);
+  } else {
+    columns[column] = value;
+  }
+}
+
+/**
+ * Flattens a result row into scalar columns:
+ * - nodes become `<column>.id`, `<column>.labels` (e.g. `:Person:Employee`) and one column per property
+ * - relationships become `<column>.id`, `<column>.type`, `<column>.start`, `<column>.end` and one column per property
+ * - paths become one column in Cypher notation using node ids, e.g. `(1)-[:KNOWS]->(2)`
+ * - maps become one column per key, named `<column>.<key>`
+ * - lists become one column holding their JSON
+ * - rows that are not objects become a single `value` column
+ *
+ * @param row Result row
+ * @returns Column names mapped to scalar values
+ */
+export function flattenRow(row: any): Record<string, any> {
+  const columns: Record<string, any> = {};
+  const isRecord = (isPlainObject(row) || row instanceof Map) && !isNode(row) && !isRelationship(row) && !isPath(row);
+  flattenValue(row, isRecord ? '' : VALUE_COLUMN, columns);
+  return columns;
+}
+
+/**
+ * Flattens rows and collects their columns in order of first appearance
+ */
+function toTable(rows: any[]): { columns: string[]; records: Array<Record<string, any>> } {
+  const records = rows.map(flattenRow);
+  const columns = [...new Set(records.flatMap(record => Object.keys(record)))];
+  return { columns, records };
+}
+
+function cellText(value: any): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function csvCell(value: any): string {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownCell(value: any): string {
+  return cellText(value).replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function toCsv(rows: any[]): string {
+  const { columns, records } = toTable(rows);
+  if (columns.length === 0) {
+    return '';
+  }
+
+  return [
+    columns.map(csvCell).join(','),
+    ...records.map(record => columns.map(column => csvCell(record[column])).join(','))
+  ].join('\n');
+}
+
+function toMarkdown(rows: any[]): string {
+  const { columns, records } = toTable(rows);
+  if (columns.length === 0) {
+    return '_No rows_';
+  }
+
+  return [
+    `| ${columns.map(markdownCell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...records.map(record => `| ${columns.map(column => markdownCell(record[column])).join(' | ')} |`)
+  ].join('\n');
+}
+
+/**
+ * Formats a query result as text blocks
+ *
+ * @param result Query result
+ * @param format Output format
+ * @returns One block holding the whole result for the JSON formats; otherwise
+ *          the formatted rows followed by the metadata as JSON
+ */
+export function formatResult(result: { data: any[]; metadata: object }, format: OutputFormat): string[] {
+  switch (format) {
+    case 'json':
+      return [JSON.stringify(result, null, 2)];
+    case 'compact-json':
+      return [JSON.stringify(result)];
+    case 'jsonl':
+      return [result.data.map(row => JSON.stringify(row)).join('\n'), JSON.stringify({ metadata: result.metadata })];
+    case 'csv':
+      return [toCsv(result.data), JSON.stringify({ metadata: result.metadata })];
+    case 'markdown':
+      return [toMarkdown(result.data), JSON.stringify({ metadata: result.metadata })];
+  }
+}
@@ -0,0 +1,742 @@
+/**
+ * Parser for Gremlin traversal strings.
+ *
+ * Queries are parsed into a small syntax tree and rebuilt step by step against
+ * a traversal source, so a query string is never evaluated as code. Only the
+ * traversal grammar is understood: a traversal source `g`, chained steps with
+ * literal, list and map arguments, predicates (`P.gt(5)`, `TextP.containing('a')`),
+ * enums (`T.id`, `Order.desc`) and anonymous traversals (`__.out()`), plus the
+ * static-import forms the Gremlin console accepts (`gt(5)`, `desc`, `out()`).
+ *
+ * Other bare names are parameter bindings, as in Gremlin Server scripts:
+ * `g.V().has('name', name)` takes the value of `name` from the query parameters.
+ */
+
+/**
+ * Argument passed to a step, predicate or collection
+ */
+export type GremlinArgument =
+  | { type: 'literal'; value: string | number | boolean | null; long?: boolean }
+  | { type: 'list'; items: GremlinArgument[] }
+  | { type: 'map'; entries: Array<[GremlinArgument, GremlinArgument]> }
+  | { type: 'enum'; enumType: string; name: string }
+  | { type: 'predicate'; predicateType: 'P' | 'TextP'; name: string; args: GremlinArgument[] }
+  | { type: 'traversal'; steps: GremlinStep[] }
+  | { type: 'binding'; name: string };
+
+/**
+ * A single step of a traversal, e.g. `has('name', 'marko')`
+ */
+export interface GremlinStep {
+  /** Step name as written in Gremlin, e.g. `in` rather than the JavaScript `in_` */
+  name: string;
+  /** Step arguments */
+  args: GremlinArgument[];
+}
+
+/**
+ * A parsed traversal, starting from the traversal source
+ */
+export interface ParsedTraversal {
+  /** Name of the traversal source, always `g` */
+  source: string;
+  /** Steps applied to the source, starting with a source step such as `V()` */
+  steps: GremlinStep[];
+}
+
+/**
+ * Error thrown for queries that are not valid traversals
+ */
+export class GremlinParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`Gremlin syntax error at position ${position}: ${message}`);
+    this.name = 'GremlinParseError';
+  }
+}
+
+/**
+ * Error thrown when a query references parameters that were not supplied
+ */
+export class MissingParameterError extends Error {
+  constructor(public readonly missing: string[]) {
+    super(`Missing value for query parameter${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+    this.name = 'MissingParameterError';
+  }
+}
+
+/** Steps a traversal may start with */
+const SOURCE_STEPS = new Set([
+  'V', 'E', 'addV', 'addE', 'mergeV', 'mergeE', 'inject', 'io', 'call', 'union',
+  'with', 'withBulk', 'withPath', 'withSack', 'withSideEffect'
+]);
+
+/** Steps that may appear after the source step or in anonymous traversals */
+const TRAVERSAL_STEPS = new Set([
+  'V', 'E', 'addE', 'addV', 'aggregate', 'all', 'and', 'any', 'as', 'asBool', 'asDate', 'asNumber',
+  'asString', 'barrier', 'both', 'bothE', 'bothV', 'branch', 'by', 'call', 'cap', 'choose', 'coalesce',
+  'coin', 'combine', 'concat', 'conjoin', 'connectedComponent', 'constant', 'count', 'cyclicPath',
+  'dateAdd', 'dateDiff', 'dedup', 'difference', 'discard', 'disjunct', 'drop', 'element', 'elementMap',
+  'emit', 'fail', 'filter', 'flatMap', 'fold', 'format', 'from', 'group', 'groupCount', 'has', 'hasId',
+  'hasKey', 'hasLabel', 'hasNot', 'hasValue', 'id', 'identity', 'in', 'inE', 'inV', 'index', 'inject',
+  'intersect', 'is', 'key', 'label', 'length', 'limit', 'local', 'loops', 'lTrim', 'map', 'match',
+  'math', 'max', 'mean', 'merge', 'mergeE', 'mergeV', 'min', 'none', 'not', 'option', 'optional', 'or',
+  'order', 'otherV', 'out', 'outE', 'outV', 'pageRank', 'path', 'peerPressure', 'product', 'profile',
+  'project', 'properties', 'property', 'propertyMap', 'range', 'read', 'repeat', 'replace', 'reverse',
+  'rTrim', 'sack', 'sample', 'select', 'shortestPath', 'sideEffect', 'simplePath', 'skip', 'split',
+  'subgraph', 'substring', 'sum', 'tail', 'timeLimit', 'times', 'to', 'toE', 'toLower', 'toUpper',
+  'toV', 'tree', 'trim', 'unfold', 'union', 'until', 'value', 'valueMap', 'values', 'where', 'with',
+  'write'
+]);
+
+/** Gremlin step names that are renamed in gremlin-javascript because they are reserved words */
+const JS_STEP_NAMES: Record<string, string> = {
+  in: 'in_',
+  from: 'from_',
+  with: 'with_'
+};
+
+/** Enum types and the gremlin-javascript objects holding their values */
+const ENUM_TYPES: Record<string, string> = {
+  T: 't',
+  Order: 'order',
+  Column: 'column',
+  Scope: 'scope',
+  Pop: 'pop',
+  Cardinality: 'cardinality',
+  Direction: 'direction',
+  Operator: 'operator',
+  Barrier: 'barrier',
+  Pick: 'pick',
+  DT: 'dt',
+  Merge: 'merge',
+  WithOptions: 'withOptions'
+};
+
+/** Enum values usable without their type, as with the Gremlin console's static imports */
+const BARE_ENUMS: Record<string, [string, string]> = {
+  id: ['T', 'id'],
+  label: ['T', 'label'],
+  key: ['T', 'key'],
+  value: ['T', 'value'],
+  asc: ['Order', 'asc'],
+  desc: ['Order', 'desc'],
+  incr: ['Order', 'asc'],
+  decr: ['Order', 'desc'],
+  shuffle: ['Order', 'shuffle'],
+  keys: ['Column', 'keys'],
+  values: ['Column', 'values'],
+  local: ['Scope', 'local'],
+  global: ['Scope', 'global'],
+  first: ['Pop', 'first'],
+  last: ['Pop', 'last'],
+  all: ['Pop', 'all'],
+  mixed: ['Pop', 'mixed'],
+  single: ['Cardinality', 'single'],
+  list: ['Cardinality', 'list'],
+  set: ['Cardinality', 'set'],
+  OUT: ['Direction', 'out'],
+  IN: ['Direction', 'in'],
+  BOTH: ['Direction', 'both'],
+  sum: ['Operator', 'sum'],
+  minus: ['Operator', 'minus'],
+  mult: ['Operator', 'mult'],
+  div: ['Operator', 'div'],
+  min: ['Operator', 'min'],
+  max: ['Operator', 'max'],
+  assign: ['Operator', 'assign'],
+  addAll: ['Operator', 'addAll'],
+  sumLong: ['Operator', 'sumLong']
+};
+
+/** Predicates by type */
+const PREDICATES: Record<'P' | 'TextP', Set<string>> = {
+  P: new Set(['eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'inside', 'outside', 'between', 'within', 'without', 'not', 'typeOf']),
+  TextP: new Set(['containing', 'notContaining', 'startingWith', 'notStartingWith', 'endingWith', 'notEndingWith', 'regex', 'notRegex'])
+};
+
+/** Steps that end a traversal in Gremlin scripts; they are replaced since results are always listed */
+const TERMINAL_STEPS = new Set(['toList', 'toSet', 'iterate', 'next']);
+
+type TokenType = 'identifier' | 'string' | 'number' | 'punctuation' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const PUNCTUATION = new Set(['.', '(', ')', '[', ']', ',', ':', ';']);
+
+const ESCAPES: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '\\': '\\', '\'': '\'', '"': '"', '$': '$'
+};
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '/' && query[i + 1] === '/') {
+      while (i < query.length && query[i] !== '\n') i++;
+    } else if (char === '/' && query[i + 1] === '*') {
+      const end = query.indexOf('*/', i + 2);
+      if (end === -1) throw new GremlinParseError('unterminated comment', i);
+      i = end + 2;
+    } else if (char === '\'' || char === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < query.length && query[i] !== char) {
+        if (query[i] === '\\') {
+          const next = query[i + 1];
+          if (next === 'u' && /^[0-9a-fA-F]{4}$/.test(query.slice(i + 2, i + 6))) {
+            value += String.fromCharCode(parseInt(query.slice(i + 2, i + 6), 16));
+            i += 6;
+            continue;
+          }
+          if (next === undefined || !(next in ESCAPES)) {
+            throw new GremlinParseError(`invalid escape sequence \\${next ?? ''}`, i);
+          }
+          value += ESCAPES[next];
+          i += 2;
+        } else {
+          value += query[i];
+          i++;
+        }
+      }
+      if (i >= query.length) throw new GremlinParseError('unterminated string', start);
+      tokens.push({ type: 'string', value, position: start });
+      i++;
+    } else if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(query[i + 1] ?? ''))) {
+      const match = /^-?(?:\d+\.\d+|\d+)(?:[eE][+-]?\d+)?[lLdDfFnNmM]?/.exec(query.slice(i));
+      tokens.push({ type: 'number', value: match![0], position: i });
+      i += match![0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(query.slice(i));
+      tokens.push({ type: 'identifier', value: match![0], position: i });
+      i += match![0].length;
+    } else if (PUNCTUATION.has(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: i });
+      i++;
+    } else if (char === '{') {
+      throw new GremlinParseError('lambdas are not supported', i);
+    } else {
+      throw new GremlinParseError(`unexpected character '${char}'`, i);
+    }
+  }
+
+  tokens.push({ type: 'end', value: '', position: query.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private parameterNames: Set<string>) {}
+
+  private peek(offset: number = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index = Math.min(this.index + 1, this.tokens.length - 1);
+    return token;
+  }
+
+  private isPunctuation(value: string, offset: number = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'punctuation' && token.value === value;
+  }
+
+  private expectPunctuation(value: string): void {
+    const token = this.next();
+    if (token.type !== 'punctuation' || token.value !== value) {
+      throw new GremlinParseError(`expected '${value}' but found ${describe(token)}`, token.position);
+    }
+  }
+
+  private expectIdentifier(): Token {
+    const token = this.next();
+    if (token.type !== 'identifier') {
+      throw new GremlinParseError(`expected a name but found ${describe(token)}`, token.position);
+    }
+    return token;
+  }
+
+  parseQuery(): ParsedTraversal {
+    const source = this.expectIdentifier();
+    if (source.value !== 'g') {
+      throw new GremlinParseError(`traversals must start with 'g', found '${source.value}'`, source.position);
+    }
+    if (!this.isPunctuation('.')) {
+      throw new GremlinParseError(`expected '.' but found ${describe(this.peek())}`, this.peek().position);
+    }
+
+    const steps = this.parseSteps(true);
+
+    if (this.isPunctuation(';')) this.next();
+    const end = this.peek();
+    if (end.type !== 'end') {
+      throw new GremlinParseError(`unexpected ${describe(end)}`, end.position);
+    }
+
+    return { source: source.value, steps: replaceTerminalSteps(steps) };
+  }
+
+  /**
+   * Parses `.step(...)` chains. The first step of a top level traversal must
+   * be a source step.
+   */
+  private parseSteps(fromSource: boolean): GremlinStep[] {
+    const steps: GremlinStep[] = [];
+
+    while (this.isPunctuation('.')) {
+      this.next();
+      const name = this.expectIdentifier();
+      steps.push(this.parseStep(name, fromSource && steps.length === 0));
+    }
+
+    return steps;
+  }
+
+  private parseStep(name: Token, isSourceStep: boolean): GremlinStep {
+    const allowed = isSourceStep
+      ? SOURCE_STEPS.has(name.value)
+      : TRAVERSAL_STEPS.has(name.value) || TERMINAL_STEPS.has(name.value);
+
+    if (!allowed) {
+      throw new GremlinParseError(
+        isSourceStep ? `'${name.value}' is not a traversal source step` : `unknown step '${name.value}'`,
+        name.position
+      );
+    }
+
+    return { name: name.value, args: this.parseArguments() };
+  }
+
+  private parseArguments(): GremlinArgument[] {
+    this.expectPunctuation('(');
+    const args: GremlinArgument[] = [];
+
+    if (!this.isPunctuation(')')) {
+      args.push(this.parseArgument());
+      while (this.isPunctuation(',')) {
+        this.next();
+        args.push(this.parseArgument());
+      }
+    }
+
+    this.expectPunctuation(')');
+    return args;
+  }
+
+  private parseArgument(): GremlinArgument {
+    const token = this.peek();
+
+    if (token.type === 'string') {
+      this.next();
+      return { type: 'literal', value: token.value };
+    }
+
+    if (token.type === 'number') {
+      this.next();
+      return parseNumber(token);
+    }
+
+    if (this.isPunctuation('[')) {
+      return this.parseCollection();
+    }
+
+    if (this.isPunctuation('(')) {
+      this.next();
+      const inner = this.parseArgument();
+      this.expectPunctuation(')');
+      return inner;
+    }
+
+    if (token.type === 'identifier') {
+      return this.parseNamedArgument();
+    }
+
+    throw new GremlinParseError(`unexpected ${describe(token)}`, token.position);
+  }
+
+  private parseNamedArgument(): GremlinArgument {
+    const token = this.next();
+    const name = token.value;
+
+    if (name === 'true' || name === 'false') {
+      return { type: 'literal', value: name === 'true' };
+    }
+    if (name === 'null') {
+      return { type: 'literal', value: null };
+    }
+
+    // Anonymous traversal: __.out()
+    if (name === '__') {
+      if (!this.isPunctuation('.')) {
+        throw new GremlinParseError(`expected '.' after '__'`, this.peek().position);
+      }
+      return { type: 'traversal', steps: this.parseSteps(false) };
+    }
+
+    // Qualified enum or predicate: T.id, P.gt(5)
+    if (this.isPunctuation('.') && (name in ENUM_TYPES || name === 'P' || name === 'TextP')) {
+      this.next();
+      const member = this.expectIdentifier();
+
+      if (name === 'P' || name === 'TextP') {
+        if (!PREDICATES[name].has(member.value)) {
+          throw new GremlinParseError(`unknown predicate '${name}.${member.value}'`, member.position);
+        }
+        return this.parsePredicate(name, member.value);
+      }
+
+      return { type: 'enum', enumType: name, name: member.value };
+    }
+
+    // Static-import forms: gt(5), containing('a'), out('knows')
+    if (this.isPunctuation('(')) {
+      const predicateType = PREDICATES.P.has(name) ? 'P' : PREDICATES.TextP.has(name) ? 'TextP' : null;
+      if (predicateType && !(name === 'not' && this.startsTraversalArgument())) {
+        return this.parsePredicate(predicateType, name);
+      }
+
+      const first = this.parseStep(token, false);
+      return { type: 'traversal', steps: [first, ...this.parseSteps(false)] };
+    }
+
+    if (this.isPunctuation('.')) {
+      throw new GremlinParseError(`unknown identifier '${name}'`, token.position);
+    }
+
+    // Supplied parameters take precedence over enum values of the same name
+    if (name in BARE_ENUMS && !this.parameterNames.has(name)) {
+      const [enumType, value] = BARE_ENUMS[name];
+      return { type: 'enum', enumType, name: value };
+    }
+
+    return { type: 'binding', name };
+  }
+
+  /**
+   * Whether the argument of a `not(...)` at the current position is a traversal
+   * (the `not` step) rather than a predicate (`P.not`)
+   */
+  private startsTraversalArgument(): boolean {
+    const first = this.peek(1);
+    if (first.type !== 'identifier') return false;
+    if (first.value === '__') return true;
+    if (first.value === 'P' || first.value === 'TextP') return false;
+    return !PREDICATES.P.has(first.value) && !PREDICATES.TextP.has(first.value);
+  }
+
+  private parsePredicate(predicateType: 'P' | 'TextP', name: string): GremlinArgument {
+    let predicate: GremlinArgument = { type: 'predicate', predicateType, name, args: this.parseArguments() };
+
+    // Predicate composition: P.gt(1).and(P.lt(5))
+    while (this.isPunctuation('.') && ['and', 'or'].includes(this.peek(1).value) && this.isPunctuation('(', 2)) {
+      this.next();
+      const connective = this.next().value;
+      const other = this.parseArguments();
+      if (other.length !== 1 || other[0].type !== 'predicate') {
+        throw new GremlinParseError(`'${connective}' expects a single predicate`, this.peek().position);
+      }
+      predicate = { type: 'predicate', predicateType: 'P', name: connective, args: [predicate, other[0]] };
+    }
+
+    return predicate;
+  }
+
+  /**
+   * Parses `[a, b]` lists and `[key: value]` maps, including the empty map `[:]`
+   */
+  private parseCollection(): GremlinArgument {
+    this.expectPunctuation('[');
+
+    if (this.isPunctuation(':') && this.isPunctuation(']', 1)) {
+      this.next();
+      this.next();
+      return { type: 'map', entries: [] };
+    }
+    if (this.isPunctuation(']')) {
+      this.next();
+      return { type: 'list', items: [] };
+    }
+
+    const items: GremlinArgument[] = [];
+    const entries: Array<[GremlinArgument, GremlinArgument]> = [];
+    let isMap: boolean | null = null;
+
+    do {
+      if (isMap !== null) this.next();
+
+      const key = this.parseMapKeyOrItem();
+      if (this.isPunctuation(':')) {
+        if (isMap === false) throw new GremlinParseError('cannot mix list items and map entries', this.peek().position);
+        isMap = true;
+        this.next();
+        entries.push([key, this.parseArgument()]);
+      } else {
+        if (isMap === true) throw new GremlinParseError(`expected ':' in map entry`, this.peek().position);
+        isMap = false;
+        items.push(key);
+      }
+    } while (this.isPunctuation(','));
+
+    this.expectPunctuation(']');
+    return isMap ? { type: 'map', entries } : { type: 'list', items };
+  }
+
+  /**
+   * Bare names used as map keys are strings, as in Groovy: `[name: 'marko']`
+   */
+  private parseMapKeyOrItem(): GremlinArgument {
+    const token = this.peek();
+    if (token.type === 'identifier' && this.isPunctuation(':', 1)) {
+      this.next();
+      return { type: 'literal', value: token.value };
+    }
+    return this.parseArgument();
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'end': return 'end of query';
+    case 'string': return `string '${token.value}'`;
+    default: return `'${token.value}'`;
+  }
+}
+
+function parseNumber(token: Token): GremlinArgument {
+  const suffix = /[lLdDfFnNmM]$/.test(token.value) ? token.value.slice(-1).toLowerCase() : '';
+  const digits = suffix ? token.value.slice(0, -1) : token.value;
+  const value = Number(digits);
+
+  if (!Number.isFinite(value)) {
+    throw new GremlinParseError(`invalid number '${token.value}'`, token.position);
+  }
+
+  return suffix === 'l' ? { type: 'literal', value, long: true } : { type: 'literal', value };
+}
+
+/**
+ * Drops `toList()`, `toSet()` and `iterate()` from the end of a traversal and
+ * turns `next(n)` into `limit(n)`, since results are always returned as a list
+ */
+function replaceTerminalSteps(steps: GremlinStep[]): GremlinStep[] {
+  const result = [...steps];
+  const last = result[result.length - 1];
+
+  if (last && TERMINAL_STEPS.has(last.name)) {
+    result.pop();
+    if (last.name === 'next') {
+      result.push({ name: 'limit', args: last.args.length > 0 ? last.args : [{ type: 'literal', value: 1 }] });
+    } else if (last.name === 'toSet') {
+      result.push({ name: 'dedup', args: [] });
+    }
+  }
+
+  for (const step of result) {
+    if (TERMINAL_STEPS.has(step.name)) {
+      throw new GremlinParseError(`'${step.name}()' can only end a traversal`, 0);
+    }
+  }
+
+  if (result.length === 0) {
+    throw new GremlinParseError('traversal has no steps', 0);
+  }
+
+  return result;
+}
+
+/**
+ * Parses a Gremlin traversal string
+ *
+ * @param query Traversal such as `g.V().hasLabel('person').out('knows').values('name')`
+ * @param parameterNames Names of the supplied query parameters, which take precedence over enum values such as `id`
+ * @returns The parsed traversal
+ * @throws GremlinParseError if the query is not a valid traversal
+ */
+export function parseGremlin(query: string, parameterNames: Iterable<string> = []): ParsedTraversal {
+  return new Parser(tokenize(query), new Set(parameterNames)).parseQuery();
+}
+
+/**
+ * Visits every step of a traversal, including steps of nested anonymous traversals
+ */
+export function forEachStep(steps: GremlinStep[], visit: (step: GremlinStep) => void): void {
+  const visitArgument = (arg: GremlinArgument): void => {
+    switch (arg.type) {
+      case 'traversal':
+        forEachStep(arg.steps, visit);
+        break;
+      case 'list':
+        arg.items.forEach(visitArgument);
+        break;
+      case 'map':
+        arg.entries.forEach(([key, value]) => {
+          visitArgument(key);
+          visitArgument(value);
+        });
+        break;
+      case 'predicate':
+        arg.args.forEach(visitArgument);
+        break;
+    }
+  };
+
+  for (const step of steps) {
+    visit(step);
+    step.args.forEach(visitArgument);
+  }
+}
+
+/**
+ * Returns the names of all parameters a traversal references, in order of first use
+ */
+export function findBindings(parsed: ParsedTraversal): string[] {
+  const names = new Set<string>();
+
+  const visitArgument = (arg: GremlinArgument): void => {
+    switch (arg.type) {
+      case 'binding':
+        names.add(arg.name);
+        break;
+      case 'list':
+        arg.items.forEach(visitArgument);
+        break;
+      case 'map':
+        arg.entries.forEach(([key, value]) => {
+          visitArgument(key);
+          visitArgument(value);
+        });
+        break;
+      case 'predicate':
+        arg.args.forEach(visitArgument);
+        break;
+    }
+  };
+
+  forEachStep(parsed.steps, step => step.args.forEach(visitArgument));
+  return [...names];
+}
+
+/**
+ * Checks that every parameter a traversal references is supplied
+ *
+ * @throws MissingParameterError listing the parameters without a value
+ */
+export function validateBindings(parsed: ParsedTraversal, parameters: Record<string, any>): void {
+  const missing = findBindings(parsed).filter(name => !Object.prototype.hasOwnProperty.call(parameters, name));
+  if (missing.length > 0) {
+    throw new MissingParameterError(missing);
+  }
+}
+
+/**
+ * The parts of the gremlin-javascript module used to build traversals
+ */
+export interface GremlinApi {
+  process: any;
+  structure?: any;
+}
+
+function applyStep(target: any, step: GremlinStep, api: GremlinApi, parameters: Record<string, any>): any {
+  const method = JS_STEP_NAMES[step.name] || step.name;
+  const fn = target?.[method];
+
+  if (typeof fn !== 'function') {
+    throw new Error(`Gremlin step '${step.name}' is not supported by this driver`);
+  }
+
+  return fn.apply(target, step.args.map(arg => toDriverValue(arg, api, parameters)));
+}
+
+/**
+ * Converts a JSON parameter value for the driver: objects become maps, which
+ * is how steps such as `mergeV()` expect property maps
+ */
+function parameterToDriverValue(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(parameterToDriverValue);
+  }
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return new Map(Object.entries(value).map(([key, inner]) => [key, parameterToDriverValue(inner)]));
+  }
+  return value;
+}
+
+function toDriverValue(arg: GremlinArgument, api: GremlinApi, parameters: Record<string, any>): any {
+  switch (arg.type) {
+    case 'binding':
+      if (!Object.prototype.hasOwnProperty.call(parameters, arg.name)) {
+        throw new MissingParameterError([arg.name]);
+      }
+      return parameterToDriverValue(parameters[arg.name]);
+
+    case 'literal':
+      if (arg.long && typeof api.structure?.toLong === 'function') {
+        return api.structure.toLong(arg.value);
+      }
+      return arg.value;
+
+    case 'list':
+      return arg.items.map(item => toDriverValue(item, api, parameters));
+
+    case 'map': {
+      const map = new Map();
+      for (const [key, value] of arg.entries) {
+        map.set(toDriverValue(key, api, parameters), toDriverValue(value, api, parameters));
+      }
+      return map;
+    }
+
+    case 'enum': {
+      const values = api.process[ENUM_TYPES[arg.enumType]];
+      const name = arg.enumType === 'Direction' ? arg.name.toLowerCase().replace(/^from$/, 'from_') : arg.name;
+      if (!values || !Object.prototype.hasOwnProperty.call(values, name)) {
+        throw new Error(`Unknown enum value '${arg.enumType}.${arg.name}'`);
+      }
+      return values[name];
+    }
+
+    case 'predicate': {
+      const args = arg.args.map(inner => toDriverValue(inner, api, parameters));
+      if (arg.name === 'and' || arg.name === 'or') {
+        return args[0][arg.name](args[1]);
+      }
+      return api.process[arg.predicateType][arg.name](...args);
+    }
+
+    case 'traversal':
+      return arg.steps.reduce((traversal, step) => applyStep(traversal, step, api, parameters), api.process.statics);
+  }
+}
+
+/**
+ * Builds a traversal from a parsed query by calling each step on the
+ * traversal source in turn
+ *
+ * @param parsed Parsed traversal
+ * @param g Traversal source to build the traversal on
+ * @param api The gremlin-javascript module, providing predicates, enums and anonymous traversals
+ * @param parameters Values of the parameters the traversal references
+ * @returns The traversal, ready to be iterated
+ * @throws MissingParameterError if a referenced parameter is not supplied
+ */
+export function buildTraversal(
+  parsed: ParsedTraversal,
+  g: any,
+  api: GremlinApi,
+  parameters: Record<string, any> = {}
+): any {
+  validateBindings(parsed, parameters);
+  return parsed.steps.reduce((traversal, step) => applyStep(traversal, step, api, parameters), g);
+}
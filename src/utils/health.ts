@@ -0,0 +1,181 @@
+/**
+ * States of a monitored backend:
+ * - `connecting`: no probe has succeeded yet
+ * - `healthy`: the last probe succeeded
+ * - `degraded`: recent probes failed after the backend was healthy, but fewer than the down threshold
+ * - `down`: at least the down threshold of consecutive probes failed
+ */
+export const BACKEND_STATES = ['connecting', 'healthy', 'degraded', 'down'] as const;
+
+export type BackendState = typeof BACKEND_STATES[number];
+
+/** Consecutive failed probes after which a backend is down */
+export const DOWN_AFTER_FAILURES = 3;
+
+/**
+ * Health of a backend, as reported by `puppygraph_status`
+ */
+export interface BackendHealth {
+  state: BackendState;
+  /** When a probe last succeeded, as an ISO timestamp */
+  last_success: string | null;
+  /** When a probe last failed, as an ISO timestamp */
+  last_failure: string | null;
+  /** Error of the last failed probe, cleared when a probe succeeds */
+  last_error: string | null;
+  consecutive_failures: number;
+  /** When the next probe runs, as an ISO timestamp, while monitoring is running */
+  next_probe: string | null;
+}
+
+/**
+ * Timing of health probes
+ */
+export interface HealthCheckOptions {
+  /** Time between probes of a healthy backend, in milliseconds */
+  intervalMs: number;
+  /** Delay before the first retry after a failed probe, in milliseconds; doubled on every further failure */
+  initialDelayMs: number;
+  /** Longest delay between retries, in milliseconds */
+  maxDelayMs: number;
+}
+
+/**
+ * Returns the delay before retrying after a number of consecutive failures:
+ * exponential backoff with jitter, between half and all of
+ * `initialDelayMs * 2^(failures - 1)`, capped at `maxDelayMs`
+ *
+ * @param random Random number source in [0, 1), replaceable for testing
+ */
+export function backoffDelay(failures: number, options: HealthCheckOptions, random: () => number = Math.random): number {
+  const exponential = Math.min(options.maxDelayMs, options.initialDelayMs * 2 ** Math.max(0, failures - 1));
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * Tracks the health of one backend, and probes it periodically once
+ * started. A probe checks the backend and reconnects it when it is not
+ * connected. Healthy backends are probed every `intervalMs`; after a
+ * failure, probes back off exponentially with jitter, so a backend that is
+ * down is not flooded with connection attempts.
+ */
+export class BackendMonitor {
+  private state: BackendState = 'connecting';
+  private lastSuccess: number | null = null;
+  private lastFailure: number | null = null;
+  private lastError: string | null = null;
+  private failures = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private nextProbe: number | null = null;
+  private options: HealthCheckOptions | null = null;
+
+  /**
+   * @param probe Checks the backend, reconnecting it if needed; rejects with the failure
+   * @param now Clock, replaceable for testing
+   * @param random Random number source for jitter, replaceable for testing
+   */
+  constructor(
+    private probe: () => Promise<void>,
+    private now: () => number = Date.now,
+    private random: () => number = Math.random
+  ) {}
+
+  /**
+   * Records a successful check of the backend
+   */
+  public recordSuccess(): void {
+    this.state = 'healthy';
+    this.lastSuccess = this.now();
+    this.lastError = null;
+    this.failures = 0;
+  }
+
+  /**
+   * Records a failed check of the backend
+   */
+  public recordFailure(error: string): void {
+    this.failures++;
+    this.lastFailure = this.now();
+    this.lastError = error;
+
+    if (this.failures >= DOWN_AFTER_FAILURES) {
+      this.state = 'down';
+    } else if (this.lastSuccess !== null) {
+      this.state = 'degraded';
+    }
+  }
+
+  /**
+   * Runs one probe and records its outcome
+   *
+   * @returns Whether the probe succeeded
+   */
+  public async check(): Promise<boolean> {
+    try {
+      await this.probe();
+      this.recordSuccess();
+      return true;
+    } catch (error: any) {
+      this.recordFailure(error.message || 'Unknown error');
+      return false;
+    }
+  }
+
+  /**
+   * Starts probing: after `intervalMs` when the backend is healthy,
+   * otherwise after the backoff delay
+   */
+  public start(options: HealthCheckOptions): void {
+    this.stop();
+    this.options = options;
+    this.schedule();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.options = null;
+    this.nextProbe = null;
+  }
+
+  /**
+   * Whether probes are running, so callers can rely on them for reconnection
+   */
+  public isRunning(): boolean {
+    return this.options !== null;
+  }
+
+  public getHealth(): BackendHealth {
+    const timestamp = (time: number | null) => time === null ? null : new Date(time).toISOString();
+    return {
+      state: this.state,
+      last_success: timestamp(this.lastSuccess),
+      last_failure: timestamp(this.lastFailure),
+      last_error: this.lastError,
+      consecutive_failures: this.failures,
+      next_probe: timestamp(this.nextProbe)
+    };
+  }
+
+  private schedule(): void {
+    const options = this.options;
+    if (!options) {
+      return;
+    }
+
+    const delay = this.state === 'healthy' ? options.intervalMs : backoffDelay(this.failures || 1, options, this.random);
+    this.nextProbe = this.now() + delay;
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      this.nextProbe = null;
+      await this.check();
+      // Stopped while the probe was running
+      if (this.options === options) {
+        this.schedule();
+      }
+    }, delay);
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,298 @@
+import type { QueryLanguage } from './readonly.js';
+import { cypherName, gremlinString } from './translate.js';
+
+/** Directions edges can be followed in */
+export const NEIGHBOR_DIRECTIONS = ['out', 'in', 'both'] as const;
+
+export type NeighborDirection = typeof NEIGHBOR_DIRECTIONS[number];
+
+/**
+ * Identifies a vertex by its id, or by its label and the value of a key property
+ */
+export interface VertexReference {
+  /** Vertex id, as returned in the `id` of normalized nodes */
+  id?: string | number;
+  /** Vertex label, used with `key` and `value` */
+  label?: string;
+  /** Property whose value identifies the vertex */
+  key?: string;
+  /** Value of the key property */
+  value?: string | number | boolean;
+}
+
+/**
+ * How far and how wide to explore from the start vertex
+ */
+export interface NeighborhoodOptions {
+  /** Direction of the edges to follow */
+  direction: NeighborDirection;
+  /** Edge labels to follow; all edges when empty or undefined */
+  edgeLabels?: string[];
+  /** Number of hops to explore */
+  depth: number;
+  /** Maximum number of edges followed from each vertex per hop */
+  limit: number;
+  /** Maximum number of edges collected over all hops */
+  maxEdges: number;
+}
+
+/**
+ * A query with the parameters it references
+ */
+export interface GraphQuery {
+  query: string;
+  parameters: Record<string, any>;
+}
+
+/**
+ * Deduplicated nodes and edges, in the normalized shape of query results
+ */
+export interface Subgraph {
+  nodes: any[];
+  edges: any[];
+}
+
+/**
+ * Subgraph around a vertex, returned by `puppygraph_neighbors`
+ */
+export interface Neighborhood extends Subgraph {
+  metadata: {
+    /** Language the exploration queries ran in */
+    language: QueryLanguage;
+    /** Total time taken by the exploration queries in milliseconds */
+    execution_time: number;
+    node_count: number;
+    edge_count: number;
+    /** Number of hops explored; less than requested when no new vertices were found */
+    depth: number;
+    /** Ids of vertices whose edges reached the per-hop limit, so their neighbors may be incomplete */
+    limited_node_ids?: any[];
+    /** Set when the exploration stopped at the maximum number of edges, so the subgraph may be incomplete */
+    max_edges_reached?: boolean;
+  };
+}
+
+function gremlinId(id: string | number): string {
+  if (typeof id === 'string') {
+    return gremlinString(id);
+  }
+  if (!Number.isInteger(id)) {
+    throw new Error(`Invalid vertex id ${id}: numeric ids must be integers`);
+  }
+  return `${id}L`;
+}
+
+/**
+ * Describes a vertex reference for error messages
+ */
+export function describeVertexReference(ref: VertexReference): string {
+  return ref.id !== undefined
+    ? `vertex ${JSON.stringify(ref.id)}`
+    : `${ref.label} vertex with ${ref.key} = ${JSON.stringify(ref.value)}`;
+}
+
+/**
+ * @throws Error if the reference has neither an id nor a label, key and value
+ */
+function assertVertexReference(ref: VertexReference): void {
+  if (ref.id === undefined && (ref.label === undefined || ref.key === undefined || ref.value === undefined)) {
+    throw new Error('A vertex reference needs an id, or a label, key and value');
+  }
+}
+
+/**
+ * Returns the Cypher node pattern and condition matching a referenced vertex
+ *
+ * @param variable Variable of the node
+ * @param parameter Name of the parameter holding the id or key value
+ * @throws Error if the reference has neither an id nor a label, key and value
+ */
+export function cypherVertexMatch(variable: string, ref: VertexReference, parameter: string): GraphQuery & { pattern: string } {
+  assertVertexReference(ref);
+  if (ref.id !== undefined) {
+    return { pattern: `(${variable})`, query: `id(${variable}) = $${parameter}`, parameters: { [parameter]: ref.id } };
+  }
+  return {
+    pattern: `(${variable}:${cypherName(ref.label!)})`,
+    query: `${variable}.${cypherName(ref.key!)} = $${parameter}`,
+    parameters: { [parameter]: ref.value }
+  };
+}
+
+/**
+ * Returns the Gremlin filter step matching a referenced vertex, e.g.
+ * `hasId(1L)` or `has('person', 'name', value)`
+ *
+ * @param parameter Name of the binding holding the key value
+ * @throws Error if the reference has neither an id nor a label, key and value
+ */
+export function gremlinVertexFilter(ref: VertexReference, parameter: string): GraphQuery {
+  assertVertexReference(ref);
+  if (ref.id !== undefined) {
+    return { query: `hasId(${gremlinId(ref.id)})`, parameters: {} };
+  }
+  return {
+    query: `has(${gremlinString(ref.label!)}, ${gremlinString(ref.key!)}, ${parameter})`,
+    parameters: { [parameter]: ref.value }
+  };
+}
+
+/**
+ * Returns the Gremlin start step of a traversal from a referenced vertex,
+ * e.g. `V(1L)` or `V().has('person', 'name', value)`
+ *
+ * @param parameter Name of the binding holding the key value
+ * @throws Error if the reference has neither an id nor a label, key and value
+ */
+export function gremlinVertexStart(ref: VertexReference, parameter: string): GraphQuery {
+  if (ref.id !== undefined) {
+    return { query: `V(${gremlinId(ref.id)})`, parameters: {} };
+  }
+  const filter = gremlinVertexFilter(ref, parameter);
+  return { query: `V().${filter.query}`, parameters: filter.parameters };
+}
+
+/**
+ * Builds the query returning the vertex a reference identifies. Each row has
+ * the vertex in its `node` column; references by key property may match up
+ * to `limit` vertices.
+ *
+ * @throws Error if the reference has neither an id nor a label, key and value
+ */
+export function buildVertexLookup(ref: VertexReference, language: QueryLanguage, limit: number): GraphQuery {
+  if (language === 'gremlin') {
+    const start = gremlinVertexStart(ref, 'value');
+    const limited = ref.id === undefined ? `.limit(${limit})` : '';
+    return { query: `g.${start.query}${limited}.project('node').by()`, parameters: start.parameters };
+  }
+
+  const match = cypherVertexMatch('n', ref, ref.id !== undefined ? 'id' : 'value');
+  const limited = ref.id === undefined ? ` LIMIT ${limit}` : '';
+  return {
+    query: `MATCH ${match.pattern} WHERE ${match.query} RETURN n AS node${limited}`,
+    parameters: match.parameters
+  };
+}
+
+/** Gremlin steps to the edges of a vertex, and from those edges to the neighbors */
+const GREMLIN_HOPS: Record<Exclude<NeighborDirection, 'both'>, [string, string]> = {
+  out: ['outE', 'inV'],
+  in: ['inE', 'outV']
+};
+
+function gremlinHop(direction: Exclude<NeighborDirection, 'both'>, labels: string, limit?: number): string {
+  const [edges, node] = GREMLIN_HOPS[direction];
+  const limited = limit === undefined ? '' : `.limit(${limit})`;
+  return `__.${edges}(${labels})${limited}.project('edge', 'node').by().by(__.${node}())`;
+}
+
+/**
+ * Builds the query following the edges of a set of vertices one hop. Each row
+ * has an edge in its `edge` column and the neighbor it leads to in its `node`
+ * column; at most `limit` edges are followed from each vertex, and at most
+ * `maxRows` in total. The ids are passed as the `ids` parameter.
+ *
+ * @throws Error if a numeric id is not an integer
+ */
+export function buildHopQuery(ids: any[], language: QueryLanguage, options: NeighborhoodOptions, maxRows: number): GraphQuery {
+  const edgeLabels = options.edgeLabels ?? [];
+
+  if (language === 'gremlin') {
+    ids.forEach(gremlinId);
+    const labels = edgeLabels.map(gremlinString).join(', ');
+    // Both directions are followed as the union of both, since otherV() needs path tracking
+    const hop = options.direction === 'both'
+      ? `__.union(${gremlinHop('out', labels)}, ${gremlinHop('in', labels)}).limit(${options.limit})`
+      : gremlinHop(options.direction, labels, options.limit);
+    return { query: `g.V(ids).local(${hop}).limit(${maxRows})`, parameters: { ids } };
+  }
+
+  const types = edgeLabels.length > 0 ? `:${edgeLabels.map(cypherName).join('|')}` : '';
+  const pattern = options.direction === 'out'
+    ? `(n)-[r${types}]->(m)`
+    : options.direction === 'in' ? `(n)<-[r${types}]-(m)` : `(n)-[r${types}]-(m)`;
+  return {
+    query: `MATCH ${pattern} WHERE id(n) IN $ids `
+      + `WITH n, collect({edge: r, node: m})[0..${options.limit}] AS hops `
+      + `UNWIND hops AS hop RETURN hop.edge AS edge, hop.node AS node LIMIT ${maxRows}`,
+    parameters: { ids }
+  };
+}
+
+function idKey(id: any): string {
+  return JSON.stringify(id);
+}
+
+/**
+ * Collects nodes and edges, keeping the first copy of each id
+ */
+export class SubgraphBuilder {
+  private nodes = new Map<string, any>();
+  private edges = new Map<string, any>();
+
+  /**
+   * @returns Whether the node was not collected yet
+   */
+  public addNode(node: any): boolean {
+    const key = idKey(node.id);
+    if (this.nodes.has(key)) {
+      return false;
+    }
+    this.nodes.set(key, node);
+    return true;
+  }
+
+  /**
+   * @returns Whether the edge was not collected yet
+   */
+  public addEdge(edge: any): boolean {
+    const key = idKey(edge.id);
+    if (this.edges.has(key)) {
+      return false;
+    }
+    this.edges.set(key, edge);
+    return true;
+  }
+
+  /**
+   * Collects the rows of a hop query
+   *
+   * @param limit Per-hop limit the query was built with
+   * @returns Ids of the newly found neighbors, and of the vertices whose
+   *          edges reached the limit
+   */
+  public addHop(rows: { edge: any; node: any }[], limit: number): { frontier: any[]; limited: any[] } {
+    const frontier: any[] = [];
+    const followed = new Map<string, { id: any; count: number }>();
+
+    for (const { edge, node } of rows) {
+      this.addEdge(edge);
+      if (this.addNode(node)) {
+        frontier.push(node.id);
+      }
+      const source = hopSource(edge, node);
+      const entry = followed.get(idKey(source)) ?? { id: source, count: 0 };
+      entry.count++;
+      followed.set(idKey(source), entry);
+    }
+
+    const limited = [...followed.values()].filter(entry => entry.count >= limit).map(entry => entry.id);
+    return { frontier, limited };
+  }
+
+  public edgeCount(): number {
+    return this.edges.size;
+  }
+
+  public build(): Subgraph {
+    return { nodes: [...this.nodes.values()], edges: [...this.edges.values()] };
+  }
+}
+
+/**
+ * Returns the endpoint of an edge the hop started from, given the neighbor
+ * it led to
+ */
+function hopSource(edge: any, neighbor: any): any {
+  return idKey(edge.startNodeId) === idKey(neighbor.id) ? edge.endNodeId : edge.startNodeId;
+}
@@ -0,0 +1,171 @@
+import { randomUUID } from 'node:crypto';
+
+/** How long buffered results are kept after they were last read, in milliseconds */
+export const DEFAULT_RESULT_TTL_MS = 5 * 60 * 1000;
+
+/** Maximum number of results buffered at once; the least recently read are evicted first */
+const DEFAULT_MAX_RESULTS = 100;
+
+/**
+ * One page of a buffered result
+ */
+export interface Page<T> {
+  /** Rows of this page */
+  data: T[];
+  /** Number of rows in the whole result */
+  total_rows: number;
+  /** Position of the first row of this page in the whole result */
+  offset: number;
+  /** Whether rows remain after this page */
+  has_more: boolean;
+  /** Cursor for the next page, only present when `has_more` is true */
+  cursor?: string;
+}
+
+/**
+ * Error thrown for cursors that are malformed, unknown or expired
+ */
+export class CursorNotFoundError extends Error {
+  constructor() {
+    super('Cursor not found or expired; run the query again to get a new cursor');
+    this.name = 'CursorNotFoundError';
+  }
+}
+
+/**
+ * Returns how many rows of a page fit into the response, e.g. within the
+ * output budget. The cursor of a shortened page points to the first row
+ * that did not fit, so it is returned with the next page.
+ */
+export type PageFit<T> = (page: Page<T>) => number;
+
+interface BufferedResult {
+  rows: any[];
+  pageSize: number;
+  expiresAt: number;
+}
+
+interface CursorPosition {
+  id: string;
+  offset: number;
+}
+
+function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(`${position.id}:${position.offset}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CursorPosition | null {
+  const match = /^([0-9a-f-]+):(\d+)$/.exec(Buffer.from(cursor, 'base64url').toString());
+  return match ? { id: match[1], offset: Number(match[2]) } : null;
+}
+
+/**
+ * Server-side buffer of query results, served page by page through opaque
+ * cursors. A cursor encodes its position, so fetching the same cursor twice
+ * returns the same page. Results expire a fixed time after they were last read.
+ */
+export class ResultBuffer {
+  private results = new Map<string, BufferedResult>();
+
+  constructor(
+    private ttlMs: number = DEFAULT_RESULT_TTL_MS,
+    private maxResults: number = DEFAULT_MAX_RESULTS,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Returns the first page of a result, buffering the rest if there is more
+   * than one page
+   *
+   * @param rows All rows of the result
+   * @param pageSize Number of rows per page
+   * @param fit Shortens pages to the rows that fit into the response
+   */
+  public paginate<T>(rows: T[], pageSize: number, fit?: PageFit<T>): Page<T> {
+    this.prune();
+
+    const whole: Page<T> = { data: rows, total_rows: rows.length, offset: 0, has_more: false };
+    if (rows.length <= pageSize && (!fit || fit(whole) >= rows.length)) {
+      return whole;
+    }
+
+    const id = randomUUID();
+    this.results.set(id, { rows, pageSize, expiresAt: this.now() + this.ttlMs });
+
+    while (this.results.size > this.maxResults) {
+      this.results.delete(this.results.keys().next().value as string);
+    }
+
+    return this.page(id, 0, undefined, fit);
+  }
+
+  /**
+   * Returns the page a cursor points to
+   *
+   * @param cursor Cursor returned with a previous page
+   * @param pageSize Number of rows per page, defaulting to the page size the result was buffered with
+   * @param fit Shortens the page to the rows that fit into the response
+   * @throws CursorNotFoundError if the cursor is malformed, unknown or expired
+   */
+  public fetch<T = any>(cursor: string, pageSize?: number, fit?: PageFit<T>): Page<T> {
+    this.prune();
+
+    const position = decodeCursor(cursor);
+    const result = position && this.results.get(position.id);
+    if (!position || !result) {
+      throw new CursorNotFoundError();
+    }
+
+    // Reading a result keeps it alive and makes it the last to be evicted
+    this.results.delete(position.id);
+    this.results.set(position.id, { ...result, expiresAt: this.now() + this.ttlMs });
+
+    return this.page(position.id, position.offset, pageSize, fit);
+  }
+
+  /**
+   * Number of results currently buffered
+   */
+  public size(): number {
+    this.prune();
+    return this.results.size;
+  }
+
+  /**
+   * Builds the page starting at `offset`, shortened until its rows fit.
+   * Every page holds at least one row, so paging always advances.
+   */
+  private page<T>(id: string, offset: number, pageSize?: number, fit?: PageFit<T>): Page<T> {
+    const { rows, pageSize: defaultPageSize } = this.results.get(id)!;
+    const build = (count: number): Page<T> => {
+      const end = offset + count;
+      const hasMore = end < rows.length;
+      return {
+        data: rows.slice(offset, end),
+        total_rows: rows.length,
+        offset,
+        has_more: hasMore,
+        ...(hasMore ? { cursor: encodeCursor({ id, offset: end }) } : {})
+      };
+    };
+
+    let page = build(Math.min(pageSize ?? defaultPageSize, rows.length - offset));
+    while (fit && page.data.length > 1) {
+      const fitting = Math.max(1, fit(page));
+      if (fitting >= page.data.length) {
+        break;
+      }
+      page = build(fitting);
+    }
+    return page;
+  }
+
+  private prune(): void {
+    const now = this.now();
+    for (const [id, result] of this.results) {
+      if (result.expiresAt <= now) {
+        this.results.delete(id);
+      }
+    }
+  }
+}
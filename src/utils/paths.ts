@@ -0,0 +1,147 @@
+import type { QueryLanguage } from './readonly.js';
+import { cypherName, gremlinString } from './translate.js';
+import {
+  cypherVertexMatch,
+  GraphQuery,
+  gremlinVertexFilter,
+  gremlinVertexStart,
+  NeighborDirection,
+  VertexReference
+} from './neighborhood.js';
+
+/**
+ * Bounds of a path search between two vertices
+ */
+export interface PathSearchOptions {
+  /** Direction of the edges to follow */
+  direction: NeighborDirection;
+  /** Edge labels to follow; all edges when empty or undefined */
+  edgeLabels?: string[];
+  /** Maximum number of edges in a path */
+  maxHops: number;
+  /** Number of paths to return */
+  k: number;
+}
+
+/**
+ * A path as ordered lists of nodes and edges, in the normalized shape of
+ * query results
+ */
+export interface FoundPath {
+  /** Number of edges */
+  length: number;
+  /** Nodes from the source to the target */
+  nodes: any[];
+  /** Edges between consecutive nodes */
+  edges: any[];
+  /** The path on one line, e.g. `(1:person {name: "marko"})-[:knows]->(2:person)` */
+  text: string;
+}
+
+/**
+ * Paths between two vertices, returned by `puppygraph_path`
+ */
+export interface PathSearchResult {
+  paths: FoundPath[];
+  metadata: {
+    /** Language the path query ran in */
+    language: QueryLanguage;
+    /** Time taken by the path query in milliseconds */
+    execution_time: number;
+    path_count: number;
+  };
+}
+
+/** Gremlin steps to the edges of a vertex, and from those edges to the next vertex */
+const GREMLIN_STEPS: Record<NeighborDirection, [string, string]> = {
+  out: ['outE', 'inV'],
+  in: ['inE', 'outV'],
+  both: ['bothE', 'otherV']
+};
+
+/**
+ * Builds the query finding the `k` shortest simple paths (without repeated
+ * vertices) from the source to the target vertex, up to `maxHops` edges.
+ * Both languages enumerate the bounded paths and keep the `k` shortest, so
+ * they agree on the paths returned up to the order of paths of equal length;
+ * Cypher uses `shortestPath` when a single path is asked for. Each row holds
+ * one path, in the `path` column for Cypher.
+ *
+ * @throws Error if a reference has neither an id nor a label, key and value
+ */
+export function buildPathQuery(
+  source: VertexReference,
+  target: VertexReference,
+  language: QueryLanguage,
+  options: PathSearchOptions
+): GraphQuery {
+  const edgeLabels = options.edgeLabels ?? [];
+
+  if (language === 'gremlin') {
+    const start = gremlinVertexStart(source, 'source_value');
+    const end = gremlinVertexFilter(target, 'target_value');
+    const [edges, next] = GREMLIN_STEPS[options.direction];
+    const labels = edgeLabels.map(gremlinString).join(', ');
+    return {
+      query: `g.${start.query}`
+        + `.repeat(__.${edges}(${labels}).${next}().simplePath())`
+        + `.until(__.or(__.${end.query}, __.loops().is(${options.maxHops})))`
+        + `.${end.query}.path().order().by(__.count(local)).limit(${options.k})`,
+      parameters: { ...start.parameters, ...end.parameters }
+    };
+  }
+
+  const from = cypherVertexMatch('s', source, 'source');
+  const to = cypherVertexMatch('t', target, 'target');
+  const types = edgeLabels.length > 0 ? `:${edgeLabels.map(cypherName).join('|')}` : '';
+  const relationship = `[${types}*1..${options.maxHops}]`;
+  const pattern = options.direction === 'out'
+    ? `(s)-${relationship}->(t)`
+    : options.direction === 'in' ? `(s)<-${relationship}-(t)` : `(s)-${relationship}-(t)`;
+  const match = `MATCH ${from.pattern}, ${to.pattern} WHERE ${from.query} AND ${to.query} `;
+  const parameters = { ...from.parameters, ...to.parameters };
+  if (options.k === 1) {
+    return { query: `${match}MATCH p = shortestPath(${pattern}) RETURN p AS path LIMIT 1`, parameters };
+  }
+  return {
+    query: `${match}MATCH p = ${pattern} WHERE ALL(x IN nodes(p) WHERE single(y IN nodes(p) WHERE y = x)) `
+      + `RETURN p AS path ORDER BY length(p) LIMIT ${options.k}`,
+    parameters
+  };
+}
+
+/** Properties shown next to the node id when rendering a path */
+const DISPLAY_PROPERTIES = ['name', 'title'];
+
+function renderNode(node: any): string {
+  const label = node.labels?.length > 0 ? `:${node.labels.join(':')}` : '';
+  const key = DISPLAY_PROPERTIES.find(name => node.properties?.[name] !== undefined);
+  const display = key ? ` {${key}: ${JSON.stringify(node.properties[key])}}` : '';
+  return `(${node.id}${label}${display})`;
+}
+
+function renderEdge(edge: any, from: any): string {
+  if (!edge) {
+    return '--';
+  }
+  return JSON.stringify(edge.startNodeId) === JSON.stringify(from.id) ? `-[:${edge.type}]->` : `<-[:${edge.type}]-`;
+}
+
+/**
+ * Converts a normalized path (`{segments}`) into ordered nodes and edges with
+ * a one-line rendering. Edges are drawn in their own direction, so paths
+ * following edges backwards show `<-[:type]-`.
+ */
+export function toFoundPath(path: { segments: any[] }): FoundPath {
+  const nodes = path.segments.length > 0 ? [path.segments[0].start] : [];
+  const edges: any[] = [];
+  let text = nodes.length > 0 ? renderNode(nodes[0]) : '';
+
+  for (const segment of path.segments) {
+    nodes.push(segment.end);
+    edges.push(segment.relationship);
+    text += `${renderEdge(segment.relationship, segment.start)}${renderNode(segment.end)}`;
+  }
+
+  return { length: edges.length, nodes, edges, text };
+}
@@ -0,0 +1,121 @@
+/**
+ * One operator of a query plan
+ */
+export interface PlanOperator {
+  /** Operator or step name, e.g. `NodeByLabelScan` or `HasStep` */
+  operator: string;
+  /** Operator details, e.g. `n:Person` or the step with its arguments */
+  details?: string;
+  /** Variables the operator produces (Cypher only) */
+  identifiers?: string[];
+  /** Rows the planner expects the operator to produce (Cypher only) */
+  estimated_rows?: number;
+  /** Rows the operator produced when the query was profiled */
+  actual_rows?: number;
+  /** Database hits of the operator (Cypher profiles only) */
+  db_hits?: number;
+  /** Time spent in the operator in milliseconds, when profiled */
+  time_ms?: number;
+  /** Share of the total time spent in the operator, in percent (Gremlin only) */
+  time_percent?: number;
+  /** Operators feeding this one */
+  children: PlanOperator[];
+}
+
+/**
+ * Normalized execution plan of a query
+ */
+export interface QueryPlan {
+  /** Language of the query */
+  language: 'cypher' | 'gremlin';
+  /** `explain` for plans produced without running the query, `profile` for plans measured by running it */
+  mode: 'explain' | 'profile';
+  /** Total execution time in milliseconds, when profiled */
+  total_time_ms?: number;
+  /** Root operators of the plan; Cypher plans have one, Gremlin plans one per step */
+  operators: PlanOperator[];
+}
+
+/** Neo4j reports profiled operator times in nanoseconds */
+const NANOSECONDS_PER_MILLISECOND = 1_000_000;
+
+function toNumber(value: any): number | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (typeof value === 'object' && typeof value.toNumber === 'function') {
+    return value.toNumber();
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Drops undefined fields so they do not appear in the serialized plan
+ */
+function compact(operator: PlanOperator): PlanOperator {
+  return Object.fromEntries(
+    Object.entries(operator).filter(([, value]) => value !== undefined)
+  ) as unknown as PlanOperator;
+}
+
+/**
+ * Normalizes a Neo4j plan, as returned in the summary of an `EXPLAIN` or
+ * `PROFILE` query
+ *
+ * @param plan `summary.plan` or `summary.profile`
+ * @param profiled Whether the plan was measured with `PROFILE`
+ */
+export function normalizeCypherPlan(plan: any, profiled: boolean): PlanOperator {
+  const args = plan.arguments || {};
+  const details = args.Details ?? args.details;
+
+  return compact({
+    operator: String(plan.operatorType || 'Unknown').replace(/@.*$/, ''),
+    details: details === undefined ? undefined : String(details),
+    identifiers: Array.isArray(plan.identifiers) && plan.identifiers.length > 0 ? plan.identifiers : undefined,
+    estimated_rows: toNumber(args.EstimatedRows ?? args.estimatedRows),
+    actual_rows: profiled ? toNumber(plan.rows) : undefined,
+    db_hits: profiled ? toNumber(plan.dbHits) : undefined,
+    time_ms: profiled && plan.time ? toNumber(plan.time)! / NANOSECONDS_PER_MILLISECOND : undefined,
+    children: (plan.children || []).map((child: any) => normalizeCypherPlan(child, profiled))
+  });
+}
+
+/**
+ * Reads a field of a metrics object, which the driver may return as a Map
+ */
+function field(value: any, name: string): any {
+  return value instanceof Map ? value.get(name) : value?.[name];
+}
+
+function normalizeGremlinMetric(metric: any): PlanOperator {
+  const counts = field(metric, 'counts');
+  const annotations = field(metric, 'annotations');
+  const nested = field(metric, 'metrics');
+
+  return compact({
+    operator: String(field(metric, 'name') ?? 'Unknown').replace(/\(.*$/s, ''),
+    details: field(metric, 'name') === undefined ? undefined : String(field(metric, 'name')),
+    actual_rows: toNumber(field(counts, 'traverserCount')),
+    time_ms: toNumber(field(metric, 'dur')),
+    time_percent: toNumber(field(annotations, 'percentDur')),
+    children: (Array.isArray(nested) ? nested : []).map(normalizeGremlinMetric)
+  });
+}
+
+/**
+ * Normalizes the traversal metrics returned by the Gremlin `profile()` step
+ *
+ * @param metrics Traversal metrics, with the total duration in `dur` and one entry per step in `metrics`
+ */
+export function normalizeGremlinMetrics(metrics: any): QueryPlan {
+  const steps = field(metrics, 'metrics');
+
+  return {
+    language: 'gremlin',
+    mode: 'profile',
+    total_time_ms: toNumber(field(metrics, 'dur')),
+    operators: (Array.isArray(steps) ? steps : []).map(normalizeGremlinMetric)
+  };
+}
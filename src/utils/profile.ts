@@ -0,0 +1,111 @@
+import type { QueryLanguage } from './readonly.js';
+import type { ElementKind, PropertySummary } from './sample.js';
+
+/**
+ * A value and how many sampled elements have it
+ */
+export interface ValueFrequency {
+  value: any;
+  count: number;
+}
+
+/**
+ * Statistics of one property over the sampled elements
+ */
+export interface PropertyProfile {
+  key: string;
+  /** Value types observed, as in `puppygraph_sample` */
+  types: string[];
+  /** Type the schema declares, when the schema defines the property */
+  schema_type?: string;
+  /** Share of sampled elements with a value for the property, from 0 to 1 */
+  non_null_ratio: number;
+  /** Number of distinct values in the sample, approximating the distinct values of the label */
+  distinct_count: number;
+  /** Smallest number, or earliest date, in the sample */
+  min?: number | string;
+  /** Largest number, or latest date, in the sample */
+  max?: number | string;
+  /** Most frequent values, most frequent first */
+  top_values: ValueFrequency[];
+}
+
+/**
+ * Property statistics of a label, returned by `puppygraph_profile`
+ */
+export interface LabelProfile {
+  label: string;
+  kind: ElementKind;
+  /** Number of elements the statistics were computed over */
+  sample_size: number;
+  properties: PropertyProfile[];
+  metadata: {
+    /** Language the sample query ran in */
+    language: QueryLanguage;
+    /** Time taken by the sample query in milliseconds */
+    execution_time: number;
+  };
+}
+
+/** Dates and date-times in ISO 8601 form, e.g. `2024-01-31` or `2024-01-31T12:00:00Z` */
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Returns the value to order a property value by: numbers as they are, ISO
+ * dates as timestamps, and `undefined` for values without an order
+ */
+function orderingValue(value: any): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && ISO_DATE.test(value)) {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
+
+/**
+ * Computes property statistics over sampled elements. Min and max are only
+ * reported when every value of the property is a number, or every value is
+ * an ISO date.
+ *
+ * @param summaries Property keys and types observed by `summarizeProperties`
+ * @param topK Number of most frequent values to report
+ */
+export function profileProperties(elements: any[], summaries: PropertySummary[], topK: number): PropertyProfile[] {
+  return summaries.map(summary => {
+    // Dates of Gremlin results are compared as the ISO strings they are returned as
+    const values = elements
+      .map(element => element?.properties?.[summary.key])
+      .filter(value => value !== undefined && value !== null)
+      .map(value => value instanceof Date ? value.toISOString() : value);
+
+    const frequencies = new Map<string, ValueFrequency>();
+    for (const value of values) {
+      const key = JSON.stringify(value);
+      const frequency = frequencies.get(key) ?? { value, count: 0 };
+      frequency.count++;
+      frequencies.set(key, frequency);
+    }
+
+    const profile: PropertyProfile = {
+      key: summary.key,
+      types: summary.types,
+      ...(summary.schema_type !== undefined ? { schema_type: summary.schema_type } : {}),
+      non_null_ratio: elements.length > 0 ? values.length / elements.length : 0,
+      distinct_count: frequencies.size,
+      top_values: [...frequencies.values()].sort((a, b) => b.count - a.count).slice(0, topK)
+    };
+
+    const numeric = values.every(value => typeof value === 'number');
+    const dates = values.every(value => typeof value === 'string' && orderingValue(value) !== undefined);
+    if (values.length > 0 && (numeric || dates)) {
+      const ordered = [...values].sort((a, b) => orderingValue(a)! - orderingValue(b)!);
+      profile.min = ordered[0];
+      profile.max = ordered[ordered.length - 1];
+    }
+
+    return profile;
+  });
+}
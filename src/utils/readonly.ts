@@ -0,0 +1,177 @@
+import { forEachStep, parseGremlin } from './gremlin-parser.js';
+
+/**
+ * Query language understood by the read-only policy
+ */
+export type QueryLanguage = 'cypher' | 'gremlin';
+
+/**
+ * Error thrown when a query would modify the graph while read-only mode is enabled
+ */
+export class ReadOnlyViolationError extends Error {
+  constructor(
+    /** Language of the rejected query */
+    public readonly language: QueryLanguage,
+    /** Clause (Cypher) or step (Gremlin) that modifies the graph */
+    public readonly clause: string
+  ) {
+    super(language === 'cypher'
+      ? `Query rejected: read-only mode does not allow the Cypher ${clause} clause`
+      : `Query rejected: read-only mode does not allow the Gremlin ${clause}() step`);
+    this.name = 'ReadOnlyViolationError';
+  }
+}
+
+/** Cypher clauses that modify the graph or its schema */
+const CYPHER_WRITE_CLAUSES = new Set(['CREATE', 'MERGE', 'SET', 'DELETE', 'DETACH', 'REMOVE', 'DROP', 'FOREACH']);
+
+/** Procedure name prefixes known to modify the graph */
+const CYPHER_WRITE_PROCEDURES = [
+  'apoc.create.',
+  'apoc.merge.',
+  'apoc.refactor.',
+  'apoc.periodic.',
+  'apoc.nodes.delete',
+  'apoc.cypher.doit',
+  'apoc.cypher.runwrite',
+  'db.create',
+  'db.index.fulltext.create',
+  'dbms.'
+];
+
+/**
+ * Gremlin steps that modify the graph, read or write files on the server, or
+ * call provider services, which may modify the graph too
+ */
+const GREMLIN_WRITE_STEPS = new Set(['addV', 'addE', 'property', 'drop', 'mergeV', 'mergeE', 'io', 'call']);
+
+/**
+ * Replaces string literals, backtick-quoted names and comments with spaces so
+ * keywords inside them are not mistaken for clauses or steps
+ */
+function stripLiterals(query: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    const next = query[i + 1];
+
+    if (char === '/' && next === '/') {
+      while (i < query.length && query[i] !== '\n') {
+        result += ' ';
+        i++;
+      }
+    } else if (char === '/' && next === '*') {
+      const end = query.indexOf('*/', i + 2);
+      const stop = end === -1 ? query.length : end + 2;
+      result += ' '.repeat(stop - i);
+      i = stop;
+    } else if (char === '\'' || char === '"' || char === '`') {
+      result += ' ';
+      i++;
+      while (i < query.length && query[i] !== char) {
+        if (query[i] === '\\' && char !== '`') {
+          result += ' ';
+          i++;
+        }
+        result += ' ';
+        i++;
+      }
+      result += ' ';
+      i++;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Finds the first clause of a Cypher query that modifies the graph
+ *
+ * @param query Cypher query
+ * @returns The offending clause (e.g. `CREATE`, `DETACH DELETE`, `CALL apoc.create.node`), or null if the query only reads
+ */
+export function findCypherWriteClause(query: string): string | null {
+  const stripped = stripLiterals(query);
+  const tokenPattern = /[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*/g;
+  let match: RegExpExecArray | null;
+  let previousWord = '';
+
+  while ((match = tokenPattern.exec(stripped)) !== null) {
+    const word = match[0];
+    const before = stripped.slice(0, match.index).trimEnd();
+    const after = stripped.slice(match.index + word.length).trimStart();
+    const upper = word.toUpperCase();
+
+    // Property accesses (n.set), labels (:Set), parameters ($set) and map keys ({set: 1}) are not clauses
+    const isName = /[.:$]$/.test(before) || (after.startsWith(':') && !after.startsWith('::'));
+
+    if (!isName) {
+      if (previousWord === 'CALL') {
+        const procedure = word.toLowerCase();
+        if (CYPHER_WRITE_PROCEDURES.some(prefix => procedure.startsWith(prefix))) {
+          return `CALL ${word}`;
+        }
+      }
+
+      if (CYPHER_WRITE_CLAUSES.has(upper)) {
+        return upper === 'DETACH' ? 'DETACH DELETE' : upper;
+      }
+    }
+
+    previousWord = upper;
+  }
+
+  return null;
+}
+
+/**
+ * Finds the first step of a Gremlin traversal that modifies the graph
+ *
+ * @param query Gremlin traversal
+ * @returns The name of the offending step (e.g. `addV`, `drop`), or null if the traversal only reads
+ */
+export function findGremlinWriteStep(query: string): string | null {
+  let steps;
+  try {
+    steps = parseGremlin(query).steps;
+  } catch {
+    // Unparseable queries are rejected before execution; scan them for step names to name the violation
+    const stripped = stripLiterals(query);
+    const stepPattern = /([A-Za-z_][A-Za-z0-9_]*)\s*\(/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = stepPattern.exec(stripped)) !== null) {
+      if (GREMLIN_WRITE_STEPS.has(match[1])) {
+        return match[1];
+      }
+    }
+    return null;
+  }
+
+  let found: string | null = null;
+  forEachStep(steps, step => {
+    if (!found && GREMLIN_WRITE_STEPS.has(step.name)) {
+      found = step.name;
+    }
+  });
+  return found;
+}
+
+/**
+ * Throws if a query would modify the graph
+ *
+ * @param query Query to check
+ * @param language Language of the query
+ * @throws ReadOnlyViolationError naming the offending clause or step
+ */
+export function assertReadOnly(query: string, language: QueryLanguage): void {
+  const clause = language === 'cypher' ? findCypherWriteClause(query) : findGremlinWriteStep(query);
+  if (clause) {
+    throw new ReadOnlyViolationError(language, clause);
+  }
+}
@@ -0,0 +1,121 @@
+import type { QueryLanguage } from './readonly.js';
+import type { GraphSchema, SchemaProperty } from './schema-model.js';
+import { suggestNames } from './schema-validation.js';
+import { cypherName, gremlinString } from './translate.js';
+import type { GraphQuery } from './neighborhood.js';
+
+/** Kinds of graph elements a label can belong to */
+export const ELEMENT_KINDS = ['vertex', 'edge'] as const;
+
+export type ElementKind = typeof ELEMENT_KINDS[number];
+
+/**
+ * Property key observed on sampled elements
+ */
+export interface PropertySummary {
+  key: string;
+  /** Number of sampled elements with a value for the property */
+  count: number;
+  /** Value types observed, e.g. `string`, `integer`, `float`, `boolean`, `list` or `map` */
+  types: string[];
+  /** Type the schema declares, when the schema defines the property */
+  schema_type?: string;
+}
+
+/**
+ * Sample elements of a label, returned by `puppygraph_sample`
+ */
+export interface LabelSample {
+  label: string;
+  kind: ElementKind;
+  /** Sampled elements with all their properties, in the normalized shape of query results */
+  elements: any[];
+  /** Properties defined by the schema, then other observed properties */
+  properties: PropertySummary[];
+  metadata: {
+    /** Language the sample query ran in */
+    language: QueryLanguage;
+    /** Time taken by the sample query in milliseconds */
+    execution_time: number;
+    sample_size: number;
+  };
+}
+
+/**
+ * Returns whether a label is a vertex or an edge label of the schema
+ *
+ * @throws Error naming similar labels if the schema does not define the label
+ */
+export function labelKind(label: string, schema: GraphSchema): ElementKind {
+  if (schema.vertices.some(vertex => vertex.label === label)) {
+    return 'vertex';
+  }
+  if (schema.edges.some(edge => edge.label === label)) {
+    return 'edge';
+  }
+
+  const suggestions = suggestNames(label, [...schema.vertices, ...schema.edges].map(element => element.label));
+  const hint = suggestions.length > 0 ? ` (did you mean ${suggestions.map(name => `"${name}"`).join(' or ')}?)` : '';
+  throw new Error(`Unknown label "${label}"${hint}`);
+}
+
+/**
+ * Builds the query returning up to `limit` elements of a label, without
+ * scanning further. Each row has an element in its `element` column.
+ */
+export function buildSampleQuery(label: string, kind: ElementKind, language: QueryLanguage, limit: number): GraphQuery {
+  if (language === 'gremlin') {
+    const start = kind === 'vertex' ? 'V' : 'E';
+    return { query: `g.${start}().hasLabel(${gremlinString(label)}).limit(${limit}).project('element').by()`, parameters: {} };
+  }
+
+  const pattern = kind === 'vertex' ? `(e:${cypherName(label)})` : `()-[e:${cypherName(label)}]->()`;
+  return { query: `MATCH ${pattern} RETURN e AS element LIMIT ${limit}`, parameters: {} };
+}
+
+/**
+ * Names the type of a property value
+ */
+export function valueType(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'list';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'float';
+  }
+  return typeof value === 'object' ? 'map' : typeof value;
+}
+
+/**
+ * Summarizes the properties of sampled elements. Properties the schema
+ * defines are listed first, in schema order, even when no sampled element
+ * has them.
+ */
+export function summarizeProperties(elements: any[], schemaProperties: SchemaProperty[] = []): PropertySummary[] {
+  const summaries = new Map<string, { count: number; types: Set<string>; schema_type?: string }>();
+  for (const property of schemaProperties) {
+    summaries.set(property.name, { count: 0, types: new Set(), schema_type: property.type });
+  }
+
+  for (const element of elements) {
+    for (const [key, value] of Object.entries(element?.properties ?? {})) {
+      if (value === undefined || value === null) {
+        continue;
+      }
+      const summary = summaries.get(key) ?? { count: 0, types: new Set<string>() };
+      summary.count++;
+      summary.types.add(valueType(value));
+      summaries.set(key, summary);
+    }
+  }
+
+  return [...summaries].map(([key, summary]) => ({
+    key,
+    count: summary.count,
+    types: [...summary.types].sort(),
+    ...(summary.schema_type !== undefined ? { schema_type: summary.schema_type } : {})
+  }));
+}
@@ -0,0 +1,129 @@
+/** How long schema information is served from the cache before it is reloaded, in milliseconds */
+export const DEFAULT_SCHEMA_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * A value served from the schema cache, with its age
+ */
+export interface CachedValue<T> {
+  value: T;
+  /** When the value was loaded, as an ISO timestamp */
+  fetched_at: string;
+  /** Milliseconds since the value was loaded */
+  age_ms: number;
+  /** Whether the value is older than the time to live */
+  stale: boolean;
+  /** Why the value could not be reloaded, when a stale value is served instead */
+  refresh_error?: string;
+}
+
+interface Entry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+/**
+ * Caches schema information that is expensive to load. Fresh values are
+ * served from the cache. Once a value is older than the time to live it is
+ * still served, while it is reloaded in the background (stale-while-revalidate);
+ * if reloading fails, the stale value keeps being served.
+ */
+export class SchemaCache<T> {
+  private entry: Entry<T> | null = null;
+  private pending: Promise<Entry<T>> | null = null;
+  private lastError: string | null = null;
+  /** Incremented on every invalidation, so loads started before it are discarded */
+  private generation = 0;
+
+  /**
+   * @param load Loads the value
+   * @param ttlMs Time to live in milliseconds (0 disables caching)
+   * @param now Clock, replaceable for testing
+   */
+  constructor(
+    private load: () => Promise<T>,
+    private ttlMs: number = DEFAULT_SCHEMA_CACHE_TTL_MS,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Returns the cached value, loading it if there is none
+   *
+   * @param options.refresh Reload the value even if it is fresh. If reloading
+   *        fails, the previous value is returned with the error
+   * @param options.load Loads the value instead of the cache's loader, if
+   *        this request starts a load rather than joining a pending one
+   * @throws The load error if there is no value to fall back to
+   */
+  public async get(options: { refresh?: boolean; load?: () => Promise<T> } = {}): Promise<CachedValue<T>> {
+    const entry = this.entry;
+
+    if (!entry || options.refresh || this.ttlMs === 0) {
+      try {
+        return this.describe(await this.reload(options.load));
+      } catch (error: any) {
+        if (!entry) {
+          throw error;
+        }
+        return this.describe(entry, error.message);
+      }
+    }
+
+    if (this.now() - entry.fetchedAt >= this.ttlMs && !this.pending) {
+      this.reload(options.load).catch(error => console.error('Error refreshing cached schema:', error.message));
+    }
+
+    return this.describe(this.entry!, this.lastError ?? undefined);
+  }
+
+  /**
+   * Drops the cached value, so the next request loads it again
+   */
+  public invalidate(): void {
+    this.generation++;
+    this.entry = null;
+    this.pending = null;
+    this.lastError = null;
+  }
+
+  /**
+   * Loads the value, sharing a pending load. A load started before the last
+   * invalidation still resolves for its callers, but does not update the cache.
+   */
+  private reload(load: () => Promise<T> = this.load): Promise<Entry<T>> {
+    if (!this.pending) {
+      const generation = this.generation;
+      const current = (this.pending = load()
+        .then(value => {
+          const entry = { value, fetchedAt: this.now() };
+          if (generation === this.generation) {
+            this.entry = entry;
+            this.lastError = null;
+          }
+          return entry;
+        })
+        .catch(error => {
+          if (generation === this.generation) {
+            this.lastError = error.message;
+          }
+          throw error;
+        })
+        .finally(() => {
+          if (this.pending === current) {
+            this.pending = null;
+          }
+        }));
+    }
+    return this.pending;
+  }
+
+  private describe(entry: Entry<T>, refreshError?: string): CachedValue<T> {
+    const age = this.now() - entry.fetchedAt;
+    return {
+      value: entry.value,
+      fetched_at: new Date(entry.fetchedAt).toISOString(),
+      age_ms: age,
+      stale: age > 0 && age >= this.ttlMs,
+      ...(refreshError ? { refresh_error: refreshError } : {})
+    };
+  }
+}
@@ -0,0 +1,224 @@
+import { z } from 'zod';
+
+/**
+ * A vertex or edge property, or a field of an element ID
+ */
+export interface SchemaProperty {
+  /** Name of the property in the graph */
+  name: string;
+  /** Property type, e.g. `String` or `Int` */
+  type: string;
+  /** Column of the source table holding the property */
+  column: string;
+}
+
+/**
+ * Table backing a vertex or edge label
+ */
+export interface SchemaSource {
+  /** Catalog the table belongs to */
+  catalog: string;
+  /** Database schema of the table */
+  schema?: string;
+  /** Table name */
+  table: string;
+}
+
+/**
+ * A data source PuppyGraph reads from
+ */
+export interface SchemaCatalog {
+  /** Catalog name, referenced by table sources */
+  name: string;
+  /** Catalog type, e.g. `postgresql` or `iceberg` */
+  type?: string;
+}
+
+/**
+ * A vertex label
+ */
+export interface SchemaVertex {
+  label: string;
+  /** Table the vertices are read from */
+  source?: SchemaSource;
+  /** Fields forming the vertex ID */
+  id: SchemaProperty[];
+  properties: SchemaProperty[];
+}
+
+/**
+ * An edge label
+ */
+export interface SchemaEdge {
+  label: string;
+  /** Label of the vertices the edges start at */
+  from: string;
+  /** Label of the vertices the edges end at */
+  to: string;
+  /** Table the edges are read from */
+  source?: SchemaSource;
+  /** Fields forming the edge ID */
+  id: SchemaProperty[];
+  /** Fields referencing the ID of the start vertex */
+  from_id: SchemaProperty[];
+  /** Fields referencing the ID of the end vertex */
+  to_id: SchemaProperty[];
+  properties: SchemaProperty[];
+}
+
+/**
+ * Typed model of a PuppyGraph schema
+ */
+export interface GraphSchema {
+  catalogs: SchemaCatalog[];
+  vertices: SchemaVertex[];
+  edges: SchemaEdge[];
+}
+
+/**
+ * Error thrown when a schema document does not have the structure of a PuppyGraph schema
+ */
+export class SchemaValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid PuppyGraph schema: ${issues.join('; ')}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+// Raw schema documents. Fields this model does not use, such as catalog
+// credentials, are ignored. Both the current layout (`oneToOne`, `tableSource`,
+// `fromId`/`toId`) and the older `mappedTableSource` layout are accepted.
+
+const rawField = z.object({
+  type: z.string().optional(),
+  field: z.string().optional(),
+  alias: z.string().optional(),
+  name: z.string().optional()
+}).refine(field => field.alias || field.name || field.field, { message: 'Field needs an alias, name or field' });
+
+const rawFields = z.object({ fields: z.array(rawField) });
+
+const rawTableSource = z.object({
+  catalog: z.string(),
+  schema: z.string().optional(),
+  table: z.string()
+});
+
+const rawMappedTableSource = rawTableSource.extend({
+  metaFields: z.record(z.string()).optional()
+});
+
+const rawVertex = z.object({
+  label: z.string(),
+  oneToOne: z.object({
+    tableSource: rawTableSource.optional(),
+    id: rawFields.optional(),
+    attributes: z.array(rawField).optional()
+  }).optional(),
+  mappedTableSource: rawMappedTableSource.optional(),
+  attributes: z.array(rawField).optional()
+});
+
+const rawEdge = z.object({
+  label: z.string(),
+  fromVertex: z.string().optional(),
+  toVertex: z.string().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  tableSource: rawTableSource.optional(),
+  mappedTableSource: rawMappedTableSource.optional(),
+  id: rawFields.optional(),
+  fromId: rawFields.optional(),
+  toId: rawFields.optional(),
+  attributes: z.array(rawField).optional()
+}).refine(edge => (edge.fromVertex || edge.from) && (edge.toVertex || edge.to), {
+  message: 'Edge needs fromVertex and toVertex labels'
+});
+
+const rawSchema = z.object({
+  catalogs: z.array(z.object({ name: z.string(), type: z.string().optional() })).optional(),
+  graph: z.object({
+    vertices: z.array(rawVertex).optional(),
+    edges: z.array(rawEdge).optional()
+  })
+});
+
+function toProperty(field: z.infer<typeof rawField>): SchemaProperty {
+  const name = (field.alias || field.name || field.field)!;
+  return { name, type: field.type || 'Unknown', column: field.field || name };
+}
+
+/**
+ * Builds ID fields from the `metaFields` of the older layout, which name the column only
+ */
+function metaField(metaFields: Record<string, string> | undefined, key: string): SchemaProperty[] {
+  const column = metaFields?.[key];
+  return column ? [{ name: column, type: 'Unknown', column }] : [];
+}
+
+function toSource(source: z.infer<typeof rawTableSource> | undefined): SchemaSource | undefined {
+  if (!source) {
+    return undefined;
+  }
+  return source.schema === undefined
+    ? { catalog: source.catalog, table: source.table }
+    : { catalog: source.catalog, schema: source.schema, table: source.table };
+}
+
+function toVertex(vertex: z.infer<typeof rawVertex>): SchemaVertex {
+  const mapped = vertex.mappedTableSource;
+  return {
+    label: vertex.label,
+    source: toSource(vertex.oneToOne?.tableSource ?? mapped),
+    id: vertex.oneToOne?.id?.fields.map(toProperty) ?? metaField(mapped?.metaFields, 'id'),
+    properties: (vertex.oneToOne?.attributes ?? vertex.attributes ?? []).map(toProperty)
+  };
+}
+
+function toEdge(edge: z.infer<typeof rawEdge>): SchemaEdge {
+  const mapped = edge.mappedTableSource;
+  return {
+    label: edge.label,
+    from: (edge.fromVertex ?? edge.from)!,
+    to: (edge.toVertex ?? edge.to)!,
+    source: toSource(edge.tableSource ?? mapped),
+    id: edge.id?.fields.map(toProperty) ?? metaField(mapped?.metaFields, 'id'),
+    from_id: edge.fromId?.fields.map(toProperty) ?? metaField(mapped?.metaFields, 'from'),
+    to_id: edge.toId?.fields.map(toProperty) ?? metaField(mapped?.metaFields, 'to'),
+    properties: (edge.attributes ?? []).map(toProperty)
+  };
+}
+
+/**
+ * Parses and validates a PuppyGraph schema document, as returned by the
+ * schema endpoint
+ *
+ * @param document Schema document
+ * @returns The typed schema model
+ * @throws SchemaValidationError if the document is not a valid PuppyGraph schema,
+ *         or an edge references a vertex label that does not exist
+ */
+export function parseSchema(document: unknown): GraphSchema {
+  const parsed = rawSchema.safeParse(document);
+  if (!parsed.success) {
+    throw new SchemaValidationError(parsed.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+  }
+
+  const schema: GraphSchema = {
+    catalogs: (parsed.data.catalogs ?? []).map(catalog =>
+      catalog.type === undefined ? { name: catalog.name } : { name: catalog.name, type: catalog.type }),
+    vertices: (parsed.data.graph.vertices ?? []).map(toVertex),
+    edges: (parsed.data.graph.edges ?? []).map(toEdge)
+  };
+
+  const labels = new Set(schema.vertices.map(vertex => vertex.label));
+  const issues = schema.edges.flatMap(edge => [edge.from, edge.to]
+    .filter(label => !labels.has(label))
+    .map(label => `Edge "${edge.label}" references unknown vertex label "${label}"`));
+  if (issues.length > 0) {
+    throw new SchemaValidationError([...new Set(issues)]);
+  }
+
+  return schema;
+}
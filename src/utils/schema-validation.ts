@@ -0,0 +1,383 @@
+import { GremlinArgument, GremlinStep, parseGremlin } from './gremlin-parser.js';
+import type { QueryLanguage } from './readonly.js';
+import type { GraphSchema } from './schema-model.js';
+
+/**
+ * How queries are checked against the schema before they run
+ *
+ * - `off`: queries are not checked
+ * - `warn`: unknown names are reported in the result metadata, and the query still runs
+ * - `block`: queries referencing unknown names are rejected
+ */
+export const SCHEMA_VALIDATION_MODES = ['off', 'warn', 'block'] as const;
+
+export type SchemaValidationMode = typeof SCHEMA_VALIDATION_MODES[number];
+
+/**
+ * A label or property key a query references that the schema does not define
+ */
+export interface SchemaIssue {
+  /** What the name was used as; `label` when it may be a vertex or an edge label */
+  kind: 'vertex_label' | 'edge_label' | 'label' | 'property';
+  /** The unknown name */
+  name: string;
+  /** Known names close to the unknown one, closest first */
+  suggestions: string[];
+  /** Human readable description, including the suggestions */
+  message: string;
+}
+
+/**
+ * Error thrown when blocking schema validation rejects a query
+ */
+export class SchemaMismatchError extends Error {
+  constructor(public readonly issues: SchemaIssue[]) {
+    super(`Query rejected: ${issues.map(issue => issue.message).join('; ')}`);
+    this.name = 'SchemaMismatchError';
+  }
+}
+
+type ElementKind = 'vertex' | 'edge';
+
+/** Names the schema defines, by element kind and label */
+interface SchemaNames {
+  labels: Record<ElementKind, Set<string>>;
+  properties: Record<ElementKind, Map<string, Set<string>>>;
+  /** Vertex labels edges start and end at, by edge label */
+  endpoints: Map<string, { from: string; to: string }>;
+}
+
+function schemaNames(schema: GraphSchema): SchemaNames {
+  return {
+    labels: {
+      vertex: new Set(schema.vertices.map(vertex => vertex.label)),
+      edge: new Set(schema.edges.map(edge => edge.label))
+    },
+    properties: {
+      vertex: new Map(schema.vertices.map(vertex => [vertex.label, new Set(vertex.properties.map(p => p.name))])),
+      edge: new Map(schema.edges.map(edge => [edge.label, new Set(edge.properties.map(p => p.name))]))
+    },
+    endpoints: new Map(schema.edges.map(edge => [edge.label, { from: edge.from, to: edge.to }]))
+  };
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Returns the candidates close to a misspelled name, closest first. Names
+ * differing only in case are always suggested.
+ *
+ * @param name Misspelled name
+ * @param candidates Known names
+ * @param limit Maximum number of suggestions
+ */
+export function suggestNames(name: string, candidates: Iterable<string>, limit = 3): string[] {
+  const maxDistance = Math.max(1, Math.floor(name.length / 3));
+
+  return [...new Set(candidates)]
+    .map(candidate => ({ candidate, distance: editDistance(name.toLowerCase(), candidate.toLowerCase()) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+const ISSUE_DESCRIPTIONS: Record<SchemaIssue['kind'], string> = {
+  vertex_label: 'vertex label',
+  edge_label: 'edge label',
+  label: 'label',
+  property: 'property'
+};
+
+/**
+ * Collects issues, reporting each unknown name once per kind
+ */
+class IssueCollector {
+  private issues = new Map<string, SchemaIssue>();
+
+  constructor(private names: SchemaNames) {}
+
+  /** Checks a label, used as a vertex or edge label or, when the kind is unknown, as either */
+  label(name: string, kind: ElementKind | undefined): void {
+    const known = kind ? this.names.labels[kind] : new Set([...this.names.labels.vertex, ...this.names.labels.edge]);
+    if (!known.has(name)) {
+      this.add(kind ? `${kind}_label` : 'label', name, known);
+    }
+  }
+
+  /** Checks a property key of elements of the given kind and labels */
+  property(name: string, kind: ElementKind | undefined, labels: string[] | undefined): void {
+    const known = new Set<string>();
+    let narrowed = false;
+    for (const elementKind of kind ? [kind] : ['vertex', 'edge'] as ElementKind[]) {
+      const byLabel = this.names.properties[elementKind];
+      // Unknown labels are reported on their own; their properties are checked against all labels
+      const labelsKnown = labels && labels.length > 0 && labels.every(label => byLabel.has(label));
+      narrowed = narrowed || !!labelsKnown;
+      (labelsKnown ? labels! : [...byLabel.keys()]).forEach(label => byLabel.get(label)!.forEach(key => known.add(key)));
+    }
+    if (!known.has(name)) {
+      this.add('property', name, known, narrowed ? labels : undefined);
+    }
+  }
+
+  result(): SchemaIssue[] {
+    return [...this.issues.values()];
+  }
+
+  private add(kind: SchemaIssue['kind'], name: string, known: Set<string>, labels?: string[]): void {
+    const key = `${kind}:${name}`;
+    if (this.issues.has(key)) {
+      return;
+    }
+    const suggestions = suggestNames(name, known);
+    const scope = labels && labels.length > 0 ? ` on ${labels.join(', ')}` : '';
+    const hint = suggestions.length > 0 ? ` (did you mean ${suggestions.map(s => `"${s}"`).join(', ')}?)` : '';
+    this.issues.set(key, {
+      kind,
+      name,
+      suggestions,
+      message: `Unknown ${ISSUE_DESCRIPTIONS[kind]} "${name}"${scope}${hint}`
+    });
+  }
+}
+
+/** The elements a traverser is on at some point of a Gremlin traversal */
+interface GremlinContext {
+  /** Undefined once the traversal no longer emits graph elements of a known kind */
+  kind?: ElementKind;
+  /** Labels the elements are known to have */
+  labels?: string[];
+}
+
+/** Steps that filter or annotate the traversers without changing what they are on */
+const GREMLIN_FILTER_STEPS = new Set([
+  'has', 'hasLabel', 'hasId', 'hasKey', 'hasValue', 'hasNot', 'where', 'filter', 'and', 'or', 'not', 'is',
+  'dedup', 'limit', 'range', 'skip', 'tail', 'sample', 'coin', 'order', 'by', 'as', 'simplePath', 'cyclicPath',
+  'timeLimit', 'emit', 'until', 'times', 'barrier', 'aggregate', 'store', 'sideEffect', 'identity', 'with',
+  'option', 'profile', 'explain', 'iterate', 'toList', 'next'
+]);
+
+/** Steps that move from vertices to adjacent vertices or edges, with their direction */
+const GREMLIN_MOVE_STEPS: Record<string, { to: ElementKind; direction: 'out' | 'in' | 'both' }> = {
+  out: { to: 'vertex', direction: 'out' },
+  in: { to: 'vertex', direction: 'in' },
+  both: { to: 'vertex', direction: 'both' },
+  outE: { to: 'edge', direction: 'out' },
+  inE: { to: 'edge', direction: 'in' },
+  bothE: { to: 'edge', direction: 'both' }
+};
+
+/** Steps that move from edges to their vertices, with the end they take */
+const GREMLIN_EDGE_VERTEX_STEPS: Record<string, 'from' | 'to' | 'both'> = {
+  outV: 'from',
+  inV: 'to',
+  bothV: 'both',
+  otherV: 'both'
+};
+
+/** Steps whose string arguments are property keys */
+const GREMLIN_PROPERTY_STEPS = new Set(['values', 'properties', 'valueMap', 'elementMap', 'propertyMap', 'hasKey', 'hasNot']);
+
+/**
+ * Returns the string literals of arguments, including those inside predicates such as `within('a', 'b')`
+ */
+function stringLiterals(args: GremlinArgument[]): string[] {
+  return args.flatMap(arg => {
+    if (arg.type === 'literal') {
+      return typeof arg.value === 'string' ? [arg.value] : [];
+    }
+    if (arg.type === 'predicate' || arg.type === 'list') {
+      return stringLiterals(arg.type === 'predicate' ? arg.args : arg.items);
+    }
+    return [];
+  });
+}
+
+/** Labels of the vertices at the given end of edges with the given labels, if all labels are known */
+function endpointLabels(names: SchemaNames, edgeLabels: string[], end: 'from' | 'to' | 'both'): string[] | undefined {
+  if (edgeLabels.length === 0 || !edgeLabels.every(label => names.endpoints.has(label))) {
+    return undefined;
+  }
+  const labels = edgeLabels.flatMap(label => {
+    const { from, to } = names.endpoints.get(label)!;
+    return end === 'both' ? [from, to] : [end === 'from' ? from : to];
+  });
+  return [...new Set(labels)];
+}
+
+function checkGremlinSteps(
+  steps: GremlinStep[],
+  context: GremlinContext,
+  names: SchemaNames,
+  issues: IssueCollector
+): GremlinContext {
+  for (const step of steps) {
+    // Anonymous traversals start at the elements of the step using them
+    for (const arg of step.args) {
+      if (arg.type === 'traversal') {
+        checkGremlinSteps(arg.steps, context, names, issues);
+      }
+    }
+
+    const strings = step.args.flatMap(arg => arg.type === 'literal' && typeof arg.value === 'string' ? [arg.value] : []);
+    const [first, second] = step.args.map(arg => arg.type === 'literal' && typeof arg.value === 'string' ? arg.value : undefined);
+
+    if (step.name === 'V' || step.name === 'E') {
+      context = { kind: step.name === 'V' ? 'vertex' : 'edge' };
+    } else if (step.name in GREMLIN_MOVE_STEPS) {
+      const { to, direction } = GREMLIN_MOVE_STEPS[step.name];
+      const edgeLabels = stringLiterals(step.args);
+      edgeLabels.forEach(label => issues.label(label, 'edge'));
+      const end = direction === 'out' ? 'to' : direction === 'in' ? 'from' : 'both';
+      context = to === 'edge'
+        ? { kind: 'edge', labels: edgeLabels.length > 0 ? edgeLabels : undefined }
+        : { kind: 'vertex', labels: endpointLabels(names, edgeLabels, end) };
+    } else if (step.name in GREMLIN_EDGE_VERTEX_STEPS) {
+      const end = GREMLIN_EDGE_VERTEX_STEPS[step.name];
+      context = { kind: 'vertex', labels: context.labels && endpointLabels(names, context.labels, end) };
+    } else {
+      if (step.name === 'hasLabel') {
+        const labels = stringLiterals(step.args);
+        labels.forEach(label => issues.label(label, context.kind));
+        context = { ...context, labels: labels.length > 0 ? labels : context.labels };
+      } else if (step.name === 'has' && step.args.length >= 3 && first !== undefined && second !== undefined) {
+        // has(label, key, value)
+        issues.label(first, context.kind);
+        context = { ...context, labels: [first] };
+        issues.property(second, context.kind, context.labels);
+      } else if ((step.name === 'has' || step.name === 'by') && first !== undefined) {
+        issues.property(first, context.kind, context.labels);
+      } else if (GREMLIN_PROPERTY_STEPS.has(step.name)) {
+        strings.forEach(key => issues.property(key, context.kind, context.labels));
+      }
+
+      if (!GREMLIN_FILTER_STEPS.has(step.name)) {
+        context = {};
+      }
+    }
+  }
+  return context;
+}
+
+/**
+ * Replaces string literals and comments with spaces, keeping backtick-quoted
+ * names, so names inside them are not mistaken for labels or properties
+ */
+function blankCypherLiterals(query: string): string {
+  return query.replace(/\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|'(?:\\.|[^'\\])*'?|"(?:\\.|[^"\\])*"?|`[^`]*`?/g,
+    match => match.startsWith('`') ? match : ' '.repeat(match.length));
+}
+
+const CYPHER_NAME = '(?:[A-Za-z_][A-Za-z0-9_]*|`[^`]*`)';
+const CYPHER_LABELS = `((?:[:&|]\\s*!?\\s*${CYPHER_NAME}\\s*)*)`;
+const CYPHER_MAP = '(\\{[^}]*\\})?';
+
+function unquote(name: string): string {
+  return name.startsWith('`') ? name.slice(1, -1) : name;
+}
+
+function namesIn(text: string | undefined): string[] {
+  return text ? (text.match(new RegExp(CYPHER_NAME, 'g')) || []).map(unquote) : [];
+}
+
+function mapKeys(map: string | undefined): string[] {
+  if (!map) {
+    return [];
+  }
+  const keyPattern = new RegExp(`(${CYPHER_NAME})\\s*:`, 'g');
+  return [...map.matchAll(keyPattern)].map(match => unquote(match[1]));
+}
+
+function checkCypher(query: string, names: SchemaNames, issues: IssueCollector): void {
+  const stripped = blankCypherLiterals(query);
+  const variables = new Map<string, { kind: ElementKind; labels: string[] }>();
+
+  const bind = (variable: string | undefined, kind: ElementKind, labels: string[], map: string | undefined) => {
+    labels.forEach(label => issues.label(label, kind));
+    const name = variable && unquote(variable);
+    const binding = name ? variables.get(name) : undefined;
+    if (name && !binding) {
+      variables.set(name, { kind, labels });
+    } else if (binding) {
+      binding.labels = [...new Set([...binding.labels, ...labels])];
+    }
+    mapKeys(map).forEach(key => issues.property(key, kind, labels.length > 0 ? labels : binding?.labels));
+  };
+
+  // Node patterns, e.g. `(p:Person {name: $name})`; a name before the parenthesis makes it a function call
+  const nodePattern = new RegExp(`(^|[^\\w\`])\\(\\s*(${CYPHER_NAME})?\\s*${CYPHER_LABELS}${CYPHER_MAP}\\s*\\)`, 'g');
+  for (const match of stripped.matchAll(nodePattern)) {
+    bind(match[2], 'vertex', namesIn(match[3]), match[4]);
+  }
+
+  // Relationship patterns, e.g. `-[r:KNOWS|LIKES*1..3 {since: 2020}]->`
+  const relationshipPattern = new RegExp(`-\\s*\\[\\s*(${CYPHER_NAME})?\\s*${CYPHER_LABELS}(?:\\*[\\d.\\s]*)?\\s*${CYPHER_MAP}\\s*\\]`, 'g');
+  for (const match of stripped.matchAll(relationshipPattern)) {
+    bind(match[1], 'edge', namesIn(match[2]), match[3]);
+  }
+
+  // Label predicates, e.g. `WHERE p:Person`
+  const predicatePattern = new RegExp(`\\b(?:WHERE|AND|OR|XOR|NOT)\\s+(${CYPHER_NAME})\\s*(:\\s*${CYPHER_NAME}(?:\\s*[:&|]\\s*!?\\s*${CYPHER_NAME})*)`, 'gi');
+  for (const match of stripped.matchAll(predicatePattern)) {
+    const binding = variables.get(unquote(match[1]));
+    if (binding) {
+      namesIn(match[2]).forEach(label => issues.label(label, binding.kind));
+    }
+  }
+
+  // Property accesses of pattern variables, e.g. `p.name`
+  const propertyPattern = new RegExp(`(^|[^\\w\`$.])(${CYPHER_NAME})\\s*\\.\\s*(${CYPHER_NAME})`, 'g');
+  for (const match of stripped.matchAll(propertyPattern)) {
+    const binding = variables.get(unquote(match[2]));
+    if (binding) {
+      issues.property(unquote(match[3]), binding.kind, binding.labels.length > 0 ? binding.labels : undefined);
+    }
+  }
+}
+
+/**
+ * Checks the labels and property keys a query references against the graph
+ * schema. Gremlin traversals are checked step by step, following the labels
+ * of edges to narrow down the labels of vertices; Cypher queries are checked
+ * by their node and relationship patterns and the property accesses of
+ * pattern variables. Names passed as parameters are not checked, and queries
+ * that cannot be parsed have no issues.
+ *
+ * @param query Query to check
+ * @param language Language of the query
+ * @param schema Graph schema
+ * @returns The unknown names, each with suggestions
+ */
+export function findSchemaIssues(query: string, language: QueryLanguage, schema: GraphSchema): SchemaIssue[] {
+  const names = schemaNames(schema);
+  const issues = new IssueCollector(names);
+
+  if (language === 'gremlin') {
+    let steps: GremlinStep[];
+    try {
+      steps = parseGremlin(query).steps;
+    } catch {
+      return [];
+    }
+    checkGremlinSteps(steps, {}, names, issues);
+  } else {
+    checkCypher(query, names, issues);
+  }
+
+  return issues.result();
+}
@@ -1,3 +1,7 @@
+import { Agent, Dispatcher } from 'undici';
+import { PasswordSource, refreshAfterAuthFailure } from './credentials.js';
+import { TlsConfig, tlsConnectOptions } from './tls.js';
+
 /**
  * Configuration for connecting to a schema API endpoint
  */
@@ -8,6 +12,10 @@ export interface SchemaConfig {
   username: string;
   /** Password for authentication */
   password: string;
+  /** Where the password is read from again when the endpoint rejects it */
+  passwordSource?: PasswordSource;
+  /** TLS settings of `https://` endpoints */
+  tls?: TlsConfig;
 }
 
 /**
@@ -26,31 +34,48 @@ export interface SchemaResult {
   timestamp: string;
 }
 
+/**
+ * Options of Node's built-in fetch, which is undici's and also takes the
+ * dispatcher that opens connections
+ */
+type NodeRequestInit = RequestInit & { dispatcher?: Dispatcher };
+
 /**
  * Fetches schema information from a remote endpoint
  * 
- * @param config Configuration for the schema endpoint
+ * @param config Configuration for the schema endpoint. When the endpoint
+ * rejects the credentials and the password changed at its source, the new
+ * password is stored in `config.password` and the request is sent again.
  * @returns Schema information
  */
 export async function fetchSchemaFromEndpoint(config: SchemaConfig): Promise<SchemaResult> {
-  console.log(`Fetching schema from endpoint: ${config.url}`);
+  console.error(`Fetching schema from endpoint: ${config.url}`);
   
+  let dispatcher: Agent | undefined;
   try {
-    const credentials = btoa(`${config.username}:${config.password}`);
+    dispatcher = config.tls ? new Agent({ connect: tlsConnectOptions(config.tls) }) : undefined;
+    const request = () => {
+      const init: NodeRequestInit = {
+        headers: {
+          'Authorization': `Basic ${btoa(`${config.username}:${config.password}`)}`,
+          'Accept': 'application/json'
+        },
+        ...(dispatcher ? { dispatcher } : {})
+      };
+      return fetch(config.url, init);
+    };
     
-    const response = await fetch(config.url, {
-      headers: {
-        'Authorization': `Basic ${credentials}`,
-        'Accept': 'application/json'
-      }
-    });
+    let response = await request();
+    if (response.status === 401 && await refreshAfterAuthFailure(config, { status: 401 })) {
+      response = await request();
+    }
     
     if (!response.ok) {
       throw new Error(`HTTP error! Status: ${response.status}`);
     }
     
     const schemaData = await response.json();
-    console.log('Successfully fetched schema from endpoint');
+    console.error('Successfully fetched schema from endpoint');
     
     return {
       summary: "PuppyGraph Schema Information",
@@ -62,5 +87,31 @@ export async function fetchSchemaFromEndpoint(config: SchemaConfig): Promise<Sch
   } catch (error: any) {
     console.error('Error fetching schema from endpoint:', error.message);
     throw error;
+  } finally {
+    await dispatcher?.close();
   }
-}
\ No newline at end of file
+}
+/**
+ * Returns the vertex or edge definitions of a PuppyGraph schema document
+ * 
+ * @param schema Schema document returned by the schema endpoint, or the typed schema model parsed from it
+ * @param kind Which element definitions to return
+ * @returns The element definitions, or an empty array if the document has none
+ */
+export function getSchemaElements(schema: any, kind: 'vertex' | 'edge'): any[] {
+  const graph = schema?.graph ?? schema;
+  const elements = kind === 'vertex' ? graph?.vertices : graph?.edges;
+  return Array.isArray(elements) ? elements : [];
+}
+
+/**
+ * Finds the definition of a vertex or edge label in a PuppyGraph schema document
+ * 
+ * @param schema Schema document returned by the schema endpoint, or the typed schema model parsed from it
+ * @param kind Whether to look for a vertex or an edge label
+ * @param label Label to look for
+ * @returns The element definition, or undefined if the label does not exist
+ */
+export function findSchemaElement(schema: any, kind: 'vertex' | 'edge', label: string): any | undefined {
+  return getSchemaElements(schema, kind).find(element => element?.label === label);
+}
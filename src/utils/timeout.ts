@@ -0,0 +1,108 @@
+/**
+ * Error thrown when a query runs longer than its timeout
+ */
+export class QueryTimeoutError extends Error {
+  /**
+   * @param timeoutMs Timeout of the query, undefined when the server stopped it at its own timeout
+   */
+  constructor(public readonly timeoutMs?: number) {
+    super(timeoutMs ? `Query timed out after ${timeoutMs} ms` : 'Query timed out on the server');
+    this.name = 'QueryTimeoutError';
+  }
+}
+
+/**
+ * Error thrown when the client cancels a query before it completes
+ */
+export class QueryCancelledError extends Error {
+  constructor() {
+    super('Query was cancelled by the client');
+    this.name = 'QueryCancelledError';
+  }
+}
+
+/** Neo4j error codes of transactions the server stopped at their timeout */
+const NEO4J_TIMEOUT_CODE = /^Neo\.ClientError\.Transaction\.TransactionTimedOut/;
+
+/** Gremlin Server status of requests that exceeded their `evaluationTimeout` */
+const GREMLIN_TIMEOUT_STATUS = 598;
+
+/**
+ * Whether an error reports that the server stopped a query at its timeout
+ */
+export function isServerTimeout(error: any): boolean {
+  return NEO4J_TIMEOUT_CODE.test(error?.code ?? '') || error?.statusCode === GREMLIN_TIMEOUT_STATUS;
+}
+
+/**
+ * Options limiting how long a query may run
+ */
+export interface QueryTimeoutOptions {
+  /** Maximum execution time in milliseconds (0 or undefined for no timeout) */
+  timeoutMs?: number;
+  /** Signal aborted when the client cancels the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs a query until it completes, times out or is cancelled. On timeout or
+ * cancellation `cancel` is called to stop the query on the server, and the
+ * returned promise rejects with a `QueryTimeoutError` or `QueryCancelledError`
+ * without waiting for the query to settle. Queries the server stops at its
+ * timeout also reject with a `QueryTimeoutError`.
+ *
+ * @param run Starts the query
+ * @param options Timeout and cancellation signal
+ * @param cancel Stops the running query on the server
+ */
+export async function runWithTimeout<T>(
+  run: () => Promise<T>,
+  options: QueryTimeoutOptions,
+  cancel: () => unknown = () => undefined
+): Promise<T> {
+  const { timeoutMs, signal } = options;
+
+  if (signal?.aborted) {
+    throw new QueryCancelledError();
+  }
+  const start = () => run().catch(error => {
+    throw isServerTimeout(error) ? new QueryTimeoutError(timeoutMs) : error;
+  });
+
+  if (!timeoutMs && !signal) {
+    return start();
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+
+  const stopped = new Promise<never>((_, reject) => {
+    const stop = (error: Error) => {
+      Promise.resolve()
+        .then(cancel)
+        .catch(cancelError => console.error('Error cancelling query:', cancelError));
+      reject(error);
+    };
+
+    if (timeoutMs) {
+      timer = setTimeout(() => stop(new QueryTimeoutError(timeoutMs)), timeoutMs);
+    }
+    if (signal) {
+      onAbort = () => stop(new QueryCancelledError());
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+
+  const query = start();
+  // The query may still fail after it was stopped; that failure is expected
+  query.catch(() => undefined);
+
+  try {
+    return await Promise.race([query, stopped]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) {
+      signal!.removeEventListener('abort', onAbort);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { readFileSync } from 'fs';
+import type { ConnectionOptions } from 'tls';
+
+/**
+ * TLS settings of a connection
+ */
+export interface TlsConfig {
+  /** PEM file of the certificate authorities trusted to sign the server certificate, instead of the system ones */
+  caFile?: string;
+  /** PEM file of the client certificate, for servers requiring mutual TLS */
+  certFile?: string;
+  /** PEM file of the client certificate's private key */
+  keyFile?: string;
+  /** Name the server certificate is verified against, instead of the host name of the URL */
+  serverName?: string;
+  /** Accept any server certificate. Only meant for local testing. */
+  insecure?: boolean;
+}
+
+/**
+ * Checks that TLS settings are complete and consistent
+ *
+ * @param name Name of the connection, for error messages
+ * @throws Error naming the conflicting settings
+ */
+export function validateTlsConfig(tls: TlsConfig, name: string): void {
+  if (Boolean(tls.certFile) !== Boolean(tls.keyFile)) {
+    throw new Error(`${name} TLS: a client certificate needs both a certificate file and a key file`);
+  }
+  if (tls.insecure && (tls.caFile || tls.serverName)) {
+    throw new Error(`${name} TLS: insecure mode does not verify the server certificate, so it cannot be combined with a CA file or server name`);
+  }
+}
+
+function readPem(path: string, description: string): Buffer {
+  try {
+    return readFileSync(path);
+  } catch (error: any) {
+    throw new Error(`Cannot read TLS ${description} ${path}: ${error.message}`);
+  }
+}
+
+/**
+ * Reads the files of TLS settings into options for `tls.connect()`. Files are
+ * read on every call, so renewed certificates are used on reconnection.
+ *
+ * @throws Error naming the file that cannot be read
+ */
+export function tlsConnectOptions(tls: TlsConfig): ConnectionOptions {
+  return {
+    ...(tls.caFile ? { ca: readPem(tls.caFile, 'CA file') } : {}),
+    ...(tls.certFile ? { cert: readPem(tls.certFile, 'certificate file') } : {}),
+    ...(tls.keyFile ? { key: readPem(tls.keyFile, 'key file') } : {}),
+    ...(tls.serverName ? { servername: tls.serverName } : {}),
+    rejectUnauthorized: !tls.insecure
+  };
+}
+
+/**
+ * Describes TLS settings for the startup log, e.g.
+ * `CA /etc/ssl/ca.pem, client certificate /etc/ssl/client.pem`
+ */
+export function describeTls(tls: TlsConfig): string {
+  if (tls.insecure) {
+    return 'insecure, server certificate not verified';
+  }
+
+  const details = [
+    tls.caFile ? `CA ${tls.caFile}` : 'system CAs',
+    ...(tls.certFile ? [`client certificate ${tls.certFile}`] : []),
+    ...(tls.serverName ? [`server name ${tls.serverName}`] : [])
+  ];
+  return details.join(', ');
+}
@@ -0,0 +1,931 @@
+import { CypherExpression, CypherNodePattern, CypherRelationshipPattern, parseCypher, ParsedCypher } from './cypher-parser.js';
+import { GremlinArgument, GremlinStep, parseGremlin } from './gremlin-parser.js';
+import type { QueryLanguage } from './readonly.js';
+
+/**
+ * Error thrown for queries that parse but use features outside the
+ * translatable subset
+ */
+export class TranslationError extends Error {
+  constructor(message: string) {
+    super(`Cannot translate query: ${message}`);
+    this.name = 'TranslationError';
+  }
+}
+
+/**
+ * A query translated to the other language
+ */
+export interface Translation {
+  /** Language of the original query */
+  source_language: QueryLanguage;
+  /** Language of the translated query */
+  target_language: QueryLanguage;
+  /** The translated query */
+  query: string;
+}
+
+// Cypher to Gremlin
+
+/**
+ * Quotes a string as a Gremlin string literal
+ */
+export function gremlinString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+}
+
+function gremlinValue(expression: CypherExpression): string {
+  switch (expression.type) {
+    case 'literal':
+      return typeof expression.value === 'string' ? gremlinString(expression.value) : String(expression.value);
+    case 'parameter':
+      return expression.name;
+    case 'list':
+      return `[${expression.items.map(gremlinValue).join(', ')}]`;
+    default:
+      throw new TranslationError('only literals and parameters can be compared with properties');
+  }
+}
+
+/** Gremlin predicates for Cypher comparison operators; `=` compares with the plain value */
+const GREMLIN_PREDICATES: Partial<Record<string, string>> = {
+  '<>': 'neq', '<': 'lt', '<=': 'lte', '>': 'gt', '>=': 'gte',
+  'IN': 'within', 'STARTS WITH': 'startingWith', 'ENDS WITH': 'endingWith', 'CONTAINS': 'containing', '=~': 'regex'
+};
+
+/** Operators to use when the operands of a comparison are swapped */
+const SWAPPED_OPERATORS: Partial<Record<string, string>> = { '<': '>', '<=': '>=', '>': '<', '>=': '<=', '=': '=', '<>': '<>' };
+
+function variablesOf(expression: CypherExpression, found = new Set<string>()): Set<string> {
+  switch (expression.type) {
+    case 'variable':
+      found.add(expression.name);
+      break;
+    case 'property':
+    case 'label_check':
+      found.add(expression.variable);
+      break;
+    case 'function':
+      expression.args.forEach(arg => variablesOf(arg, found));
+      break;
+    case 'list':
+      expression.items.forEach(item => variablesOf(item, found));
+      break;
+    case 'comparison':
+      variablesOf(expression.left, found);
+      variablesOf(expression.right, found);
+      break;
+    case 'null_check':
+    case 'not':
+      variablesOf(expression.operand, found);
+      break;
+    case 'and':
+    case 'or':
+      expression.operands.forEach(operand => variablesOf(operand, found));
+      break;
+  }
+  return found;
+}
+
+function conjuncts(expression: CypherExpression | undefined): CypherExpression[] {
+  if (!expression) {
+    return [];
+  }
+  return expression.type === 'and' ? expression.operands.flatMap(conjuncts) : [expression];
+}
+
+/**
+ * Translates a condition on a single element into Gremlin filter steps
+ */
+function filterSteps(condition: CypherExpression): string[] {
+  switch (condition.type) {
+    case 'and':
+      return condition.operands.flatMap(filterSteps);
+    case 'or':
+      return [`or(${condition.operands.map(operand => anonymous(filterSteps(operand))).join(', ')})`];
+    case 'not':
+      return [`not(${anonymous(filterSteps(condition.operand))})`];
+    case 'label_check':
+      return condition.labels.map(label => `hasLabel(${gremlinString(label)})`);
+    case 'null_check':
+      if (condition.operand.type !== 'property') {
+        throw new TranslationError('IS NULL can only test properties');
+      }
+      return [`${condition.negated ? 'has' : 'hasNot'}(${gremlinString(condition.operand.key)})`];
+    case 'comparison': {
+      let { left, right, operator } = condition;
+      if (left.type !== 'property' && left.type !== 'function' && SWAPPED_OPERATORS[operator]) {
+        [left, right] = [right, left];
+        operator = SWAPPED_OPERATORS[operator] as typeof operator;
+      }
+      const predicate = GREMLIN_PREDICATES[operator];
+      const value = predicate ? `${predicate}(${gremlinValue(right)})` : gremlinValue(right);
+
+      if (left.type === 'property') {
+        return [`has(${gremlinString(left.key)}, ${value})`];
+      }
+      if (left.type === 'function' && left.name === 'id') {
+        return operator === 'IN' && right.type === 'list'
+          ? [`hasId(${right.items.map(gremlinValue).join(', ')})`]
+          : [`hasId(${value})`];
+      }
+      throw new TranslationError('only properties and id() can be compared');
+    }
+    default:
+      throw new TranslationError('conditions must compare properties, test labels or test for null');
+  }
+}
+
+function anonymous(steps: string[]): string {
+  return steps.length === 0 ? '__.identity()' : `__.${steps.join('.')}`;
+}
+
+function propertyFilters(properties: Array<[string, CypherExpression]>): string[] {
+  return properties.map(([key, value]) => `has(${gremlinString(key)}, ${gremlinValue(value)})`);
+}
+
+/**
+ * Translates a Cypher query to a Gremlin traversal
+ *
+ * @throws TranslationError if the query uses features that have no Gremlin translation
+ */
+function cypherToGremlin(parsed: ParsedCypher): string {
+  const { pattern } = parsed;
+  const elements: Array<CypherNodePattern | CypherRelationshipPattern> = [];
+  pattern.nodes.forEach((node, i) => {
+    elements.push(node);
+    if (pattern.relationships[i]) elements.push(pattern.relationships[i]);
+  });
+
+  const seen = new Set<string>();
+  for (const element of elements) {
+    if (element.variable) {
+      if (seen.has(element.variable)) {
+        throw new TranslationError(`variable "${element.variable}" is used twice in the pattern`);
+      }
+      seen.add(element.variable);
+    }
+  }
+
+  // Conditions are applied at the element they test
+  const conditions = new Map<string, CypherExpression[]>();
+  for (const condition of conjuncts(parsed.where)) {
+    const variables = [...variablesOf(condition)];
+    if (variables.length !== 1 || !seen.has(variables[0])) {
+      throw new TranslationError('each WHERE condition must test a single variable of the pattern');
+    }
+    conditions.set(variables[0], [...(conditions.get(variables[0]) ?? []), condition]);
+  }
+
+  // Aliases of return items can be used in ORDER BY
+  const aliases = new Map(parsed.returns.filter(item => item.alias).map(item => [item.alias!, item.expression]));
+  const orderBy = parsed.orderBy.map(({ expression, descending }) => ({
+    expression: expression.type === 'variable' && aliases.has(expression.name) ? aliases.get(expression.name)! : expression,
+    descending
+  }));
+
+  const projected = new Set<string>();
+  parsed.returns.forEach(item => variablesOf(item.expression, projected));
+  orderBy.forEach(item => variablesOf(item.expression, projected));
+  for (const variable of projected) {
+    if (!seen.has(variable)) {
+      throw new TranslationError(`"${variable}" is not a variable of the pattern`);
+    }
+  }
+
+  // Without other variables to return, results are taken from the last element
+  const last = pattern.nodes[pattern.nodes.length - 1].variable;
+  const useSelect = [...projected].some(variable => variable !== last);
+  const current = useSelect ? null : last;
+
+  const steps = ['V()'];
+  const addElementSteps = (element: CypherNodePattern | CypherRelationshipPattern, labels: string[]) => {
+    steps.push(...labels.map(label => `hasLabel(${gremlinString(label)})`));
+    steps.push(...propertyFilters(element.properties));
+    if (element.variable) {
+      (conditions.get(element.variable) ?? []).forEach(condition => steps.push(...filterSteps(condition)));
+      if (useSelect && projected.has(element.variable)) {
+        steps.push(`as(${gremlinString(element.variable)})`);
+      }
+    }
+  };
+
+  pattern.nodes.forEach((node, i) => {
+    if (node.labels.length > 1) {
+      throw new TranslationError('nodes with several labels are not supported');
+    }
+    addElementSteps(node, node.labels);
+
+    const relationship = pattern.relationships[i];
+    if (!relationship) {
+      return;
+    }
+
+    const types = relationship.types.map(gremlinString).join(', ');
+    const hasElementSteps = relationship.properties.length > 0
+      || (relationship.variable !== undefined && (conditions.has(relationship.variable) || projected.has(relationship.variable)));
+
+    if (relationship.length) {
+      if (hasElementSteps) {
+        throw new TranslationError('variable length relationships cannot be filtered or returned');
+      }
+      const { min, max } = relationship.length;
+      if (max === undefined) {
+        throw new TranslationError('variable length relationships need an upper bound, e.g. *1..3');
+      }
+      if (min > 1 && min !== max) {
+        throw new TranslationError('variable length relationships must have a fixed length or start at 0 or 1 hops');
+      }
+      const hop = `${relationship.direction}(${types})`;
+      if (min === max) {
+        steps.push(`repeat(__.${hop}).times(${max})`);
+      } else if (min === 0) {
+        steps.push(`emit().repeat(__.${hop}).times(${max})`);
+      } else {
+        steps.push(`repeat(__.${hop}).emit().times(${max})`);
+      }
+    } else if (hasElementSteps) {
+      steps.push(`${relationship.direction}E(${types})`);
+      addElementSteps(relationship, []);
+      steps.push(relationship.direction === 'out' ? 'inV()' : relationship.direction === 'in' ? 'outV()' : 'otherV()');
+    } else {
+      steps.push(`${relationship.direction}(${types})`);
+    }
+  });
+
+  const valueOf = (expression: CypherExpression): { step?: string; by: string } => {
+    const prefix = (variable: string) => (current === variable ? [] : [`select(${gremlinString(variable)})`]);
+    const traversal = (variable: string, step?: string) => {
+      const selected = [...prefix(variable), ...(step ? [step] : [])];
+      return selected.length === 0 ? { by: 'by()' } : { step: selected.join('.'), by: `by(__.${selected.join('.')})` };
+    };
+
+    if (expression.type === 'variable') {
+      return traversal(expression.name);
+    }
+    if (expression.type === 'property') {
+      return current === expression.variable
+        ? { step: `values(${gremlinString(expression.key)})`, by: `by(${gremlinString(expression.key)})` }
+        : traversal(expression.variable, `values(${gremlinString(expression.key)})`);
+    }
+    if (expression.type === 'function' && ['id', 'labels', 'type'].includes(expression.name)
+      && expression.args.length === 1 && expression.args[0].type === 'variable') {
+      const variable = expression.args[0].name;
+      const step = expression.name === 'id' ? 'id()' : 'label()';
+      return current === variable
+        ? { step, by: `by(${expression.name === 'id' ? 'T.id' : 'T.label'})` }
+        : traversal(variable, step);
+    }
+    throw new TranslationError('RETURN and ORDER BY items must be variables, properties, id(), labels() or type()');
+  };
+
+  if (orderBy.length > 0) {
+    steps.push(`order()${orderBy.map(({ expression, descending }) => {
+      const { by } = valueOf(expression);
+      if (!descending) {
+        return by === 'by()' ? '.by(asc)' : `.${by}`;
+      }
+      return by === 'by()' ? '.by(desc)' : `.${by.slice(0, -1)}, desc)`;
+    }).join('')}`);
+  }
+
+  const aggregates = parsed.returns.filter(item => item.expression.type === 'function' && item.expression.name === 'count');
+  if (aggregates.length > 0) {
+    if (parsed.returns.length > 1 || orderBy.length > 0) {
+      throw new TranslationError('count() can only be returned on its own');
+    }
+    const count = aggregates[0].expression as Extract<CypherExpression, { type: 'function' }>;
+    const argument = count.args[0];
+    if (argument && argument.type !== 'star') {
+      const { step } = valueOf(argument);
+      if (step) steps.push(step);
+    }
+    if (count.distinct) steps.push('dedup()');
+    steps.push('count()');
+  } else if (parsed.returns.length === 1 && !parsed.returns[0].alias) {
+    const { step } = valueOf(parsed.returns[0].expression);
+    if (step) steps.push(step);
+  } else {
+    const columns = parsed.returns.map(item => gremlinString(item.alias ?? item.text)).join(', ');
+    steps.push(`project(${columns})${parsed.returns.map(item => `.${valueOf(item.expression).by}`).join('')}`);
+  }
+
+  if (parsed.distinct) {
+    steps.push('dedup()');
+  }
+
+  const count = (expression: CypherExpression) => gremlinValue(expression);
+  if (parsed.skip && parsed.limit && parsed.skip.type === 'literal' && parsed.limit.type === 'literal') {
+    const skip = Number(parsed.skip.value);
+    steps.push(`range(${skip}, ${skip + Number(parsed.limit.value)})`);
+  } else {
+    if (parsed.skip) steps.push(`skip(${count(parsed.skip)})`);
+    if (parsed.limit) steps.push(`limit(${count(parsed.limit)})`);
+  }
+
+  return `g.${steps.join('.')}`;
+}
+
+// Gremlin to Cypher
+
+/**
+ * Quotes a label, relationship type or property key for Cypher where it is
+ * not a plain identifier
+ */
+export function cypherName(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `\`${name.replace(/`/g, '``')}\``;
+}
+
+function cypherValue(arg: GremlinArgument): string {
+  switch (arg.type) {
+    case 'literal':
+      if (typeof arg.value === 'string') {
+        return `'${arg.value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+      }
+      return String(arg.value);
+    case 'binding':
+      return `$${arg.name}`;
+    case 'list':
+      return `[${arg.items.map(cypherValue).join(', ')}]`;
+    default:
+      throw new TranslationError('only literals, lists and parameters can be used as values');
+  }
+}
+
+/**
+ * Translates a Gremlin predicate applied to an expression into a Cypher condition
+ */
+function cypherCondition(subject: string, arg: GremlinArgument): string {
+  if (arg.type !== 'predicate') {
+    return `${subject} = ${cypherValue(arg)}`;
+  }
+
+  const values = arg.args;
+  const list = () => values.length === 1 && values[0].type !== 'literal' ? cypherValue(values[0]) : `[${values.map(cypherValue).join(', ')}]`;
+
+  switch (arg.name) {
+    case 'eq': return `${subject} = ${cypherValue(values[0])}`;
+    case 'neq': return `${subject} <> ${cypherValue(values[0])}`;
+    case 'lt': return `${subject} < ${cypherValue(values[0])}`;
+    case 'lte': return `${subject} <= ${cypherValue(values[0])}`;
+    case 'gt': return `${subject} > ${cypherValue(values[0])}`;
+    case 'gte': return `${subject} >= ${cypherValue(values[0])}`;
+    case 'within': return `${subject} IN ${list()}`;
+    case 'without': return `NOT ${subject} IN ${list()}`;
+    case 'between': return `${subject} >= ${cypherValue(values[0])} AND ${subject} < ${cypherValue(values[1])}`;
+    case 'inside': return `${subject} > ${cypherValue(values[0])} AND ${subject} < ${cypherValue(values[1])}`;
+    case 'outside': return `(${subject} < ${cypherValue(values[0])} OR ${subject} > ${cypherValue(values[1])})`;
+    case 'containing': return `${subject} CONTAINS ${cypherValue(values[0])}`;
+    case 'startingWith': return `${subject} STARTS WITH ${cypherValue(values[0])}`;
+    case 'endingWith': return `${subject} ENDS WITH ${cypherValue(values[0])}`;
+    case 'notContaining': return `NOT ${subject} CONTAINS ${cypherValue(values[0])}`;
+    case 'notStartingWith': return `NOT ${subject} STARTS WITH ${cypherValue(values[0])}`;
+    case 'notEndingWith': return `NOT ${subject} ENDS WITH ${cypherValue(values[0])}`;
+    case 'regex': return `${subject} =~ ${cypherValue(values[0])}`;
+    case 'notRegex': return `NOT ${subject} =~ ${cypherValue(values[0])}`;
+    case 'not': return `NOT (${cypherCondition(subject, values[0])})`;
+    case 'and': return `(${cypherCondition(subject, values[0])} AND ${cypherCondition(subject, values[1])})`;
+    case 'or': return `(${cypherCondition(subject, values[0])} OR ${cypherCondition(subject, values[1])})`;
+    default: throw new TranslationError(`the ${arg.name}() predicate has no Cypher equivalent`);
+  }
+}
+
+function stringArgs(step: GremlinStep): string[] {
+  return step.args.flatMap(arg => {
+    if (arg.type === 'literal' && typeof arg.value === 'string') {
+      return [arg.value];
+    }
+    if (arg.type === 'predicate' && arg.name === 'within') {
+      return arg.args.map(item => {
+        if (item.type !== 'literal' || typeof item.value !== 'string') {
+          throw new TranslationError(`${step.name}() needs literal labels`);
+        }
+        return item.value;
+      });
+    }
+    throw new TranslationError(`${step.name}() needs literal labels or keys`);
+  });
+}
+
+function integerArg(step: GremlinStep, index = 0): string {
+  const arg = step.args[index];
+  if (arg?.type === 'literal' && typeof arg.value === 'number' && Number.isInteger(arg.value)) {
+    return String(arg.value);
+  }
+  if (arg?.type === 'binding') {
+    return `$${arg.name}`;
+  }
+  throw new TranslationError(`${step.name}() needs an integer argument`);
+}
+
+/** A node or relationship variable of the pattern being built */
+interface CypherElement {
+  /** Variable name, which as() can change after the element was referenced */
+  name: string;
+  /** Placeholder for the name in the clauses being built, replaced when the query is rendered */
+  ref: string;
+  kind: 'node' | 'relationship';
+  labels: string[];
+}
+
+/** A relationship of the pattern, between two nodes */
+interface CypherSegment {
+  from: CypherElement;
+  to: CypherElement;
+  relationship: CypherElement | null;
+  types: string[];
+  direction: 'out' | 'in' | 'both';
+  length?: string;
+}
+
+/** Steps that filter the current element and can appear in or(), and() and not() */
+const GREMLIN_FILTER_STEPS = new Set(['has', 'hasLabel', 'hasId', 'hasNot', 'and', 'or', 'not']);
+
+class GremlinToCypher {
+  private elements: CypherElement[] = [];
+  private segments: CypherSegment[] = [];
+  private conditions: string[] = [];
+  private current!: CypherElement;
+  /** Endpoints of the relationship the traversal is on, after outE(), inE() or bothE() */
+  private endpoints = new Map<CypherElement, { out?: CypherElement; in?: CypherElement; other?: CypherElement }>();
+  private returns: string[] | null = null;
+  /** Keys and pending `by()` modulators of a project() or select() with several keys */
+  private projection: { keys: string[]; elements: CypherElement[]; modulators: GremlinStep[] } | null = null;
+  private distinct = false;
+  private orderBy: string[] = [];
+  /** Whether `by()` modulators apply to order(), and where its keys start in `orderBy` */
+  private ordering = false;
+  private orderStart = 0;
+  private skip: string | null = null;
+  private limit: string | null = null;
+  private namePath = false;
+
+  translate(steps: GremlinStep[]): string {
+    const [source, ...rest] = steps;
+    this.start(source);
+
+    for (let i = 0; i < rest.length; i++) {
+      const step = rest[i];
+
+      if (step.name === 'emit' && rest[i + 1]?.name === 'repeat' && step.args.length === 0) {
+        i += this.repeat(rest, i + 1, true);
+        continue;
+      }
+      if (step.name === 'repeat') {
+        i += this.repeat(rest, i, false) - 1;
+        continue;
+      }
+      if (step.name !== 'by') {
+        this.finishModulators();
+      }
+      this.step(step);
+    }
+    this.finishModulators();
+
+    return this.render();
+  }
+
+  private newElement(kind: CypherElement['kind']): CypherElement {
+    const index = this.elements.length;
+    const element = { name: `${kind === 'node' ? 'n' : 'r'}${index}`, ref: `\u0000${index}\u0000`, kind, labels: [] };
+    this.elements.push(element);
+    return element;
+  }
+
+  private start(step: GremlinStep): void {
+    if (step.name !== 'V' && step.name !== 'E') {
+      throw new TranslationError(`traversals must start with V() or E(), not ${step.name}()`);
+    }
+
+    if (step.name === 'V') {
+      this.current = this.newElement('node');
+    } else {
+      const from = this.newElement('node');
+      const relationship = this.newElement('relationship');
+      const to = this.newElement('node');
+      this.segments.push({ from, to, relationship, types: [], direction: 'out' });
+      this.endpoints.set(relationship, { out: from, in: to });
+      this.current = relationship;
+    }
+
+    if (step.args.length > 0) {
+      this.conditions.push(step.args.length === 1 && step.args[0].type !== 'list'
+        ? `id(${this.current.ref}) = ${cypherValue(step.args[0])}`
+        : `id(${this.current.ref}) IN [${step.args.flatMap(arg => arg.type === 'list' ? arg.items : [arg]).map(cypherValue).join(', ')}]`);
+    }
+  }
+
+  private assertNavigable(step: GremlinStep): void {
+    if (this.returns || this.projection) {
+      throw new TranslationError(`${step.name}() cannot follow a step that returns values`);
+    }
+    if (this.distinct || this.orderBy.length > 0 || this.skip || this.limit) {
+      throw new TranslationError(`${step.name}() cannot follow dedup(), order(), skip(), limit() or range()`);
+    }
+  }
+
+  /**
+   * Translates `repeat(out('x')).times(n)` with an optional `emit()` before or after `repeat()`
+   *
+   * @returns The number of steps consumed, starting at `repeat()`
+   */
+  private repeat(steps: GremlinStep[], index: number, emitFirst: boolean): number {
+    const repeat = steps[index];
+    let consumed = 1;
+    let times: string | null = null;
+    let emit = emitFirst;
+
+    for (const next of steps.slice(index + 1, index + 3)) {
+      if (next.name === 'times' && times === null) {
+        times = integerArg(next);
+      } else if (next.name === 'emit' && next.args.length === 0 && !emit) {
+        emit = true;
+      } else {
+        break;
+      }
+      consumed++;
+    }
+
+    const body = repeat.args[0];
+    const hop = body?.type === 'traversal' && body.steps.length === 1 ? body.steps[0] : null;
+    if (!hop || !['out', 'in', 'both'].includes(hop.name) || repeat.args.length !== 1) {
+      throw new TranslationError('repeat() must contain a single out(), in() or both() step');
+    }
+    if (times === null) {
+      throw new TranslationError('repeat() needs times() to bound the path length');
+    }
+
+    this.assertNavigable(repeat);
+    const to = this.newElement('node');
+    const length = emitFirst ? `*0..${times}` : emit ? `*1..${times}` : `*${times}`;
+    this.segments.push({
+      from: this.current, to, relationship: null, types: stringArgs(hop), direction: hop.name as CypherSegment['direction'], length
+    });
+    this.current = to;
+    return consumed;
+  }
+
+  private filter(step: GremlinStep): string[] {
+    const subject = this.current.ref;
+    const [first, second, third] = step.args;
+    const key = (arg: GremlinArgument) => {
+      if (arg.type !== 'literal' || typeof arg.value !== 'string') {
+        throw new TranslationError(`${step.name}() needs a literal property key`);
+      }
+      return `${subject}.${cypherName(arg.value)}`;
+    };
+    const anonymousConditions = (arg: GremlinArgument) => {
+      if (arg.type !== 'traversal' || !arg.steps.every(s => GREMLIN_FILTER_STEPS.has(s.name))) {
+        throw new TranslationError(`${step.name}() can only contain has(), hasLabel(), hasId(), hasNot() and nested and(), or() and not() steps`);
+      }
+      const conditions = arg.steps.flatMap(s => this.filter(s));
+      return conditions.length === 1 ? conditions[0] : `(${conditions.join(' AND ')})`;
+    };
+
+    switch (step.name) {
+      case 'hasLabel': {
+        const labels = stringArgs(step).map(label => `${subject}:${cypherName(label)}`);
+        return [labels.length === 1 ? labels[0] : `(${labels.join(' OR ')})`];
+      }
+      case 'has':
+        if (step.args.length === 1) {
+          return [`${key(first)} IS NOT NULL`];
+        }
+        if (step.args.length === 2) {
+          if (first.type === 'enum' && first.enumType === 'T') {
+            return first.name === 'id'
+              ? [cypherCondition(`id(${subject})`, second)]
+              : [cypherCondition(this.current.kind === 'node' ? `head(labels(${subject}))` : `type(${subject})`, second)];
+          }
+          return [cypherCondition(key(first), second)];
+        }
+        return [...this.filter({ name: 'hasLabel', args: [first] }), cypherCondition(key(second), third)];
+      case 'hasNot':
+        return [`${key(first)} IS NULL`];
+      case 'hasId':
+        return [step.args.length === 1 ? cypherCondition(`id(${subject})`, first) : `id(${subject}) IN [${step.args.map(cypherValue).join(', ')}]`];
+      case 'where':
+      case 'filter':
+      case 'and':
+        return step.args.map(anonymousConditions);
+      case 'or':
+        return [`(${step.args.map(anonymousConditions).join(' OR ')})`];
+      case 'not':
+        return [`NOT (${anonymousConditions(first)})`];
+      default:
+        throw new TranslationError(`the Gremlin ${step.name}() step cannot be translated to Cypher`);
+    }
+  }
+
+  /** Expression for a `by()` modulator of order(), project() or select() */
+  private byExpression(step: GremlinStep, element: CypherElement | null, value: string): string {
+    const arg = step.args[0];
+    if (!arg || (arg.type === 'enum' && arg.enumType === 'Order')) {
+      return value;
+    }
+    if (!element) {
+      throw new TranslationError('by() with a key can only follow elements');
+    }
+    if (arg.type === 'literal' && typeof arg.value === 'string') {
+      return `${element.ref}.${cypherName(arg.value)}`;
+    }
+    if (arg.type === 'enum' && arg.enumType === 'T' && arg.name === 'id') {
+      return `id(${element.ref})`;
+    }
+    if (arg.type === 'enum' && arg.enumType === 'T' && arg.name === 'label') {
+      return element.kind === 'node' ? `head(labels(${element.ref}))` : `type(${element.ref})`;
+    }
+    throw new TranslationError('by() can only take a property key, T.id, T.label or an order');
+  }
+
+  /**
+   * Completes the order() or project() the `by()` modulators applied to
+   */
+  private finishModulators(): void {
+    if (this.ordering && this.orderBy.length === this.orderStart) {
+      // order() without by() sorts by the value itself
+      this.orderBy.push(this.returns?.length === 1 ? this.returns[0] : this.current.ref);
+    }
+    this.ordering = false;
+
+    if (!this.projection) {
+      return;
+    }
+    // Like Gremlin, apply the by() modulators to the keys round-robin
+    const { keys, elements, modulators } = this.projection;
+    this.returns = keys.map((key, i) => {
+      const expression = modulators.length > 0
+        ? this.byExpression(modulators[i % modulators.length], elements[i], elements[i].ref)
+        : elements[i].ref;
+      return `${expression} AS ${cypherName(key)}`;
+    });
+    this.projection = null;
+  }
+
+  private step(step: GremlinStep): void {
+    const current = this.current;
+
+    switch (step.name) {
+      case 'out':
+      case 'in':
+      case 'both': {
+        this.assertNavigable(step);
+        if (current.kind !== 'node') {
+          throw new TranslationError(`${step.name}() must start at a vertex`);
+        }
+        const to = this.newElement('node');
+        this.segments.push({ from: current, to, relationship: null, types: stringArgs(step), direction: step.name });
+        this.current = to;
+        return;
+      }
+      case 'outE':
+      case 'inE':
+      case 'bothE': {
+        this.assertNavigable(step);
+        if (current.kind !== 'node') {
+          throw new TranslationError(`${step.name}() must start at a vertex`);
+        }
+        const to = this.newElement('node');
+        const relationship = this.newElement('relationship');
+        relationship.labels = stringArgs(step);
+        const direction = step.name === 'outE' ? 'out' : step.name === 'inE' ? 'in' : 'both';
+        this.segments.push({ from: current, to, relationship, types: [], direction });
+        this.endpoints.set(relationship, direction === 'out'
+          ? { out: current, in: to, other: to }
+          : direction === 'in' ? { out: to, in: current, other: to } : { other: to });
+        this.current = relationship;
+        return;
+      }
+      case 'inV':
+      case 'outV':
+      case 'otherV': {
+        this.assertNavigable(step);
+        const endpoint = this.endpoints.get(current)?.[step.name === 'inV' ? 'in' : step.name === 'outV' ? 'out' : 'other'];
+        if (!endpoint) {
+          throw new TranslationError(`${step.name}() must follow outE(), inE() or bothE()${step.name === 'otherV' ? '' : ' with a direction'}`);
+        }
+        this.current = endpoint;
+        return;
+      }
+      case 'hasLabel':
+      case 'has': {
+        // The first labels of an element go into the pattern, e.g. (n0:person)
+        const labels = step.name === 'hasLabel' ? stringArgs(step) : step.args.length === 3 ? stringArgs({ ...step, args: [step.args[0]] }) : [];
+        if (labels.length > 0 && !this.returns && current.labels.length === 0 && (labels.length === 1 || current.kind === 'relationship')) {
+          current.labels = labels;
+          if (step.name === 'has') {
+            this.conditions.push(...this.filterAt({ name: 'has', args: step.args.slice(1) }));
+          }
+          return;
+        }
+        this.conditions.push(...this.filterAt(step));
+        return;
+      }
+      case 'where':
+      case 'filter':
+      case 'hasNot':
+      case 'hasId':
+      case 'and':
+      case 'or':
+      case 'not':
+        this.conditions.push(...this.filterAt(step));
+        return;
+      case 'is':
+        if (!this.returns || this.returns.length !== 1) {
+          throw new TranslationError('is() must follow a step returning a single value');
+        }
+        this.conditions.push(cypherCondition(this.returns[0], step.args[0]));
+        return;
+      case 'as': {
+        const [name] = stringArgs(step);
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) || this.elements.some(element => element.name === name)) {
+          throw new TranslationError(`as('${name}') must name a new variable`);
+        }
+        current.name = name;
+        return;
+      }
+      case 'select': {
+        const names = stringArgs(step);
+        const selected = names.map(name => {
+          const element = this.elements.find(e => e.name === name);
+          if (!element) {
+            throw new TranslationError(`select('${name}') must refer to an as() label`);
+          }
+          return element;
+        });
+        if (selected.length === 1) {
+          this.current = selected[0];
+        } else {
+          this.projection = { keys: names, elements: selected, modulators: [] };
+        }
+        return;
+      }
+      case 'project':
+        this.projection = { keys: stringArgs(step), elements: stringArgs(step).map(() => current), modulators: [] };
+        return;
+      case 'by':
+        if (this.projection) {
+          const { elements, modulators } = this.projection;
+          if (modulators.length >= elements.length) {
+            throw new TranslationError('project() and select() take at most one by() per key');
+          }
+          modulators.push(step);
+          return;
+        }
+        if (this.ordering) {
+          const order = step.args.find(arg => arg.type === 'enum' && arg.enumType === 'Order');
+          if (order && order.type === 'enum' && order.name === 'shuffle') {
+            throw new TranslationError('order().by(shuffle) has no Cypher equivalent');
+          }
+          const value = this.returns?.length === 1 ? this.returns[0] : current.ref;
+          const expression = this.byExpression(step, this.returns ? null : current, value);
+          this.orderBy.push(order?.type === 'enum' && order.name === 'desc' ? `${expression} DESC` : expression);
+          return;
+        }
+        throw new TranslationError('by() must follow order(), project() or select()');
+      case 'values': {
+        const keys = stringArgs(step);
+        if (keys.length !== 1) {
+          throw new TranslationError('values() needs exactly one property key');
+        }
+        this.returns = [`${current.ref}.${cypherName(keys[0])}`];
+        return;
+      }
+      case 'valueMap':
+      case 'elementMap': {
+        const keys = stringArgs(step);
+        if (keys.length > 0) {
+          this.returns = [`${current.ref} {${keys.map(key => `.${cypherName(key)}`).join(', ')}}`];
+        } else {
+          this.returns = [step.name === 'valueMap' ? `properties(${current.ref})` : current.ref];
+        }
+        return;
+      }
+      case 'id':
+        this.returns = [`id(${current.ref})`];
+        return;
+      case 'label':
+        this.returns = [current.kind === 'node' ? `head(labels(${current.ref}))` : `type(${current.ref})`];
+        return;
+      case 'path':
+        if (this.segments.length === 0 || this.segments.some((s, i) => i > 0 && s.from !== this.segments[i - 1].to)) {
+          throw new TranslationError('path() needs a single chain of relationships');
+        }
+        this.namePath = true;
+        this.returns = ['p'];
+        return;
+      case 'count':
+        if (this.orderBy.length > 0 || this.skip || this.limit) {
+          throw new TranslationError('count() cannot follow order(), skip(), limit() or range()');
+        }
+        this.returns = [`count(${this.distinct ? 'DISTINCT ' : ''}${this.returns?.length === 1 ? this.returns[0] : this.distinct ? current.ref : '*'})`];
+        this.distinct = false;
+        return;
+      case 'dedup':
+        if (step.args.length > 0) {
+          throw new TranslationError('dedup() with labels has no Cypher equivalent');
+        }
+        this.distinct = true;
+        return;
+      case 'order':
+        if (step.args.length > 0) {
+          throw new TranslationError('order(local) has no Cypher equivalent');
+        }
+        this.ordering = true;
+        this.orderStart = this.orderBy.length;
+        return;
+      case 'limit':
+        this.limit = integerArg(step);
+        return;
+      case 'skip':
+        this.skip = integerArg(step);
+        return;
+      case 'range': {
+        const low = integerArg(step, 0);
+        const high = integerArg(step, 1);
+        if (!/^\d+$/.test(low) || !/^\d+$/.test(high)) {
+          throw new TranslationError('range() needs literal bounds');
+        }
+        if (low !== '0') this.skip = low;
+        this.limit = String(Number(high) - Number(low));
+        return;
+      }
+      default:
+        throw new TranslationError(`the Gremlin ${step.name}() step cannot be translated to Cypher`);
+    }
+  }
+
+  private filterAt(step: GremlinStep): string[] {
+    if (this.returns) {
+      throw new TranslationError(`${step.name}() cannot follow a step that returns values; use is() to filter values`);
+    }
+    return this.filter(step);
+  }
+
+  private render(): string {
+    const rendered = new Set<CypherElement>();
+    const node = (element: CypherElement) => {
+      if (rendered.has(element)) {
+        return `(${element.ref})`;
+      }
+      rendered.add(element);
+      return `(${element.ref}${element.labels.map(label => `:${cypherName(label)}`).join('')})`;
+    };
+
+    const chains: string[] = [];
+    let tail: CypherElement | null = null;
+    for (const segment of this.segments) {
+      const typeNames = segment.relationship ? segment.relationship.labels : segment.types;
+      const types = typeNames.length > 0 ? `:${typeNames.map(cypherName).join('|')}` : '';
+      const inner = `${segment.relationship ? segment.relationship.ref : ''}${types}${segment.length ?? ''}`;
+      const relationship = inner ? `-[${inner}]-` : '--';
+      const arrow = segment.direction === 'out' ? `${relationship}>` : segment.direction === 'in' ? `<${relationship}` : relationship;
+
+      if (tail === segment.from) {
+        chains[chains.length - 1] += `${arrow}${node(segment.to)}`;
+      } else {
+        chains.push(`${node(segment.from)}${arrow}${node(segment.to)}`);
+      }
+      tail = segment.to;
+    }
+    if (chains.length === 0) {
+      chains.push(node(this.elements[0]));
+    }
+
+    const clauses = [`MATCH ${this.namePath ? 'p = ' : ''}${chains.join(', ')}`];
+    if (this.conditions.length > 0) {
+      clauses.push(`WHERE ${this.conditions.join(' AND ')}`);
+    }
+    clauses.push(`RETURN ${this.distinct ? 'DISTINCT ' : ''}${(this.returns ?? [this.current.ref]).join(', ')}`);
+    if (this.orderBy.length > 0) {
+      clauses.push(`ORDER BY ${this.orderBy.join(', ')}`);
+    }
+    if (this.skip) {
+      clauses.push(`SKIP ${this.skip}`);
+    }
+    if (this.limit) {
+      clauses.push(`LIMIT ${this.limit}`);
+    }
+    return clauses.join(' ').replace(/\u0000(\d+)\u0000/g, (_, index) => this.elements[Number(index)].name);
+  }
+}
+
+/**
+ * Translates a query between Cypher and Gremlin. The read-only subset of
+ * each language is supported: a single path pattern or traversal with
+ * property and label filters, variable length paths, projections, `DISTINCT`,
+ * ordering, `SKIP` and `LIMIT`. Cypher parameters (`$name`) become Gremlin
+ * bindings (`name`) and vice versa.
+ *
+ * @param query Query to translate
+ * @param language Language of the query
+ * @returns The translated query
+ * @throws CypherParseError or GremlinParseError if the query cannot be parsed
+ * @throws TranslationError if the query uses features outside the translatable subset
+ */
+export function translateQuery(query: string, language: QueryLanguage): Translation {
+  if (language === 'cypher') {
+    return { source_language: 'cypher', target_language: 'gremlin', query: cypherToGremlin(parseCypher(query)) };
+  }
+  return { source_language: 'gremlin', target_language: 'cypher', query: new GremlinToCypher().translate(parseGremlin(query).steps) };
+}
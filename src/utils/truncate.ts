@@ -0,0 +1,122 @@
+/** Approximate number of characters per token, used to convert token budgets */
+export const CHARS_PER_TOKEN = 4;
+
+/** Strings longer than this are shortened when a result is over budget */
+const MAX_STRING_LENGTH = 200;
+
+/** Values nested deeper than this are collapsed when a result is over budget */
+const MAX_DEPTH = 4;
+
+/**
+ * What was left out of a result to fit the output budget
+ */
+export interface TruncationSummary {
+  /** Output budget in characters */
+  budget_chars: number;
+  /** Number of rows before truncation */
+  total_rows: number;
+  /** Number of rows returned */
+  returned_rows: number;
+  /** Number of rows dropped from the end of the result */
+  omitted_rows: number;
+  /** Number of strings cut to their first characters */
+  shortened_strings: number;
+  /** Number of deeply nested objects and arrays replaced by a description */
+  collapsed_values: number;
+}
+
+interface SimplifyStats {
+  shortenedStrings: number;
+  collapsedValues: number;
+}
+
+function prettyJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Shortens long strings and collapses deep nesting in a row
+ */
+function simplify(value: any, depth: number, stats: SimplifyStats): any {
+  if (typeof value === 'string') {
+    if (value.length <= MAX_STRING_LENGTH) {
+      return value;
+    }
+    stats.shortenedStrings++;
+    return `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length - MAX_STRING_LENGTH} more characters)`;
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (depth >= MAX_DEPTH) {
+    stats.collapsedValues++;
+    return Array.isArray(value)
+      ? `[array of ${value.length} items]`
+      : `[object with ${Object.keys(value).length} keys]`;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => simplify(item, depth + 1, stats));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, inner]) => [key, simplify(inner, depth + 1, stats)])
+  );
+}
+
+/**
+ * Fits a query result into an output budget. Results within the budget are
+ * returned unchanged. Otherwise long strings are shortened, deep nesting is
+ * collapsed and rows are dropped from the end until the serialized result
+ * fits, and `metadata.truncation` states what was left out.
+ *
+ * @param result Query result to fit
+ * @param budgetChars Maximum length of the serialized result in characters (0 disables truncation)
+ * @param serialize Serializes the result as it will be returned, defaulting to pretty-printed JSON
+ * @returns The result, truncated if it was over budget
+ */
+export function truncateResult<T extends { data: any[]; metadata: object }>(
+  result: T,
+  budgetChars: number,
+  serialize: (result: T) => string = prettyJson
+): T {
+  if (budgetChars <= 0 || serialize(result).length <= budgetChars) {
+    return result;
+  }
+
+  const stats: SimplifyStats = { shortenedStrings: 0, collapsedValues: 0 };
+  const rows = result.data.map(row => simplify(row, 0, stats));
+
+  const build = (count: number): T => {
+    const truncation: TruncationSummary = {
+      budget_chars: budgetChars,
+      total_rows: result.data.length,
+      returned_rows: count,
+      omitted_rows: result.data.length - count,
+      shortened_strings: stats.shortenedStrings,
+      collapsed_values: stats.collapsedValues
+    };
+
+    return {
+      ...result,
+      data: rows.slice(0, count),
+      metadata: { ...result.metadata, row_count: count, truncated: true, truncation }
+    };
+  };
+
+  // Largest number of rows that still fits, found by binary search
+  let low = 0;
+  let high = rows.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (serialize(build(middle)).length <= budgetChars) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return build(low);
+}
@@ -1,3 +1,8 @@
+import type { QueryTimeoutOptions } from './timeout.js';
+import type { TruncationSummary } from './truncate.js';
+import type { Translation } from './translate.js';
+import type { QueryLanguage } from './readonly.js';
+
 /**
  * Represents the result of a graph database query
  */
@@ -14,5 +19,38 @@ export interface QueryResult<T> {
     error?: string;
     /** Type of error that occurred */
     error_type?: string;
+    /** Number of rows in the whole result, when it is paginated */
+    total_rows?: number;
+    /** Position of the first returned row in the whole result, when it is paginated */
+    offset?: number;
+    /** Whether more pages can be fetched, when the result is paginated */
+    has_more?: boolean;
+    /** Cursor for `puppygraph_fetch_more`, present while more pages exist */
+    cursor?: string;
+    /** Whether rows or values were left out to fit the output budget */
+    truncated?: boolean;
+    /** What was left out to fit the output budget */
+    truncation?: TruncationSummary;
+    /** Labels and property keys the query uses that the schema does not define */
+    schema_warnings?: string[];
   };
-}
\ No newline at end of file
+}
+/**
+ * A query to execute, with its parameters and execution limits
+ */
+export interface QueryParams extends QueryTimeoutOptions {
+  /** Query text */
+  query: string;
+  /** Values of the parameters the query references */
+  parameters?: Record<string, any>;
+}
+
+/**
+ * Result of a query run through `puppygraph_translate`
+ */
+export interface TranslatedQueryResult extends QueryResult<any> {
+  metadata: QueryResult<any>['metadata'] & {
+    /** The translation, and whether the translation or the original query ran */
+    translation: Translation & { executed_language: QueryLanguage };
+  };
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { configFileVariables, ConfigFileError, loadConfigFile, parseConfigFile } from '../../src/utils/config-file';
+
+describe('Config File', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'puppygraph-config-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('parseConfigFile', () => {
+    it('should report bad URLs, wrong types and unknown fields with their paths', () => {
+      let error: ConfigFileError | undefined;
+      try {
+        parseConfigFile({
+          neo4j: { url: 'http://localhost:7687' },
+          instances: { prod: { gremlin: { url: 'not a url' }, read_only: 'no' } },
+          query_timeout_ms: -1,
+          neo4j_password: 'secret'
+        }, 'puppygraph.yaml');
+      } catch (e: any) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ConfigFileError);
+      expect(error!.issues).toEqual([
+        'neo4j.url: Invalid URL: expected bolt://, bolt+s://, bolt+ssc://, neo4j://, neo4j+s://, neo4j+ssc://',
+        'instances.prod.gremlin.url: Invalid URL: expected ws://, wss://',
+        'instances.prod.read_only: Expected boolean, received string',
+        'query_timeout_ms: Number must be greater than or equal to 0',
+        "Unrecognized key(s) in object: 'neo4j_password'"
+      ]);
+      expect(error!.message).toMatch(/^Invalid configuration file puppygraph\.yaml: neo4j\.url: Invalid URL/);
+    });
+
+    it('should accept an empty file', () => {
+      expect(parseConfigFile(null, 'empty.yaml')).toEqual({});
+    });
+  });
+
+  describe('configFileVariables', () => {
+    it('should map settings to the environment variables with the same meaning', () => {
+      expect(configFileVariables({
+        neo4j: { url: 'bolt://shared:7687', password: 'secret' },
+        read_only: false,
+        instances: {
+          'eu-prod': { gremlin: { url: 'wss://eu:8182/gremlin', traversal_source: 'g2' } },
+          dev: {}
+        },
+        default_instance: 'dev',
+        query_timeout_ms: 5000,
+        health_check_interval_ms: 10000,
+        transport: { type: 'http', port: 8080 }
+      })).toEqual({
+        PUPPYGRAPH_URL: 'bolt://shared:7687',
+        PUPPYGRAPH_PASSWORD: 'secret',
+        PUPPYGRAPH_READ_ONLY: 'false',
+        PUPPYGRAPH_INSTANCES: 'eu-prod,dev',
+        PUPPYGRAPH_EU_PROD_GREMLIN_URL: 'wss://eu:8182/gremlin',
+        PUPPYGRAPH_EU_PROD_GREMLIN_TRAVERSAL_SOURCE: 'g2',
+        PUPPYGRAPH_DEFAULT_INSTANCE: 'dev',
+        PUPPYGRAPH_QUERY_TIMEOUT_MS: '5000',
+        PUPPYGRAPH_HEALTH_CHECK_INTERVAL_MS: '10000',
+        PUPPYGRAPH_MCP_TRANSPORT: 'http',
+        PUPPYGRAPH_MCP_PORT: '8080'
+      });
+    });
+  });
+
+  describe('loadConfigFile', () => {
+    it('should read YAML and JSON files', () => {
+      const yamlPath = join(dir, 'config.yaml');
+      writeFileSync(yamlPath, 'neo4j:\n  url: bolt://yaml:7687\nschema_validation: block\n');
+      expect(loadConfigFile(yamlPath)).toEqual({ PUPPYGRAPH_URL: 'bolt://yaml:7687', PUPPYGRAPH_SCHEMA_VALIDATION: 'block' });
+
+      const jsonPath = join(dir, 'config.json');
+      writeFileSync(jsonPath, JSON.stringify({ schema: { url: 'https://schema:8081/schemajson' } }));
+      expect(loadConfigFile(jsonPath)).toEqual({ PUPPYGRAPH_SCHEMA_URL: 'https://schema:8081/schemajson' });
+    });
+
+    it('should report missing and unparsable files', () => {
+      expect(() => loadConfigFile(join(dir, 'missing.yaml'))).toThrow(/missing\.yaml: file not found$/);
+
+      const brokenPath = join(dir, 'broken.yaml');
+      writeFileSync(brokenPath, 'neo4j: [unclosed\n');
+      expect(() => loadConfigFile(brokenPath)).toThrow(ConfigFileError);
+    });
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { loadConfig } from '../../src/utils/config';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describeConfig, loadConfig, loadSettings, loadTransportConfig } from '../../src/utils/config';
 
 describe('Config Utilities', () => {
   const originalEnv = { ...process.env };
@@ -92,5 +95,429 @@ describe('Config Utilities', () => {
       expect(config.gremlin.url).toBe('ws://localhost:8182/gremlin'); // Default
       expect(config.gremlin.password).toBe('partial-override-pass');
     });
+
+    it('should load the paginated result expiry', () => {
+      expect(loadConfig().resultTtlMs).toBe(300000);
+
+      process.env.PUPPYGRAPH_RESULT_TTL_MS = '60000';
+      expect(loadConfig().resultTtlMs).toBe(60000);
+
+      process.env.PUPPYGRAPH_RESULT_TTL_MS = 'soon';
+      expect(() => loadConfig()).toThrow('Invalid PUPPYGRAPH_RESULT_TTL_MS "soon"');
+    });
+
+    it('should load the schema cache expiry', () => {
+      expect(loadConfig().schemaCacheTtlMs).toBe(300000);
+
+      process.env.PUPPYGRAPH_SCHEMA_CACHE_TTL_MS = '0';
+      expect(loadConfig().schemaCacheTtlMs).toBe(0);
+    });
+
+    it('should load the schema validation mode', () => {
+      expect(loadConfig().schemaValidation).toBe('warn');
+
+      process.env.PUPPYGRAPH_SCHEMA_VALIDATION = 'block';
+      expect(loadConfig().schemaValidation).toBe('block');
+
+      process.env.PUPPYGRAPH_SCHEMA_VALIDATION = 'strict';
+      expect(() => loadConfig()).toThrow('Invalid PUPPYGRAPH_SCHEMA_VALIDATION "strict"');
+    });
+
+    it('should load the query timeout', () => {
+      expect(loadConfig().queryTimeoutMs).toBe(30000);
+
+      process.env.PUPPYGRAPH_QUERY_TIMEOUT_MS = '0';
+      expect(loadConfig().queryTimeoutMs).toBe(0);
+    });
+
+    it('should load the health check interval and reconnection backoff', () => {
+      const config = loadConfig();
+      expect(config.healthCheckIntervalMs).toBe(30000);
+      expect(config.reconnectInitialDelayMs).toBe(1000);
+      expect(config.reconnectMaxDelayMs).toBe(60000);
+
+      process.env.PUPPYGRAPH_HEALTH_CHECK_INTERVAL_MS = '0';
+      process.env.PUPPYGRAPH_RECONNECT_INITIAL_DELAY_MS = '500';
+      process.env.PUPPYGRAPH_RECONNECT_MAX_DELAY_MS = '10000';
+      expect(loadConfig()).toMatchObject({ healthCheckIntervalMs: 0, reconnectInitialDelayMs: 500, reconnectMaxDelayMs: 10000 });
+    });
+
+    it('should load the output budget in characters or tokens', () => {
+      expect(loadConfig().maxOutputChars).toBe(80000);
+
+      process.env.PUPPYGRAPH_MAX_OUTPUT_CHARS = '1000';
+      expect(loadConfig().maxOutputChars).toBe(1000);
+
+      process.env.PUPPYGRAPH_MAX_OUTPUT_TOKENS = '500';
+      expect(loadConfig().maxOutputChars).toBe(2000);
+
+      process.env.PUPPYGRAPH_MAX_OUTPUT_TOKENS = '-1';
+      expect(() => loadConfig()).toThrow('Invalid PUPPYGRAPH_MAX_OUTPUT_TOKENS "-1"');
+    });
+  });
+
+  describe('loadConfig with multiple instances', () => {
+    it('should configure a single default instance when no instances are listed', () => {
+      const config = loadConfig();
+
+      expect(config.defaultInstance).toBe('default');
+      expect(config.instances).toHaveLength(1);
+      expect(config.instances[0].name).toBe('default');
+      expect(config.instances[0].neo4j).toEqual(config.neo4j);
+    });
+
+    it('should load instance specific variables with shared fallbacks', () => {
+      process.env.PUPPYGRAPH_INSTANCES = 'dev, prod-eu';
+      process.env.PUPPYGRAPH_USERNAME = 'shared-user';
+      process.env.PUPPYGRAPH_DEV_URL = 'bolt://dev:7687';
+      process.env.PUPPYGRAPH_PROD_EU_URL = 'bolt://prod:7687';
+      process.env.PUPPYGRAPH_PROD_EU_GREMLIN_URL = 'ws://prod:8182/gremlin';
+
+      const config = loadConfig();
+
+      expect(config.instances.map(instance => instance.name)).toEqual(['dev', 'prod-eu']);
+      expect(config.defaultInstance).toBe('dev');
+      expect(config.neo4j.url).toBe('bolt://dev:7687');
+
+      const prod = config.instances[1];
+      expect(prod.neo4j.url).toBe('bolt://prod:7687');
+      expect(prod.neo4j.username).toBe('shared-user');
+      expect(prod.gremlin.url).toBe('ws://prod:8182/gremlin');
+      expect(prod.schema.url).toBe('http://localhost:8081/schemajson'); // Default
+    });
+
+    it('should select the default instance from the environment', () => {
+      process.env.PUPPYGRAPH_INSTANCES = 'dev,prod';
+      process.env.PUPPYGRAPH_DEFAULT_INSTANCE = 'prod';
+      process.env.PUPPYGRAPH_PROD_URL = 'bolt://prod:7687';
+
+      const config = loadConfig();
+
+      expect(config.defaultInstance).toBe('prod');
+      expect(config.neo4j.url).toBe('bolt://prod:7687');
+    });
+
+    it('should reject invalid instance configurations', () => {
+      process.env.PUPPYGRAPH_INSTANCES = 'dev,dev';
+      expect(() => loadConfig()).toThrow('configured more than once');
+
+      process.env.PUPPYGRAPH_INSTANCES = 'dev staging';
+      expect(() => loadConfig()).toThrow('Invalid instance name');
+
+      process.env.PUPPYGRAPH_INSTANCES = 'dev';
+      process.env.PUPPYGRAPH_DEFAULT_INSTANCE = 'prod';
+      expect(() => loadConfig()).toThrow('Default instance "prod"');
+    });
+
+    it('should validate URLs from environment variables like those of the configuration file', () => {
+      process.env.PUPPYGRAPH_URL = 'http://localhost:7687';
+      expect(() => loadConfig([])).toThrow(
+        'Invalid PUPPYGRAPH_URL "http://localhost:7687": Invalid URL: expected bolt://, bolt+s://, bolt+ssc://, neo4j://, neo4j+s://, neo4j+ssc://'
+      );
+
+      delete process.env.PUPPYGRAPH_URL;
+      process.env.PUPPYGRAPH_INSTANCES = 'prod';
+      process.env.PUPPYGRAPH_PROD_GREMLIN_URL = 'not a url';
+      expect(() => loadConfig([])).toThrow('Invalid PUPPYGRAPH_PROD_GREMLIN_URL "not a url": Invalid URL: expected ws://, wss://');
+    });
+  });
+
+  describe('password sources', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'puppygraph-passwords-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read passwords from files, commands and other variables', () => {
+      const path = join(dir, 'neo4j-password');
+      writeFileSync(path, 'file-secret\n');
+      process.env.PUPPYGRAPH_PASSWORD_FILE = path;
+      process.env.PUPPYGRAPH_GREMLIN_PASSWORD_COMMAND = 'echo command-secret';
+      process.env.PUPPYGRAPH_SCHEMA_PASSWORD_ENV = 'SCHEMA_SECRET';
+      process.env.SCHEMA_SECRET = 'env-secret';
+
+      const config = loadConfig([]);
+
+      expect(config.neo4j.password).toBe('file-secret');
+      expect(config.neo4j.passwordSource).toEqual({ type: 'file', path });
+      expect(config.gremlin.password).toBe('command-secret');
+      expect(config.gremlin.passwordSource).toEqual({ type: 'command', command: 'echo command-secret' });
+      expect(config.schema.password).toBe('env-secret');
+      expect(config.schema.passwordSource).toEqual({ type: 'env', name: 'SCHEMA_SECRET' });
+    });
+
+    it('should prefer instance specific password settings of any kind', () => {
+      process.env.PUPPYGRAPH_INSTANCES = 'prod';
+      process.env.PUPPYGRAPH_PASSWORD = 'shared-secret';
+      process.env.PUPPYGRAPH_PROD_PASSWORD_ENV = 'PROD_SECRET';
+      process.env.PROD_SECRET = 'prod-secret';
+
+      expect(loadConfig([]).neo4j.password).toBe('prod-secret');
+    });
+
+    it('should reject several password settings for one connection', () => {
+      process.env.PUPPYGRAPH_PASSWORD = 'secret';
+      process.env.PUPPYGRAPH_PASSWORD_FILE = join(dir, 'password');
+
+      expect(() => loadConfig([])).toThrow('Set only one of PUPPYGRAPH_PASSWORD, PUPPYGRAPH_PASSWORD_FILE');
+    });
+
+    it('should fail when a password cannot be read', () => {
+      process.env.PUPPYGRAPH_SCHEMA_PASSWORD_ENV = 'UNSET_SECRET';
+
+      expect(() => loadConfig([])).toThrow('Cannot read password from environment variable UNSET_SECRET');
+    });
+  });
+
+  describe('TLS settings', () => {
+    it('should load TLS settings for each connection', () => {
+      process.env.PUPPYGRAPH_URL = 'bolt+s://puppygraph:7687';
+      process.env.PUPPYGRAPH_TLS_CA_FILE = '/etc/ssl/ca.pem';
+      process.env.PUPPYGRAPH_TLS_CERT_FILE = '/etc/ssl/client.pem';
+      process.env.PUPPYGRAPH_TLS_KEY_FILE = '/etc/ssl/client.key';
+      process.env.PUPPYGRAPH_GREMLIN_URL = 'wss://puppygraph:8182/gremlin';
+      process.env.PUPPYGRAPH_GREMLIN_TLS_CERT_FILE = '/etc/ssl/gremlin.pem';
+      process.env.PUPPYGRAPH_GREMLIN_TLS_KEY_FILE = '/etc/ssl/gremlin.key';
+      process.env.PUPPYGRAPH_SCHEMA_URL = 'https://localhost:8081/schemajson';
+      process.env.PUPPYGRAPH_SCHEMA_TLS_INSECURE = 'true';
+
+      const config = loadConfig([]);
+
+      expect(config.neo4j.tls).toEqual({ caFile: '/etc/ssl/ca.pem', certFile: '/etc/ssl/client.pem', keyFile: '/etc/ssl/client.key' });
+      expect(config.gremlin.tls).toEqual({ certFile: '/etc/ssl/gremlin.pem', keyFile: '/etc/ssl/gremlin.key' });
+      expect(config.schema.tls).toEqual({ insecure: true });
+    });
+
+    it('should reject TLS settings for URLs without TLS', () => {
+      process.env.PUPPYGRAPH_GREMLIN_TLS_CA_FILE = '/etc/ssl/ca.pem';
+      expect(() => loadConfig([])).toThrow('Gremlin TLS settings need a wss:// URL, got ws://localhost:8182/gremlin');
+
+      delete process.env.PUPPYGRAPH_GREMLIN_TLS_CA_FILE;
+      process.env.PUPPYGRAPH_SCHEMA_TLS_INSECURE = 'true';
+      expect(() => loadConfig([])).toThrow('Schema API TLS settings need a https:// URL');
+    });
+
+    it('should accept server name overrides for Gremlin and the schema API only', () => {
+      process.env.PUPPYGRAPH_GREMLIN_URL = 'wss://10.0.0.5:8182/gremlin';
+      process.env.PUPPYGRAPH_GREMLIN_TLS_SERVER_NAME = 'puppygraph.internal';
+      process.env.PUPPYGRAPH_SCHEMA_URL = 'https://10.0.0.5:8081/schemajson';
+      process.env.PUPPYGRAPH_SCHEMA_TLS_SERVER_NAME = 'puppygraph.internal';
+
+      const config = loadConfig([]);
+      expect(config.gremlin.tls).toEqual({ serverName: 'puppygraph.internal' });
+      expect(config.schema.tls).toEqual({ serverName: 'puppygraph.internal' });
+
+      process.env.PUPPYGRAPH_TLS_SERVER_NAME = 'puppygraph.internal';
+      expect(() => loadConfig([])).toThrow('Bolt TLS: the Neo4j driver does not support a server name override');
+    });
+
+    it('should reject inconsistent TLS settings', () => {
+      process.env.PUPPYGRAPH_TLS_CERT_FILE = '/etc/ssl/client.pem';
+      expect(() => loadConfig([])).toThrow('Bolt TLS: a client certificate needs both');
+
+      delete process.env.PUPPYGRAPH_TLS_CERT_FILE;
+      process.env.PUPPYGRAPH_TLS_INSECURE = 'yes';
+      expect(() => loadConfig([])).toThrow('Invalid PUPPYGRAPH_TLS_INSECURE "yes"');
+    });
+  });
+
+  describe('configuration file', () => {
+    let dir: string;
+    let path: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'puppygraph-config-'));
+      path = join(dir, 'puppygraph.yaml');
+      writeFileSync(path, [
+        'neo4j:',
+        '  url: bolt://file:7687',
+        '  password: file-secret',
+        'instances:',
+        '  prod:',
+        '    gremlin:',
+        '      url: wss://prod:8182/gremlin',
+        'query_timeout_ms: 5000',
+        'transport:',
+        '  type: http',
+        '  port: 8080',
+      ].join('\n'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read settings from the file named by --config or PUPPYGRAPH_CONFIG', () => {
+      const config = loadConfig(['--config', path]);
+
+      expect(config.configFile).toBe(path);
+      expect(config.neo4j.url).toBe('bolt://file:7687');
+      expect(config.neo4j.password).toBe('file-secret');
+      expect(config.gremlin.url).toBe('wss://prod:8182/gremlin');
+      expect(config.instances.map(instance => instance.name)).toEqual(['prod']);
+      expect(config.queryTimeoutMs).toBe(5000);
+
+      process.env.PUPPYGRAPH_CONFIG = path;
+      expect(loadConfig([]).neo4j.url).toBe('bolt://file:7687');
+    });
+
+    it('should load both configurations from settings read once', () => {
+      const argv = ['--config', path];
+      const settings = loadSettings(argv);
+      rmSync(path);
+
+      expect(loadConfig(argv, settings).neo4j.url).toBe('bolt://file:7687');
+      expect(loadTransportConfig(argv, settings).port).toBe(8080);
+    });
+
+    it('should let environment variables override the file, and flags override both', () => {
+      process.env.PUPPYGRAPH_URL = 'bolt://env:7687';
+      process.env.PUPPYGRAPH_QUERY_TIMEOUT_MS = '';
+      process.env.PUPPYGRAPH_MCP_PORT = '9000';
+
+      const config = loadConfig([`--config=${path}`]);
+      expect(config.neo4j.url).toBe('bolt://env:7687');
+      // Empty variables do not override the file
+      expect(config.queryTimeoutMs).toBe(5000);
+
+      expect(loadTransportConfig(['--config', path])).toEqual({ type: 'http', host: '127.0.0.1', port: 9000, sessionIdleTimeoutMs: 1800000 });
+      expect(loadTransportConfig(['--config', path, '--port', '9090']).port).toBe(9090);
+    });
+
+    it('should read password sources from the file', () => {
+      const secret = join(dir, 'gremlin-password');
+      writeFileSync(secret, 'gremlin-secret');
+      writeFileSync(path, `gremlin:\n  password_file: ${secret}\n`);
+
+      const config = loadConfig(['--config', path]);
+      expect(config.gremlin.password).toBe('gremlin-secret');
+      expect(config.gremlin.passwordSource).toEqual({ type: 'file', path: secret });
+    });
+
+    it('should let a password in the environment replace a password source of the file', () => {
+      const secret = join(dir, 'neo4j-password');
+      writeFileSync(secret, 'file-secret');
+      writeFileSync(path, `neo4j:\n  password_file: ${secret}\n`);
+      process.env.PUPPYGRAPH_PASSWORD = 'env-secret';
+
+      const config = loadConfig(['--config', path]);
+      expect(config.neo4j.password).toBe('env-secret');
+      expect(config.neo4j.passwordSource).toBeUndefined();
+
+      process.env.PUPPYGRAPH_PASSWORD_FILE = secret;
+      expect(() => loadConfig(['--config', path])).toThrow('Set only one of PUPPYGRAPH_PASSWORD, PUPPYGRAPH_PASSWORD_FILE');
+    });
+
+    it('should read TLS settings from the file', () => {
+      writeFileSync(path, [
+        'gremlin:',
+        '  url: wss://puppygraph:8182/gremlin',
+        '  tls:',
+        '    ca_file: /etc/ssl/ca.pem',
+        '    server_name: puppygraph.internal',
+        'instances:',
+        '  local:',
+        '    schema:',
+        '      url: https://localhost:8081/schemajson',
+        '      tls:',
+        '        insecure: true',
+      ].join('\n'));
+
+      const config = loadConfig(['--config', path]);
+      expect(config.gremlin.tls).toEqual({ caFile: '/etc/ssl/ca.pem', serverName: 'puppygraph.internal' });
+      expect(config.schema.tls).toEqual({ insecure: true });
+    });
+
+    it('should reject invalid files', () => {
+      writeFileSync(path, 'schema:\n  url: ftp://schema\n');
+
+      expect(() => loadConfig(['--config', path])).toThrow(
+        `Invalid configuration file ${path}: schema.url: Invalid URL: expected http://, https://`
+      );
+    });
+  });
+
+  describe('describeConfig', () => {
+    it('should summarize the effective configuration with passwords masked', () => {
+      process.env.PUPPYGRAPH_PASSWORD = 'bolt-secret';
+
+      const lines = describeConfig(loadConfig([]), { type: 'http', host: '0.0.0.0', port: 3000, sessionIdleTimeoutMs: 600000 });
+
+      expect(lines).toContain('Configuration file: none');
+      expect(lines).toContain('[default] Bolt: bolt://localhost:7687, database default, user neo4j, password ****');
+      expect(lines).toContain(
+        '[default] Gremlin: ws://localhost:8182/gremlin, traversal source g, user puppygraph, password **** (built-in default)'
+      );
+      expect(lines).toContain('Transport: http on 0.0.0.0:3000, session idle timeout 600000 ms');
+      expect(lines).toContain('Health checks: every 30000 ms, reconnection backoff 1000 ms to 60000 ms');
+      expect(lines.join('\n')).not.toContain('bolt-secret');
+      expect(lines.join('\n')).not.toContain('puppygraph123');
+    });
+
+    it('should describe TLS settings', () => {
+      process.env.PUPPYGRAPH_TLS_CA_FILE = '/etc/ssl/ca.pem';
+
+      const lines = describeConfig(loadConfig([]), { type: 'stdio', host: '127.0.0.1', port: 3000, sessionIdleTimeoutMs: 1800000 });
+
+      expect(lines).toContain(
+        '[default] Bolt: bolt://localhost:7687, database default, user neo4j, password **** (built-in default), TLS CA /etc/ssl/ca.pem'
+      );
+    });
+
+    it('should name the source of passwords read from one', () => {
+      process.env.PUPPYGRAPH_GREMLIN_PASSWORD_COMMAND = 'echo gremlin-secret';
+
+      const lines = describeConfig(loadConfig([]), { type: 'stdio', host: '127.0.0.1', port: 3000, sessionIdleTimeoutMs: 1800000 });
+
+      expect(lines).toContain(
+        '[default] Gremlin: ws://localhost:8182/gremlin, traversal source g, user puppygraph, '
+          + 'password **** (from command "echo gremlin-secret")'
+      );
+    });
+  });
+
+  describe('loadTransportConfig', () => {
+    it('should default to the stdio transport', () => {
+      expect(loadTransportConfig([])).toEqual({
+        type: 'stdio',
+        host: '127.0.0.1',
+        port: 3000,
+        sessionIdleTimeoutMs: 1800000,
+      });
+    });
+
+    it('should read the transport from environment variables', () => {
+      process.env.PUPPYGRAPH_MCP_TRANSPORT = 'http';
+      process.env.PUPPYGRAPH_MCP_HOST = '0.0.0.0';
+      process.env.PUPPYGRAPH_MCP_PORT = '8080';
+      process.env.PUPPYGRAPH_MCP_SESSION_IDLE_TIMEOUT_MS = '60000';
+
+      expect(loadTransportConfig([])).toEqual({
+        type: 'http',
+        host: '0.0.0.0',
+        port: 8080,
+        sessionIdleTimeoutMs: 60000,
+      });
+    });
+
+    it('should prefer command line flags over environment variables', () => {
+      process.env.PUPPYGRAPH_MCP_TRANSPORT = 'stdio';
+      process.env.PUPPYGRAPH_MCP_PORT = '8080';
+
+      const config = loadTransportConfig(['--transport', 'http', '--port=9090']);
+
+      expect(config.type).toBe('http');
+      expect(config.port).toBe(9090);
+    });
+
+    it('should reject unknown transports and invalid ports', () => {
+      expect(() => loadTransportConfig(['--transport', 'websocket'])).toThrow('Invalid transport');
+      expect(() => loadTransportConfig(['--port', 'abc'])).toThrow('Invalid port');
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CredentialError,
+  PasswordSetting,
+  describePasswordSource,
+  isAuthenticationError,
+  readPassword,
+  refreshAfterAuthFailure,
+  refreshPassword
+} from '../../src/utils/credentials';
+
+describe('credentials', () => {
+  let dir: string;
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'puppygraph-credentials-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    process.env = { ...originalEnv };
+  });
+
+  describe('readPassword and refreshPassword', () => {
+    it('should read a file without its trailing line break', async () => {
+      const path = join(dir, 'password');
+      writeFileSync(path, 's3cret\n');
+
+      expect(readPassword({ type: 'file', path })).toBe('s3cret');
+      expect(await refreshPassword({ type: 'file', path })).toBe('s3cret');
+    });
+
+    it('should read the output of a command', async () => {
+      const source = { type: 'command' as const, command: 'echo s3cret' };
+
+      expect(readPassword(source)).toBe('s3cret');
+      expect(await refreshPassword(source)).toBe('s3cret');
+    });
+
+    it('should read another environment variable', async () => {
+      process.env.MY_SECRET = 's3cret';
+
+      expect(readPassword({ type: 'env', name: 'MY_SECRET' })).toBe('s3cret');
+      expect(await refreshPassword({ type: 'env', name: 'MY_SECRET' })).toBe('s3cret');
+    });
+
+    it('should name the source when the password cannot be read', async () => {
+      const path = join(dir, 'missing');
+
+      expect(() => readPassword({ type: 'file', path })).toThrow(CredentialError);
+      expect(() => readPassword({ type: 'file', path })).toThrow(`Cannot read password from file ${path}`);
+      expect(() => readPassword({ type: 'command', command: 'exit 3' })).toThrow('Cannot read password from command "exit 3"');
+      expect(() => readPassword({ type: 'env', name: 'UNSET_SECRET' }))
+        .toThrow('Cannot read password from environment variable UNSET_SECRET: variable is not set');
+      await expect(refreshPassword({ type: 'command', command: 'exit 3' })).rejects.toThrow(CredentialError);
+    });
+  });
+
+  describe('describePasswordSource', () => {
+    it('should describe the source without the password', () => {
+      expect(describePasswordSource({ type: 'file', path: '/run/secrets/neo4j' })).toBe('file /run/secrets/neo4j');
+      expect(describePasswordSource({ type: 'command', command: 'vault read' })).toBe('command "vault read"');
+      expect(describePasswordSource({ type: 'env', name: 'SECRET' })).toBe('environment variable SECRET');
+    });
+  });
+
+  describe('isAuthenticationError', () => {
+    it('should recognize rejected credentials of every backend', () => {
+      expect(isAuthenticationError({ code: 'Neo.ClientError.Security.Unauthorized', message: 'The client is unauthorized' })).toBe(true);
+      expect(isAuthenticationError({ statusCode: 401, message: 'Server error' })).toBe(true);
+      expect(isAuthenticationError({ statusCode: 407, message: 'Server error' })).toBe(true);
+      expect(isAuthenticationError({ status: 401 })).toBe(true);
+      expect(isAuthenticationError(new Error('Unexpected server response code 401 with body:\nUnauthorized'))).toBe(true);
+    });
+
+    it('should ignore other errors, even when their message mentions 401', () => {
+      expect(isAuthenticationError(new Error('connect ECONNREFUSED 127.0.0.1:7687'))).toBe(false);
+      expect(isAuthenticationError(new Error('Unexpected server response code 404'))).toBe(false);
+      expect(isAuthenticationError(new Error("Node with id 401 not found in MATCH (n) WHERE id(n) = 401"))).toBe(false);
+      expect(isAuthenticationError(new Error('Username and/or password are incorrect'))).toBe(false);
+      expect(isAuthenticationError(undefined)).toBe(false);
+    });
+  });
+
+  describe('refreshAfterAuthFailure', () => {
+    it('should update the password when it changed at its source', async () => {
+      const path = join(dir, 'password');
+      writeFileSync(path, 'rotated');
+      const setting: PasswordSetting = { password: 'old', passwordSource: { type: 'file', path } };
+
+      expect(await refreshAfterAuthFailure(setting, { status: 401 })).toBe(true);
+      expect(setting.password).toBe('rotated');
+      expect(await refreshAfterAuthFailure(setting, { status: 401 })).toBe(false);
+    });
+
+    it('should read the source once for concurrent failures', async () => {
+      const path = join(dir, 'count');
+      const setting: PasswordSetting = {
+        password: 'old',
+        passwordSource: { type: 'command', command: `echo x >> ${path}; echo rotated` }
+      };
+
+      const results = await Promise.all([
+        refreshAfterAuthFailure(setting, { status: 401 }),
+        refreshAfterAuthFailure(setting, { status: 401 }),
+        refreshAfterAuthFailure(setting, { status: 401 })
+      ]);
+
+      expect(results).toEqual([true, true, true]);
+      expect(readFileSync(path, 'utf8')).toBe('x\n');
+    });
+
+    it('should retry without reading the source when another request already refreshed the password', async () => {
+      const setting: PasswordSetting = { password: 'rotated', passwordSource: { type: 'command', command: 'exit 1' } };
+
+      expect(await refreshAfterAuthFailure(setting, { status: 401 }, 'old')).toBe(true);
+    });
+
+    it('should not refresh for other errors or passwords without a source', async () => {
+      const path = join(dir, 'password');
+      writeFileSync(path, 'rotated');
+
+      expect(await refreshAfterAuthFailure({ password: 'old', passwordSource: { type: 'file', path } }, new Error('timeout'))).toBe(false);
+      expect(await refreshAfterAuthFailure({ password: 'old' }, { status: 401 })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { CypherParseError, parseCypher } from '../../src/utils/cypher-parser';
+
+describe('Cypher Parser', () => {
+  it('should parse a path pattern with labels, properties and variable lengths', () => {
+    const { pattern } = parseCypher("MATCH (p:Person {name: $name})<-[r:KNOWS|LIKES]-()-[*1..3]->(`my node`) RETURN p");
+
+    expect(pattern.nodes).toEqual([
+      { variable: 'p', labels: ['Person'], properties: [['name', { type: 'parameter', name: 'name' }]] },
+      { variable: undefined, labels: [], properties: [] },
+      { variable: 'my node', labels: [], properties: [] }
+    ]);
+    expect(pattern.relationships).toEqual([
+      { variable: 'r', types: ['KNOWS', 'LIKES'], direction: 'in', properties: [] },
+      { types: [], direction: 'out', properties: [], length: { min: 1, max: 3 } }
+    ]);
+  });
+
+  it('should parse the lengths of variable length relationships', () => {
+    const length = (pattern: string) => parseCypher(`MATCH (a)-[${pattern}]-(b) RETURN b`).pattern.relationships[0].length;
+
+    expect(length('*')).toEqual({ min: 1 });
+    expect(length('*2')).toEqual({ min: 2, max: 2 });
+    expect(length('*..3')).toEqual({ min: 1, max: 3 });
+    expect(length('*0..')).toEqual({ min: 0 });
+  });
+
+  it('should parse conditions with the precedence of NOT, AND and OR', () => {
+    const { where } = parseCypher("MATCH (p) WHERE NOT p.age >= 30 AND p:Admin OR p.name STARTS WITH 'A' RETURN p");
+
+    expect(where).toEqual({
+      type: 'or',
+      operands: [
+        {
+          type: 'and',
+          operands: [
+            {
+              type: 'not',
+              operand: {
+                type: 'comparison',
+                operator: '>=',
+                left: { type: 'property', variable: 'p', key: 'age' },
+                right: { type: 'literal', value: 30 }
+              }
+            },
+            { type: 'label_check', variable: 'p', labels: ['Admin'] }
+          ]
+        },
+        {
+          type: 'comparison',
+          operator: 'STARTS WITH',
+          left: { type: 'property', variable: 'p', key: 'name' },
+          right: { type: 'literal', value: 'A' }
+        }
+      ]
+    });
+  });
+
+  it('should parse return items, ordering, SKIP and LIMIT', () => {
+    const parsed = parseCypher('match (p) return distinct p.name as name, count(DISTINCT p) order by name desc, p.age skip 5 limit $n;');
+
+    expect(parsed.distinct).toBe(true);
+    expect(parsed.returns).toEqual([
+      { expression: { type: 'property', variable: 'p', key: 'name' }, alias: 'name', text: 'p.name' },
+      {
+        expression: { type: 'function', name: 'count', args: [{ type: 'variable', name: 'p' }], distinct: true },
+        text: 'count(DISTINCT p)'
+      }
+    ]);
+    expect(parsed.orderBy).toEqual([
+      { expression: { type: 'variable', name: 'name' }, descending: true },
+      { expression: { type: 'property', variable: 'p', key: 'age' }, descending: false }
+    ]);
+    expect(parsed.skip).toEqual({ type: 'literal', value: 5 });
+    expect(parsed.limit).toEqual({ type: 'parameter', name: 'n' });
+  });
+
+  it('should reject clauses outside the supported subset', () => {
+    expect(() => parseCypher('MATCH (p) WITH p RETURN p')).toThrow('WITH is not supported');
+    expect(() => parseCypher('OPTIONAL MATCH (p) RETURN p')).toThrow('OPTIONAL is not supported');
+    expect(() => parseCypher('MATCH (p) DETACH DELETE p')).toThrow('DETACH is not supported');
+    expect(() => parseCypher('MATCH (a), (b) RETURN a')).toThrow('only a single path pattern is supported');
+    expect(() => parseCypher('MATCH (a) MATCH (b) RETURN a')).toThrow('only a single MATCH clause is supported');
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(() => parseCypher('MATCH (p RETURN p')).toThrow(CypherParseError);
+    expect(() => parseCypher("MATCH (p) WHERE p.name = 'x RETURN p")).toThrow('Cypher syntax error at position 25: unterminated string');
+    expect(() => parseCypher('MATCH (a)<-[]->(b) RETURN a')).toThrow('a relationship cannot point both ways');
+  });
+});
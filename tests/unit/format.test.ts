@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { flattenRow, formatResult } from '../../src/utils/format';
+
+const person = (id: number, name: string) => ({ id, labels: ['Person'], properties: { name } });
+const knows = { id: 10, type: 'KNOWS', startNodeId: 1, endNodeId: 2, properties: { since: 2010 } };
+
+describe('Output Formats', () => {
+  describe('flattenRow', () => {
+    it('should flatten nodes and relationships into columns', () => {
+      expect(flattenRow({ a: person(1, 'marko'), r: knows })).toEqual({
+        'a.id': 1,
+        'a.labels': ':Person',
+        'a.name': 'marko',
+        'r.id': 10,
+        'r.type': 'KNOWS',
+        'r.start': 1,
+        'r.end': 2,
+        'r.since': 2010,
+      });
+    });
+
+    it('should render paths in Cypher notation', () => {
+      const path = {
+        segments: [
+          { start: person(1, 'marko'), relationship: knows, end: person(2, 'vadas') },
+          { start: person(2, 'vadas'), relationship: { ...knows, startNodeId: 3, endNodeId: 2 }, end: person(3, 'josh') },
+        ],
+      };
+
+      expect(flattenRow({ p: path })).toEqual({ p: '(1)-[:KNOWS]->(2)<-[:KNOWS]-(3)' });
+      expect(flattenRow({ p: { segments: [{ start: person(1, 'marko'), relationship: null, end: person(2, 'vadas') }] } }))
+        .toEqual({ p: '(1)--(2)' });
+    });
+
+    it('should flatten maps and keep lists as JSON', () => {
+      expect(flattenRow({ m: { a: 1, b: { c: 2 } }, l: [1, 2] })).toEqual({ 'm.a': 1, 'm.b.c': 2, l: '[1,2]' });
+      expect(flattenRow(new Map([['name', 'marko']]))).toEqual({ name: 'marko' });
+    });
+
+    it('should put values that are not records in a value column', () => {
+      expect(flattenRow('marko')).toEqual({ value: 'marko' });
+      expect(flattenRow(person(1, 'marko'))).toEqual({ 'value.id': 1, 'value.labels': ':Person', 'value.name': 'marko' });
+    });
+  });
+
+  describe('formatResult', () => {
+    const result = {
+      data: [{ name: 'marko', age: 29 }, { name: 'lop, "ripple"', lang: 'java' }],
+      metadata: { execution_time: 5, row_count: 2 },
+    };
+
+    it('should format the whole result as JSON', () => {
+      expect(formatResult(result, 'json')).toEqual([JSON.stringify(result, null, 2)]);
+      expect(formatResult(result, 'compact-json')).toEqual([JSON.stringify(result)]);
+    });
+
+    it('should format rows as JSON lines followed by the metadata', () => {
+      expect(formatResult(result, 'jsonl')).toEqual([
+        '{"name":"marko","age":29}\n{"name":"lop, \\"ripple\\"","lang":"java"}',
+        '{"metadata":{"execution_time":5,"row_count":2}}',
+      ]);
+    });
+
+    it('should format rows as CSV with quoted cells', () => {
+      expect(formatResult(result, 'csv')[0]).toBe('name,age,lang\nmarko,29,\n"lop, ""ripple""",,java');
+    });
+
+    it('should format rows as a Markdown table', () => {
+      const table = formatResult({ data: [{ text: 'a|b\nc' }], metadata: {} }, 'markdown')[0];
+
+      expect(table).toBe('| text |\n| --- |\n| a\\|b<br>c |');
+      expect(formatResult({ data: [], metadata: {} }, 'markdown')[0]).toBe('_No rows_');
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import gremlin from 'gremlin';
+import {
+  buildTraversal,
+  findBindings,
+  forEachStep,
+  GremlinParseError,
+  MissingParameterError,
+  parseGremlin,
+  validateBindings,
+} from '../../src/utils/gremlin-parser';
+
+const g = gremlin.process.AnonymousTraversalSource.traversal().with_(new gremlin.structure.Graph());
+const translator = new gremlin.process.Translator('g');
+
+/**
+ * Parses a query, builds it against a disconnected traversal source and
+ * renders the resulting bytecode back to Gremlin
+ */
+function roundTrip(query: string, parameters: Record<string, any> = {}): string {
+  const parsed = parseGremlin(query, Object.keys(parameters));
+  return translator.translate(buildTraversal(parsed, g, gremlin, parameters).getBytecode());
+}
+
+describe('Gremlin Parser', () => {
+  describe('parseGremlin', () => {
+    it('should parse steps with literal arguments', () => {
+      expect(parseGremlin("g.V(1).has('name', \"marko\").limit(10)")).toEqual({
+        source: 'g',
+        steps: [
+          { name: 'V', args: [{ type: 'literal', value: 1 }] },
+          { name: 'has', args: [{ type: 'literal', value: 'name' }, { type: 'literal', value: 'marko' }] },
+          { name: 'limit', args: [{ type: 'literal', value: 10 }] },
+        ],
+      });
+    });
+
+    it('should parse numbers, booleans, null, escapes and long suffixes', () => {
+      const { steps } = parseGremlin("g.inject(-1.5, 2L, true, null, 'it\\'s')");
+
+      expect(steps[0].args).toEqual([
+        { type: 'literal', value: -1.5 },
+        { type: 'literal', value: 2, long: true },
+        { type: 'literal', value: true },
+        { type: 'literal', value: null },
+        { type: 'literal', value: "it's" },
+      ]);
+    });
+
+    it('should parse lists and maps', () => {
+      const { steps } = parseGremlin("g.inject([1, 2], [name: 'marko', 'age': 29], [:])");
+
+      expect(steps[0].args).toEqual([
+        { type: 'list', items: [{ type: 'literal', value: 1 }, { type: 'literal', value: 2 }] },
+        {
+          type: 'map',
+          entries: [
+            [{ type: 'literal', value: 'name' }, { type: 'literal', value: 'marko' }],
+            [{ type: 'literal', value: 'age' }, { type: 'literal', value: 29 }],
+          ],
+        },
+        { type: 'map', entries: [] },
+      ]);
+    });
+
+    it('should replace terminal steps', () => {
+      expect(parseGremlin('g.V().toList()').steps.map(step => step.name)).toEqual(['V']);
+      expect(parseGremlin('g.V().next()').steps[1]).toEqual({ name: 'limit', args: [{ type: 'literal', value: 1 }] });
+      expect(parseGremlin('g.V().next(5);').steps[1]).toEqual({ name: 'limit', args: [{ type: 'literal', value: 5 }] });
+    });
+
+    it('should parse bare names as parameter bindings', () => {
+      const { steps } = parseGremlin("g.V().has('name', name).limit(n)");
+
+      expect(steps[1].args[1]).toEqual({ type: 'binding', name: 'name' });
+      expect(steps[2].args).toEqual([{ type: 'binding', name: 'n' }]);
+    });
+
+    it('should prefer supplied parameters over enum values of the same name', () => {
+      expect(parseGremlin('g.V(id)').steps[0].args).toEqual([{ type: 'enum', enumType: 'T', name: 'id' }]);
+      expect(parseGremlin('g.V(id)', ['id']).steps[0].args).toEqual([{ type: 'binding', name: 'id' }]);
+    });
+
+    it('should reject anything that is not a traversal', () => {
+      expect(() => parseGremlin('System.exit(0)')).toThrow(GremlinParseError);
+      expect(() => parseGremlin("g.V().constructor.constructor('return process')()")).toThrow("unknown step 'constructor'");
+      expect(() => parseGremlin('g.V().map{ it.get() }')).toThrow('lambdas are not supported');
+      expect(() => parseGremlin('g.V().out(x => x)')).toThrow(GremlinParseError);
+      expect(() => parseGremlin('g.out()')).toThrow("'out' is not a traversal source step");
+      expect(() => parseGremlin('g.V().has(java.lang.System)')).toThrow("unknown identifier 'java'");
+      expect(() => parseGremlin("g.V().has('name', 'marko'")).toThrow("expected ')' but found end of query");
+      expect(() => parseGremlin('g.V(); g.E()')).toThrow("unexpected 'g'");
+      expect(() => parseGremlin('g.V().toList().count()')).toThrow("'toList()' can only end a traversal");
+    });
+
+    it('should report the position of syntax errors', () => {
+      try {
+        parseGremlin("g.V().has('name',, 1)");
+        expect.fail('should have thrown');
+      } catch (error: any) {
+        expect(error.position).toBe(17);
+        expect(error.message).toBe("Gremlin syntax error at position 17: unexpected ','");
+      }
+    });
+  });
+
+  describe('buildTraversal', () => {
+    it('should build simple traversals', () => {
+      expect(roundTrip("g.V().hasLabel('person').out('knows').values('name')"))
+        .toBe("g.V().hasLabel('person').out('knows').values('name')");
+    });
+
+    it('should map reserved step names', () => {
+      expect(roundTrip("g.V().in('knows').as('a').inE().outV()"))
+        .toBe("g.V().in('knows').as('a').inE().outV()");
+    });
+
+    it('should build predicates', () => {
+      expect(roundTrip("g.V().has('age', P.gt(30)).has('name', TextP.containing('ar'))"))
+        .toBe("g.V().has('age', gt(30)).has('name', containing('ar'))");
+      expect(roundTrip("g.V().has('age', gt(20).and(lt(40)))"))
+        .toBe("g.V().has('age', and(gt(20), lt(40)))");
+      expect(roundTrip("g.V().has('name', P.not(P.within('a', 'b')))"))
+        .toBe("g.V().has('name', not(within('a','b')))");
+    });
+
+    it('should build enums', () => {
+      expect(roundTrip("g.V().order().by('age', Order.desc).path().by(T.id)"))
+        .toBe("g.V().order().by('age', desc).path().by(id)");
+      expect(roundTrip('g.V().group().by(label).by(count()).unfold().select(keys)'))
+        .toBe('g.V().group().by(label).by(__.count()).unfold().select(keys)');
+    });
+
+    it('should build anonymous traversals', () => {
+      expect(roundTrip('g.V(1).repeat(__.out()).times(2).where(not(out()))'))
+        .toBe('g.V(1).repeat(__.out()).times(2).where(__.not(__.out()))');
+      expect(roundTrip("g.V().project('n').by(values('name'))"))
+        .toBe("g.V().project('n').by(__.values('name'))");
+    });
+
+    it('should build map arguments as maps', () => {
+      const traversal = buildTraversal(parseGremlin("g.inject([name: 'marko'])"), g, gremlin);
+      const [, arg] = traversal.getBytecode().stepInstructions[0];
+
+      expect(arg).toEqual(new Map([['name', 'marko']]));
+    });
+  });
+
+  describe('parameter bindings', () => {
+    it('should bind parameter values into the traversal', () => {
+      expect(roundTrip("g.V().has('name', name).limit(n)", { name: 'marko', n: 5 }))
+        .toBe("g.V().has('name', 'marko').limit(5)");
+      expect(roundTrip("g.V().has('age', P.within(ages))", { ages: [29, 30] }))
+        .toBe("g.V().has('age', within(29,30))");
+      expect(roundTrip('g.V(id)', { id: 1 })).toBe('g.V(1)');
+    });
+
+    it('should pass object parameters as maps', () => {
+      const traversal = buildTraversal(parseGremlin('g.inject(props)'), g, gremlin, { props: { name: 'marko' } });
+      const [, arg] = traversal.getBytecode().stepInstructions[0];
+
+      expect(arg).toEqual(new Map([['name', 'marko']]));
+    });
+
+    it('should find bindings in nested traversals, collections and predicates', () => {
+      const parsed = parseGremlin("g.V().where(__.has('a', x)).has('b', P.gt(y)).inject([z: x])");
+
+      expect(findBindings(parsed)).toEqual(['x', 'y']);
+    });
+
+    it('should reject traversals with missing parameters', () => {
+      const parsed = parseGremlin("g.V().has('name', name).has('age', age)");
+
+      expect(() => validateBindings(parsed, { name: 'marko' })).toThrow(MissingParameterError);
+      expect(() => validateBindings(parsed, {})).toThrow('Missing value for query parameters: name, age');
+      expect(() => buildTraversal(parsed, g, gremlin, { age: 29 })).toThrow(
+        'Missing value for query parameter: name'
+      );
+      expect(() => validateBindings(parsed, { name: 'marko', age: null })).not.toThrow();
+    });
+  });
+
+  describe('forEachStep', () => {
+    it('should visit steps of nested traversals', () => {
+      const names: string[] = [];
+      forEachStep(parseGremlin("g.V().where(__.out().has('x', 1)).local(limit(1))").steps, step => names.push(step.name));
+
+      expect(names).toEqual(['V', 'where', 'out', 'has', 'local', 'limit']);
+    });
+  });
+});
@@ -1,8 +1,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Agent } from 'https';
+import gremlin from 'gremlin';
 import { GremlinClient } from '../../src/clients/gremlin';
 
-// Mock the gremlin module
-vi.mock('gremlin', () => {
+// Mock the gremlin module, keeping the real value classes for result conversion
+vi.mock('gremlin', async () => {
+  const actual: any = await vi.importActual('gremlin');
+  const real = actual.default || actual;
+
   const mockTraversal = {
     V: vi.fn().mockReturnThis(),
     limit: vi.fn().mockReturnThis(),
@@ -36,7 +44,7 @@ vi.mock('gremlin', () => {
     close: vi.fn().mockResolvedValue(undefined),
   };
 
-  return {
+  const api = {
     driver: {
       auth: {
         PlainTextSaslAuthenticator: vi.fn(),
@@ -44,15 +52,21 @@ vi.mock('gremlin', () => {
       DriverRemoteConnection: vi.fn().mockImplementation(() => mockDriverRemoteConnection),
     },
     structure: {
+      ...real.structure,
       Graph: vi.fn().mockImplementation(() => mockGraph),
     },
     process: {
+      EnumValue: real.process.EnumValue,
+      Traverser: real.process.Traverser,
+      t: real.process.t,
       traversal: vi.fn().mockReturnValue({
         withRemote: vi.fn().mockReturnValue(mockG),
       }),
     },
     Client: vi.fn().mockImplementation(() => mockClient),
   };
+
+  return { ...api, default: api };
 });
 
 describe('GremlinClient', () => {
@@ -99,6 +113,40 @@ describe('GremlinClient', () => {
     });
   });
 
+  describe('TLS', () => {
+    it('should connect through an agent carrying the TLS settings', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'puppygraph-gremlin-'));
+      writeFileSync(join(dir, 'ca.pem'), 'CA');
+      try {
+        const traversal: any = {
+          limit: vi.fn().mockReturnThis(),
+          count: vi.fn().mockReturnThis(),
+          next: vi.fn().mockResolvedValue({ value: 1 }),
+        };
+        vi.mocked(gremlin.driver.DriverRemoteConnection).mockImplementation(() => ({ close: vi.fn() }) as any);
+        vi.mocked(gremlin.structure.Graph).mockImplementation(() => ({
+          traversal: () => ({ withRemote: () => ({ V: () => traversal }) }),
+        }) as any);
+
+        client = new GremlinClient({
+          ...mockConfig,
+          url: 'wss://puppygraph:8182/gremlin',
+          tls: { caFile: join(dir, 'ca.pem'), serverName: 'puppygraph.internal' },
+        });
+
+        expect(await client.connect()).toBe(true);
+        const [url, options] = vi.mocked(gremlin.driver.DriverRemoteConnection).mock.calls[0] as any[];
+        expect(url).toBe('wss://puppygraph:8182/gremlin');
+        expect(options.agent).toBeInstanceOf(Agent);
+        expect(String(options.agent.options.ca)).toBe('CA');
+        expect(options.agent.options.servername).toBe('puppygraph.internal');
+        expect(options.agent.options.rejectUnauthorized).toBe(true);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
   describe('executeQuery', () => {
     it('should execute a Gremlin query successfully', async () => {
       // Just mock the whole executeQuery method for simplification
@@ -109,6 +157,150 @@ describe('GremlinClient', () => {
       expect(result).toEqual(mockResult);
     });
 
+    it('should build the traversal step by step on the traversal source', async () => {
+      const traversal: any = {
+        hasLabel: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockReturnThis(),
+        toList: vi.fn().mockResolvedValue([{ id: 1, label: 'person' }]),
+      };
+      const g = { V: vi.fn().mockReturnValue(traversal) };
+
+      Object.defineProperty(client, 'client', { value: { g }, writable: true });
+      Object.defineProperty(client, 'connected', { value: true, writable: true });
+
+      const result = await client.executeQuery("g.V().hasLabel('person').limit(5)");
+
+      expect(g.V).toHaveBeenCalledWith();
+      expect(traversal.hasLabel).toHaveBeenCalledWith('person');
+      expect(traversal.limit).toHaveBeenCalledWith(5);
+      expect(result).toEqual([{ id: 1, label: 'person' }]);
+    });
+
+    it('should reconnect and retry once when the password changed at its source', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'puppygraph-gremlin-'));
+      const path = join(dir, 'password');
+      writeFileSync(path, 'rotated\n');
+      try {
+        const rejected = { toList: vi.fn().mockRejectedValue(Object.assign(new Error('Server error'), { statusCode: 401 })) };
+        const stale = { V: vi.fn().mockReturnValue(rejected) };
+        const traversal: any = {
+          limit: vi.fn().mockReturnThis(),
+          count: vi.fn().mockReturnThis(),
+          next: vi.fn().mockResolvedValue({ value: 1 }),
+          toList: vi.fn().mockResolvedValue([1]),
+        };
+        const fresh = { V: vi.fn().mockReturnValue(traversal) };
+        const close = vi.fn();
+        vi.mocked(gremlin.driver.DriverRemoteConnection).mockImplementation(() => ({ close }) as any);
+        vi.mocked(gremlin.structure.Graph).mockImplementation(() => ({
+          traversal: () => ({ withRemote: () => fresh }),
+        }) as any);
+
+        client = new GremlinClient({ ...mockConfig, passwordSource: { type: 'file', path } });
+        Object.defineProperty(client, 'client', { value: { g: stale, close }, writable: true });
+        Object.defineProperty(client, 'connected', { value: true, writable: true });
+
+        expect(await client.executeQuery('g.V()')).toEqual([1]);
+        expect(gremlin.driver.auth.PlainTextSaslAuthenticator).toHaveBeenCalledWith('puppygraph', 'rotated');
+        expect(rejected.toList).toHaveBeenCalledTimes(1);
+        expect(close).toHaveBeenCalledTimes(1);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject queries that are not traversals', async () => {
+      const g = { V: vi.fn() };
+
+      Object.defineProperty(client, 'client', { value: { g }, writable: true });
+      Object.defineProperty(client, 'connected', { value: true, writable: true });
+
+      await expect(client.executeQuery("g.V().constructor.constructor('return process')()")).rejects.toThrow(
+        'Gremlin syntax error'
+      );
+      expect(g.V).not.toHaveBeenCalled();
+    });
+
+    it('should bind parameters into the traversal', async () => {
+      const traversal: any = {
+        has: vi.fn().mockReturnThis(),
+        toList: vi.fn().mockResolvedValue([]),
+      };
+      const g = { V: vi.fn().mockReturnValue(traversal) };
+
+      Object.defineProperty(client, 'client', { value: { g }, writable: true });
+      Object.defineProperty(client, 'connected', { value: true, writable: true });
+
+      await client.executeQuery("g.V().has('name', name)", { name: 'marko' });
+
+      expect(traversal.has).toHaveBeenCalledWith('name', 'marko');
+    });
+
+    it('should normalize results into the Cypher result model', async () => {
+      const traversal: any = {
+        toList: vi.fn().mockResolvedValue([new gremlin.structure.Vertex(1, 'person', [])]),
+      };
+      const g = { V: vi.fn().mockReturnValue(traversal) };
+
+      Object.defineProperty(client, 'client', { value: { g }, writable: true });
+      Object.defineProperty(client, 'connected', { value: true, writable: true });
+
+      expect(await client.executeQuery('g.V()')).toEqual([{ id: 1, labels: ['person'], properties: {} }]);
+    });
+
+    it('should send the timeout as the evaluation timeout of the request', async () => {
+      const traversal: any = { toList: vi.fn().mockResolvedValue([]) };
+      const timed = { V: vi.fn().mockReturnValue(traversal) };
+      const g = { V: vi.fn(), with_: vi.fn().mockReturnValue(timed) };
+
+      Object.defineProperty(client, 'client', { value: { g }, writable: true });
+      Object.defineProperty(client, 'connected', { value: true, writable: true });
+
+      await client.executeQuery('g.V()', {}, { timeoutMs: 5000 });
+
+      expect(g.with_).toHaveBeenCalledWith('evaluationTimeout', 5000);
+      expect(timed.V).toHaveBeenCalled();
+      expect(g.V).not.toHaveBeenCalled();
+    });
+
+    it('should reject pending queries that time out', async () => {
+      const traversal: any = { toList: vi.fn().mockReturnValue(new Promise(() => undefined)) };
+      const g = { V: vi.fn().mockReturnValue(traversal) };
+
+      Object.defineProperty(client, 'client', { value: { g }, writable: true });
+      Object.defineProperty(client, 'connected', { value: true, writable: true });
+
+      await expect(client.executeQuery('g.V()', {}, { timeoutMs: 10 })).rejects.toThrow('Query timed out after 10 ms');
+    });
+
+    it('should profile traversals by appending the profile() step', async () => {
+      const metrics = { dur: 1, metrics: [] };
+      const traversal: any = {
+        hasLabel: vi.fn().mockReturnThis(),
+        profile: vi.fn().mockReturnThis(),
+        toList: vi.fn().mockResolvedValue([metrics]),
+      };
+      const g = { V: vi.fn().mockReturnValue(traversal) };
+
+      Object.defineProperty(client, 'client', { value: { g }, writable: true });
+      Object.defineProperty(client, 'connected', { value: true, writable: true });
+
+      expect(await client.profileQuery("g.V().hasLabel('person')")).toBe(metrics);
+      expect(traversal.profile).toHaveBeenCalledWith();
+    });
+
+    it('should reject queries with missing parameters on every execution path', async () => {
+      const submit = vi.fn();
+
+      Object.defineProperty(client, 'client', { value: { _client: { submit } }, writable: true });
+      Object.defineProperty(client, 'connected', { value: true, writable: true });
+
+      await expect(client.executeQuery("g.V().has('name', name)", {})).rejects.toThrow(
+        'Missing value for query parameter: name'
+      );
+      expect(submit).not.toHaveBeenCalled();
+    });
+
     it('should throw an error if not connected', async () => {
       // Original implementation is simple enough to test directly
       vi.spyOn(client, 'isConnected').mockReturnValue(false);
@@ -119,6 +311,78 @@ describe('GremlinClient', () => {
     });
   });
 
+  describe('ping', () => {
+    it('should run a trivial traversal with the timeout', async () => {
+      const executeQuery = vi.spyOn(client, 'executeQuery').mockResolvedValue([1]);
+
+      expect(await client.ping(5000)).toBe(true);
+      expect(executeQuery).toHaveBeenCalledWith('g.V().limit(1).count()', {}, { timeoutMs: 5000 });
+      expect(client.getConnectionError()).toBeNull();
+    });
+
+    it('should mark the client as disconnected when the endpoint does not answer', async () => {
+      (client as any).connected = true;
+      vi.spyOn(client, 'executeQuery').mockRejectedValue(new Error('Connection closed'));
+
+      expect(await client.ping(5000)).toBe(false);
+      expect(client.isConnected()).toBe(false);
+      expect(client.getConnectionError()).toBe('Connection closed');
+    });
+  });
+
+  describe('convertValue', () => {
+    const { Vertex, Edge, Path, VertexProperty, toLong } = gremlin.structure;
+    const marko = new Vertex(1, 'person', [new VertexProperty(10, 'name', 'marko'), new VertexProperty(11, 'age', 29)]);
+    const vadas = new Vertex(2, 'person', []);
+    const knows = new Edge(7, marko, 'knows', vadas, { weight: 0.5 });
+
+    it('should convert vertices and edges into nodes and relationships', () => {
+      expect(client.convertValue(marko)).toEqual({
+        id: 1,
+        labels: ['person'],
+        properties: { name: 'marko', age: 29 },
+      });
+      expect(client.convertValue(knows)).toEqual({
+        id: 7,
+        type: 'knows',
+        startNodeId: 1,
+        endNodeId: 2,
+        properties: { weight: 0.5 },
+      });
+    });
+
+    it('should convert paths into segments', () => {
+      const withEdges = client.convertValue(new Path([[], [], []], [marko, knows, vadas]));
+      expect(withEdges.segments).toHaveLength(1);
+      expect(withEdges.segments[0]).toMatchObject({ start: { id: 1 }, relationship: { id: 7 }, end: { id: 2 } });
+
+      const withoutEdges = client.convertValue(new Path([[], []], [marko, vadas]));
+      expect(withoutEdges.segments[0]).toMatchObject({ start: { id: 1 }, relationship: null, end: { id: 2 } });
+
+      expect(client.convertValue(new Path([[], []], ['marko', 'vadas']))).toEqual(['marko', 'vadas']);
+    });
+
+    it('should convert maps, longs and enum keys', () => {
+      const valueMap = new Map<any, any>([
+        [gremlin.process.t.id, 1],
+        ['name', ['marko']],
+        ['nicknames', ['m', 'mk']],
+      ]);
+
+      expect(client.convertValue(valueMap)).toEqual({ id: 1, name: 'marko', nicknames: ['m', 'mk'] });
+      expect(client.convertValue(new Map([['person', toLong(3)]]))).toEqual({ person: 3 });
+      expect(client.convertValue(new Map([['names', ['marko']], ['count', 1]]))).toEqual({ names: ['marko'], count: 1 });
+    });
+
+    it('should expand traversers by their bulk', () => {
+      expect(client.convertResults([new gremlin.process.Traverser('marko', 2), 'vadas'])).toEqual([
+        'marko',
+        'marko',
+        'vadas',
+      ]);
+    });
+  });
+
   describe('close', () => {
     it('should close the connection', async () => {
       const mockClientWithClose = {
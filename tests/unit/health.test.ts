@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { BackendMonitor, backoffDelay, DOWN_AFTER_FAILURES } from '../../src/utils/health';
+
+const options = { intervalMs: 30000, initialDelayMs: 1000, maxDelayMs: 8000 };
+
+describe('backoffDelay', () => {
+  it('should double the delay on every failure, up to the maximum', () => {
+    const noJitter = () => 0.999999;
+
+    expect(backoffDelay(1, options, noJitter)).toBe(1000);
+    expect(backoffDelay(2, options, noJitter)).toBe(2000);
+    expect(backoffDelay(3, options, noJitter)).toBe(4000);
+    expect(backoffDelay(4, options, noJitter)).toBe(8000);
+    expect(backoffDelay(10, options, noJitter)).toBe(8000);
+  });
+
+  it('should add jitter of up to half the delay', () => {
+    expect(backoffDelay(3, options, () => 0)).toBe(2000);
+    expect(backoffDelay(3, options, () => 0.5)).toBe(3000);
+  });
+});
+
+describe('BackendMonitor', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should move from connecting to healthy, degraded and down', () => {
+    let time = Date.parse('2024-01-01T00:00:00Z');
+    const monitor = new BackendMonitor(async () => undefined, () => time);
+
+    expect(monitor.getHealth()).toEqual({
+      state: 'connecting',
+      last_success: null,
+      last_failure: null,
+      last_error: null,
+      consecutive_failures: 0,
+      next_probe: null,
+    });
+
+    monitor.recordSuccess();
+    expect(monitor.getHealth().state).toBe('healthy');
+
+    time += 1000;
+    monitor.recordFailure('Connection refused');
+    expect(monitor.getHealth()).toMatchObject({
+      state: 'degraded',
+      last_success: '2024-01-01T00:00:00.000Z',
+      last_failure: '2024-01-01T00:00:01.000Z',
+      last_error: 'Connection refused',
+      consecutive_failures: 1,
+    });
+
+    for (let i = 1; i < DOWN_AFTER_FAILURES; i++) {
+      monitor.recordFailure('Connection refused');
+    }
+    expect(monitor.getHealth().state).toBe('down');
+
+    monitor.recordSuccess();
+    expect(monitor.getHealth()).toMatchObject({ state: 'healthy', last_error: null, consecutive_failures: 0 });
+  });
+
+  it('should stay connecting until a probe succeeds or the backend is down', () => {
+    const monitor = new BackendMonitor(async () => undefined);
+
+    monitor.recordFailure('Connection refused');
+    expect(monitor.getHealth().state).toBe('connecting');
+
+    monitor.recordFailure('Connection refused');
+    monitor.recordFailure('Connection refused');
+    expect(monitor.getHealth().state).toBe('down');
+  });
+
+  it('should record the outcome of checks', async () => {
+    const probe = vi.fn().mockRejectedValueOnce(new Error('Connection refused')).mockResolvedValueOnce(undefined);
+    const monitor = new BackendMonitor(probe);
+
+    expect(await monitor.check()).toBe(false);
+    expect(monitor.getHealth().last_error).toBe('Connection refused');
+    expect(await monitor.check()).toBe(true);
+    expect(monitor.getHealth().state).toBe('healthy');
+  });
+
+  it('should probe at the interval while healthy and back off while failing', async () => {
+    vi.useFakeTimers();
+    const probe = vi.fn().mockResolvedValue(undefined);
+    const monitor = new BackendMonitor(probe, Date.now, () => 0.999999);
+    monitor.recordSuccess();
+
+    monitor.start(options);
+    expect(monitor.isRunning()).toBe(true);
+    expect(monitor.getHealth().next_probe).toBe(new Date(Date.now() + 30000).toISOString());
+
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(probe).toHaveBeenCalledTimes(1);
+
+    probe.mockRejectedValue(new Error('Connection refused'));
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(probe).toHaveBeenCalledTimes(2);
+
+    // Retries after 1, 2 and 4 seconds
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(probe).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(probe).toHaveBeenCalledTimes(4);
+    expect(monitor.getHealth().state).toBe('down');
+
+    probe.mockResolvedValue(undefined);
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(probe).toHaveBeenCalledTimes(5);
+    expect(monitor.getHealth().state).toBe('healthy');
+
+    monitor.stop();
+    expect(monitor.isRunning()).toBe(false);
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(probe).toHaveBeenCalledTimes(5);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { AddressInfo } from 'node:net';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { McpHttpServer, startHttpServer } from '../../src/transports/http';
+
+describe('HTTP Transport', () => {
+  let httpServer: McpHttpServer;
+  let baseUrl: string;
+  let serversCreated = 0;
+  const servers: McpServer[] = [];
+
+  const createServer = () => {
+    serversCreated++;
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    server.tool('ping', 'Returns pong', {}, async () => ({
+      content: [{ type: 'text' as const, text: 'pong' }],
+    }));
+    vi.spyOn(server, 'close');
+    servers.push(server);
+    return server;
+  };
+
+  beforeAll(async () => {
+    httpServer = await startHttpServer(createServer, { type: 'http', host: '127.0.0.1', port: 0, sessionIdleTimeoutMs: 0 });
+    const { port } = httpServer.server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await httpServer.close();
+  });
+
+  it('should serve concurrent Streamable HTTP sessions', async () => {
+    const created = serversCreated;
+    const clients = [new Client({ name: 'a', version: '1.0.0' }), new Client({ name: 'b', version: '1.0.0' })];
+    const transports = clients.map(() => new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+
+    await Promise.all(clients.map((client, i) => client.connect(transports[i])));
+
+    expect(transports[0].sessionId).toBeDefined();
+    expect(transports[0].sessionId).not.toBe(transports[1].sessionId);
+    expect(serversCreated - created).toBe(2);
+
+    const results = await Promise.all(clients.map((client) => client.callTool({ name: 'ping', arguments: {} })));
+    for (const result of results) {
+      expect(result.content).toEqual([{ type: 'text', text: 'pong' }]);
+    }
+
+    await Promise.all(transports.map((transport) => transport.terminateSession()));
+    await Promise.all(clients.map((client) => client.close()));
+  });
+
+  it('should serve legacy SSE clients', async () => {
+    const client = new Client({ name: 'legacy', version: '1.0.0' });
+    await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+
+    const result = await client.callTool({ name: 'ping', arguments: {} });
+    expect(result.content).toEqual([{ type: 'text', text: 'pong' }]);
+
+    const server = servers[servers.length - 1];
+    await client.close();
+    await vi.waitFor(() => expect(server.close).toHaveBeenCalledTimes(1));
+  });
+
+  it('should close open sessions when the HTTP server closes', async () => {
+    const shutdownServer = await startHttpServer(createServer, { type: 'http', host: '127.0.0.1', port: 0, sessionIdleTimeoutMs: 0 });
+    const { port } = shutdownServer.server.address() as AddressInfo;
+    const created = servers.length;
+
+    const sseClient = new Client({ name: 'legacy', version: '1.0.0' });
+    await sseClient.connect(new SSEClientTransport(new URL(`http://127.0.0.1:${port}/sse`)));
+    const streamableClient = new Client({ name: 'a', version: '1.0.0' });
+    await streamableClient.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)));
+
+    await shutdownServer.close();
+
+    for (const server of servers.slice(created)) {
+      expect(server.close).toHaveBeenCalledTimes(1);
+    }
+
+    await Promise.all([sseClient.close(), streamableClient.close()]);
+  }, 10000);
+
+  it('should close Streamable HTTP sessions left idle', async () => {
+    const idleServer = await startHttpServer(createServer, { type: 'http', host: '127.0.0.1', port: 0, sessionIdleTimeoutMs: 50 });
+    const { port } = idleServer.server.address() as AddressInfo;
+    const created = servers.length;
+
+    try {
+      const client = new Client({ name: 'a', version: '1.0.0' });
+      const transport = new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`));
+      await client.connect(transport);
+      // Only the client's notification stream stays open, so end it to leave the session idle
+      await transport.close();
+
+      await vi.waitFor(() => expect(servers[created].close).toHaveBeenCalledTimes(1), { timeout: 2000 });
+
+      const response = await fetch(`http://127.0.0.1:${port}/mcp`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          'mcp-session-id': transport.sessionId!,
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+      expect(response.status).toBe(404);
+    } finally {
+      await idleServer.close();
+    }
+  });
+
+  it('should reject requests without a session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject unknown session ids', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'mcp-session-id': 'does-not-exist',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
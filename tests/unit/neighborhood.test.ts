@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { buildHopQuery, buildVertexLookup, SubgraphBuilder } from '../../src/utils/neighborhood';
+import { parseGremlin } from '../../src/utils/gremlin-parser';
+
+const node = (id: number) => ({ id, labels: ['person'], properties: {} });
+const edge = (id: number, startNodeId: number, endNodeId: number) => ({ id, type: 'knows', startNodeId, endNodeId, properties: {} });
+
+describe('buildVertexLookup', () => {
+  it('should look up vertices by id', () => {
+    expect(buildVertexLookup({ id: 1 }, 'cypher', 10)).toEqual({
+      query: 'MATCH (n) WHERE id(n) = $id RETURN n AS node',
+      parameters: { id: 1 }
+    });
+    expect(buildVertexLookup({ id: 'person[1]' }, 'gremlin', 10)).toEqual({
+      query: "g.V('person[1]').project('node').by()",
+      parameters: {}
+    });
+    expect(buildVertexLookup({ id: 1 }, 'gremlin', 10).query).toBe("g.V(1L).project('node').by()");
+  });
+
+  it('should look up vertices by key property with the value as a parameter', () => {
+    expect(buildVertexLookup({ label: 'person', key: 'full name', value: "o'brien" }, 'cypher', 10)).toEqual({
+      query: 'MATCH (n:person) WHERE n.`full name` = $value RETURN n AS node LIMIT 10',
+      parameters: { value: "o'brien" }
+    });
+
+    const lookup = buildVertexLookup({ label: 'person', key: 'name', value: 'marko' }, 'gremlin', 10);
+    expect(lookup).toEqual({
+      query: "g.V().has('person', 'name', value).limit(10).project('node').by()",
+      parameters: { value: 'marko' }
+    });
+    expect(() => parseGremlin(lookup.query, ['value'])).not.toThrow();
+  });
+
+  it('should reject incomplete references', () => {
+    expect(() => buildVertexLookup({ label: 'person', key: 'name' }, 'cypher', 10)).toThrow(
+      'A vertex reference needs an id, or a label, key and value'
+    );
+    expect(() => buildVertexLookup({ id: 1.5 }, 'gremlin', 10)).toThrow('numeric ids must be integers');
+  });
+});
+
+describe('buildHopQuery', () => {
+  const options = { depth: 1, limit: 5, maxEdges: 100 };
+
+  it('should build Cypher hops limited per vertex and in total', () => {
+    expect(buildHopQuery([1, 2], 'cypher', { ...options, direction: 'out', edgeLabels: ['knows', 'created'] }, 40)).toEqual({
+      query: 'MATCH (n)-[r:knows|created]->(m) WHERE id(n) IN $ids '
+        + 'WITH n, collect({edge: r, node: m})[0..5] AS hops UNWIND hops AS hop RETURN hop.edge AS edge, hop.node AS node LIMIT 40',
+      parameters: { ids: [1, 2] }
+    });
+    expect(buildHopQuery([1], 'cypher', { ...options, direction: 'in' }, 40).query).toContain('MATCH (n)<-[r]-(m)');
+    expect(buildHopQuery([1], 'cypher', { ...options, direction: 'both' }, 40).query).toContain('MATCH (n)-[r]-(m)');
+  });
+
+  it('should build Gremlin hops the server accepts', () => {
+    const out = buildHopQuery([1, 'a'], 'gremlin', { ...options, direction: 'out', edgeLabels: ['knows'] }, 40);
+    expect(out).toEqual({
+      query: "g.V(ids).local(__.outE('knows').limit(5).project('edge', 'node').by().by(__.inV())).limit(40)",
+      parameters: { ids: [1, 'a'] }
+    });
+
+    const both = buildHopQuery([1], 'gremlin', { ...options, direction: 'both' }, 40);
+    expect(both.query).toBe(
+      "g.V(ids).local(__.union(__.outE().project('edge', 'node').by().by(__.inV()), "
+        + "__.inE().project('edge', 'node').by().by(__.outV())).limit(5)).limit(40)"
+    );
+    expect(() => parseGremlin(out.query, ['ids'])).not.toThrow();
+    expect(() => parseGremlin(both.query, ['ids'])).not.toThrow();
+  });
+
+  it('should reject numeric ids that are not integers', () => {
+    expect(() => buildHopQuery([1.5], 'gremlin', { ...options, direction: 'out' }, 40)).toThrow('numeric ids must be integers');
+  });
+});
+
+describe('SubgraphBuilder', () => {
+  it('should deduplicate nodes and edges by id', () => {
+    const subgraph = new SubgraphBuilder();
+    expect(subgraph.addNode(node(1))).toBe(true);
+    expect(subgraph.addNode(node(1))).toBe(false);
+    expect(subgraph.addEdge(edge(10, 1, 2))).toBe(true);
+    expect(subgraph.addEdge(edge(10, 1, 2))).toBe(false);
+
+    expect(subgraph.build()).toEqual({ nodes: [node(1)], edges: [edge(10, 1, 2)] });
+  });
+
+  it('should return new neighbors and vertices that reached the limit', () => {
+    const subgraph = new SubgraphBuilder();
+    subgraph.addNode(node(1));
+    subgraph.addNode(node(2));
+
+    const hop = subgraph.addHop([
+      { edge: edge(10, 1, 3), node: node(3) },
+      { edge: edge(11, 4, 1), node: node(4) },
+      { edge: edge(12, 2, 3), node: node(3) }
+    ], 2);
+
+    expect(hop).toEqual({ frontier: [3, 4], limited: [1] });
+    expect(subgraph.build().edges.map(e => e.id)).toEqual([10, 11, 12]);
+  });
+});
@@ -1,4 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { Neo4jClient } from '../../src/clients/neo4j';
 
 // Mock the neo4j-driver module
@@ -51,6 +54,12 @@ vi.mock('neo4j-driver', () => {
       },
     },
     isInt: vi.fn().mockImplementation((value) => typeof value === 'object' && value !== null && 'toNumber' in value),
+    isDate: (value: any) => value?.temporal === 'Date',
+    isDateTime: (value: any) => value?.temporal === 'DateTime',
+    isLocalDateTime: (value: any) => value?.temporal === 'LocalDateTime',
+    isTime: (value: any) => value?.temporal === 'Time',
+    isLocalTime: (value: any) => value?.temporal === 'LocalTime',
+    isDuration: (value: any) => value?.temporal === 'Duration',
   };
 });
 
@@ -136,6 +145,172 @@ describe('Neo4jClient', () => {
     });
   });
 
+  describe('TLS', () => {
+    it('should pass the TLS settings as encryption options of the driver', async () => {
+      const mockSession = { run: vi.fn().mockResolvedValue({ records: [] }), close: vi.fn().mockResolvedValue(undefined) };
+      const mockDriver = { session: vi.fn().mockReturnValue(mockSession), close: vi.fn().mockResolvedValue(undefined) };
+      const neo4jModule = await import('neo4j-driver');
+      vi.spyOn(neo4jModule, 'driver').mockImplementation(() => mockDriver as any);
+
+      client = new Neo4jClient({
+        ...mockConfig,
+        url: 'bolt+s://puppygraph:7687',
+        tls: { caFile: '/etc/ssl/ca.pem', certFile: '/etc/ssl/client.pem', keyFile: '/etc/ssl/client.key' }
+      });
+      await client.connect();
+
+      // The driver rejects encryption options for +s URLs
+      expect(neo4jModule.driver).toHaveBeenCalledWith('bolt://puppygraph:7687', undefined, {
+        disableLosslessIntegers: true,
+        encrypted: 'ENCRYPTION_ON',
+        trust: 'TRUST_CUSTOM_CA_SIGNED_CERTIFICATES',
+        trustedCertificates: ['/etc/ssl/ca.pem'],
+        clientCertificate: { certfile: '/etc/ssl/client.pem', keyfile: '/etc/ssl/client.key' }
+      });
+    });
+
+    it('should keep the trust of +ssc URLs and trust all certificates in insecure mode', async () => {
+      const mockSession = { run: vi.fn().mockResolvedValue({ records: [] }), close: vi.fn().mockResolvedValue(undefined) };
+      const mockDriver = { session: vi.fn().mockReturnValue(mockSession), close: vi.fn().mockResolvedValue(undefined) };
+      const neo4jModule = await import('neo4j-driver');
+      vi.spyOn(neo4jModule, 'driver').mockImplementation(() => mockDriver as any);
+
+      await new Neo4jClient({
+        ...mockConfig,
+        url: 'neo4j+ssc://puppygraph:7687',
+        tls: { certFile: '/etc/ssl/client.pem', keyFile: '/etc/ssl/client.key' }
+      }).connect();
+      await new Neo4jClient({ ...mockConfig, tls: { insecure: true } }).connect();
+
+      expect(neo4jModule.driver).toHaveBeenNthCalledWith(1, 'neo4j://puppygraph:7687', undefined, expect.objectContaining({
+        encrypted: 'ENCRYPTION_ON',
+        trust: 'TRUST_ALL_CERTIFICATES'
+      }));
+      expect(neo4jModule.driver).toHaveBeenNthCalledWith(2, 'bolt://localhost:7687', undefined, expect.objectContaining({
+        encrypted: 'ENCRYPTION_ON',
+        trust: 'TRUST_ALL_CERTIFICATES'
+      }));
+    });
+  });
+
+  describe('password refresh', () => {
+    let dir: string;
+    let passwordFile: string;
+    const unauthorized = Object.assign(new Error('The client is unauthorized due to authentication failure.'), {
+      code: 'Neo.ClientError.Security.Unauthorized'
+    });
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'puppygraph-neo4j-'));
+      passwordFile = join(dir, 'password');
+      writeFileSync(passwordFile, 'rotated\n');
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should reconnect with the password read again after an authentication failure', async () => {
+      const mockSession = {
+        run: vi.fn().mockRejectedValueOnce(unauthorized).mockResolvedValueOnce({ records: [] }),
+        close: vi.fn().mockResolvedValue(undefined)
+      };
+      const mockDriver = {
+        session: vi.fn().mockReturnValue(mockSession),
+        close: vi.fn().mockResolvedValue(undefined)
+      };
+      const neo4jModule = await import('neo4j-driver');
+      vi.spyOn(neo4jModule, 'driver').mockImplementation(() => mockDriver as any);
+
+      client = new Neo4jClient({ ...mockConfig, passwordSource: { type: 'file', path: passwordFile } });
+
+      expect(await client.connect()).toBe(true);
+      expect(neo4jModule.auth.basic).toHaveBeenNthCalledWith(1, 'neo4j', 'password');
+      expect(neo4jModule.auth.basic).toHaveBeenNthCalledWith(2, 'neo4j', 'rotated');
+      expect(mockDriver.close).toHaveBeenCalledTimes(1);
+      expect(client.getConnectionError()).toBeNull();
+    });
+
+    it('should retry a query once when the password changed at its source', async () => {
+      const mockSession = {
+        run: vi.fn()
+          .mockRejectedValueOnce(unauthorized)
+          .mockResolvedValueOnce({ records: [] })
+          .mockResolvedValueOnce({ records: [{ keys: ['count'], get: () => 3 }] }),
+        close: vi.fn().mockResolvedValue(undefined)
+      };
+      const mockDriver = {
+        session: vi.fn().mockReturnValue(mockSession),
+        close: vi.fn().mockResolvedValue(undefined)
+      };
+      const neo4jModule = await import('neo4j-driver');
+      vi.spyOn(neo4jModule, 'driver').mockImplementation(() => mockDriver as any);
+
+      client = new Neo4jClient({ ...mockConfig, passwordSource: { type: 'file', path: passwordFile } });
+      Object.defineProperty(client, 'driver', { value: mockDriver, writable: true, configurable: true });
+      Object.defineProperty(client, 'connected', { value: true, writable: true, configurable: true });
+
+      expect(await client.executeQuery('MATCH (n) RETURN count(n) AS count')).toEqual([{ count: 3 }]);
+      expect(neo4jModule.auth.basic).toHaveBeenCalledWith('neo4j', 'rotated');
+      expect(mockSession.run).toHaveBeenCalledTimes(3);
+    });
+
+    it('should recreate the driver once for concurrent failures and close the old one after the new one works', async () => {
+      const oldSession = { run: vi.fn().mockRejectedValue(unauthorized), close: vi.fn().mockResolvedValue(undefined) };
+      const oldDriver = { session: vi.fn().mockReturnValue(oldSession), close: vi.fn().mockResolvedValue(undefined) };
+      const newSession = { run: vi.fn().mockResolvedValue({ records: [] }), close: vi.fn().mockResolvedValue(undefined) };
+      const newDriver = { session: vi.fn().mockReturnValue(newSession), close: vi.fn().mockResolvedValue(undefined) };
+      const neo4jModule = await import('neo4j-driver');
+      vi.spyOn(neo4jModule, 'driver').mockImplementation(() => newDriver as any);
+
+      client = new Neo4jClient({ ...mockConfig, passwordSource: { type: 'file', path: passwordFile } });
+      Object.defineProperty(client, 'driver', { value: oldDriver, writable: true, configurable: true });
+      Object.defineProperty(client, 'connected', { value: true, writable: true, configurable: true });
+
+      await Promise.all([client.executeQuery('RETURN 1'), client.executeQuery('RETURN 2')]);
+
+      expect(neo4jModule.driver).toHaveBeenCalledTimes(1);
+      expect(oldDriver.close).toHaveBeenCalledTimes(1);
+      expect(newDriver.close).not.toHaveBeenCalled();
+    });
+
+    it('should keep the current driver when the new one cannot connect', async () => {
+      const oldDriver = {
+        session: vi.fn().mockReturnValue({ run: vi.fn().mockRejectedValue(unauthorized), close: vi.fn() }),
+        close: vi.fn().mockResolvedValue(undefined)
+      };
+      const newDriver = {
+        session: vi.fn().mockReturnValue({ run: vi.fn().mockRejectedValue(new Error('Connection refused')), close: vi.fn() }),
+        close: vi.fn().mockResolvedValue(undefined)
+      };
+      const neo4jModule = await import('neo4j-driver');
+      vi.spyOn(neo4jModule, 'driver').mockImplementation(() => newDriver as any);
+
+      client = new Neo4jClient({ ...mockConfig, passwordSource: { type: 'file', path: passwordFile } });
+      Object.defineProperty(client, 'driver', { value: oldDriver, writable: true, configurable: true });
+      Object.defineProperty(client, 'connected', { value: true, writable: true, configurable: true });
+
+      await expect(client.executeQuery('RETURN 1')).rejects.toThrow('Connection refused');
+      expect(newDriver.close).toHaveBeenCalledTimes(1);
+      expect(oldDriver.close).not.toHaveBeenCalled();
+      expect((client as any).driver).toBe(oldDriver);
+    });
+
+    it('should not retry when the password did not change', async () => {
+      writeFileSync(passwordFile, 'password');
+      const mockSession = {
+        run: vi.fn().mockRejectedValueOnce(unauthorized),
+        close: vi.fn().mockResolvedValue(undefined)
+      };
+      client = new Neo4jClient({ ...mockConfig, passwordSource: { type: 'file', path: passwordFile } });
+      Object.defineProperty(client, 'driver', { value: { session: () => mockSession }, writable: true, configurable: true });
+      Object.defineProperty(client, 'connected', { value: true, writable: true, configurable: true });
+
+      await expect(client.executeQuery('RETURN 1')).rejects.toThrow('unauthorized');
+      expect(mockSession.run).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('executeQuery', () => {
     it('should execute a Cypher query successfully', async () => {
       // Directly modify mock session behavior for this test
@@ -171,6 +346,81 @@ describe('Neo4jClient', () => {
       expect(result[0]).toHaveProperty('n');
     });
 
+    it('should open a read-access session for read-only queries', async () => {
+      const mockSession = {
+        run: vi.fn().mockResolvedValueOnce({ records: [] }),
+        close: vi.fn().mockResolvedValue(undefined)
+      };
+      const mockDriver = { session: vi.fn().mockReturnValue(mockSession) };
+
+      Object.defineProperty(client, 'driver', {
+        value: mockDriver,
+        writable: true,
+        configurable: true
+      });
+      Object.defineProperty(client, 'connected', {
+        value: true,
+        writable: true,
+        configurable: true
+      });
+
+      await client.executeQuery('MATCH (n) RETURN n', {}, { readOnly: true });
+
+      expect(mockDriver.session).toHaveBeenCalledWith({ database: 'neo4j', defaultAccessMode: 'READ' });
+    });
+
+    it('should pass the timeout to the transaction and close the session on cancellation', async () => {
+      const mockSession = {
+        run: vi.fn().mockReturnValue(new Promise(() => undefined)),
+        close: vi.fn().mockResolvedValue(undefined)
+      };
+
+      Object.defineProperty(client, 'driver', {
+        value: { session: () => mockSession },
+        writable: true,
+        configurable: true
+      });
+      Object.defineProperty(client, 'connected', {
+        value: true,
+        writable: true,
+        configurable: true
+      });
+
+      const controller = new AbortController();
+      const query = client.executeQuery('MATCH (n) RETURN n', {}, { timeoutMs: 5000, signal: controller.signal });
+      controller.abort();
+
+      await expect(query).rejects.toThrow('Query was cancelled by the client');
+      expect(mockSession.run).toHaveBeenCalledWith('MATCH (n) RETURN n', {}, { timeout: 5000 });
+      expect(mockSession.close).toHaveBeenCalled();
+    });
+
+    it('should return the plan of EXPLAIN and the profile of PROFILE queries', async () => {
+      const plan = { operatorType: 'ProduceResults' };
+      const profile = { operatorType: 'ProduceResults', rows: 1 };
+      const mockSession = {
+        run: vi.fn().mockResolvedValue({ records: [], summary: { plan, profile } }),
+        close: vi.fn().mockResolvedValue(undefined)
+      };
+
+      Object.defineProperty(client, 'driver', {
+        value: { session: () => mockSession },
+        writable: true,
+        configurable: true
+      });
+      Object.defineProperty(client, 'connected', {
+        value: true,
+        writable: true,
+        configurable: true
+      });
+
+      expect(await client.explainQuery('MATCH (n) RETURN n')).toBe(plan);
+      expect(mockSession.run).toHaveBeenCalledWith('EXPLAIN MATCH (n) RETURN n', {});
+
+      expect(await client.explainQuery('MATCH (n) RETURN n', {}, { profile: true })).toBe(profile);
+      expect(mockSession.run).toHaveBeenCalledWith('PROFILE MATCH (n) RETURN n', {});
+    });
+
     it('should throw an error if not connected', async () => {
       vi.spyOn(client, 'isConnected').mockReturnValue(false);
 
@@ -180,6 +430,131 @@ describe('Neo4jClient', () => {
     });
   });
 
+  describe('convertValue', () => {
+    it('should convert temporal values to ISO 8601 strings', () => {
+      const temporal = (kind: string, text: string, extra: Record<string, any> = {}) =>
+        ({ temporal: kind, toString: () => text, ...extra });
+
+      expect(client.convertValue({
+        joined: temporal('Date', '2024-01-31'),
+        updated: temporal('DateTime', '2024-01-31T12:00:00+01:00'),
+        zoned: temporal('DateTime', '2024-01-31T12:00:00+01:00[Europe/Berlin]', {
+          timeZoneId: 'Europe/Berlin',
+          toStandardDate: () => new Date('2024-01-31T11:00:00Z'),
+        }),
+        tenure: temporal('Duration', 'P1Y2M'),
+      })).toEqual({
+        joined: '2024-01-31',
+        updated: '2024-01-31T12:00:00+01:00',
+        zoned: '2024-01-31T11:00:00.000Z',
+        tenure: 'P1Y2M',
+      });
+    });
+  });
+
+  describe('ping', () => {
+    it('should run a trivial read query with the timeout', async () => {
+      const executeQuery = vi.spyOn(client, 'executeQuery').mockResolvedValue([{ result: 1 }]);
+
+      expect(await client.ping(5000)).toBe(true);
+      expect(executeQuery).toHaveBeenCalledWith('RETURN 1 AS result', {}, { readOnly: true, timeoutMs: 5000 });
+      expect(client.getConnectionError()).toBeNull();
+    });
+
+    it('should mark the client as disconnected when the endpoint does not answer', async () => {
+      Object.defineProperty(client, 'connected', { value: true, writable: true, configurable: true });
+      vi.spyOn(client, 'executeQuery').mockRejectedValue(new Error('Connection was closed by server'));
+
+      expect(await client.ping(5000)).toBe(false);
+      expect(client.isConnected()).toBe(false);
+      expect(client.getConnectionError()).toBe('Connection was closed by server');
+    });
+  });
+
+  describe('getSchemaData', () => {
+    const counts = (cypher: string): any[] | undefined => {
+      if (cypher === 'MATCH (n) RETURN count(n) AS count') return [{ count: 6 }];
+      if (cypher === 'MATCH ()-[r]->() RETURN count(r) AS count') return [{ count: 4 }];
+      if (cypher.includes('UNWIND labels(n)')) return [{ label: 'person', count: 4 }, { label: 'software', count: 2 }];
+      if (cypher.includes('RETURN type(r) AS type')) return [{ type: 'created', count: 4 }];
+      return undefined;
+    };
+
+    it('should describe labels and relationship types with the schema procedures', async () => {
+      const executeQuery = vi.spyOn(client, 'executeQuery').mockImplementation(async (cypher: string) => {
+        if (cypher.startsWith('CALL db.schema.nodeTypeProperties')) {
+          return [
+            { nodeLabels: ['person'], propertyName: 'name', propertyTypes: ['String'] },
+            { nodeLabels: ['person'], propertyName: 'age', propertyTypes: ['Long'] },
+            { nodeLabels: ['software'], propertyName: null, propertyTypes: null },
+          ];
+        }
+        if (cypher.startsWith('CALL db.schema.relTypeProperties')) {
+          return [{ relType: ':`created`', propertyName: 'weight', propertyTypes: ['Double'] }];
+        }
+        if (cypher.startsWith('CALL db.schema.visualization')) {
+          return [{
+            nodes: [{ id: -1, labels: ['person'], properties: {} }, { id: -2, labels: ['software'], properties: {} }],
+            relationships: [{ id: -3, type: 'created', startNodeId: -1, endNodeId: -2, properties: {} }],
+          }];
+        }
+        return counts(cypher)!;
+      });
+
+      const schema = await client.getSchemaData();
+
+      expect(executeQuery).toHaveBeenCalledWith('MATCH (n) RETURN count(n) AS count', {}, { readOnly: true });
+      expect(schema).toMatchObject({
+        source: 'Neo4j Database Queries',
+        introspection: 'procedures',
+        totalNodes: 6,
+        totalRelationships: 4,
+        nodeLabels: [
+          { label: 'person', count: 4, properties: [{ name: 'age', types: ['Long'] }, { name: 'name', types: ['String'] }] },
+          { label: 'software', count: 2, properties: [] },
+        ],
+        relationshipTypes: [
+          { type: 'created', count: 4, from: ['person'], to: ['software'], properties: [{ name: 'weight', types: ['Double'] }] },
+        ],
+      });
+    });
+
+    it('should sample each label and relationship type when the procedures are unavailable', async () => {
+      const executeQuery = vi.spyOn(client, 'executeQuery').mockImplementation(async (cypher: string) => {
+        if (cypher.startsWith('CALL')) {
+          throw new Error('There is no procedure with the name `db.schema.nodeTypeProperties` registered');
+        }
+        if (cypher.startsWith('MATCH (n:person)')) {
+          return [
+            { node: { id: 1, labels: ['person'], properties: { name: 'marko', age: 29 } } },
+            { node: { id: 2, labels: ['person'], properties: { name: 'vadas', age: null } } },
+          ];
+        }
+        if (cypher.startsWith('MATCH (n:software)')) {
+          return [{ node: { id: 3, labels: ['software'], properties: { name: 'lop' } } }];
+        }
+        if (cypher.startsWith('MATCH (a)-[r:created]->(b)')) {
+          return [{ from: ['person'], relationship: { id: 9, type: 'created', properties: { weight: 0.4 } }, to: ['software'] }];
+        }
+        return counts(cypher)!;
+      });
+
+      const schema = await client.getSchemaData(10);
+
+      expect(executeQuery).toHaveBeenCalledWith('MATCH (n:person) RETURN n AS node LIMIT 10', {}, { readOnly: true });
+      expect(schema).toMatchObject({
+        introspection: 'sampling',
+        nodeLabels: [
+          { label: 'person', properties: [{ name: 'age', types: ['integer'] }, { name: 'name', types: ['string'] }] },
+          { label: 'software', properties: [{ name: 'name', types: ['string'] }] },
+        ],
+        relationshipTypes: [
+          { type: 'created', from: ['person'], to: ['software'], properties: [{ name: 'weight', types: ['float'] }] },
+        ],
+      });
+    });
+  });
+
   describe('close', () => {
     it('should close the connection', async () => {
       const mockDriver = {
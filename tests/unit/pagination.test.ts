@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CursorNotFoundError, Page, ResultBuffer } from '../../src/utils/pagination';
+import { truncateResult } from '../../src/utils/truncate';
+
+describe('ResultBuffer', () => {
+  const rows = Array.from({ length: 5 }, (_, i) => ({ id: i }));
+  let now: number;
+  let buffer: ResultBuffer;
+
+  beforeEach(() => {
+    now = 0;
+    buffer = new ResultBuffer(1000, 2, () => now);
+  });
+
+  it('should return small results whole without buffering them', () => {
+    expect(buffer.paginate(rows, 10)).toEqual({ data: rows, total_rows: 5, offset: 0, has_more: false });
+    expect(buffer.size()).toBe(0);
+  });
+
+  it('should serve a result page by page', () => {
+    const first = buffer.paginate(rows, 2);
+    expect(first).toMatchObject({ data: rows.slice(0, 2), total_rows: 5, offset: 0, has_more: true });
+
+    const second = buffer.fetch(first.cursor!);
+    expect(second).toMatchObject({ data: rows.slice(2, 4), total_rows: 5, offset: 2, has_more: true });
+
+    const last = buffer.fetch(second.cursor!);
+    expect(last).toEqual({ data: rows.slice(4), total_rows: 5, offset: 4, has_more: false });
+  });
+
+  it('should return the same page for the same cursor', () => {
+    const { cursor } = buffer.paginate(rows, 2);
+
+    expect(buffer.fetch(cursor!)).toEqual(buffer.fetch(cursor!));
+  });
+
+  it('should allow a different page size when fetching', () => {
+    const { cursor } = buffer.paginate(rows, 2);
+
+    expect(buffer.fetch(cursor!, 3)).toMatchObject({ data: rows.slice(2, 5), has_more: false });
+  });
+
+  it('should expire results that were not read within the time to live', () => {
+    const { cursor } = buffer.paginate(rows, 2);
+
+    now = 900;
+    const { cursor: next } = buffer.fetch(cursor!);
+
+    now = 1800;
+    expect(() => buffer.fetch(next!)).not.toThrow();
+
+    now = 2800;
+    expect(() => buffer.fetch(next!)).toThrow(CursorNotFoundError);
+  });
+
+  it('should evict the least recently read result when full', () => {
+    const first = buffer.paginate(rows, 2);
+    const second = buffer.paginate(rows, 2);
+    buffer.fetch(first.cursor!);
+    buffer.paginate(rows, 2);
+
+    expect(buffer.size()).toBe(2);
+    expect(() => buffer.fetch(first.cursor!)).not.toThrow();
+    expect(() => buffer.fetch(second.cursor!)).toThrow(CursorNotFoundError);
+  });
+
+  it('should resume after the rows that fit when paging through a truncated result', () => {
+    const wide = Array.from({ length: 5 }, (_, i) => ({ id: i, name: 'x'.repeat(40) }));
+    const fit = ({ data, ...page }: Page<any>) =>
+      truncateResult({ data, metadata: page }, 300, value => JSON.stringify(value)).data.length;
+
+    const pages = [buffer.paginate(wide, 3, fit)];
+    while (pages[pages.length - 1].has_more) {
+      pages.push(buffer.fetch(pages[pages.length - 1].cursor!, undefined, fit));
+    }
+
+    expect(pages.map(page => page.data.length)).toEqual([1, 1, 3]);
+    expect(pages.flatMap(page => page.data)).toEqual(wide);
+  });
+
+  it('should buffer small results that do not fit', () => {
+    const first = buffer.paginate(rows, 10, page => Math.min(page.data.length, 3));
+
+    expect(first).toMatchObject({ data: rows.slice(0, 3), has_more: true });
+    expect(buffer.fetch(first.cursor!)).toEqual({ data: rows.slice(3), total_rows: 5, offset: 3, has_more: false });
+  });
+
+  it('should advance by at least one row when none fit', () => {
+    const first = buffer.paginate(rows, 2, () => 0);
+
+    expect(first).toMatchObject({ data: rows.slice(0, 1), has_more: true });
+    expect(buffer.fetch(first.cursor!, undefined, () => 0)).toMatchObject({ data: rows.slice(1, 2), offset: 1 });
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => buffer.fetch('not-a-cursor')).toThrow('Cursor not found or expired');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { buildPathQuery, toFoundPath } from '../../src/utils/paths';
+import { parseGremlin } from '../../src/utils/gremlin-parser';
+
+const marko = { id: 1, labels: ['person'], properties: { name: 'marko' } };
+const lop = { id: 3, labels: ['software'], properties: { name: 'lop' } };
+const josh = { id: 4, labels: ['person'], properties: {} };
+
+describe('buildPathQuery', () => {
+  it('should use shortestPath for a single Cypher path', () => {
+    expect(buildPathQuery({ id: 1 }, { label: 'person', key: 'name', value: 'josh' }, 'cypher', {
+      direction: 'both', edgeLabels: ['knows', 'created'], maxHops: 4, k: 1
+    })).toEqual({
+      query: 'MATCH (s), (t:person) WHERE id(s) = $source AND t.name = $target '
+        + 'MATCH p = shortestPath((s)-[:knows|created*1..4]-(t)) RETURN p AS path LIMIT 1',
+      parameters: { source: 1, target: 'josh' }
+    });
+  });
+
+  it('should order bounded simple paths by length for several Cypher paths', () => {
+    const { query } = buildPathQuery({ id: 1 }, { id: 4 }, 'cypher', { direction: 'out', maxHops: 3, k: 5 });
+    expect(query).toContain(
+      'MATCH p = (s)-[*1..3]->(t) WHERE ALL(x IN nodes(p) WHERE single(y IN nodes(p) WHERE y = x)) '
+        + 'RETURN p AS path ORDER BY length(p) LIMIT 5'
+    );
+    expect(buildPathQuery({ id: 1 }, { id: 4 }, 'cypher', { direction: 'in', maxHops: 3, k: 1 }).query).toContain('(s)<-[*1..3]-(t)');
+  });
+
+  it('should bound Gremlin paths with simplePath and the number of loops and keep the shortest', () => {
+    const pathQuery = buildPathQuery({ label: 'person', key: 'name', value: 'marko' }, { id: 'v4' }, 'gremlin', {
+      direction: 'both', edgeLabels: ['knows'], maxHops: 3, k: 2
+    });
+    expect(pathQuery).toEqual({
+      query: "g.V().has('person', 'name', source_value).repeat(__.bothE('knows').otherV().simplePath())"
+        + ".until(__.or(__.hasId('v4'), __.loops().is(3))).hasId('v4').path().order().by(__.count(local)).limit(2)",
+      parameters: { source_value: 'marko' }
+    });
+    expect(() => parseGremlin(pathQuery.query, ['source_value'])).not.toThrow();
+
+    expect(buildPathQuery({ id: 1 }, { label: 'person', key: 'name', value: 'josh' }, 'gremlin', {
+      direction: 'out', maxHops: 2, k: 1
+    })).toEqual({
+      query: "g.V(1L).repeat(__.outE().inV().simplePath())"
+        + ".until(__.or(__.has('person', 'name', target_value), __.loops().is(2))).has('person', 'name', target_value).path().order().by(__.count(local)).limit(1)",
+      parameters: { target_value: 'josh' }
+    });
+  });
+});
+
+describe('toFoundPath', () => {
+  it('should list nodes and edges in order and render the path', () => {
+    const created = { id: 9, type: 'created', startNodeId: 1, endNodeId: 3, properties: {} };
+    const createdByJosh = { id: 11, type: 'created', startNodeId: 4, endNodeId: 3, properties: {} };
+
+    expect(toFoundPath({
+      segments: [
+        { start: marko, relationship: created, end: lop },
+        { start: lop, relationship: createdByJosh, end: josh }
+      ]
+    })).toEqual({
+      length: 2,
+      nodes: [marko, lop, josh],
+      edges: [created, createdByJosh],
+      text: '(1:person {name: "marko"})-[:created]->(3:software {name: "lop"})<-[:created]-(4:person)'
+    });
+  });
+
+  it('should handle paths without edges', () => {
+    expect(toFoundPath({ segments: [] })).toEqual({ length: 0, nodes: [], edges: [], text: '' });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeCypherPlan, normalizeGremlinMetrics } from '../../src/utils/plan';
+
+describe('Query Plans', () => {
+  describe('normalizeCypherPlan', () => {
+    const scan = {
+      operatorType: 'NodeByLabelScan@neo4j',
+      identifiers: ['n'],
+      arguments: { Details: 'n:Person', EstimatedRows: 100 },
+      children: [],
+    };
+
+    it('should normalize EXPLAIN plans', () => {
+      const plan = {
+        operatorType: 'ProduceResults@neo4j',
+        identifiers: ['n'],
+        arguments: { EstimatedRows: 100 },
+        children: [scan],
+      };
+
+      expect(normalizeCypherPlan(plan, false)).toEqual({
+        operator: 'ProduceResults',
+        identifiers: ['n'],
+        estimated_rows: 100,
+        children: [{ operator: 'NodeByLabelScan', details: 'n:Person', identifiers: ['n'], estimated_rows: 100, children: [] }],
+      });
+    });
+
+    it('should add measurements of PROFILE plans', () => {
+      const profile = { ...scan, rows: 42, dbHits: 43, time: 2_500_000 };
+
+      expect(normalizeCypherPlan(profile, true)).toMatchObject({
+        operator: 'NodeByLabelScan',
+        estimated_rows: 100,
+        actual_rows: 42,
+        db_hits: 43,
+        time_ms: 2.5,
+      });
+    });
+
+    it('should convert driver integers', () => {
+      const plan = { ...scan, arguments: { EstimatedRows: { toNumber: () => 7 } } };
+
+      expect(normalizeCypherPlan(plan, false).estimated_rows).toBe(7);
+    });
+  });
+
+  describe('normalizeGremlinMetrics', () => {
+    it('should normalize traversal metrics given as maps or objects', () => {
+      const metrics = new Map<string, any>([
+        ['dur', 3.5],
+        ['metrics', [
+          new Map<string, any>([
+            ['id', '0.0.0()'],
+            ['name', 'GraphStep(vertex,[])'],
+            ['dur', 2.5],
+            ['counts', new Map([['traverserCount', 6], ['elementCount', 6]])],
+            ['annotations', new Map([['percentDur', 71.4]])],
+          ]),
+          { id: '1.0.0()', name: 'CountGlobalStep', dur: 1, counts: { traverserCount: 1 }, annotations: { percentDur: 28.6 } },
+        ]],
+      ]);
+
+      expect(normalizeGremlinMetrics(metrics)).toEqual({
+        language: 'gremlin',
+        mode: 'profile',
+        total_time_ms: 3.5,
+        operators: [
+          { operator: 'GraphStep', details: 'GraphStep(vertex,[])', actual_rows: 6, time_ms: 2.5, time_percent: 71.4, children: [] },
+          { operator: 'CountGlobalStep', details: 'CountGlobalStep', actual_rows: 1, time_ms: 1, time_percent: 28.6, children: [] },
+        ],
+      });
+    });
+  });
+});
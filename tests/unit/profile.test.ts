@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { profileProperties } from '../../src/utils/profile';
+import { summarizeProperties } from '../../src/utils/sample';
+
+const person = (properties: Record<string, any>) => ({ id: 1, labels: ['person'], properties });
+
+describe('profileProperties', () => {
+  const elements = [
+    person({ name: 'marko', age: 29, joined: '2021-03-01', city: 'Rome' }),
+    person({ name: 'vadas', age: 27, joined: '2019-12-31T10:00:00Z', city: null }),
+    person({ name: 'josh', age: 32.5, joined: '2022-07-15', city: 'Rome' }),
+    person({ name: 'peter', joined: 'unknown', city: 'Paris' })
+  ];
+  const profile = (topK = 5) => profileProperties(elements, summarizeProperties(elements), topK);
+  const byKey = (key: string, topK?: number) => profile(topK).find(property => property.key === key)!;
+
+  it('should compute non-null ratios and distinct counts', () => {
+    expect(byKey('name')).toMatchObject({ non_null_ratio: 1, distinct_count: 4, types: ['string'] });
+    expect(byKey('age')).toMatchObject({ non_null_ratio: 0.75, distinct_count: 3, types: ['float', 'integer'] });
+    expect(byKey('city')).toMatchObject({ non_null_ratio: 0.75, distinct_count: 2 });
+  });
+
+  it('should report min and max of numbers and dates only', () => {
+    expect(byKey('age')).toMatchObject({ min: 27, max: 32.5 });
+    expect(byKey('name').min).toBeUndefined();
+    // A value that is not a date leaves the property unordered
+    expect(byKey('joined').min).toBeUndefined();
+
+    const dated = elements.slice(0, 3);
+    const [joined] = profileProperties(dated, [{ key: 'joined', count: 3, types: ['string'] }], 5);
+    expect(joined).toMatchObject({ min: '2019-12-31T10:00:00Z', max: '2022-07-15' });
+  });
+
+  it('should order dates returned as Date objects', () => {
+    const dated = [person({ joined: new Date('2022-07-15T00:00:00Z') }), person({ joined: new Date('2019-12-31T10:00:00Z') })];
+    const [joined] = profileProperties(dated, [{ key: 'joined', count: 2, types: ['map'] }], 5);
+
+    expect(joined).toMatchObject({ min: '2019-12-31T10:00:00.000Z', max: '2022-07-15T00:00:00.000Z', distinct_count: 2 });
+  });
+
+  it('should list the most frequent values first', () => {
+    expect(byKey('city', 1).top_values).toEqual([{ value: 'Rome', count: 2 }]);
+    expect(byKey('city').top_values).toEqual([{ value: 'Rome', count: 2 }, { value: 'Paris', count: 1 }]);
+  });
+
+  it('should handle empty samples', () => {
+    expect(profileProperties([], [{ key: 'name', count: 0, types: [], schema_type: 'String' }], 5)).toEqual([
+      { key: 'name', types: [], schema_type: 'String', non_null_ratio: 0, distinct_count: 0, top_values: [] }
+    ]);
+  });
+});
@@ -3,6 +3,7 @@ import { Neo4jClient } from '../../src/clients/neo4j';
 import { GremlinClient } from '../../src/clients/gremlin';
 import { loadConfig } from '../../src/utils/config';
 import { fetchSchemaFromEndpoint } from '../../src/utils/schema';
+import { QueryTimeoutError } from '../../src/utils/timeout';
 
 // Need to mock these imports before importing the service
 vi.mock('../../src/clients/neo4j', () => {
@@ -12,6 +13,7 @@ vi.mock('../../src/clients/neo4j', () => {
       isConnected: vi.fn().mockReturnValue(true),
       getConnectionError: vi.fn().mockReturnValue(null),
       executeQuery: vi.fn().mockResolvedValue([]),
+      ping: vi.fn().mockResolvedValue(true),
       close: vi.fn().mockResolvedValue(undefined),
     })),
   };
@@ -25,6 +27,7 @@ vi.mock('../../src/clients/gremlin', () => {
       getConnectionError: vi.fn().mockReturnValue(null),
       executeQuery: vi.fn().mockResolvedValue([]),
       getSchemaData: vi.fn().mockResolvedValue({}),
+      ping: vi.fn().mockResolvedValue(true),
       close: vi.fn().mockResolvedValue(undefined),
     })),
   };
@@ -59,7 +62,7 @@ vi.mock('../../src/utils/schema', () => {
     fetchSchemaFromEndpoint: vi.fn().mockResolvedValue({
       summary: "PuppyGraph Schema Information",
       source: "Schema API",
-      schema: {},
+      schema: { graph: { vertices: [], edges: [] } },
       schema_endpoint: 'http://localhost:8081/schemajson',
       timestamp: '2023-03-26T00:00:00.000Z',
     }),
@@ -74,11 +77,14 @@ describe('PuppyGraphService', () => {
   let mockNeo4jClient: any;
   let mockGremlinClient: any;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.clearAllMocks();
 
     // Create a manual instance for testing
-    service = new PuppyGraphService();
+    service = new PuppyGraphService(loadConfig());
+    // Let the initial connection attempts finish before tests replace the clients
+    // @ts-ignore - accessing private property for testing
+    await service.initialized;
   });
 
   describe('executeGremlin', () => {
@@ -108,6 +114,42 @@ describe('PuppyGraphService', () => {
       });
     });
 
+    it('should reject mutating traversals in read-only mode', async () => {
+      mockGremlinClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        executeQuery: vi.fn().mockResolvedValue([]),
+        connect: vi.fn().mockResolvedValue(true),
+        getConnectionError: vi.fn().mockReturnValue(null),
+      };
+
+      // @ts-ignore - accessing private property for testing
+      service.gremlinClient = mockGremlinClient;
+
+      await expect(service.executeGremlin({ query: "g.addV('person')" })).rejects.toThrow(
+        'read-only mode does not allow the Gremlin addV() step'
+      );
+      expect(mockGremlinClient.executeQuery).not.toHaveBeenCalled();
+    });
+
+    it('should pass the timeout to the client and report timeouts as timeout errors', async () => {
+      mockGremlinClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        executeQuery: vi.fn().mockRejectedValue(new QueryTimeoutError(100)),
+        connect: vi.fn().mockResolvedValue(true),
+        getConnectionError: vi.fn().mockReturnValue(null),
+      };
+
+      // @ts-ignore - accessing private property for testing
+      service.gremlinClient = mockGremlinClient;
+
+      const signal = new AbortController().signal;
+      const error = await service.executeGremlin({ query: 'g.V()', timeoutMs: 100, signal }).catch(e => e);
+
+      expect(mockGremlinClient.executeQuery).toHaveBeenCalledWith('g.V()', undefined, { timeoutMs: 100, signal });
+      expect(error).toBeInstanceOf(QueryTimeoutError);
+      expect(error.name).toBe('QueryTimeoutError');
+    });
+
     it('should throw an error if not connected to Gremlin endpoint', async () => {
       mockGremlinClient = {
         isConnected: vi.fn().mockReturnValue(false),
@@ -124,6 +166,494 @@ describe('PuppyGraphService', () => {
     });
   });
 
+  describe('schema validation', () => {
+    const schemaData = {
+      summary: "PuppyGraph Schema Information",
+      source: "Schema API",
+      schema: {
+        graph: {
+          vertices: [{ label: 'person', attributes: [{ type: 'String', name: 'name' }] }],
+          edges: [{ label: 'knows', fromVertex: 'person', toVertex: 'person' }],
+        },
+      },
+    };
+
+    beforeEach(() => {
+      mockGremlinClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        executeQuery: vi.fn().mockResolvedValue([]),
+        connect: vi.fn().mockResolvedValue(true),
+        getConnectionError: vi.fn().mockReturnValue(null),
+      };
+    });
+
+    it('should run queries using unknown names with warnings', async () => {
+      (fetchSchemaFromEndpoint as any).mockResolvedValueOnce(schemaData);
+      // @ts-ignore - accessing private property for testing
+      service.gremlinClient = mockGremlinClient;
+
+      const result = await service.executeGremlin({ query: "g.V().hasLabel('persn').values('name')" });
+
+      expect(mockGremlinClient.executeQuery).toHaveBeenCalled();
+      expect(result.metadata.schema_warnings).toEqual(['Unknown vertex label "persn" (did you mean "person"?)']);
+    });
+
+    it('should reject queries using unknown names when blocking', async () => {
+      service = new PuppyGraphService({ ...(loadConfig() as any), schemaValidation: 'block' });
+      (fetchSchemaFromEndpoint as any).mockResolvedValueOnce(schemaData);
+      // @ts-ignore - accessing private property for testing
+      service.gremlinClient = mockGremlinClient;
+
+      await expect(service.executeGremlin({ query: "g.V().out('know')" })).rejects.toThrow(
+        'Query rejected: Unknown edge label "know" (did you mean "knows"?)'
+      );
+      expect(mockGremlinClient.executeQuery).not.toHaveBeenCalled();
+    });
+
+    it('should say so when no typed schema is available', async () => {
+      (fetchSchemaFromEndpoint as any).mockRejectedValueOnce(new Error('Schema endpoint failed'));
+      mockNeo4jClient = { isConnected: vi.fn().mockReturnValue(true), getSchemaData: vi.fn() };
+      // @ts-ignore - accessing private property for testing
+      service.neo4jClient = mockNeo4jClient;
+      // @ts-ignore - accessing private property for testing
+      service.gremlinClient = mockGremlinClient;
+
+      const result = await service.executeGremlin({ query: "g.V().hasLabel('persn')" });
+
+      expect(result.metadata.schema_warnings).toEqual([
+        'Query was not checked against the schema, none is available: Schema endpoint failed'
+      ]);
+      expect(mockNeo4jClient.getSchemaData).not.toHaveBeenCalled();
+    });
+
+    it('should not use graph statistics as a schema', async () => {
+      service = new PuppyGraphService({ ...(loadConfig() as any), schemaValidation: 'block' });
+      (fetchSchemaFromEndpoint as any).mockResolvedValueOnce({ ...schemaData, schema: { nodes: [] } });
+      // @ts-ignore - accessing private property for testing
+      service.gremlinClient = mockGremlinClient;
+
+      const result = await service.executeGremlin({ query: "g.V().hasLabel('persn')" });
+
+      expect(result.metadata.schema_warnings).toEqual([
+        'Query was not checked against the schema, none is available: Invalid PuppyGraph schema: graph: Required'
+      ]);
+    });
+
+    it('should not check queries when validation is off', async () => {
+      service = new PuppyGraphService({ ...(loadConfig() as any), schemaValidation: 'off' });
+      // @ts-ignore - accessing private property for testing
+      service.gremlinClient = mockGremlinClient;
+
+      const result = await service.executeGremlin({ query: "g.V().hasLabel('persn')" });
+
+      expect(result.metadata.schema_warnings).toBeUndefined();
+      expect(fetchSchemaFromEndpoint).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('executeTranslated', () => {
+    beforeEach(() => {
+      mockNeo4jClient = {
+        isConnected: vi.fn().mockReturnValue(false),
+        executeQuery: vi.fn().mockResolvedValue([{ name: 'marko' }]),
+        connect: vi.fn().mockResolvedValue(true),
+        getConnectionError: vi.fn().mockReturnValue(null),
+      };
+      mockGremlinClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        executeQuery: vi.fn().mockResolvedValue(['marko']),
+        connect: vi.fn().mockResolvedValue(true),
+        getConnectionError: vi.fn().mockReturnValue(null),
+      };
+      // @ts-ignore - accessing private property for testing
+      service.neo4jClient = mockNeo4jClient;
+      // @ts-ignore - accessing private property for testing
+      service.gremlinClient = mockGremlinClient;
+    });
+
+    it('should run the translation when its endpoint is connected', async () => {
+      const result = await service.executeTranslated({ query: 'MATCH (p:person) RETURN p.name', language: 'cypher' });
+
+      expect(mockGremlinClient.executeQuery).toHaveBeenCalledWith(
+        "g.V().hasLabel('person').values('name')", undefined, expect.any(Object)
+      );
+      expect(result.data).toEqual(['marko']);
+      expect(result.metadata.translation).toEqual({
+        source_language: 'cypher',
+        target_language: 'gremlin',
+        query: "g.V().hasLabel('person').values('name')",
+        executed_language: 'gremlin',
+      });
+    });
+
+    it('should run the original query when only its own endpoint is connected', async () => {
+      const result = await service.executeTranslated({ query: "g.V().hasLabel('person').values('name')", language: 'gremlin' });
+
+      expect(mockNeo4jClient.executeQuery).not.toHaveBeenCalled();
+      expect(mockGremlinClient.executeQuery).toHaveBeenCalledWith(
+        "g.V().hasLabel('person').values('name')", undefined, expect.any(Object)
+      );
+      expect(result.metadata.translation).toMatchObject({
+        query: 'MATCH (n0:person) RETURN n0.name',
+        executed_language: 'gremlin',
+      });
+    });
+
+    it('should reject queries that cannot be translated', async () => {
+      await expect(service.executeTranslated({ query: "g.V().group()", language: 'gremlin' })).rejects.toThrow(
+        'Cannot translate query'
+      );
+    });
+  });
+
+  describe('getNeighborhood', () => {
+    const node = (id: number) => ({ id, labels: ['person'], properties: { name: `p${id}` } });
+    const edge = (id: number, startNodeId: number, endNodeId: number) => ({ id, type: 'knows', startNodeId, endNodeId, properties: {} });
+
+    beforeEach(() => {
+      mockNeo4jClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        executeQuery: vi.fn()
+          .mockResolvedValueOnce([{ node: node(1) }])
+          .mockResolvedValueOnce([{ edge: edge(10, 1, 2), node: node(2) }, { edge: edge(11, 3, 1), node: node(3) }])
+          .mockResolvedValueOnce([{ edge: edge(12, 2, 3), node: node(3) }]),
+        getConnectionError: vi.fn().mockReturnValue(null),
+      };
+      mockGremlinClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        executeQuery: vi.fn(),
+        getConnectionError: vi.fn().mockReturnValue(null),
+      };
+      // @ts-ignore - accessing private property for testing
+      service.neo4jClient = mockNeo4jClient;
+      // @ts-ignore - accessing private property for testing
+      service.gremlinClient = mockGremlinClient;
+    });
+
+    it('should explore hop by hop and deduplicate the subgraph', async () => {
+      const result = await service.getNeighborhood({
+        start: { label: 'person', key: 'name', value: 'p1' },
+        direction: 'both',
+        depth: 2,
+        limit: 2,
+        maxEdges: 100,
+      });
+
+      expect(mockGremlinClient.executeQuery).not.toHaveBeenCalled();
+      expect(mockNeo4jClient.executeQuery).toHaveBeenNthCalledWith(
+        1, expect.stringContaining('MATCH (n:person)'), { value: 'p1' }, expect.any(Object)
+      );
+      expect(mockNeo4jClient.executeQuery).toHaveBeenNthCalledWith(
+        2, expect.stringContaining('WHERE id(n) IN $ids'), { ids: [1] }, expect.any(Object)
+      );
+      expect(mockNeo4jClient.executeQuery).toHaveBeenNthCalledWith(
+        3, expect.stringContaining('WHERE id(n) IN $ids'), { ids: [2, 3] }, expect.any(Object)
+      );
+      expect(result.nodes.map(n => n.id)).toEqual([1, 2, 3]);
+      expect(result.edges.map(e => e.id)).toEqual([10, 11, 12]);
+      expect(result.metadata).toMatchObject({
+        language: 'cypher',
+        node_count: 3,
+        edge_count: 3,
+        depth: 2,
+        limited_node_ids: [1],
+      });
+    });
+
+    it('should stop exploring at the maximum number of edges', async () => {
+      const result = await service.getNeighborhood({ start: { id: 1 }, direction: 'both', depth: 3, limit: 2, maxEdges: 2 });
+
+      expect(mockNeo4jClient.executeQuery).toHaveBeenCalledTimes(2);
+      expect(mockNeo4jClient.executeQuery).toHaveBeenLastCalledWith(expect.stringMatching(/LIMIT 2$/), { ids: [1] }, expect.any(Object));
+      expect(result.edges.map(e => e.id)).toEqual([10, 11]);
+      expect(result.metadata).toMatchObject({ depth: 1, edge_count: 2, max_edges_reached: true });
+    });
+
+    it('should use Gremlin when only the Gremlin endpoint is connected', async () => {
+      mockNeo4jClient.isConnected.mockReturnValue(false);
+      mockGremlinClient.executeQuery.mockResolvedValueOnce([{ node: node(1) }]).mockResolvedValueOnce([]);
+
+      const result = await service.getNeighborhood({ start: { id: 1 }, direction: 'out', depth: 3, limit: 10, maxEdges: 100 });
+
+      expect(mockNeo4jClient.executeQuery).not.toHaveBeenCalled();
+      expect(mockGremlinClient.executeQuery).toHaveBeenCalledWith(
+        "g.V(ids).local(__.outE().limit(10).project('edge', 'node').by().by(__.inV())).limit(100)", { ids: [1] }, expect.any(Object)
+      );
+      expect(result.nodes).toEqual([node(1)]);
+      expect(result.metadata).toMatchObject({ language: 'gremlin', depth: 1 });
+      expect(result.metadata.limited_node_ids).toBeUndefined();
+    });
+
+    it('should fail when the start vertex does not exist', async () => {
+      mockNeo4jClient.executeQuery.mockReset().mockResolvedValue([]);
+
+      await expect(service.getNeighborhood({ start: { id: 7 }, direction: 'out', depth: 1, limit: 10, maxEdges: 100 })).rejects.toThrow(
+        'No vertex 7 found'
+      );
+    });
+  });
+
+  describe('findPaths', () => {
+    const node = (id: number) => ({ id, labels: ['person'], properties: {} });
+    const segment = (start: number, end: number) => ({
+      start: node(start),
+      relationship: { id: start * 10 + end, type: 'knows', startNodeId: start, endNodeId: end, properties: {} },
+      end: node(end),
+    });
+
+    it('should return paths shortest first', async () => {
+      mockNeo4jClient = {
+        isConnected: vi.fn().mockReturnValue(false),
+        getConnectionError: vi.fn().mockReturnValue(null),
+      };
+      mockGremlinClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        executeQuery: vi.fn().mockResolvedValue([
+          { segments: [segment(1, 2), segment(2, 3)] },
+          { segments: [segment(1, 3)] },
+        ]),
+      };
+      // @ts-ignore - accessing private property for testing
+      service.neo4jClient = mockNeo4jClient;
+      // @ts-ignore - accessing private property for testing
+      service.gremlinClient = mockGremlinClient;
+
+      const result = await service.findPaths({
+        source: { id: 1 },
+        target: { id: 3 },
+        direction: 'out',
+        maxHops: 3,
+        k: 2,
+        timeoutMs: 1000,
+      });
+
+      expect(mockGremlinClient.executeQuery).toHaveBeenCalledWith(
+        expect.stringContaining('.path().order().by(__.count(local)).limit(2)'), {}, { timeoutMs: 1000, signal: undefined }
+      );
+      expect(result.paths.map(path => path.text)).toEqual([
+        '(1:person)-[:knows]->(3:person)',
+        '(1:person)-[:knows]->(2:person)-[:knows]->(3:person)',
+      ]);
+      expect(result.metadata).toMatchObject({ language: 'gremlin', path_count: 2 });
+    });
+
+    it('should read Cypher paths from the path column', async () => {
+      mockNeo4jClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        executeQuery: vi.fn().mockResolvedValue([{ path: { segments: [segment(1, 2)] } }]),
+      };
+      // @ts-ignore - accessing private property for testing
+      service.neo4jClient = mockNeo4jClient;
+
+      const result = await service.findPaths({ source: { id: 1 }, target: { id: 2 }, direction: 'both', maxHops: 4, k: 1 });
+
+      expect(mockNeo4jClient.executeQuery).toHaveBeenCalledWith(
+        expect.stringContaining('shortestPath'), { source: 1, target: 2 }, expect.any(Object)
+      );
+      expect(result.paths).toEqual([expect.objectContaining({ length: 1, nodes: [node(1), node(2)] })]);
+    });
+  });
+
+  describe('sampleLabel', () => {
+    const person = { id: 1, labels: ['person'], properties: { name: 'marko', age: 29 } };
+
+    beforeEach(() => {
+      mockNeo4jClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        executeQuery: vi.fn().mockResolvedValue([{ element: person }]),
+      };
+      // @ts-ignore - accessing private property for testing
+      service.neo4jClient = mockNeo4jClient;
+    });
+
+    it('should look up the kind of the label in the schema', async () => {
+      (fetchSchemaFromEndpoint as any).mockResolvedValueOnce({
+        schema: {
+          graph: {
+            vertices: [{ label: 'person', attributes: [{ type: 'String', name: 'name' }] }],
+            edges: [{ label: 'knows', fromVertex: 'person', toVertex: 'person' }],
+          },
+        },
+      });
+
+      const result = await service.sampleLabel({ label: 'person', limit: 5 });
+
+      expect(mockNeo4jClient.executeQuery).toHaveBeenCalledWith(
+        'MATCH (e:person) RETURN e AS element LIMIT 5', {}, expect.any(Object)
+      );
+      expect(result).toMatchObject({
+        label: 'person',
+        kind: 'vertex',
+        elements: [person],
+        properties: [
+          { key: 'name', count: 1, types: ['string'], schema_type: 'String' },
+          { key: 'age', count: 1, types: ['integer'] },
+        ],
+        metadata: { language: 'cypher', sample_size: 1 },
+      });
+    });
+
+    it('should require the kind when no schema is available', async () => {
+      (fetchSchemaFromEndpoint as any).mockRejectedValueOnce(new Error('Schema endpoint failed'));
+      await expect(service.sampleLabel({ label: 'person', limit: 5 })).rejects.toThrow(
+        'Cannot tell whether "person" is a vertex or an edge label without a schema (Schema endpoint failed); pass its kind'
+      );
+
+      const result = await service.sampleLabel({ label: 'person', kind: 'vertex', limit: 5 });
+      expect(result.elements).toEqual([person]);
+    });
+  });
+
+  describe('profileLabel', () => {
+    const schemaData = {
+      schema: {
+        graph: {
+          vertices: [{ label: 'person', attributes: [{ type: 'Int', name: 'age' }] }],
+          edges: [],
+        },
+      },
+    };
+
+    beforeEach(() => {
+      mockNeo4jClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        executeQuery: vi.fn().mockResolvedValue([
+          { element: { id: 1, labels: ['person'], properties: { age: 29 } } },
+          { element: { id: 2, labels: ['person'], properties: { age: 27 } } },
+        ]),
+      };
+      // @ts-ignore - accessing private property for testing
+      service.neo4jClient = mockNeo4jClient;
+    });
+
+    it('should profile a sample of the label and cache the profile', async () => {
+      (fetchSchemaFromEndpoint as any).mockResolvedValueOnce(schemaData);
+
+      const profile = await service.profileLabel({ label: 'person', sampleSize: 100, topK: 1 });
+
+      expect(mockNeo4jClient.executeQuery).toHaveBeenCalledWith(
+        'MATCH (e:person) RETURN e AS element LIMIT 100', {}, expect.any(Object)
+      );
+      expect(profile).toMatchObject({
+        label: 'person',
+        kind: 'vertex',
+        sample_size: 2,
+        properties: [{ key: 'age', schema_type: 'Int', non_null_ratio: 1, distinct_count: 2, min: 27, max: 29 }],
+        cache: { stale: false },
+      });
+      expect(profile.properties[0].top_values).toHaveLength(1);
+
+      await service.profileLabel({ label: 'person', sampleSize: 100, topK: 1 });
+      expect(mockNeo4jClient.executeQuery).toHaveBeenCalledTimes(1);
+
+      await service.profileLabel({ label: 'person', sampleSize: 100, topK: 1, refresh: true });
+      expect(mockNeo4jClient.executeQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('should load profiles with the timeout of the request that starts the load', async () => {
+      const signal = new AbortController().signal;
+      await service.profileLabel({ label: 'person', kind: 'vertex', sampleSize: 10, topK: 5, timeoutMs: 100 });
+      await service.profileLabel({ label: 'person', kind: 'vertex', sampleSize: 10, topK: 5, refresh: true, timeoutMs: 200, signal });
+
+      expect(mockNeo4jClient.executeQuery).toHaveBeenNthCalledWith(1, expect.any(String), {}, expect.objectContaining({ timeoutMs: 100 }));
+      expect(mockNeo4jClient.executeQuery).toHaveBeenNthCalledWith(2, expect.any(String), {}, expect.objectContaining({ timeoutMs: 200 }));
+      expect(mockNeo4jClient.executeQuery.mock.calls[1][2].signal).toBeUndefined();
+    });
+
+    it('should let a request cancel only its own wait for a shared load', async () => {
+      let finish!: () => void;
+      mockNeo4jClient.executeQuery.mockImplementationOnce(() => new Promise(resolve => {
+        finish = () => resolve([{ element: { id: 1, labels: ['person'], properties: { age: 29 } } }]);
+      }));
+      const controller = new AbortController();
+
+      const cancelled = service.profileLabel({ label: 'person', kind: 'vertex', sampleSize: 10, topK: 5, signal: controller.signal });
+      const waiting = service.profileLabel({ label: 'person', kind: 'vertex', sampleSize: 10, topK: 5 });
+      await vi.waitFor(() => expect(finish).toBeDefined());
+      controller.abort();
+      finish();
+
+      await expect(cancelled).rejects.toThrow('Query was cancelled by the client');
+      expect(await waiting).toMatchObject({ sample_size: 1 });
+      expect(mockNeo4jClient.executeQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep only the most recently used profiles', async () => {
+      for (let topK = 1; topK <= 101; topK++) {
+        await service.profileLabel({ label: 'person', kind: 'vertex', sampleSize: 10, topK });
+      }
+      // @ts-ignore - accessing private property for testing
+      expect(service.profileCaches.size).toBe(100);
+
+      await service.profileLabel({ label: 'person', kind: 'vertex', sampleSize: 10, topK: 101 });
+      await service.profileLabel({ label: 'person', kind: 'vertex', sampleSize: 10, topK: 1 });
+      expect(mockNeo4jClient.executeQuery).toHaveBeenCalledTimes(102);
+    });
+
+    it('should drop cached profiles when the schema changes', async () => {
+      await service.profileLabel({ label: 'person', kind: 'vertex', sampleSize: 10, topK: 5 });
+      await service.getSchema();
+      (fetchSchemaFromEndpoint as any).mockResolvedValueOnce(schemaData);
+      await service.getSchema();
+
+      await service.profileLabel({ label: 'person', kind: 'vertex', sampleSize: 10, topK: 5 });
+      expect(mockNeo4jClient.executeQuery).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('explain', () => {
+    it('should explain Cypher queries without running them', async () => {
+      mockNeo4jClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        explainQuery: vi.fn().mockResolvedValue({ operatorType: 'ProduceResults', arguments: {}, children: [] }),
+      };
+
+      // @ts-ignore - accessing private property for testing
+      service.neo4jClient = mockNeo4jClient;
+
+      const plan = await service.explain({ query: 'CREATE (n)', language: 'cypher' });
+
+      expect(mockNeo4jClient.explainQuery).toHaveBeenCalledWith('CREATE (n)', undefined, expect.objectContaining({ profile: false }));
+      expect(plan).toEqual({
+        language: 'cypher',
+        mode: 'explain',
+        operators: [{ operator: 'ProduceResults', children: [] }],
+      });
+    });
+
+    it('should apply the read-only policy to profiled queries', async () => {
+      mockGremlinClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        profileQuery: vi.fn(),
+      };
+
+      // @ts-ignore - accessing private property for testing
+      service.gremlinClient = mockGremlinClient;
+
+      await expect(service.explain({ query: "g.addV('person')", language: 'gremlin' })).rejects.toThrow(
+        'read-only mode does not allow the Gremlin addV() step'
+      );
+      await expect(service.explain({ query: 'CREATE (n)', language: 'cypher', profile: true })).rejects.toThrow(
+        'read-only mode does not allow the Cypher CREATE clause'
+      );
+      expect(mockGremlinClient.profileQuery).not.toHaveBeenCalled();
+    });
+
+    it('should profile Gremlin traversals', async () => {
+      mockGremlinClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        profileQuery: vi.fn().mockResolvedValue({ dur: 2, metrics: [{ name: 'GraphStep', dur: 2, counts: { traverserCount: 3 } }] }),
+      };
+
+      // @ts-ignore - accessing private property for testing
+      service.gremlinClient = mockGremlinClient;
+
+      const plan = await service.explain({ query: 'g.V()', language: 'gremlin' });
+
+      expect(plan).toMatchObject({ mode: 'profile', total_time_ms: 2, operators: [{ operator: 'GraphStep', actual_rows: 3 }] });
+    });
+  });
+
   describe('executeCypher', () => {
     it('should execute a Cypher query successfully', async () => {
       mockNeo4jClient = {
@@ -150,6 +680,56 @@ describe('PuppyGraphService', () => {
       });
     });
 
+    it('should reject mutating queries in read-only mode', async () => {
+      mockNeo4jClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        executeQuery: vi.fn().mockResolvedValue([]),
+        connect: vi.fn().mockResolvedValue(true),
+        getConnectionError: vi.fn().mockReturnValue(null),
+      };
+
+      // @ts-ignore - accessing private property for testing
+      service.neo4jClient = mockNeo4jClient;
+
+      await expect(service.executeCypher({ query: 'MATCH (n) DETACH DELETE n' })).rejects.toThrow(
+        'read-only mode does not allow the Cypher DETACH DELETE clause'
+      );
+      expect(mockNeo4jClient.executeQuery).not.toHaveBeenCalled();
+    });
+
+    it('should run queries in read-access sessions in read-only mode', async () => {
+      mockNeo4jClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        executeQuery: vi.fn().mockResolvedValue([]),
+        connect: vi.fn().mockResolvedValue(true),
+        getConnectionError: vi.fn().mockReturnValue(null),
+      };
+
+      // @ts-ignore - accessing private property for testing
+      service.neo4jClient = mockNeo4jClient;
+
+      await service.executeCypher({ query: 'MATCH (n) RETURN n' });
+
+      expect(mockNeo4jClient.executeQuery).toHaveBeenCalledWith('MATCH (n) RETURN n', undefined, { readOnly: true });
+    });
+
+    it('should allow mutating queries when read-only mode is disabled', async () => {
+      const writableService = new PuppyGraphService({ ...loadConfig(), readOnly: false });
+      mockNeo4jClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        executeQuery: vi.fn().mockResolvedValue([]),
+        connect: vi.fn().mockResolvedValue(true),
+        getConnectionError: vi.fn().mockReturnValue(null),
+      };
+
+      // @ts-ignore - accessing private property for testing
+      writableService.neo4jClient = mockNeo4jClient;
+
+      await writableService.executeCypher({ query: 'CREATE (n:Person)' });
+
+      expect(mockNeo4jClient.executeQuery).toHaveBeenCalledWith('CREATE (n:Person)', undefined, { readOnly: false });
+    });
+
     it('should throw an error if not connected to Neo4j endpoint', async () => {
       mockNeo4jClient = {
         isConnected: vi.fn().mockReturnValue(false),
@@ -171,7 +751,10 @@ describe('PuppyGraphService', () => {
       const mockSchemaData = {
         summary: "PuppyGraph Schema Information",
         source: "Schema API",
-        schema: { nodes: [], relationships: [] },
+        schema: {
+          catalogs: [{ name: 'pg', type: 'postgresql', jdbc: { password: 'secret' } }],
+          graph: { vertices: [{ label: 'person', attributes: [{ type: 'String', name: 'name' }] }], edges: [] },
+        },
       };
       
       (fetchSchemaFromEndpoint as any).mockResolvedValueOnce(mockSchemaData);
@@ -179,7 +762,29 @@ describe('PuppyGraphService', () => {
       const result = await service.getDataSources();
       
       expect(fetchSchemaFromEndpoint).toHaveBeenCalled();
-      expect(result).toEqual(mockSchemaData);
+      expect(result).toEqual({
+        summary: "PuppyGraph Schema Information",
+        source: "Schema API",
+        schema: {
+          catalogs: [{ name: 'pg', type: 'postgresql' }],
+          vertices: [{ label: 'person', id: [], properties: [{ name: 'name', type: 'String', column: 'name' }] }],
+          edges: [],
+        },
+      });
+    });
+
+    it('should return the raw schema with the validation error if it does not match the model', async () => {
+      const mockSchemaData = {
+        summary: "PuppyGraph Schema Information",
+        source: "Schema API",
+        schema: { nodes: [], relationships: [] },
+      };
+      
+      (fetchSchemaFromEndpoint as any).mockResolvedValueOnce(mockSchemaData);
+      
+      const result = await service.getDataSources();
+      
+      expect(result).toEqual({ ...mockSchemaData, validation_error: 'Invalid PuppyGraph schema: graph: Required' });
     });
 
     it('should fall back to Neo4j if schema endpoint fails', async () => {
@@ -187,7 +792,7 @@ describe('PuppyGraphService', () => {
       
       mockNeo4jClient = {
         isConnected: vi.fn().mockReturnValue(true),
-        executeQuery: vi.fn().mockResolvedValue([{ count: 42 }]),
+        getSchemaData: vi.fn().mockResolvedValue({ summary: 'Graph Structure Information', totalNodes: 42, nodeLabels: [] }),
         connect: vi.fn().mockResolvedValue(true),
         getConnectionError: vi.fn().mockReturnValue(null),
       };
@@ -198,9 +803,223 @@ describe('PuppyGraphService', () => {
       const result = await service.getDataSources();
       
       expect(fetchSchemaFromEndpoint).toHaveBeenCalled();
-      expect(mockNeo4jClient.executeQuery).toHaveBeenCalledWith('MATCH (n) RETURN count(n) as count');
+      expect(mockNeo4jClient.getSchemaData).toHaveBeenCalled();
       expect(result).toHaveProperty('summary');
-      expect(result).toHaveProperty('nodeCount', 42);
+      expect(result).toHaveProperty('totalNodes', 42);
+    });
+  });
+
+  describe('getCachedDataSources', () => {
+    const schemaData = { summary: "PuppyGraph Schema Information", source: "Schema API", schema: { graph: {} } };
+
+    it('should serve schema information from the cache with its age', async () => {
+      (fetchSchemaFromEndpoint as any).mockResolvedValueOnce(schemaData);
+
+      await service.getCachedDataSources();
+      const result = await service.getCachedDataSources();
+
+      expect(fetchSchemaFromEndpoint).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ source: "Schema API", cache: { stale: false } });
+      expect(result.cache.age_ms).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should reload schema information on refresh', async () => {
+      (fetchSchemaFromEndpoint as any).mockResolvedValueOnce(schemaData).mockResolvedValueOnce(schemaData);
+
+      await service.getCachedDataSources();
+      await service.getCachedDataSources({ refresh: true });
+
+      expect(fetchSchemaFromEndpoint).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache schema information when the time to live is 0', async () => {
+      service = new PuppyGraphService({ ...(loadConfig() as any), schemaCacheTtlMs: 0 });
+      (fetchSchemaFromEndpoint as any).mockResolvedValueOnce(schemaData).mockResolvedValueOnce(schemaData);
+
+      await service.getCachedDataSources();
+      await service.getCachedDataSources();
+
+      expect(fetchSchemaFromEndpoint).toHaveBeenCalledTimes(2);
+    });
+
+    it('should serve the last schema instead of database statistics while the endpoint fails', async () => {
+      mockNeo4jClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        getSchemaData: vi.fn().mockResolvedValue({ summary: 'Graph Structure Information', totalNodes: 42 }),
+      };
+      // @ts-ignore - accessing private property for testing
+      service.neo4jClient = mockNeo4jClient;
+      (fetchSchemaFromEndpoint as any)
+        .mockResolvedValueOnce(schemaData)
+        .mockRejectedValueOnce(new Error('Schema endpoint failed'));
+
+      await service.getCachedDataSources();
+      const result = await service.getCachedDataSources({ refresh: true });
+
+      expect(result).toMatchObject({ source: "Schema API", cache: { refresh_error: 'Schema endpoint failed' } });
+      expect(mockNeo4jClient.getSchemaData).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to database statistics when no schema was ever loaded', async () => {
+      mockNeo4jClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        getSchemaData: vi.fn().mockResolvedValue({ summary: 'Graph Structure Information', totalNodes: 42 }),
+      };
+      // @ts-ignore - accessing private property for testing
+      service.neo4jClient = mockNeo4jClient;
+      (fetchSchemaFromEndpoint as any)
+        .mockRejectedValueOnce(new Error('Schema endpoint failed'))
+        .mockResolvedValueOnce(schemaData);
+
+      expect(await service.getCachedDataSources()).toMatchObject({ summary: 'Graph Structure Information', totalNodes: 42 });
+      expect(await service.getCachedDataSources()).toMatchObject({ source: "Schema API" });
+    });
+
+    it('should cache database statistics while the endpoint keeps failing', async () => {
+      mockNeo4jClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        getSchemaData: vi.fn().mockResolvedValue({ summary: 'Graph Structure Information', totalNodes: 42 }),
+      };
+      // @ts-ignore - accessing private property for testing
+      service.neo4jClient = mockNeo4jClient;
+      (fetchSchemaFromEndpoint as any).mockRejectedValue(new Error('Schema endpoint failed'));
+
+      await service.getCachedDataSources();
+      const result = await service.getCachedDataSources();
+
+      expect(result).toMatchObject({ totalNodes: 42, cache: { stale: false } });
+      expect(mockNeo4jClient.getSchemaData).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw the endpoint error instead of scanning the graph when statistics are not wanted', async () => {
+      mockNeo4jClient = {
+        isConnected: vi.fn().mockReturnValue(true),
+        getSchemaData: vi.fn(),
+      };
+      // @ts-ignore - accessing private property for testing
+      service.neo4jClient = mockNeo4jClient;
+      (fetchSchemaFromEndpoint as any).mockRejectedValue(new Error('Schema endpoint failed'));
+
+      await expect(service.getCachedDataSources({ statistics: false })).rejects.toThrow('Schema endpoint failed');
+      expect(mockNeo4jClient.getSchemaData).not.toHaveBeenCalled();
+    });
+
+    it('should keep a schema loaded by the cache when the load detects a change', async () => {
+      (fetchSchemaFromEndpoint as any)
+        .mockResolvedValueOnce({ ...schemaData, schema: { version: 1 } })
+        .mockResolvedValueOnce({ ...schemaData, schema: { version: 2 } });
+
+      await service.getCachedDataSources();
+      expect(await service.getCachedDataSources({ refresh: true })).toMatchObject({ schema: { version: 2 } });
+      expect(await service.getCachedDataSources()).toMatchObject({ schema: { version: 2 }, cache: { stale: false } });
+      expect(fetchSchemaFromEndpoint).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getSchema', () => {
+    it('should notify listeners only when the schema changes', async () => {
+      const listener = vi.fn();
+      service.onSchemaChange(listener);
+
+      (fetchSchemaFromEndpoint as any)
+        .mockResolvedValueOnce({ schema: { graph: { vertices: [{ label: 'person' }] } } })
+        .mockResolvedValueOnce({ schema: { graph: { vertices: [{ label: 'person' }] } } })
+        .mockResolvedValueOnce({ schema: { graph: { vertices: [{ label: 'person' }, { label: 'software' }] } } });
+
+      await service.getSchema();
+      await service.getSchema();
+      expect(listener).not.toHaveBeenCalled();
+
+      await service.getSchema();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop notifying unsubscribed listeners', async () => {
+      const listener = vi.fn();
+      const unsubscribe = service.onSchemaChange(listener);
+      unsubscribe();
+
+      (fetchSchemaFromEndpoint as any)
+        .mockResolvedValueOnce({ schema: { version: 1 } })
+        .mockResolvedValueOnce({ schema: { version: 2 } });
+
+      await service.getSchema();
+      await service.getSchema();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('health monitoring', () => {
+    afterEach(() => {
+      service.stopHealthMonitoring();
+      vi.useRealTimers();
+    });
+
+    it('should reconnect a failed endpoint and clear its connection error', async () => {
+      let connected = false;
+      mockNeo4jClient = {
+        isConnected: vi.fn(() => connected),
+        connect: vi.fn().mockResolvedValueOnce(false).mockImplementationOnce(async () => (connected = true)),
+        getConnectionError: vi.fn(() => connected ? null : 'Connection refused'),
+        ping: vi.fn().mockResolvedValue(true),
+      };
+      // @ts-ignore - accessing private property for testing
+      service.neo4jClient = mockNeo4jClient;
+
+      // @ts-ignore - accessing private property for testing
+      expect(await service.neo4jHealth.check()).toBe(false);
+      expect(service.getConnectionStatus().connectionError).toBe('Neo4j: Connection refused');
+
+      // @ts-ignore - accessing private property for testing
+      expect(await service.neo4jHealth.check()).toBe(true);
+      const status = service.getConnectionStatus();
+      expect(status.connectionError).toBeNull();
+      expect(status.health.neo4j).toMatchObject({ state: 'healthy', last_error: null });
+
+      // Connected endpoints are pinged instead of reconnected
+      // @ts-ignore - accessing private property for testing
+      await service.neo4jHealth.check();
+      expect(mockNeo4jClient.connect).toHaveBeenCalledTimes(2);
+      expect(mockNeo4jClient.ping).toHaveBeenCalledWith(10000);
+    });
+
+    it('should fail fast while reconnecting in the background', async () => {
+      vi.useFakeTimers();
+      mockGremlinClient = {
+        isConnected: vi.fn().mockReturnValue(false),
+        connect: vi.fn().mockResolvedValue(false),
+        getConnectionError: vi.fn().mockReturnValue('Connection refused'),
+        executeQuery: vi.fn(),
+      };
+      // @ts-ignore - accessing private property for testing
+      service.gremlinClient = mockGremlinClient;
+
+      service.startHealthMonitoring({ intervalMs: 30000, initialDelayMs: 1000, maxDelayMs: 60000 });
+      await vi.advanceTimersByTimeAsync(0);
+
+      await expect(service.executeGremlin({ query: 'g.V()' })).rejects.toThrow(/Reconnecting in the background, next attempt at /);
+      expect(mockGremlinClient.connect).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(30000);
+      expect(mockGremlinClient.connect).toHaveBeenCalledTimes(1);
+      expect(service.getConnectionStatus().health.gremlin).toMatchObject({
+        state: 'degraded',
+        last_error: 'Connection refused',
+        consecutive_failures: 1,
+      });
+    });
+
+    it('should stop probing when closed', async () => {
+      vi.useFakeTimers();
+      service.startHealthMonitoring({ intervalMs: 1000, initialDelayMs: 1000, maxDelayMs: 60000 });
+      await vi.advanceTimersByTimeAsync(0);
+      await service.close();
+
+      // @ts-ignore - accessing private property for testing
+      const ping = service.neo4jClient.ping;
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(ping).not.toHaveBeenCalled();
     });
   });
 
@@ -230,6 +1049,7 @@ describe('PuppyGraphService', () => {
       expect(status.gremlinConnected).toBe(false);
       expect(status.connectionError).toBe('Gremlin error');
       expect(status.fallbackMode).toBe(false);
+      expect(status.health.neo4j.state).toBe('healthy');
     });
   });
 });
\ No newline at end of file
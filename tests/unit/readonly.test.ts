@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assertReadOnly,
+  findCypherWriteClause,
+  findGremlinWriteStep,
+  ReadOnlyViolationError,
+} from '../../src/utils/readonly';
+
+describe('Read-only Policy', () => {
+  describe('findCypherWriteClause', () => {
+    it('should allow read queries', () => {
+      expect(findCypherWriteClause('MATCH (n:Person) RETURN n.name LIMIT 10')).toBeNull();
+      expect(findCypherWriteClause('MATCH (a)-[r:KNOWS]->(b) WHERE a.age > 30 RETURN count(*)')).toBeNull();
+      expect(findCypherWriteClause('CALL db.labels() YIELD label RETURN label')).toBeNull();
+    });
+
+    it('should detect mutating clauses', () => {
+      expect(findCypherWriteClause('CREATE (n:Person {name: "Alice"})')).toBe('CREATE');
+      expect(findCypherWriteClause('MERGE (n:Person {id: 1})')).toBe('MERGE');
+      expect(findCypherWriteClause('MATCH (n) SET n.age = 1')).toBe('SET');
+      expect(findCypherWriteClause('MATCH (n) DELETE n')).toBe('DELETE');
+      expect(findCypherWriteClause('match (n) detach delete n')).toBe('DETACH DELETE');
+      expect(findCypherWriteClause('MATCH (n) REMOVE n:Person')).toBe('REMOVE');
+      expect(findCypherWriteClause('DROP INDEX person_name')).toBe('DROP');
+      expect(findCypherWriteClause('MATCH p = (a)-->(b) FOREACH (n IN nodes(p) | SET n.seen = true)')).toBe('FOREACH');
+    });
+
+    it('should detect mutating procedures', () => {
+      expect(findCypherWriteClause('CALL apoc.create.node(["Person"], {})')).toBe('CALL apoc.create.node');
+    });
+
+    it('should ignore keywords in strings, comments, names and map keys', () => {
+      expect(findCypherWriteClause('MATCH (n) WHERE n.name = "CREATE" RETURN n')).toBeNull();
+      expect(findCypherWriteClause('MATCH (n) // DELETE n\nRETURN n')).toBeNull();
+      expect(findCypherWriteClause('MATCH (n) /* SET */ RETURN n.set, n.`delete`')).toBeNull();
+      expect(findCypherWriteClause('MATCH (n:Set) RETURN {merge: n.create} AS m')).toBeNull();
+      expect(findCypherWriteClause('MATCH (n) WHERE n.id = $create RETURN n')).toBeNull();
+    });
+  });
+
+  describe('findGremlinWriteStep', () => {
+    it('should allow read traversals', () => {
+      expect(findGremlinWriteStep("g.V().hasLabel('person').out('knows').values('name')")).toBeNull();
+      expect(findGremlinWriteStep('g.V().properties().count()')).toBeNull();
+    });
+
+    it('should detect mutating steps', () => {
+      expect(findGremlinWriteStep("g.addV('person')")).toBe('addV');
+      expect(findGremlinWriteStep("g.V(1).addE('knows').to(__.V(2))")).toBe('addE');
+      expect(findGremlinWriteStep("g.V(1).property('name', 'x')")).toBe('property');
+      expect(findGremlinWriteStep('g.V().drop()')).toBe('drop');
+      expect(findGremlinWriteStep("g.mergeV([name: 'x'])")).toBe('mergeV');
+      expect(findGremlinWriteStep("g.V().sideEffect(__.drop())")).toBe('drop');
+    });
+
+    it('should detect calls of provider services', () => {
+      expect(findGremlinWriteStep("g.call('tinker.search', [search: 'x'])")).toBe('call');
+      expect(findGremlinWriteStep("g.V().call('tinker.degree.centrality')")).toBe('call');
+    });
+
+    it('should ignore step names in strings', () => {
+      expect(findGremlinWriteStep("g.V().has('name', 'drop()')")).toBeNull();
+    });
+  });
+
+  describe('assertReadOnly', () => {
+    it('should throw a ReadOnlyViolationError naming the clause', () => {
+      expect(() => assertReadOnly('CREATE (n)', 'cypher')).toThrow(ReadOnlyViolationError);
+      expect(() => assertReadOnly('CREATE (n)', 'cypher')).toThrow('Cypher CREATE clause');
+      expect(() => assertReadOnly('g.V().drop()', 'gremlin')).toThrow('Gremlin drop() step');
+    });
+
+    it('should accept read queries', () => {
+      expect(() => assertReadOnly('MATCH (n) RETURN n', 'cypher')).not.toThrow();
+      expect(() => assertReadOnly('g.V().count()', 'gremlin')).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../src/services/puppygraph', () => {
+  return {
+    PuppyGraphService: vi.fn().mockImplementation((config: any) => ({
+      name: config.name,
+      getConnectionStatus: vi.fn().mockReturnValue({
+        connected: config.name === 'prod',
+        health: {
+          neo4j: { state: config.name === 'prod' ? 'healthy' : 'down' },
+          gremlin: { state: config.name === 'prod' ? 'degraded' : 'connecting' },
+        },
+      }),
+      startHealthMonitoring: vi.fn(),
+      getEndpoints: vi.fn().mockReturnValue({
+        neo4j_url: config.neo4j.url,
+        neo4j_database: 'default',
+        gremlin_url: config.gremlin.url,
+        schema_url: config.schema.url,
+      }),
+      close: vi.fn().mockResolvedValue(undefined),
+    })),
+  };
+});
+
+vi.mock('../../src/utils/config', () => {
+  const instance = (name: string) => ({
+    name,
+    neo4j: { url: `bolt://${name}:7687`, username: 'neo4j', password: 'password', database: '' },
+    gremlin: { url: `ws://${name}:8182/gremlin`, username: 'puppygraph', password: 'puppygraph123', traversalSource: 'g' },
+    schema: { url: `http://${name}:8081/schemajson`, username: 'puppygraph', password: 'puppygraph123' },
+  });
+  const instances = [instance('dev'), instance('prod')];
+
+  return {
+    loadConfig: vi.fn().mockReturnValue({
+      neo4j: instances[1].neo4j,
+      gremlin: instances[1].gremlin,
+      schema: instances[1].schema,
+      defaultInstance: 'prod',
+      instances,
+      healthCheckIntervalMs: 30000,
+      reconnectInitialDelayMs: 1000,
+      reconnectMaxDelayMs: 60000,
+    }),
+  };
+});
+
+import { PuppyGraphServiceRegistry } from '../../src/services/registry.js';
+import { loadConfig } from '../../src/utils/config';
+
+describe('PuppyGraphServiceRegistry', () => {
+  let registry: PuppyGraphServiceRegistry;
+
+  beforeEach(() => {
+    registry = new PuppyGraphServiceRegistry(loadConfig());
+  });
+
+  it('should create one service per configured instance', () => {
+    expect(registry.getInstanceNames()).toEqual(['dev', 'prod']);
+    expect(registry.get('dev').name).toBe('dev');
+    expect(registry.get('prod').name).toBe('prod');
+  });
+
+  it('should return the default instance when no name is given', () => {
+    expect(registry.getDefaultInstanceName()).toBe('prod');
+    expect(registry.get().name).toBe('prod');
+  });
+
+  it('should throw for unknown instances', () => {
+    expect(() => registry.get('staging')).toThrow('Unknown PuppyGraph instance "staging". Configured instances: dev, prod');
+  });
+
+  it('should list instances with their endpoints and connection state', () => {
+    expect(registry.listInstances()).toEqual([
+      {
+        name: 'dev',
+        default: false,
+        connected: false,
+        neo4j_state: 'down',
+        gremlin_state: 'connecting',
+        neo4j_url: 'bolt://dev:7687',
+        neo4j_database: 'default',
+        gremlin_url: 'ws://dev:8182/gremlin',
+        schema_url: 'http://dev:8081/schemajson',
+      },
+      {
+        name: 'prod',
+        default: true,
+        connected: true,
+        neo4j_state: 'healthy',
+        gremlin_state: 'degraded',
+        neo4j_url: 'bolt://prod:7687',
+        neo4j_database: 'default',
+        gremlin_url: 'ws://prod:8182/gremlin',
+        schema_url: 'http://prod:8081/schemajson',
+      },
+    ]);
+  });
+
+  it('should start health monitoring of every service', () => {
+    registry.startHealthMonitoring();
+
+    for (const name of registry.getInstanceNames()) {
+      expect(registry.get(name).startHealthMonitoring).toHaveBeenCalledWith({
+        intervalMs: 30000,
+        initialDelayMs: 1000,
+        maxDelayMs: 60000,
+      });
+    }
+  });
+
+  it('should close every service', async () => {
+    await registry.close();
+
+    for (const name of registry.getInstanceNames()) {
+      expect(registry.get(name).close).toHaveBeenCalled();
+    }
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { buildSampleQuery, labelKind, summarizeProperties, valueType } from '../../src/utils/sample';
+import { parseGremlin } from '../../src/utils/gremlin-parser';
+import type { GraphSchema } from '../../src/utils/schema-model';
+
+const schema: GraphSchema = {
+  catalogs: [],
+  vertices: [{
+    label: 'person',
+    id: [],
+    properties: [{ name: 'name', type: 'String', column: 'name' }, { name: 'age', type: 'Int', column: 'age' }]
+  }],
+  edges: [{ label: 'knows', from: 'person', to: 'person', id: [], from_id: [], to_id: [], properties: [] }]
+};
+
+describe('labelKind', () => {
+  it('should find vertex and edge labels in the schema', () => {
+    expect(labelKind('person', schema)).toBe('vertex');
+    expect(labelKind('knows', schema)).toBe('edge');
+  });
+
+  it('should suggest similar labels for unknown ones', () => {
+    expect(() => labelKind('persn', schema)).toThrow('Unknown label "persn" (did you mean "person"?)');
+    expect(() => labelKind('software', schema)).toThrow(/^Unknown label "software"$/);
+  });
+});
+
+describe('buildSampleQuery', () => {
+  it('should build limited Cypher queries', () => {
+    expect(buildSampleQuery('person', 'vertex', 'cypher', 10).query).toBe('MATCH (e:person) RETURN e AS element LIMIT 10');
+    expect(buildSampleQuery('works at', 'edge', 'cypher', 5).query).toBe('MATCH ()-[e:`works at`]->() RETURN e AS element LIMIT 5');
+  });
+
+  it('should build limited Gremlin traversals', () => {
+    const vertices = buildSampleQuery('person', 'vertex', 'gremlin', 10).query;
+    expect(vertices).toBe("g.V().hasLabel('person').limit(10).project('element').by()");
+    expect(buildSampleQuery('knows', 'edge', 'gremlin', 5).query).toBe("g.E().hasLabel('knows').limit(5).project('element').by()");
+    expect(() => parseGremlin(vertices)).not.toThrow();
+  });
+});
+
+describe('summarizeProperties', () => {
+  it('should name value types', () => {
+    expect([1, 1.5, 'a', true, [1], { a: 1 }, null].map(valueType)).toEqual(
+      ['integer', 'float', 'string', 'boolean', 'list', 'map', 'null']
+    );
+  });
+
+  it('should count observed keys and types, listing schema properties first', () => {
+    const elements = [
+      { id: 1, labels: ['person'], properties: { nickname: 'm', age: 29 } },
+      { id: 2, labels: ['person'], properties: { age: '27', name: null } }
+    ];
+
+    expect(summarizeProperties(elements, schema.vertices[0].properties)).toEqual([
+      { key: 'name', count: 0, types: [], schema_type: 'String' },
+      { key: 'age', count: 2, types: ['integer', 'string'], schema_type: 'Int' },
+      { key: 'nickname', count: 1, types: ['string'] }
+    ]);
+  });
+});
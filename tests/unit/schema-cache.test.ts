@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SchemaCache } from '../../src/utils/schema-cache';
+
+/** Lets a background reload settle */
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('SchemaCache', () => {
+  let now: number;
+  let load: ReturnType<typeof vi.fn>;
+  let cache: SchemaCache<number>;
+
+  beforeEach(() => {
+    now = 0;
+    let version = 0;
+    load = vi.fn().mockImplementation(async () => ++version);
+    cache = new SchemaCache(load, 1000, () => now);
+  });
+
+  it('should load the value on the first request and serve it from the cache while fresh', async () => {
+    expect(await cache.get()).toEqual({ value: 1, fetched_at: new Date(0).toISOString(), age_ms: 0, stale: false });
+
+    now = 500;
+    expect(await cache.get()).toMatchObject({ value: 1, age_ms: 500, stale: false });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve a stale value while reloading it in the background', async () => {
+    await cache.get();
+
+    now = 1500;
+    expect(await cache.get()).toMatchObject({ value: 1, age_ms: 1500, stale: true });
+    await settle();
+    expect(await cache.get()).toMatchObject({ value: 2, age_ms: 0, stale: false });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep serving the stale value with the error when reloading fails', async () => {
+    await cache.get();
+    load.mockRejectedValue(new Error('Schema endpoint unavailable'));
+
+    now = 1500;
+    await cache.get();
+    await settle();
+    expect(await cache.get()).toMatchObject({ value: 1, stale: true, refresh_error: 'Schema endpoint unavailable' });
+  });
+
+  it('should reload on an explicit refresh, falling back to the cached value on failure', async () => {
+    await cache.get();
+    expect(await cache.get({ refresh: true })).toMatchObject({ value: 2, stale: false });
+
+    load.mockRejectedValueOnce(new Error('Schema endpoint unavailable'));
+    expect(await cache.get({ refresh: true })).toMatchObject({ value: 2, refresh_error: 'Schema endpoint unavailable' });
+  });
+
+  it('should throw the load error when there is no value to fall back to', async () => {
+    load.mockRejectedValueOnce(new Error('Schema endpoint unavailable'));
+
+    await expect(cache.get()).rejects.toThrow('Schema endpoint unavailable');
+    expect(await cache.get()).toMatchObject({ value: 1 });
+  });
+
+  it('should share a pending load between concurrent requests', async () => {
+    const [first, second] = await Promise.all([cache.get(), cache.get()]);
+
+    expect(first.value).toBe(1);
+    expect(second.value).toBe(1);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should load the value again after it was invalidated', async () => {
+    await cache.get();
+    cache.invalidate();
+
+    expect(await cache.get()).toMatchObject({ value: 2 });
+  });
+
+  it('should discard a load that was pending when the value was invalidated', async () => {
+    let resolveLoad!: (value: number) => void;
+    load.mockImplementationOnce(() => new Promise<number>(resolve => (resolveLoad = resolve)));
+
+    const pending = cache.get();
+    cache.invalidate();
+    resolveLoad(41);
+    expect(await pending).toMatchObject({ value: 41 });
+
+    expect(await cache.get()).toMatchObject({ value: 1 });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should start loads with the loader of the request, and share them with later requests', async () => {
+    const requestLoad = vi.fn().mockResolvedValue(7);
+
+    const [first, second] = await Promise.all([cache.get({ load: requestLoad }), cache.get({ load: async () => 8 })]);
+
+    expect(first.value).toBe(7);
+    expect(second.value).toBe(7);
+    expect(requestLoad).toHaveBeenCalledTimes(1);
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it('should load the value on every request when the time to live is 0', async () => {
+    cache = new SchemaCache(load, 0, () => now);
+
+    expect(await cache.get()).toMatchObject({ value: 1, stale: false });
+    expect(await cache.get()).toMatchObject({ value: 2, stale: false });
+  });
+});
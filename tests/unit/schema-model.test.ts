@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { parseSchema, SchemaValidationError } from '../../src/utils/schema-model';
+
+describe('Schema Model', () => {
+  it('should parse schemas in the current layout', () => {
+    const schema = parseSchema({
+      catalogs: [{ name: 'pg', type: 'postgresql', jdbc: { username: 'admin', password: 'secret' } }],
+      graph: {
+        vertices: [
+          {
+            label: 'person',
+            oneToOne: {
+              tableSource: { catalog: 'pg', schema: 'public', table: 'people' },
+              id: { fields: [{ type: 'String', field: 'person_id', alias: 'id' }] },
+              attributes: [{ type: 'Int', field: 'age_years', alias: 'age' }],
+            },
+          },
+        ],
+        edges: [
+          {
+            label: 'knows',
+            fromVertex: 'person',
+            toVertex: 'person',
+            tableSource: { catalog: 'pg', schema: 'public', table: 'friendships' },
+            id: { fields: [{ type: 'String', field: 'friendship_id', alias: 'id' }] },
+            fromId: { fields: [{ type: 'String', field: 'from_person', alias: 'from' }] },
+            toId: { fields: [{ type: 'String', field: 'to_person', alias: 'to' }] },
+            attributes: [{ type: 'Date', field: 'since', alias: 'since' }],
+          },
+        ],
+      },
+    });
+
+    expect(schema).toEqual({
+      catalogs: [{ name: 'pg', type: 'postgresql' }],
+      vertices: [
+        {
+          label: 'person',
+          source: { catalog: 'pg', schema: 'public', table: 'people' },
+          id: [{ name: 'id', type: 'String', column: 'person_id' }],
+          properties: [{ name: 'age', type: 'Int', column: 'age_years' }],
+        },
+      ],
+      edges: [
+        {
+          label: 'knows',
+          from: 'person',
+          to: 'person',
+          source: { catalog: 'pg', schema: 'public', table: 'friendships' },
+          id: [{ name: 'id', type: 'String', column: 'friendship_id' }],
+          from_id: [{ name: 'from', type: 'String', column: 'from_person' }],
+          to_id: [{ name: 'to', type: 'String', column: 'to_person' }],
+          properties: [{ name: 'since', type: 'Date', column: 'since' }],
+        },
+      ],
+    });
+  });
+
+  it('should parse schemas in the mapped table source layout', () => {
+    const schema = parseSchema({
+      graph: {
+        vertices: [
+          {
+            label: 'person',
+            mappedTableSource: { catalog: 'pg', table: 'people', metaFields: { id: 'id' } },
+            attributes: [{ type: 'String', name: 'name' }],
+          },
+        ],
+        edges: [
+          {
+            label: 'knows',
+            from: 'person',
+            to: 'person',
+            mappedTableSource: { catalog: 'pg', table: 'knows', metaFields: { id: 'id', from: 'src', to: 'dst' } },
+          },
+        ],
+      },
+    });
+
+    expect(schema.catalogs).toEqual([]);
+    expect(schema.vertices[0]).toEqual({
+      label: 'person',
+      source: { catalog: 'pg', table: 'people' },
+      id: [{ name: 'id', type: 'Unknown', column: 'id' }],
+      properties: [{ name: 'name', type: 'String', column: 'name' }],
+    });
+    expect(schema.edges[0]).toMatchObject({
+      from_id: [{ name: 'src', column: 'src' }],
+      to_id: [{ name: 'dst', column: 'dst' }],
+      properties: [],
+    });
+  });
+
+  it('should reject documents that are not PuppyGraph schemas', () => {
+    expect(() => parseSchema({ nodes: [] })).toThrow(SchemaValidationError);
+    expect(() => parseSchema({ graph: { vertices: [{ oneToOne: {} }] } })).toThrow(
+      'Invalid PuppyGraph schema: graph.vertices.0.label: Required'
+    );
+    expect(() => parseSchema({ graph: { edges: [{ label: 'knows' }] } })).toThrow(
+      'Edge needs fromVertex and toVertex labels'
+    );
+  });
+
+  it('should reject edges between unknown vertex labels', () => {
+    expect(() => parseSchema({
+      graph: { vertices: [{ label: 'person' }], edges: [{ label: 'created', fromVertex: 'person', toVertex: 'software' }] },
+    })).toThrow('Edge "created" references unknown vertex label "software"');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { findSchemaIssues, SchemaMismatchError, suggestNames } from '../../src/utils/schema-validation';
+import { GraphSchema } from '../../src/utils/schema-model';
+
+const property = (name: string) => ({ name, type: 'String', column: name });
+
+const schema: GraphSchema = {
+  catalogs: [],
+  vertices: [
+    { label: 'person', id: [], properties: [property('name'), property('age')] },
+    { label: 'software', id: [], properties: [property('name'), property('lang')] }
+  ],
+  edges: [
+    { label: 'knows', from: 'person', to: 'person', id: [], from_id: [], to_id: [], properties: [property('weight')] },
+    { label: 'created', from: 'person', to: 'software', id: [], from_id: [], to_id: [], properties: [property('weight')] }
+  ]
+};
+
+const names = (query: string, language: 'gremlin' | 'cypher') =>
+  findSchemaIssues(query, language, schema).map(issue => `${issue.kind}:${issue.name}`);
+
+describe('suggestNames', () => {
+  it('should suggest close names, closest first', () => {
+    expect(suggestNames('persn', ['person', 'software', 'personal'])).toEqual(['person']);
+    expect(suggestNames('Person', ['person', 'software'])).toEqual(['person']);
+    expect(suggestNames('xyz', ['person', 'software'])).toEqual([]);
+  });
+});
+
+describe('findSchemaIssues', () => {
+  describe('Gremlin', () => {
+    it('should accept traversals that only use known names', () => {
+      expect(names("g.V().hasLabel('person').has('age', gt(30)).out('created').values('lang')", 'gremlin')).toEqual([]);
+      expect(names("g.E().hasLabel('knows').has('weight', 0.5).inV().values('name')", 'gremlin')).toEqual([]);
+    });
+
+    it('should report unknown vertex and edge labels with suggestions', () => {
+      const issues = findSchemaIssues("g.V().hasLabel('persn').out('knowz')", 'gremlin', schema);
+
+      expect(issues).toEqual([
+        { kind: 'vertex_label', name: 'persn', suggestions: ['person'], message: 'Unknown vertex label "persn" (did you mean "person"?)' },
+        { kind: 'edge_label', name: 'knowz', suggestions: ['knows'], message: 'Unknown edge label "knowz" (did you mean "knows"?)' }
+      ]);
+    });
+
+    it('should check property keys against the labels the traversal is on', () => {
+      expect(names("g.V().hasLabel('person').values('lang')", 'gremlin')).toEqual(['property:lang']);
+      expect(names("g.V().has('person', 'nme', 'marko')", 'gremlin')).toEqual(['property:nme']);
+      expect(names("g.V().hasLabel('person').out('created').values('lang')", 'gremlin')).toEqual([]);
+      expect(names("g.V().hasLabel('person').outE('knows').has('age', 3)", 'gremlin')).toEqual(['property:age']);
+    });
+
+    it('should check labels inside predicates and anonymous traversals', () => {
+      expect(names("g.V().hasLabel(within('person', 'sofware'))", 'gremlin')).toEqual(['vertex_label:sofware']);
+      expect(names("g.V().where(__.out('likes')).order().by('agee')", 'gremlin')).toEqual(['edge_label:likes', 'property:agee']);
+    });
+
+    it('should not check bindings, or traversals that cannot be parsed', () => {
+      expect(names("g.V().hasLabel(label).values(key)", 'gremlin')).toEqual([]);
+      expect(names("g.V().hasLabel('persn'", 'gremlin')).toEqual([]);
+    });
+  });
+
+  describe('Cypher', () => {
+    it('should accept queries that only use known names', () => {
+      expect(names("MATCH (p:person)-[r:knows]->(f:person) WHERE p.age > 30 RETURN f.name, r.weight, count(p)", 'cypher')).toEqual([]);
+    });
+
+    it('should report unknown labels, relationship types and properties', () => {
+      const issues = findSchemaIssues("MATCH (p:Persn {nam: 'x'})-[:KNOWS|created]->(s:software) RETURN s.langg", 'cypher', schema);
+
+      expect(issues.map(issue => issue.message)).toEqual([
+        'Unknown vertex label "Persn" (did you mean "person"?)',
+        'Unknown property "nam" (did you mean "name"?)',
+        'Unknown edge label "KNOWS" (did you mean "knows"?)',
+        'Unknown property "langg" on software (did you mean "lang"?)'
+      ]);
+    });
+
+    it('should check label predicates and properties of variables bound elsewhere', () => {
+      expect(names("MATCH (p) WHERE p:persn AND p.weight > 1 RETURN p", 'cypher')).toEqual(['vertex_label:persn', 'property:weight']);
+    });
+
+    it('should ignore names in strings, comments, parameters and function namespaces', () => {
+      expect(names("MATCH (p:person) // (x:Nope)\nWHERE p.name = '(q:Nope)' AND $map.key = 1 RETURN apoc.coll.sum([1])", 'cypher')).toEqual([]);
+    });
+  });
+
+  it('should describe the issues in SchemaMismatchError', () => {
+    const error = new SchemaMismatchError(findSchemaIssues("g.V().hasLabel('persn')", 'gremlin', schema));
+
+    expect(error.name).toBe('SchemaMismatchError');
+    expect(error.message).toBe('Query rejected: Unknown vertex label "persn" (did you mean "person"?)');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { registerSchemaResources } from '../../src/resources/schema';
+
+const mockSchema = {
+  catalogs: [],
+  vertices: [{ label: 'person', properties: [{ name: 'name', type: 'String' }] }],
+  edges: [{ label: 'knows', from: 'person', to: 'person', properties: [] }],
+};
+
+describe('Schema Resources', () => {
+  let service: any;
+  let schemaListener: (() => void) | null;
+  let client: Client;
+  let server: McpServer;
+
+  beforeEach(async () => {
+    schemaListener = null;
+    service = {
+      getCachedDataSources: vi.fn().mockResolvedValue({
+        summary: 'PuppyGraph Schema Information',
+        schema: mockSchema,
+        cache: { fetched_at: '2024-01-01T00:00:00.000Z', age_ms: 0, stale: false },
+      }),
+      onSchemaChange: vi.fn().mockImplementation((listener: () => void) => {
+        schemaListener = listener;
+        return vi.fn();
+      }),
+    };
+
+    server = new McpServer({ name: 'test', version: '1.0.0' });
+    registerSchemaResources(server, { get: () => service } as any);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should list the full schema resource', async () => {
+    const { resources } = await client.listResources();
+
+    expect(resources.map(resource => resource.uri)).toEqual([
+      'puppygraph://schema',
+      'puppygraph://schema/vertex/person',
+      'puppygraph://schema/edge/knows',
+    ]);
+  });
+
+  it('should list the vertex and edge resource templates', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map(template => template.uriTemplate)).toEqual([
+      'puppygraph://schema/vertex/{label}',
+      'puppygraph://schema/edge/{label}',
+    ]);
+  });
+
+  it('should read the full schema', async () => {
+    const result = await client.readResource({ uri: 'puppygraph://schema' });
+
+    expect(JSON.parse(result.contents[0].text as string).schema).toEqual(mockSchema);
+  });
+
+  it('should read a single label definition', async () => {
+    const result = await client.readResource({ uri: 'puppygraph://schema/edge/knows' });
+
+    expect(JSON.parse(result.contents[0].text as string)).toEqual({
+      kind: 'edge',
+      label: 'knows',
+      definition: mockSchema.edges[0],
+    });
+  });
+
+  it('should find labels in raw schema documents that did not match the model', async () => {
+    service.getCachedDataSources.mockResolvedValue({
+      schema: { graph: { vertices: [{ label: 'person' }], edges: [] } },
+      validation_error: 'graph.vertices.0.oneToOne: Required',
+    });
+
+    const { resources } = await client.listResources();
+
+    expect(resources.map(resource => resource.uri)).toEqual(['puppygraph://schema', 'puppygraph://schema/vertex/person']);
+  });
+
+  it('should fail for unknown labels', async () => {
+    await expect(client.readResource({ uri: 'puppygraph://schema/vertex/movie' })).rejects.toThrow(
+      'Vertex label "movie" not found in schema'
+    );
+  });
+
+  it('should list no label resources when no schema is available', async () => {
+    service.getCachedDataSources.mockResolvedValue({ summary: 'Graph Structure Information', source: 'Neo4j Database Queries' });
+
+    const { resources } = await client.listResources();
+
+    expect(resources.map(resource => resource.uri)).toEqual(['puppygraph://schema']);
+  });
+
+  it('should list labels without falling back to graph statistics', async () => {
+    service.getCachedDataSources.mockRejectedValue(new Error('Schema endpoint failed'));
+
+    const { resources } = await client.listResources();
+
+    expect(resources.map(resource => resource.uri)).toEqual(['puppygraph://schema']);
+    expect(service.getCachedDataSources).toHaveBeenCalledWith({ statistics: false });
+  });
+
+  it('should notify clients when the schema changes', async () => {
+    const notified = new Promise<void>(resolve => {
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => resolve());
+    });
+
+    schemaListener!();
+
+    await expect(notified).resolves.toBeUndefined();
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { fetchSchemaFromEndpoint, SchemaConfig } from '../../src/utils/schema';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Agent } from 'undici';
+import { fetchSchemaFromEndpoint, findSchemaElement, getSchemaElements, SchemaConfig } from '../../src/utils/schema';
 
 // Mock fetch
 const mockFetch = vi.fn();
@@ -61,10 +65,68 @@ describe('Schema Utilities', () => {
       await expect(fetchSchemaFromEndpoint(mockConfig)).rejects.toThrow('HTTP error! Status: 404');
     });
 
+    it('should retry with the password read again when the endpoint rejects the credentials', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'puppygraph-schema-'));
+      const path = join(dir, 'password');
+      writeFileSync(path, 'rotated\n');
+      try {
+        const config: SchemaConfig = { ...mockConfig, passwordSource: { type: 'file', path } };
+        mockFetch
+          .mockResolvedValueOnce({ ok: false, status: 401 })
+          .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ graph: {} }) });
+
+        const result = await fetchSchemaFromEndpoint(config);
+
+        expect(result.schema).toEqual({ graph: {} });
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        expect(config.password).toBe('rotated');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should not retry rejected credentials without a password source', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 401 });
+
+      await expect(fetchSchemaFromEndpoint(mockConfig)).rejects.toThrow('HTTP error! Status: 401');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send requests through a dispatcher carrying the TLS settings', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) });
+
+      await fetchSchemaFromEndpoint({ ...mockConfig, url: 'https://localhost:8081/schemajson', tls: { insecure: true } });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://localhost:8081/schemajson',
+        expect.objectContaining({ dispatcher: expect.any(Agent) })
+      );
+    });
+
     it('should handle network errors', async () => {
       mockFetch.mockRejectedValueOnce(new Error('Network error'));
 
       await expect(fetchSchemaFromEndpoint(mockConfig)).rejects.toThrow('Network error');
     });
   });
-});
\ No newline at end of file
+
+  describe('schema element lookup', () => {
+    const schema = {
+      graph: {
+        vertices: [{ label: 'person' }, { label: 'software' }],
+        edges: [{ label: 'created', fromVertex: 'person', toVertex: 'software' }],
+      },
+    };
+
+    it('should return vertex and edge definitions', () => {
+      expect(getSchemaElements(schema, 'vertex')).toHaveLength(2);
+      expect(getSchemaElements(schema, 'edge')).toHaveLength(1);
+      expect(getSchemaElements({}, 'vertex')).toEqual([]);
+    });
+
+    it('should find definitions by label', () => {
+      expect(findSchemaElement(schema, 'edge', 'created')).toEqual(schema.graph.edges[0]);
+      expect(findSchemaElement(schema, 'vertex', 'created')).toBeUndefined();
+    });
+  });
+});
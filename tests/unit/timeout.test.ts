@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { QueryCancelledError, QueryTimeoutError, runWithTimeout } from '../../src/utils/timeout';
+
+describe('runWithTimeout', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return the result of queries that complete in time', async () => {
+    await expect(runWithTimeout(async () => [1, 2], { timeoutMs: 1000 })).resolves.toEqual([1, 2]);
+    await expect(runWithTimeout(async () => 'done', {})).resolves.toBe('done');
+  });
+
+  it('should reject and cancel queries that time out', async () => {
+    vi.useFakeTimers();
+    const cancel = vi.fn();
+
+    const query = runWithTimeout(() => new Promise(() => undefined), { timeoutMs: 500 }, cancel);
+    const assertion = expect(query).rejects.toThrow(QueryTimeoutError);
+    await vi.advanceTimersByTimeAsync(500);
+
+    await assertion;
+    await expect(query).rejects.toThrow('Query timed out after 500 ms');
+    expect(cancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject and cancel queries when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const cancel = vi.fn();
+
+    const query = runWithTimeout(() => new Promise(() => undefined), { signal: controller.signal }, cancel);
+    controller.abort();
+
+    await expect(query).rejects.toThrow(QueryCancelledError);
+    expect(cancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not start queries whose signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const run = vi.fn();
+
+    await expect(runWithTimeout(run, { signal: controller.signal })).rejects.toThrow('Query was cancelled by the client');
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should pass query errors through', async () => {
+    await expect(runWithTimeout(async () => {
+      throw new Error('Syntax error');
+    }, { timeoutMs: 1000 })).rejects.toThrow('Syntax error');
+  });
+
+  it('should report queries the server stopped at its timeout as timed out', async () => {
+    const neo4jTimeout = Object.assign(new Error('The transaction has been terminated'), {
+      code: 'Neo.ClientError.Transaction.TransactionTimedOutClientConfiguration'
+    });
+    await expect(runWithTimeout(() => Promise.reject(neo4jTimeout), { timeoutMs: 1000 })).rejects.toThrow(
+      new QueryTimeoutError(1000)
+    );
+
+    const gremlinTimeout = Object.assign(new Error('Evaluation exceeded the configured evaluationTimeout'), { statusCode: 598 });
+    const error = await runWithTimeout(() => Promise.reject(gremlinTimeout), {}).catch(e => e);
+    expect(error).toBeInstanceOf(QueryTimeoutError);
+    expect(error.message).toBe('Query timed out on the server');
+  });
+});
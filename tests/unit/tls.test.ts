@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describeTls, tlsConnectOptions, validateTlsConfig } from '../../src/utils/tls';
+
+describe('TLS settings', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'puppygraph-tls-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('validateTlsConfig', () => {
+    it('should require a certificate and key together', () => {
+      expect(() => validateTlsConfig({ certFile: 'client.pem' }, 'Gremlin')).toThrow(
+        'Gremlin TLS: a client certificate needs both a certificate file and a key file'
+      );
+      expect(() => validateTlsConfig({ keyFile: 'client.key' }, 'Gremlin')).toThrow('needs both');
+      expect(() => validateTlsConfig({ certFile: 'client.pem', keyFile: 'client.key' }, 'Gremlin')).not.toThrow();
+    });
+
+    it('should reject verification settings in insecure mode', () => {
+      expect(() => validateTlsConfig({ insecure: true, caFile: 'ca.pem' }, 'Bolt')).toThrow('Bolt TLS: insecure mode');
+      expect(() => validateTlsConfig({ insecure: true }, 'Bolt')).not.toThrow();
+    });
+  });
+
+  describe('tlsConnectOptions', () => {
+    it('should read the files and keep verification on', () => {
+      writeFileSync(join(dir, 'ca.pem'), 'CA');
+      writeFileSync(join(dir, 'client.pem'), 'CERT');
+      writeFileSync(join(dir, 'client.key'), 'KEY');
+
+      const options = tlsConnectOptions({
+        caFile: join(dir, 'ca.pem'),
+        certFile: join(dir, 'client.pem'),
+        keyFile: join(dir, 'client.key'),
+        serverName: 'puppygraph.internal'
+      });
+
+      expect(String(options.ca)).toBe('CA');
+      expect(String(options.cert)).toBe('CERT');
+      expect(String(options.key)).toBe('KEY');
+      expect(options.servername).toBe('puppygraph.internal');
+      expect(options.rejectUnauthorized).toBe(true);
+    });
+
+    it('should turn verification off in insecure mode', () => {
+      expect(tlsConnectOptions({ insecure: true })).toEqual({ rejectUnauthorized: false });
+    });
+
+    it('should name files that cannot be read', () => {
+      const path = join(dir, 'missing.pem');
+      expect(() => tlsConnectOptions({ caFile: path })).toThrow(`Cannot read TLS CA file ${path}`);
+    });
+  });
+
+  describe('describeTls', () => {
+    it('should describe the settings without file contents', () => {
+      expect(describeTls({ caFile: '/etc/ssl/ca.pem', certFile: '/etc/ssl/client.pem', keyFile: '/etc/ssl/client.key' }))
+        .toBe('CA /etc/ssl/ca.pem, client certificate /etc/ssl/client.pem');
+      expect(describeTls({ serverName: 'puppygraph.internal' })).toBe('system CAs, server name puppygraph.internal');
+      expect(describeTls({ insecure: true })).toBe('insecure, server certificate not verified');
+    });
+  });
+});
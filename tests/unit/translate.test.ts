@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { translateQuery, TranslationError } from '../../src/utils/translate';
+import { parseGremlin } from '../../src/utils/gremlin-parser';
+
+const toGremlin = (query: string) => {
+  const translated = translateQuery(query, 'cypher').query;
+  // Translations must be traversals the server accepts
+  parseGremlin(translated);
+  return translated;
+};
+
+const toCypher = (query: string) => translateQuery(query, 'gremlin').query;
+
+describe('translateQuery', () => {
+  describe('Cypher to Gremlin', () => {
+    it('should translate patterns with labels and property filters', () => {
+      expect(translateQuery("MATCH (p:person {name: 'marko'}) RETURN p", 'cypher')).toEqual({
+        source_language: 'cypher',
+        target_language: 'gremlin',
+        query: "g.V().hasLabel('person').has('name', 'marko')"
+      });
+      expect(toGremlin("MATCH (p:person)-[:created]->(s:software) RETURN s.name")).toBe(
+        "g.V().hasLabel('person').out('created').hasLabel('software').values('name')"
+      );
+      expect(toGremlin("MATCH (s)<-[:created|knows]-(p) RETURN p")).toBe("g.V().in('created', 'knows')");
+    });
+
+    it('should translate conditions into filter steps', () => {
+      expect(toGremlin(
+        "MATCH (p:person) WHERE p.age > 30 AND 40 >= p.age AND (p.name IN ['a', 'b'] OR NOT p.name CONTAINS 'x') AND p.city IS NOT NULL RETURN p"
+      )).toBe(
+        "g.V().hasLabel('person').has('age', gt(30)).has('age', lte(40))" +
+        ".or(__.has('name', within(['a', 'b'])), __.not(__.has('name', containing('x')))).has('city')"
+      );
+      expect(toGremlin("MATCH (p) WHERE id(p) = $id RETURN p")).toBe('g.V().hasId(id)');
+    });
+
+    it('should translate relationship filters and variable length relationships', () => {
+      expect(toGremlin("MATCH (a)-[r:knows {since: 2010}]-(b) WHERE r.weight < 0.5 RETURN b")).toBe(
+        "g.V().bothE('knows').has('since', 2010).has('weight', lt(0.5)).otherV()"
+      );
+      expect(toGremlin("MATCH (a)-[:knows*2]->(b) RETURN b")).toBe("g.V().repeat(__.out('knows')).times(2)");
+      expect(toGremlin("MATCH (a)-[:knows*1..3]->(b) RETURN b")).toBe("g.V().repeat(__.out('knows')).emit().times(3)");
+      expect(toGremlin("MATCH (a)-[:knows*0..3]->(b) RETURN b")).toBe("g.V().emit().repeat(__.out('knows')).times(3)");
+    });
+
+    it('should project several variables with select', () => {
+      expect(toGremlin(
+        "MATCH (p:person)-[r:created]->(s) RETURN DISTINCT p.name AS person, s, r.weight ORDER BY person DESC SKIP 10 LIMIT 5"
+      )).toBe(
+        "g.V().hasLabel('person').as('p').outE('created').as('r').inV().as('s')" +
+        ".order().by(__.select('p').values('name'), desc)" +
+        ".project('person', 's', 'r.weight').by(__.select('p').values('name')).by(__.select('s')).by(__.select('r').values('weight'))" +
+        ".dedup().range(10, 15)"
+      );
+    });
+
+    it('should translate counts', () => {
+      expect(toGremlin("MATCH (p:person) RETURN count(*)")).toBe("g.V().hasLabel('person').count()");
+      expect(toGremlin("MATCH (p)-->(q) RETURN count(DISTINCT q.name)")).toBe("g.V().out().values('name').dedup().count()");
+    });
+
+    it('should reject queries outside the translatable subset', () => {
+      expect(() => toGremlin("MATCH (a)-->(b) WHERE a.x = b.x RETURN a")).toThrow(TranslationError);
+      expect(() => toGremlin("MATCH (a)-[:x*]->(b) RETURN b")).toThrow('need an upper bound');
+      expect(() => toGremlin("MATCH (a)-->(a) RETURN a")).toThrow('used twice');
+      expect(() => toGremlin("MATCH (a:A:B) RETURN a")).toThrow('several labels');
+      expect(() => toGremlin("MATCH (a) RETURN a.name, count(*)")).toThrow('count() can only be returned on its own');
+    });
+  });
+
+  describe('Gremlin to Cypher', () => {
+    it('should translate traversals into a pattern', () => {
+      expect(translateQuery("g.V().hasLabel('person').out('knows').values('name')", 'gremlin')).toEqual({
+        source_language: 'gremlin',
+        target_language: 'cypher',
+        query: 'MATCH (n0:person)-[:knows]->(n1) RETURN n1.name'
+      });
+      expect(toCypher("g.V(1).in('created', 'likes').both()")).toBe(
+        'MATCH (n0)<-[:created|likes]-(n1)--(n2) WHERE id(n0) = 1 RETURN n2'
+      );
+    });
+
+    it('should translate filters into conditions', () => {
+      expect(toCypher(
+        "g.V().has('person', 'age', between(20, 30)).has('name', startingWith(prefix)).hasNot('email')" +
+        ".or(has('city', 'Oslo'), has('city', within('Bergen', 'Tromsø'))).values('name').is(neq('x'))"
+      )).toBe(
+        "MATCH (n0:person) WHERE n0.age >= 20 AND n0.age < 30 AND n0.name STARTS WITH $prefix AND n0.email IS NULL" +
+        " AND (n0.city = 'Oslo' OR n0.city IN ['Bergen', 'Tromsø']) AND n0.name <> 'x' RETURN n0.name"
+      );
+      expect(toCypher("g.V().not(__.has('age', P.between(20, 30)))")).toBe(
+        'MATCH (n0) WHERE NOT (n0.age >= 20 AND n0.age < 30) RETURN n0'
+      );
+    });
+
+    it('should translate edge steps and as() labels', () => {
+      expect(toCypher(
+        "g.V().hasLabel('person').as('a').outE('created').has('weight', gt(0.4)).inV().as('b').select('a', 'b').by('name').by(id)"
+      )).toBe('MATCH (a:person)-[r2:created]->(b) WHERE r2.weight > 0.4 RETURN a.name AS a, id(b) AS b');
+      expect(toCypher("g.E().hasLabel('knows').outV().valueMap('name')")).toBe(
+        'MATCH (n0)-[r1:knows]->(n2) RETURN n0 {.name}'
+      );
+      expect(toCypher("g.V().hasLabel('person').valueMap().as('x')")).toBe('MATCH (x:person) RETURN properties(x)');
+      expect(toCypher("g.V().hasLabel('person').elementMap().as('x')")).toBe('MATCH (x:person) RETURN x');
+    });
+
+    it('should apply by() modulators to the keys round-robin', () => {
+      expect(toCypher("g.V().as('a').out('knows').as('b').select('a', 'b').by('name')")).toBe(
+        'MATCH (a)-[:knows]->(b) RETURN a.name AS a, b.name AS b'
+      );
+      expect(toCypher("g.V().project('a', 'b', 'c').by('name').by(id)")).toBe(
+        'MATCH (n0) RETURN n0.name AS a, id(n0) AS b, n0.name AS c'
+      );
+      expect(() => toCypher("g.V().project('a').by('name').by('age')")).toThrow('at most one by() per key');
+    });
+
+    it('should translate repeat() into variable length relationships and path() into a path variable', () => {
+      expect(toCypher("g.V().repeat(out('knows')).times(2)")).toBe('MATCH (n0)-[:knows*2]->(n1) RETURN n1');
+      expect(toCypher("g.V().emit().repeat(both()).times(3).path()")).toBe('MATCH p = (n0)-[*0..3]-(n1) RETURN p');
+      expect(toCypher("g.V().repeat(__.in('x')).emit().times(3)")).toBe('MATCH (n0)<-[:x*1..3]-(n1) RETURN n1');
+    });
+
+    it('should translate ordering, deduplication, paging and counts', () => {
+      expect(toCypher("g.V().hasLabel('person').order().by('age', desc).by('name').range(10, 20).project('n', 'a').by('name').by('age')")).toBe(
+        'MATCH (n0:person) RETURN n0.name AS n, n0.age AS a ORDER BY n0.age DESC, n0.name SKIP 10 LIMIT 10'
+      );
+      expect(toCypher("g.V().values('name').dedup().order().limit(3)")).toBe(
+        'MATCH (n0) RETURN DISTINCT n0.name ORDER BY n0.name LIMIT 3'
+      );
+      expect(toCypher("g.V().out().dedup().count()")).toBe('MATCH (n0)-->(n1) RETURN count(DISTINCT n1)');
+    });
+
+    it('should reject traversals outside the translatable subset', () => {
+      expect(() => toCypher("g.V().group().by('name')")).toThrow('the Gremlin group() step cannot be translated to Cypher');
+      expect(() => toCypher("g.V().repeat(out()).until(has('name', 'x'))")).toThrow('repeat() needs times()');
+      expect(() => toCypher("g.V().limit(5).out()")).toThrow('out() cannot follow');
+      expect(() => toCypher("g.V().values('name').out()")).toThrow('out() cannot follow a step that returns values');
+      expect(() => toCypher("g.inject(1)")).toThrow('traversals must start with V() or E()');
+      expect(() => toCypher("g.V().where(out('knows').count().is(gt(2)))")).toThrow(
+        'where() can only contain has(), hasLabel(), hasId(), hasNot() and nested and(), or() and not() steps'
+      );
+    });
+  });
+});
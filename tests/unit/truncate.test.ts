@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { truncateResult } from '../../src/utils/truncate';
+
+function resultOf(data: any[]) {
+  return { data, metadata: { execution_time: 5, row_count: data.length } };
+}
+
+describe('truncateResult', () => {
+  const rows = Array.from({ length: 100 }, (_, i) => ({ id: i, name: `person ${i}` }));
+
+  it('should return results within the budget unchanged', () => {
+    const result = resultOf(rows);
+
+    expect(truncateResult(result, 100000)).toBe(result);
+    expect(truncateResult(result, 0)).toBe(result);
+  });
+
+  it('should drop rows to fit the budget and report what was omitted', () => {
+    const truncated = truncateResult(resultOf(rows), 2000);
+
+    expect(JSON.stringify(truncated, null, 2).length).toBeLessThanOrEqual(2000);
+    expect(truncated.data).toEqual(rows.slice(0, truncated.data.length));
+    expect(truncated.metadata).toMatchObject({
+      execution_time: 5,
+      row_count: truncated.data.length,
+      truncated: true,
+      truncation: {
+        budget_chars: 2000,
+        total_rows: 100,
+        returned_rows: truncated.data.length,
+        omitted_rows: 100 - truncated.data.length,
+        shortened_strings: 0,
+        collapsed_values: 0,
+      },
+    });
+    expect(truncated.data.length).toBeGreaterThan(0);
+  });
+
+  it('should shorten long strings and collapse deep nesting', () => {
+    const row = {
+      text: 'x'.repeat(1000),
+      nested: { a: { b: { c: { d: 1 } }, list: [[[[1, 2, 3]]]] } },
+    };
+
+    const truncated: any = truncateResult(resultOf([row]), 1000);
+
+    expect(truncated.data[0].text).toBe(`${'x'.repeat(200)}… (800 more characters)`);
+    expect(truncated.data[0].nested.a.b.c).toBe('[object with 1 keys]');
+    expect(truncated.data[0].nested.a.list[0]).toBe('[array of 1 items]');
+    expect(truncated.metadata.truncation).toMatchObject({
+      returned_rows: 1,
+      omitted_rows: 0,
+      shortened_strings: 1,
+      collapsed_values: 2,
+    });
+  });
+
+  it('should measure the result with the given serializer', () => {
+    const compact = (value: any) => JSON.stringify(value);
+    const budget = JSON.stringify(resultOf(rows)).length;
+
+    expect(truncateResult(resultOf(rows), budget, compact).metadata).not.toHaveProperty('truncated');
+    expect(truncateResult(resultOf(rows), budget).metadata).toHaveProperty('truncated', true);
+  });
+});